@@ -4,6 +4,7 @@ import HomePage from './pages/HomePage';
 import CheckoutPage from './pages/CheckoutPage';
 import TransactionsPage from './pages/TransactionsPage';
 import BalancePage from './pages/BalancePage';
+import SubscriptionPage from './pages/SubscriptionPage';
 import './App.css';
 
 function App() {
@@ -14,6 +15,7 @@ function App() {
         <nav className="app-nav">
           <Link to="/">Home</Link>
           <Link to="/checkout">Checkout</Link>
+          <Link to="/subscription">Subscription</Link>
           <Link to="/balance">Balance</Link>
           <Link to="/transactions">Transactions</Link>
         </nav>
@@ -23,6 +25,7 @@ function App() {
         <Routes>
           <Route path="/" element={<HomePage />} />
           <Route path="/checkout" element={<CheckoutPage />} />
+          <Route path="/subscription" element={<SubscriptionPage />} />
           <Route path="/balance" element={<BalancePage />} />
           <Route path="/transactions" element={<TransactionsPage />} />
         </Routes>
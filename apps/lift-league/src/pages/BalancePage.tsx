@@ -13,8 +13,8 @@ export default function BalancePage() {
           userId="demo-user-123"
           showDetails={true}
           refreshInterval={30000}
-          onBalanceLoaded={(balance) => {
-            console.log('Balance loaded:', balance);
+          onBalanceLoaded={(balances) => {
+            console.log('Balances loaded:', balances);
           }}
         />
       </div>
@@ -1,26 +1,23 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { useNavigate } from 'react-router-dom';
-import { PaymentComponent } from '@services/payment/ui';
+import { SubscriptionManager } from '@services/payment/ui';
 import '@services/payment/ui/styles.css';
 import './CheckoutPage.css';
 
 export default function CheckoutPage() {
   const navigate = useNavigate();
-  const [processing, setProcessing] = useState(false);
-  const [selectedPlan, setSelectedPlan] = useState<'monthly' | 'yearly'>('monthly');
 
   const plans = {
     monthly: {
       name: 'Monthly Premium',
       price: 9.99,
-      interval: 'month',
+      interval: 'mo',
       features: ['Advanced Analytics', 'Custom Workouts', 'Priority Support'],
     },
     yearly: {
       name: 'Yearly Premium',
       price: 99.99,
-      interval: 'year',
-      savings: 20.00,
+      interval: 'yr',
       features: [
         'Advanced Analytics',
         'Custom Workouts',
@@ -30,62 +27,49 @@ export default function CheckoutPage() {
     },
   };
 
-  const currentPlan = plans[selectedPlan];
+  // Twelve months of the monthly plan, less the yearly price
+  const yearlySavings = Math.round((plans.monthly.price * 12 - plans.yearly.price) * 100) / 100;
 
   return (
     <div className="checkout-page">
       <h1>Subscribe to Premium</h1>
 
       <div className="plan-selection">
-        <button
-          className={`plan-button ${selectedPlan === 'monthly' ? 'active' : ''}`}
-          onClick={() => setSelectedPlan('monthly')}
-        >
-          <div className="plan-name">Monthly</div>
-          <div className="plan-price">${plans.monthly.price}/mo</div>
-        </button>
-
-        <button
-          className={`plan-button ${selectedPlan === 'yearly' ? 'active' : ''}`}
-          onClick={() => setSelectedPlan('yearly')}
-        >
-          <div className="plan-name">Yearly</div>
-          <div className="plan-price">${plans.yearly.price}/yr</div>
-          {plans.yearly.savings && (
-            <div className="plan-savings">Save ${plans.yearly.savings}</div>
-          )}
-        </button>
-      </div>
-
-      <div className="plan-details">
-        <h2>{currentPlan.name}</h2>
-        <ul>
-          {currentPlan.features.map((feature, index) => (
-            <li key={index}>{feature}</li>
-          ))}
-        </ul>
+        {Object.values(plans).map((plan) => (
+          <div key={plan.name} className="plan-details">
+            <h2>{plan.name}</h2>
+            <div className="plan-price">
+              ${plan.price}/{plan.interval}
+            </div>
+            {plan === plans.yearly && yearlySavings > 0 && (
+              <div className="plan-savings">Save ${yearlySavings.toFixed(2)}</div>
+            )}
+            <ul>
+              {plan.features.map((feature, index) => (
+                <li key={index}>{feature}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
       </div>
 
       <div className="payment-section">
-        <PaymentComponent
-          payerId="demo-user-123" // In production, use actual user ID
-          payeeId="__SELF__" // Platform account
-          amount={currentPlan.price}
-          currency="USD"
-          onSuccess={(result) => {
-            console.log('Payment successful!', result);
+        {/* Plans are bought as subscriptions so they renew each period */}
+        <SubscriptionManager
+          subscriberId="demo-user-123" // In production, use actual user ID
+          paymentMethod="credit_card"
+          onSubscribed={(result) => {
+            console.log('Subscribed!', result.subscription);
             alert('Subscription activated! Thank you for your purchase.');
-            navigate('/transactions');
+            navigate('/subscription');
+          }}
+          onPlanChanged={() => {
+            navigate('/subscription');
           }}
           onError={(error) => {
-            console.error('Payment failed:', error);
+            console.error('Subscription failed:', error);
             alert('Payment failed. Please try again.');
-            setProcessing(false);
-          }}
-          onCancel={() => {
-            navigate('/');
           }}
-          availablePaymentMethods={['credit_card', 'debit_card', 'paypal']}
         />
       </div>
 
@@ -95,7 +79,7 @@ export default function CheckoutPage() {
           Secure payment processing
         </p>
         <p className="cancel-note">
-          Cancel anytime. No hidden fees.
+          Renews automatically. Cancel anytime. No hidden fees.
         </p>
       </div>
     </div>
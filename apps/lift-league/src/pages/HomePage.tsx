@@ -38,7 +38,7 @@ export default function HomePage() {
         </p>
         <ul>
           <li>
-            <Link to="/checkout">Try the payment component</Link>
+            <Link to="/checkout">Try the subscription checkout</Link>
           </li>
           <li>
             <Link to="/balance">View account balance</Link>
@@ -0,0 +1,34 @@
+import React from 'react';
+import { SubscriptionManager } from '@services/payment/ui';
+import '@services/payment/ui/styles.css';
+import './SubscriptionPage.css';
+
+export default function SubscriptionPage() {
+  return (
+    <div className="subscription-page">
+      <h1>Your Subscription</h1>
+
+      <SubscriptionManager
+        subscriberId="demo-user-123" // In production, use actual user ID
+        paymentMethod="credit_card"
+        onSubscribed={(result) => {
+          console.log('Subscribed!', result.subscription);
+        }}
+        onPlanChanged={(result) => {
+          console.log('Plan changed', result.subscription?.planId);
+        }}
+        onCancelled={(result) => {
+          console.log('Subscription cancelled', result.subscription);
+        }}
+        onError={(error) => {
+          console.error('Subscription update failed:', error);
+        }}
+      />
+
+      <p className="subscription-note">
+        Premium renews automatically. Cancel anytime and keep access until the end of the period
+        you paid for.
+      </p>
+    </div>
+  );
+}
@@ -24,6 +24,7 @@ export async function createDatabaseConnection(
  */
 class MockDatabaseConnection implements DatabaseConnection {
   private storage: Map<string, any[]> = new Map();
+  private queue: Promise<unknown> = Promise.resolve();
 
   constructor(private config: DatabaseConfig) {
     this.initializeTables();
@@ -46,6 +47,17 @@ class MockDatabaseConnection implements DatabaseConnection {
   }
 
   async query<T = any>(sql: string, params?: any[]): Promise<T> {
+    return this.execute<T>(sql, params);
+  }
+
+  /**
+   * Run a query, recording how to undo its writes when given an undo log
+   */
+  private async execute<T = any>(
+    sql: string,
+    params?: any[],
+    undo?: Array<() => void>
+  ): Promise<T> {
     console.log('Executing query:', sql, params);
 
     // Simple mock implementation
@@ -64,6 +76,10 @@ class MockDatabaseConnection implements DatabaseConnection {
       const newRow = this.createRowFromParams(sql, params);
       rows.push(newRow);
       this.storage.set(table, rows);
+      undo?.push(() => {
+        const current = this.storage.get(table) || [];
+        this.storage.set(table, current.filter(row => row !== newRow));
+      });
       return newRow as T;
     }
 
@@ -73,7 +89,13 @@ class MockDatabaseConnection implements DatabaseConnection {
       const rows = this.storage.get(table) || [];
       // Simple update - update first matching row
       if (rows.length > 0 && params) {
-        Object.assign(rows[0], this.createUpdateFromParams(sql, params));
+        const row = rows[0];
+        const previous = { ...row };
+        Object.assign(row, this.createUpdateFromParams(sql, params));
+        undo?.push(() => {
+          Object.keys(row).forEach(key => delete row[key]);
+          Object.assign(row, previous);
+        });
       }
       return rows[0] as T;
     }
@@ -81,9 +103,58 @@ class MockDatabaseConnection implements DatabaseConnection {
     return [] as T;
   }
 
+  async transaction<T>(fn: (tx: DatabaseConnection) => Promise<T>): Promise<T> {
+    // Units of work run one at a time, so one never joins or rolls back another
+    const run = this.queue.then(() => this.runUnitOfWork(fn));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Run one unit of work, undoing only its own writes if it fails
+   */
+  private async runUnitOfWork<T>(fn: (tx: DatabaseConnection) => Promise<T>): Promise<T> {
+    const undo: Array<() => void> = [];
+
+    // Nested units of work join this one through `tx`
+    const tx: DatabaseConnection = {
+      host: this.host,
+      database: this.database,
+      connect: () => this.connect(),
+      disconnect: () => this.disconnect(),
+      query: (sql, params) => this.execute(sql, params, undo),
+      transaction: inner => inner(tx),
+    };
+
+    try {
+      const result = await fn(tx);
+      console.log('Committed mock transaction');
+      return result;
+    } catch (error) {
+      undo.reverse().forEach(step => step());
+      console.log('Rolled back mock transaction');
+      throw error;
+    }
+  }
+
   private initializeTables(): void {
     this.storage.set('accounts', []);
     this.storage.set('transactions', []);
+    this.storage.set('ledger_entries', []);
+    this.storage.set('risk_audit_log', []);
+    this.storage.set('transaction_status_history', []);
+    this.storage.set('subscription_plans', []);
+    this.storage.set('subscriptions', []);
+    this.storage.set('invoices', []);
+    this.storage.set('payout_destinations', []);
+    this.storage.set('payouts', []);
+    this.storage.set('disputes', []);
+    this.storage.set('coupons', []);
+    this.storage.set('coupon_redemptions', []);
+    this.storage.set('webhook_events', []);
+    this.storage.set('webhook_endpoints', []);
+    this.storage.set('webhook_deliveries', []);
+    this.storage.set('webhook_delivery_attempts', []);
   }
 
   private extractTableName(sql: string): string {
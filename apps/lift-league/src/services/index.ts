@@ -3,12 +3,19 @@
  * Initialize all cloneable services for Lift League
  */
 
-import { PaymentService } from '@services/payment';
+import {
+  PaymentService,
+  SubscriptionService,
+  CouponService,
+  createMoney,
+} from '@services/payment';
 import { configProvider } from '@shared/config';
 import { ServiceContext } from '@shared/types';
 import { createDatabaseConnection } from './database';
 
 export let paymentService: PaymentService;
+export let subscriptionService: SubscriptionService;
+export let couponService: CouponService;
 
 /**
  * Initialize all services
@@ -50,6 +57,19 @@ export async function initializeServices(): Promise<void> {
       minTransactionAmount: 0.5,
       maxTransactionAmount: 10000,
       refundsEnabled: true,
+      escrowEnabled: true, // League prize pools hold entry fees until results are final
+      tax: {
+        enabled: true, // Premium is sold with US sales tax and UK VAT
+        rules: [
+          { jurisdiction: 'US-CA', rate: 7.25, name: 'Sales tax' },
+          { jurisdiction: 'GB', rate: 20, inclusive: true, name: 'VAT' },
+        ],
+        defaultJurisdiction: 'US-CA', // Payments through the API are taxed where the league trades
+      },
+      payouts: {
+        enabled: true, // Prize winnings can be withdrawn to a bank account
+        minAmount: 10,
+      },
       fraudDetection: {
         enabled: true,
         maxDailyAmount: 5000,
@@ -59,6 +79,45 @@ export async function initializeServices(): Promise<void> {
     context
   );
 
+  // Initialize Subscription Service for Premium plans
+  subscriptionService = new SubscriptionService(paymentService);
+  await subscriptionService.initialize(
+    {
+      plans: [
+        {
+          id: 'premium-monthly',
+          name: 'Monthly Premium',
+          price: createMoney(999, 'USD'),
+          interval: 'month',
+          trialDays: 7,
+        },
+        {
+          id: 'premium-yearly',
+          name: 'Yearly Premium',
+          price: createMoney(9999, 'USD'),
+          interval: 'year',
+        },
+      ],
+    },
+    context
+  );
+
+  // Initialize Coupon Service for Premium promo codes
+  couponService = new CouponService(paymentService);
+  await couponService.initialize(
+    {
+      coupons: [
+        {
+          code: 'LIFTYEAR',
+          percentOff: 20,
+          planIds: ['premium-yearly'],
+          maxRedemptionsPerUser: 1,
+        },
+      ],
+    },
+    context
+  );
+
   console.log('Services initialized successfully');
 }
 
@@ -71,3 +130,23 @@ export function getPaymentService(): PaymentService {
   }
   return paymentService;
 }
+
+/**
+ * Get Subscription Service instance
+ */
+export function getSubscriptionService(): SubscriptionService {
+  if (!subscriptionService) {
+    throw new Error('Subscription service not initialized');
+  }
+  return subscriptionService;
+}
+
+/**
+ * Get Coupon Service instance
+ */
+export function getCouponService(): CouponService {
+  if (!couponService) {
+    throw new Error('Coupon service not initialized');
+  }
+  return couponService;
+}
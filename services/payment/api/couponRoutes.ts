@@ -0,0 +1,177 @@
+/**
+ * Coupon API Routes
+ * REST API endpoints for promo codes and checkout
+ */
+
+import { CouponService } from '../core/CouponService';
+import { SubscriptionService } from '../core/SubscriptionService';
+import { CheckoutRequest, Money } from '../core/types';
+import { compareMoney } from '../core/money';
+import {
+  ApiRequest,
+  ApiResponse,
+  handleError,
+  invalidAmount,
+  parseMoney,
+  paymentRequestFromBody,
+} from './routes';
+
+/**
+ * Coupon API Routes
+ * Provides HTTP endpoints for pricing and paying with promo codes
+ * Purchases of a plan are priced from the Subscription Service's plans.
+ */
+export class CouponApiRoutes {
+  constructor(
+    private couponService: CouponService,
+    private subscriptionService: SubscriptionService
+  ) {}
+
+  /**
+   * POST /api/payment/coupons/apply
+   * Price a purchase with a promo code for the current user, without redeeming it
+   */
+  async applyCoupon(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return this.unauthenticated();
+      }
+
+      const { code, amount: rawAmount, currency, planId } = req.body;
+      const amount = parseMoney(rawAmount, currency);
+
+      if (!amount) {
+        return invalidAmount();
+      }
+
+      const priceError = await this.checkPlanPrice(planId, amount);
+      if (priceError) {
+        return priceError;
+      }
+
+      const result = await this.couponService.applyCoupon({ code, userId, amount, planId });
+
+      return {
+        status: result.success ? 200 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return handleError(error, 'Coupon');
+    }
+  }
+
+  /**
+   * POST /api/payment/checkout
+   * Pay as the current user, with an optional promo code taken off the price
+   */
+  async checkout(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return this.unauthenticated();
+      }
+
+      const { amount: rawAmount, currency, couponCode, planId } = req.body;
+      const amount = parseMoney(rawAmount, currency);
+
+      if (!amount) {
+        return invalidAmount();
+      }
+
+      // A plan is charged its own price, never one the client sets
+      const priceError = await this.checkPlanPrice(planId, amount);
+      if (priceError) {
+        return priceError;
+      }
+
+      // Tax comes from the tax calculator and discounts from the coupon, never from the client
+      const request: CheckoutRequest = {
+        ...paymentRequestFromBody({ ...req.body, payerId: userId }, amount),
+        couponCode,
+        planId,
+      };
+
+      const result = await this.couponService.checkout(request);
+
+      return {
+        status: result.success ? 201 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return handleError(error, 'Coupon');
+    }
+  }
+
+  /**
+   * Error response when a purchase of a plan is not for the plan's current price
+   */
+  private async checkPlanPrice(planId: unknown, amount: Money): Promise<ApiResponse | null> {
+    if (planId === undefined) {
+      return null;
+    }
+
+    const plan =
+      typeof planId === 'string' ? await this.subscriptionService.getPlan(planId) : null;
+    if (!plan || !plan.active) {
+      return {
+        status: 404,
+        json: {
+          success: false,
+          error: {
+            code: 'PLAN_NOT_FOUND',
+            message: 'Plan not found',
+          },
+        },
+      };
+    }
+
+    if (plan.price.currency !== amount.currency || compareMoney(plan.price, amount) !== 0) {
+      return {
+        status: 400,
+        json: {
+          success: false,
+          error: {
+            code: 'PRICE_MISMATCH',
+            message: "amount does not match the plan's price",
+            details: { price: plan.price },
+          },
+        },
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Authentication required response
+   */
+  private unauthenticated(): ApiResponse {
+    return {
+      status: 401,
+      json: {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      },
+    };
+  }
+}
+
+/**
+ * Route definitions for framework integration
+ */
+export const couponRoutes = [
+  {
+    method: 'POST',
+    path: '/api/payment/coupons/apply',
+    handler: 'applyCoupon',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/checkout',
+    handler: 'checkout',
+  },
+];
@@ -5,3 +5,8 @@
 
 export { PaymentApiRoutes, paymentRoutes } from './routes';
 export type { ApiRequest, ApiResponse } from './routes';
+export { SubscriptionApiRoutes, subscriptionRoutes } from './subscriptionRoutes';
+export { InvoiceApiRoutes, invoiceRoutes } from './invoiceRoutes';
+export { PayoutApiRoutes, payoutRoutes } from './payoutRoutes';
+export { CouponApiRoutes, couponRoutes } from './couponRoutes';
+export { WebhookApiRoutes, webhookRoutes } from './webhookRoutes';
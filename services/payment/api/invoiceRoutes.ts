@@ -0,0 +1,293 @@
+/**
+ * Invoice API Routes
+ * REST API endpoints for invoices and receipts
+ */
+
+import { InvoiceService } from '../core/InvoiceService';
+import { Currency, Invoice } from '../core/types';
+import { createMoney, CURRENCY_DECIMALS } from '../core/money';
+import { ApiRequest, ApiResponse } from './routes';
+
+/**
+ * Invoice API Routes
+ * Provides HTTP endpoints for invoice operations
+ */
+export class InvoiceApiRoutes {
+  constructor(private invoiceService: InvoiceService) {}
+
+  /**
+   * POST /api/payment/invoices
+   * Issue an invoice from the current user to a customer
+   */
+  async createInvoice(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return this.unauthenticated();
+      }
+
+      const { customerId, currency, lineItems, taxes, dueDate, orderId, memo } = req.body;
+
+      if (
+        typeof currency !== 'string' ||
+        !(currency in CURRENCY_DECIMALS) ||
+        !Array.isArray(lineItems) ||
+        lineItems.some((item: any) => !Number.isSafeInteger(item?.unitPrice))
+      ) {
+        return {
+          status: 400,
+          json: {
+            success: false,
+            error: {
+              code: 'INVALID_AMOUNT',
+              message: 'unitPrice must be an integer number of minor units and currency is required',
+            },
+          },
+        };
+      }
+
+      const result = await this.invoiceService.createInvoice({
+        issuerId: userId,
+        customerId,
+        lineItems: lineItems.map((item: any) => ({
+          description: item.description,
+          quantity: item.quantity,
+          unitPrice: createMoney(item.unitPrice, currency as Currency),
+        })),
+        taxes,
+        dueDate: dueDate ? new Date(dueDate) : undefined,
+        orderId,
+        memo,
+      });
+
+      return {
+        status: result.success ? 201 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/invoices
+   * Get invoices sent to the current user, or issued by them with ?role=issuer
+   */
+  async getInvoices(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return this.unauthenticated();
+      }
+
+      const role = req.query.role === 'issuer' ? 'issuer' : 'customer';
+      const invoices = await this.invoiceService.getInvoices(userId, role);
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: invoices,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/invoices/:id
+   * Get invoice by ID
+   */
+  async getInvoice(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const loaded = await this.loadOwnInvoice(req);
+      if ('response' in loaded) {
+        return loaded.response;
+      }
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: loaded.invoice,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/invoices/:id/receipt
+   * Render the invoice (a receipt once paid) as ?format=html (default) or text
+   */
+  async getReceipt(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const loaded = await this.loadOwnInvoice(req);
+      if ('response' in loaded) {
+        return loaded.response;
+      }
+
+      const format = req.query.format === 'text' ? 'text' : 'html';
+      const content = await this.invoiceService.renderInvoice(loaded.invoice.id, format);
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: {
+            contentType: format === 'text' ? 'text/plain' : 'text/html',
+            content,
+          },
+        },
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/invoices/:id/pay
+   * Pay an invoice sent to the current user
+   */
+  async payInvoice(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const loaded = await this.loadOwnInvoice(req);
+      if ('response' in loaded) {
+        return loaded.response;
+      }
+
+      if (req.user?.id !== loaded.invoice.customerId) {
+        return {
+          status: 403,
+          json: {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED',
+              message: 'Only the customer can pay this invoice',
+            },
+          },
+        };
+      }
+
+      const result = await this.invoiceService.payInvoice(
+        loaded.invoice.id,
+        req.body?.paymentMethod
+      );
+
+      return {
+        status: result.success ? 200 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Load the invoice in the path, if the current user issued or received it
+   */
+  private async loadOwnInvoice(
+    req: ApiRequest
+  ): Promise<{ invoice: Invoice } | { response: ApiResponse }> {
+    const invoice = await this.invoiceService.getInvoice(req.params.id);
+
+    if (!invoice) {
+      return {
+        response: {
+          status: 404,
+          json: {
+            success: false,
+            error: {
+              code: 'NOT_FOUND',
+              message: 'Invoice not found',
+            },
+          },
+        },
+      };
+    }
+
+    if (req.user?.id !== invoice.customerId && req.user?.id !== invoice.issuerId) {
+      return {
+        response: {
+          status: 403,
+          json: {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED',
+              message: 'Not authorized to view this invoice',
+            },
+          },
+        },
+      };
+    }
+
+    return { invoice };
+  }
+
+  /**
+   * Authentication required response
+   */
+  private unauthenticated(): ApiResponse {
+    return {
+      status: 401,
+      json: {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      },
+    };
+  }
+
+  /**
+   * Error handler
+   */
+  private handleError(error: unknown): ApiResponse {
+    console.error('Invoice API Error:', error);
+
+    return {
+      status: 500,
+      json: {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'An error occurred',
+        },
+      },
+    };
+  }
+}
+
+/**
+ * Route definitions for framework integration
+ */
+export const invoiceRoutes = [
+  {
+    method: 'POST',
+    path: '/api/payment/invoices',
+    handler: 'createInvoice',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/invoices',
+    handler: 'getInvoices',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/invoices/:id',
+    handler: 'getInvoice',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/invoices/:id/receipt',
+    handler: 'getReceipt',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/invoices/:id/pay',
+    handler: 'payInvoice',
+  },
+];
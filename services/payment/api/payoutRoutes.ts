@@ -0,0 +1,300 @@
+/**
+ * Payout API Routes
+ * REST API endpoints for payout destinations and payouts
+ */
+
+import { PaymentService } from '../core/PaymentService';
+import { Currency } from '../core/types';
+import { createMoney, CURRENCY_DECIMALS } from '../core/money';
+import { ApiRequest, ApiResponse } from './routes';
+
+/**
+ * Payout API Routes
+ * Provides HTTP endpoints for withdrawing wallet balances to bank accounts
+ */
+export class PayoutApiRoutes {
+  constructor(private paymentService: PaymentService) {}
+
+  /**
+   * POST /api/payment/payouts/destinations
+   * Save a bank account, tokenized by the processor, for the current user's payouts
+   */
+  async addDestination(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return this.unauthenticated();
+      }
+
+      const { bankName, last4, currency, accountHolderName, externalReference, isDefault } =
+        req.body;
+
+      const result = await this.paymentService.addPayoutDestination({
+        ownerId: userId,
+        bankName,
+        last4,
+        currency,
+        accountHolderName,
+        externalReference,
+        isDefault,
+      });
+
+      return {
+        status: result.success ? 201 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/payouts/destinations
+   * Get the current user's payout destinations
+   */
+  async getDestinations(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return this.unauthenticated();
+      }
+
+      const destinations = await this.paymentService.getPayoutDestinations(userId);
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: destinations,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * DELETE /api/payment/payouts/destinations/:id
+   * Remove one of the current user's payout destinations
+   */
+  async removeDestination(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const destination = await this.paymentService.getPayoutDestination(req.params.id);
+
+      if (!destination || destination.removedAt) {
+        return this.notFound('Payout destination not found');
+      }
+
+      if (req.user?.id !== destination.ownerId) {
+        return this.forbidden('Not authorized to remove this payout destination');
+      }
+
+      const result = await this.paymentService.removePayoutDestination(destination.id);
+
+      return {
+        status: result.success ? 200 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/payouts
+   * Withdraw from the current user's wallet to one of their payout destinations
+   */
+  async requestPayout(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return this.unauthenticated();
+      }
+
+      const { amount, currency, destinationId, idempotencyKey } = req.body;
+      const payoutCurrency = currency || this.paymentService.config.defaultCurrency;
+
+      if (!Number.isSafeInteger(amount) || !(payoutCurrency in CURRENCY_DECIMALS)) {
+        return {
+          status: 400,
+          json: {
+            success: false,
+            error: {
+              code: 'INVALID_AMOUNT',
+              message: 'amount must be an integer number of minor units and currency is required',
+            },
+          },
+        };
+      }
+
+      const result = await this.paymentService.requestPayout({
+        ownerId: userId,
+        amount: createMoney(amount, payoutCurrency as Currency),
+        destinationId,
+        idempotencyKey,
+      });
+
+      return {
+        status: result.success ? 201 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/payouts
+   * Get the current user's payouts
+   */
+  async getPayouts(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return this.unauthenticated();
+      }
+
+      const payouts = await this.paymentService.getPayouts(userId);
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: payouts,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/payouts/:id
+   * Get payout by ID
+   */
+  async getPayout(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const payout = await this.paymentService.getPayout(req.params.id);
+
+      if (!payout) {
+        return this.notFound('Payout not found');
+      }
+
+      if (req.user?.id !== payout.ownerId) {
+        return this.forbidden('Not authorized to view this payout');
+      }
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: payout,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Not found response
+   */
+  private notFound(message: string): ApiResponse {
+    return {
+      status: 404,
+      json: {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message,
+        },
+      },
+    };
+  }
+
+  /**
+   * Forbidden response
+   */
+  private forbidden(message: string): ApiResponse {
+    return {
+      status: 403,
+      json: {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message,
+        },
+      },
+    };
+  }
+
+  /**
+   * Authentication required response
+   */
+  private unauthenticated(): ApiResponse {
+    return {
+      status: 401,
+      json: {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      },
+    };
+  }
+
+  /**
+   * Error handler
+   */
+  private handleError(error: unknown): ApiResponse {
+    console.error('Payout API Error:', error);
+
+    return {
+      status: 500,
+      json: {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'An error occurred',
+        },
+      },
+    };
+  }
+}
+
+/**
+ * Route definitions for framework integration
+ */
+export const payoutRoutes = [
+  {
+    method: 'POST',
+    path: '/api/payment/payouts/destinations',
+    handler: 'addDestination',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/payouts/destinations',
+    handler: 'getDestinations',
+  },
+  {
+    method: 'DELETE',
+    path: '/api/payment/payouts/destinations/:id',
+    handler: 'removeDestination',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/payouts',
+    handler: 'requestPayout',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/payouts',
+    handler: 'getPayouts',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/payouts/:id',
+    handler: 'getPayout',
+  },
+];
@@ -4,13 +4,25 @@
  */
 
 import { PaymentService } from '../core/PaymentService';
-import { ProcessTransactionRequest, RefundRequest } from '../core/types';
+import {
+  ProcessTransactionRequest,
+  RefundRequest,
+  Money,
+  TransactionMetadata,
+  Currency,
+  WebhookEventStatus,
+  SELF_ENTITY,
+} from '../core/types';
+import { createMoney, CURRENCY_DECIMALS } from '../core/money';
 
 export interface ApiRequest {
   body: any;
   params: Record<string, string>;
   query: Record<string, string>;
   user?: { id: string };
+  headers?: Record<string, string | undefined>;
+  /** Request body as received, before JSON parsing; needed to check webhook signatures */
+  rawBody?: string;
 }
 
 export interface ApiResponse {
@@ -18,6 +30,18 @@ export interface ApiResponse {
   json: any;
 }
 
+/**
+ * HTTP status for webhook errors; any other error is a 500, which the provider retries
+ */
+const WEBHOOK_ERROR_STATUSES: Record<string, number> = {
+  UNKNOWN_PROVIDER: 404,
+  WEBHOOKS_NOT_CONFIGURED: 404,
+  INVALID_SIGNATURE: 400,
+  INVALID_WEBHOOK: 400,
+  WEBHOOK_EVENT_NOT_FOUND: 404,
+  WEBHOOK_IN_PROGRESS: 409,
+};
+
 /**
  * Payment API Routes
  * Provides HTTP endpoints for payment operations
@@ -31,38 +55,531 @@ export class PaymentApiRoutes {
    */
   async createTransaction(req: ApiRequest): Promise<ApiResponse> {
     try {
-      const request: ProcessTransactionRequest = req.body;
+      const amount = parseMoney(
+        req.body.amount,
+        req.body.currency || this.paymentService.config.defaultCurrency
+      );
+
+      if (!amount) {
+        return invalidAmount();
+      }
+
+      // Tax comes from the tax calculator and discounts from the checkout, never from the client
+      const request = paymentRequestFromBody(req.body, amount);
+
+      // Validate user authorization
+      if (req.user?.id !== request.payerId) {
+        return {
+          status: 403,
+          json: {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED',
+              message: 'Cannot create transaction for another user',
+            },
+          },
+        };
+      }
+
+      const result = await this.paymentService.processTransaction(request);
+
+      return {
+        status: result.success ? 201 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/transactions/:id
+   * Get transaction by ID
+   */
+  async getTransaction(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const { id } = req.params;
+      const transaction = await this.paymentService.getTransaction(id);
+
+      if (!transaction) {
+        return {
+          status: 404,
+          json: {
+            success: false,
+            error: {
+              code: 'NOT_FOUND',
+              message: 'Transaction not found',
+            },
+          },
+        };
+      }
+
+      // Check authorization
+      if (
+        req.user?.id !== transaction.payerId &&
+        req.user?.id !== transaction.payeeId
+      ) {
+        return {
+          status: 403,
+          json: {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED',
+              message: 'Not authorized to view this transaction',
+            },
+          },
+        };
+      }
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: transaction,
+        },
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/transactions/:id/history
+   * Get the status history of a transaction
+   */
+  async getTransactionHistory(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const { id } = req.params;
+      const transaction = await this.paymentService.getTransaction(id);
+
+      if (!transaction) {
+        return {
+          status: 404,
+          json: {
+            success: false,
+            error: {
+              code: 'NOT_FOUND',
+              message: 'Transaction not found',
+            },
+          },
+        };
+      }
+
+      // Check authorization
+      if (
+        req.user?.id !== transaction.payerId &&
+        req.user?.id !== transaction.payeeId
+      ) {
+        return {
+          status: 403,
+          json: {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED',
+              message: 'Not authorized to view this transaction',
+            },
+          },
+        };
+      }
+
+      const history = await this.paymentService.getTransactionHistory(id);
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: history,
+        },
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/transactions/:id/cancel
+   * Cancel a transaction that has not settled yet
+   */
+  async cancelTransaction(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const { id } = req.params;
+      const transaction = await this.paymentService.getTransaction(id);
+
+      if (!transaction) {
+        return {
+          status: 404,
+          json: {
+            success: false,
+            error: {
+              code: 'NOT_FOUND',
+              message: 'Transaction not found',
+            },
+          },
+        };
+      }
+
+      // Only payer can cancel a payment they started
+      if (req.user?.id !== transaction.payerId) {
+        return {
+          status: 403,
+          json: {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED',
+              message: 'Only payer can cancel transaction',
+            },
+          },
+        };
+      }
+
+      const result = await this.paymentService.cancelTransaction(id, req.body?.reason, req.user?.id);
+
+      return {
+        status: result.success ? 200 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/transactions
+   * Get transactions for current user
+   */
+  async getTransactions(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return {
+          status: 401,
+          json: {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED',
+              message: 'Authentication required',
+            },
+          },
+        };
+      }
+
+      const { status, limit = '10', offset = '0' } = req.query;
+
+      const transactions = await this.paymentService.getTransactions(userId, {
+        status: status as any,
+        limit: parseInt(limit),
+        offset: parseInt(offset),
+      });
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: transactions,
+        },
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/refunds
+   * Process a refund
+   */
+  async processRefund(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const request: RefundRequest = {
+        transactionId: req.body.transactionId,
+        reason: req.body.reason,
+        actor: req.user?.id,
+      };
+
+      // Get original transaction to check authorization
+      const originalTx = await this.paymentService.getTransaction(request.transactionId);
+      if (!originalTx) {
+        return {
+          status: 404,
+          json: {
+            success: false,
+            error: {
+              code: 'NOT_FOUND',
+              message: 'Transaction not found',
+            },
+          },
+        };
+      }
+
+      // Only payee can issue refund
+      if (req.user?.id !== originalTx.payeeId) {
+        return {
+          status: 403,
+          json: {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED',
+              message: 'Only payee can issue refund',
+            },
+          },
+        };
+      }
+
+      if (req.body.amount !== undefined) {
+        const amount = parseMoney(req.body.amount, req.body.currency || originalTx.amount.currency);
+        if (!amount) {
+          return invalidAmount();
+        }
+        request.amount = amount;
+      }
+
+      const result = await this.paymentService.processRefund(request);
+
+      return {
+        status: result.success ? 200 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/escrow
+   * Hold a payment in escrow
+   */
+  async holdInEscrow(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const amount = parseMoney(
+        req.body.amount,
+        req.body.currency || this.paymentService.config.defaultCurrency
+      );
+
+      if (!amount) {
+        return invalidAmount();
+      }
+
+      const request = paymentRequestFromBody(req.body, amount);
+
+      if (req.user?.id !== request.payerId) {
+        return {
+          status: 403,
+          json: {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED',
+              message: 'Cannot hold funds for another user',
+            },
+          },
+        };
+      }
+
+      const result = await this.paymentService.holdInEscrow(request);
+
+      return {
+        status: result.success ? 201 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/escrow/:id/release
+   * Release escrowed funds to the payee
+   */
+  async releaseEscrow(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const { id } = req.params;
+      const transaction = await this.paymentService.getTransaction(id);
+
+      if (!transaction) {
+        return {
+          status: 404,
+          json: {
+            success: false,
+            error: {
+              code: 'NOT_FOUND',
+              message: 'Transaction not found',
+            },
+          },
+        };
+      }
+
+      // Only payer can release the funds they put in escrow
+      if (req.user?.id !== transaction.payerId) {
+        return {
+          status: 403,
+          json: {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED',
+              message: 'Only payer can release escrow',
+            },
+          },
+        };
+      }
+
+      const result = await this.paymentService.releaseEscrow(id, req.user?.id);
+
+      return {
+        status: result.success ? 200 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/escrow/:id/cancel
+   * Cancel an escrow hold and return the funds to the payer
+   */
+  async cancelEscrow(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const { id } = req.params;
+      const transaction = await this.paymentService.getTransaction(id);
+
+      if (!transaction) {
+        return {
+          status: 404,
+          json: {
+            success: false,
+            error: {
+              code: 'NOT_FOUND',
+              message: 'Transaction not found',
+            },
+          },
+        };
+      }
+
+      // Only payee can decline escrowed funds
+      if (req.user?.id !== transaction.payeeId) {
+        return {
+          status: 403,
+          json: {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED',
+              message: 'Only payee can cancel escrow',
+            },
+          },
+        };
+      }
+
+      const result = await this.paymentService.cancelEscrow(id, req.body?.reason, req.user?.id);
+
+      return {
+        status: result.success ? 200 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/authorizations
+   * Authorize a payment to be captured later
+   */
+  async authorizePayment(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const amount = parseMoney(
+        req.body.amount,
+        req.body.currency || this.paymentService.config.defaultCurrency
+      );
+
+      if (!amount) {
+        return invalidAmount();
+      }
+
+      const request = paymentRequestFromBody(req.body, amount);
+
+      if (req.user?.id !== request.payerId) {
+        return {
+          status: 403,
+          json: {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED',
+              message: 'Cannot authorize a payment for another user',
+            },
+          },
+        };
+      }
+
+      const result = await this.paymentService.authorizePayment(request);
+
+      return {
+        status: result.success ? 201 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/authorizations/:id/capture
+   * Capture all or part of an authorized payment
+   */
+  async capturePayment(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const { id } = req.params;
+      const transaction = await this.paymentService.getTransaction(id);
+
+      if (!transaction) {
+        return {
+          status: 404,
+          json: {
+            success: false,
+            error: {
+              code: 'NOT_FOUND',
+              message: 'Transaction not found',
+            },
+          },
+        };
+      }
 
-      // Validate user authorization
-      if (req.user?.id !== request.payerId) {
+      // Only payee can capture the final amount
+      if (req.user?.id !== transaction.payeeId) {
         return {
           status: 403,
           json: {
             success: false,
             error: {
               code: 'UNAUTHORIZED',
-              message: 'Cannot create transaction for another user',
+              message: 'Only payee can capture payment',
             },
           },
         };
       }
 
-      const result = await this.paymentService.processTransaction(request);
+      let amount: Money | undefined;
+      if (req.body?.amount !== undefined) {
+        const parsed = parseMoney(req.body.amount, req.body.currency || transaction.amount.currency);
+        if (!parsed) {
+          return invalidAmount();
+        }
+        amount = parsed;
+      }
+
+      const result = await this.paymentService.capturePayment(id, amount, req.user?.id);
 
       return {
-        status: result.success ? 201 : 400,
+        status: result.success ? 200 : 400,
         json: result,
       };
     } catch (error) {
-      return this.handleError(error);
+      return handleError(error);
     }
   }
 
   /**
-   * GET /api/payment/transactions/:id
-   * Get transaction by ID
+   * POST /api/payment/authorizations/:id/void
+   * Release an authorization without charging the payer
    */
-  async getTransaction(req: ApiRequest): Promise<ApiResponse> {
+  async voidAuthorization(req: ApiRequest): Promise<ApiResponse> {
     try {
       const { id } = req.params;
       const transaction = await this.paymentService.getTransaction(id);
@@ -80,7 +597,6 @@ export class PaymentApiRoutes {
         };
       }
 
-      // Check authorization
       if (
         req.user?.id !== transaction.payerId &&
         req.user?.id !== transaction.payeeId
@@ -91,29 +607,28 @@ export class PaymentApiRoutes {
             success: false,
             error: {
               code: 'UNAUTHORIZED',
-              message: 'Not authorized to view this transaction',
+              message: 'Not authorized to void this authorization',
             },
           },
         };
       }
 
+      const result = await this.paymentService.voidAuthorization(id, req.body?.reason, req.user?.id);
+
       return {
-        status: 200,
-        json: {
-          success: true,
-          data: transaction,
-        },
+        status: result.success ? 200 : 400,
+        json: result,
       };
     } catch (error) {
-      return this.handleError(error);
+      return handleError(error);
     }
   }
 
   /**
-   * GET /api/payment/transactions
-   * Get transactions for current user
+   * GET /api/payment/disputes
+   * Get disputes against payments the current user made or received
    */
-  async getTransactions(req: ApiRequest): Promise<ApiResponse> {
+  async getDisputes(req: ApiRequest): Promise<ApiResponse> {
     try {
       const userId = req.user?.id;
       if (!userId) {
@@ -129,77 +644,100 @@ export class PaymentApiRoutes {
         };
       }
 
-      const { status, limit = '10', offset = '0' } = req.query;
-
-      const transactions = await this.paymentService.getTransactions(userId, {
-        status: status as any,
-        limit: parseInt(limit),
-        offset: parseInt(offset),
-      });
+      const disputes = await this.paymentService.getDisputes(userId);
 
       return {
         status: 200,
         json: {
           success: true,
-          data: transactions,
+          data: disputes,
         },
       };
     } catch (error) {
-      return this.handleError(error);
+      return handleError(error);
     }
   }
 
   /**
-   * POST /api/payment/refunds
-   * Process a refund
+   * GET /api/payment/disputes/:id
+   * Get dispute by ID
    */
-  async processRefund(req: ApiRequest): Promise<ApiResponse> {
+  async getDispute(req: ApiRequest): Promise<ApiResponse> {
     try {
-      const request: RefundRequest = req.body;
+      const dispute = await this.paymentService.getDispute(req.params.id);
 
-      // Get original transaction to check authorization
-      const originalTx = await this.paymentService.getTransaction(request.transactionId);
-      if (!originalTx) {
+      if (!dispute) {
+        return this.disputeNotFound();
+      }
+
+      if (req.user?.id !== dispute.payerId && req.user?.id !== dispute.payeeId) {
         return {
-          status: 404,
+          status: 403,
           json: {
             success: false,
             error: {
-              code: 'NOT_FOUND',
-              message: 'Transaction not found',
+              code: 'UNAUTHORIZED',
+              message: 'Not authorized to view this dispute',
             },
           },
         };
       }
 
-      // Only payee can issue refund
-      if (req.user?.id !== originalTx.payeeId) {
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: dispute,
+        },
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/disputes/:id/evidence
+   * Submit the payee's evidence for a dispute
+   */
+  async submitDisputeEvidence(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const dispute = await this.paymentService.getDispute(req.params.id);
+
+      if (!dispute) {
+        return this.disputeNotFound();
+      }
+
+      if (req.user?.id !== dispute.payeeId) {
         return {
           status: 403,
           json: {
             success: false,
             error: {
               code: 'UNAUTHORIZED',
-              message: 'Only payee can issue refund',
+              message: 'Only the payee can submit evidence for this dispute',
             },
           },
         };
       }
 
-      const result = await this.paymentService.processRefund(request);
+      const { explanation, documentUrls } = req.body;
+      const result = await this.paymentService.submitDisputeEvidence(dispute.id, {
+        explanation,
+        documentUrls,
+      });
 
       return {
         status: result.success ? 200 : 400,
         json: result,
       };
     } catch (error) {
-      return this.handleError(error);
+      return handleError(error);
     }
   }
 
   /**
    * GET /api/payment/balance
-   * Get current user's balance
+   * Get current user's balances, one per currency, or a single balance with ?currency=
    */
   async getBalance(req: ApiRequest): Promise<ApiResponse> {
     try {
@@ -217,7 +755,33 @@ export class PaymentApiRoutes {
         };
       }
 
-      const balance = await this.paymentService.getBalance(userId);
+      const { currency } = req.query;
+
+      if (currency === undefined) {
+        const balances = await this.paymentService.getBalances(userId);
+        return {
+          status: 200,
+          json: {
+            success: true,
+            data: balances,
+          },
+        };
+      }
+
+      if (!(currency in CURRENCY_DECIMALS)) {
+        return {
+          status: 400,
+          json: {
+            success: false,
+            error: {
+              code: 'INVALID_CURRENCY',
+              message: `Unsupported currency: ${currency}`,
+            },
+          },
+        };
+      }
+
+      const balance = await this.paymentService.getBalance(userId, currency as Currency);
 
       if (!balance) {
         return {
@@ -240,7 +804,158 @@ export class PaymentApiRoutes {
         },
       };
     } catch (error) {
-      return this.handleError(error);
+      return handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/wallet/top-up
+   * Charge the current user's card and credit their wallet
+   */
+  async topUpWallet(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return {
+          status: 401,
+          json: {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED',
+              message: 'Authentication required',
+            },
+          },
+        };
+      }
+
+      const { amount: rawAmount, currency, paymentMethod, idempotencyKey } = req.body;
+      const amount = parseMoney(rawAmount, currency || this.paymentService.config.defaultCurrency);
+
+      if (!amount) {
+        return invalidAmount();
+      }
+
+      const result = await this.paymentService.topUpWallet({
+        userId,
+        amount,
+        paymentMethod,
+        idempotencyKey,
+      });
+
+      return {
+        status: result.success ? 201 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/webhooks/:provider
+   * Receive a signed webhook from the payment processor
+   * Unauthenticated: the provider's signature over the raw body is checked instead.
+   * Answers 2xx once the event is applied or was already, so the provider stops
+   * redelivering it, and 5xx when applying failed, so it tries again.
+   */
+  async receiveWebhook(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const payload = req.rawBody ?? (typeof req.body === 'string' ? req.body : undefined);
+      if (payload === undefined) {
+        return {
+          status: 400,
+          json: {
+            success: false,
+            error: {
+              code: 'INVALID_WEBHOOK',
+              message: 'Webhooks need the raw request body to check the signature',
+            },
+          },
+        };
+      }
+
+      const result = await this.paymentService.receiveWebhook(
+        req.params.provider,
+        payload,
+        req.headers || {}
+      );
+
+      if (result.success) {
+        return {
+          status: 200,
+          json: {
+            success: true,
+            data: { id: result.event?.id, status: result.event?.status },
+            duplicate: result.duplicate,
+          },
+        };
+      }
+
+      const status = WEBHOOK_ERROR_STATUSES[result.error?.code || ''] || 500;
+
+      // Nothing about the ledger is sent back to an unauthenticated caller
+      return {
+        status,
+        json: {
+          success: false,
+          error:
+            status === 500 ? { code: 'WEBHOOK_FAILED', message: 'Webhook failed' } : result.error,
+        },
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/webhooks/events
+   * List the processor webhook events received, newest first
+   * Only the platform (__SELF__) can see them.
+   */
+  async getWebhookEvents(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      if (req.user?.id !== SELF_ENTITY) {
+        return this.platformOnly();
+      }
+
+      const { status, limit = '50' } = req.query;
+
+      const events = await this.paymentService.getWebhookEvents({
+        status: status as WebhookEventStatus | undefined,
+        limit: Math.min(parseInt(limit), 100),
+      });
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: events,
+        },
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/webhooks/events/:id/replay
+   * Apply a stored processor webhook event again, e.g. one that failed
+   * Only the platform (__SELF__) can replay them.
+   */
+  async replayWebhookEvent(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      if (req.user?.id !== SELF_ENTITY) {
+        return this.platformOnly();
+      }
+
+      const result = await this.paymentService.replayWebhookEvent(req.params.id);
+
+      return {
+        status: result.success ? 200 : WEBHOOK_ERROR_STATUSES[result.error?.code || ''] || 500,
+        json: result,
+      };
+    } catch (error) {
+      return handleError(error);
     }
   }
 
@@ -260,29 +975,134 @@ export class PaymentApiRoutes {
         },
       };
     } catch (error) {
-      return this.handleError(error);
+      return handleError(error);
     }
   }
 
   /**
-   * Error handler
+   * Forbidden response for operations only the platform can perform
    */
-  private handleError(error: unknown): ApiResponse {
-    console.error('Payment API Error:', error);
+  private platformOnly(): ApiResponse {
+    return {
+      status: 403,
+      json: {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Only the platform can manage processor webhook events',
+        },
+      },
+    };
+  }
 
+  /**
+   * Dispute not found response
+   */
+  private disputeNotFound(): ApiResponse {
     return {
-      status: 500,
+      status: 404,
       json: {
         success: false,
         error: {
-          code: 'INTERNAL_ERROR',
-          message: error instanceof Error ? error.message : 'An error occurred',
+          code: 'NOT_FOUND',
+          message: 'Dispute not found',
         },
       },
     };
   }
 }
 
+/**
+ * Metadata a client may set on a payment
+ * The rest (escrow, asyncCharge, pendingSettlement, subscriptionId, ...) is state the
+ * services keep on the transaction, and would change how it is settled.
+ */
+const CLIENT_METADATA_KEYS: Array<keyof TransactionMetadata> = [
+  'description',
+  'orderId',
+  'category',
+  'tags',
+  'customFields',
+  'paymentMethodToken',
+];
+
+/**
+ * A payment request from the fields of a request body a client may set
+ * Tax and discounts are left to the services, so the payer cannot pick the
+ * jurisdiction their purchase is taxed in; it is the service's
+ * tax.defaultJurisdiction. Metadata is kept to CLIENT_METADATA_KEYS and the
+ * idempotency key is scoped to the payer, so it cannot replay a key the
+ * services use.
+ */
+export function paymentRequestFromBody(body: any, amount: Money): ProcessTransactionRequest {
+  const { payerId, payeeId, payeeCurrency, paymentMethod, idempotencyKey } = body;
+
+  const metadata: TransactionMetadata = {};
+  for (const key of CLIENT_METADATA_KEYS) {
+    if (body.metadata?.[key] !== undefined) {
+      (metadata as Record<string, unknown>)[key] = body.metadata[key];
+    }
+  }
+
+  return {
+    payerId,
+    payeeId,
+    amount,
+    payeeCurrency,
+    paymentMethod,
+    metadata,
+    idempotencyKey: idempotencyKey ? `api:${payerId}:${idempotencyKey}` : undefined,
+  };
+}
+
+/**
+ * Parse an amount given as integer minor units plus a currency code
+ */
+export function parseMoney(amount: unknown, currency: unknown): Money | null {
+  if (typeof amount !== 'number' || !Number.isSafeInteger(amount)) {
+    return null;
+  }
+  if (typeof currency !== 'string' || !(currency in CURRENCY_DECIMALS)) {
+    return null;
+  }
+  return createMoney(amount, currency as Currency);
+}
+
+/**
+ * Invalid amount response
+ */
+export function invalidAmount(): ApiResponse {
+  return {
+    status: 400,
+    json: {
+      success: false,
+      error: {
+        code: 'INVALID_AMOUNT',
+        message: 'amount must be an integer number of minor units and currency is required',
+      },
+    },
+  };
+}
+
+/**
+ * Error handler
+ * @param api Which routes the error came from, for the log
+ */
+export function handleError(error: unknown, api: string = 'Payment'): ApiResponse {
+  console.error(`${api} API Error:`, error);
+
+  return {
+    status: 500,
+    json: {
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'An error occurred',
+      },
+    },
+  };
+}
+
 /**
  * Route definitions for framework integration
  */
@@ -297,6 +1117,16 @@ export const paymentRoutes = [
     path: '/api/payment/transactions/:id',
     handler: 'getTransaction',
   },
+  {
+    method: 'GET',
+    path: '/api/payment/transactions/:id/history',
+    handler: 'getTransactionHistory',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/transactions/:id/cancel',
+    handler: 'cancelTransaction',
+  },
   {
     method: 'GET',
     path: '/api/payment/transactions',
@@ -307,11 +1137,76 @@ export const paymentRoutes = [
     path: '/api/payment/refunds',
     handler: 'processRefund',
   },
+  {
+    method: 'POST',
+    path: '/api/payment/escrow',
+    handler: 'holdInEscrow',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/escrow/:id/release',
+    handler: 'releaseEscrow',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/escrow/:id/cancel',
+    handler: 'cancelEscrow',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/authorizations',
+    handler: 'authorizePayment',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/authorizations/:id/capture',
+    handler: 'capturePayment',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/authorizations/:id/void',
+    handler: 'voidAuthorization',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/disputes',
+    handler: 'getDisputes',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/disputes/:id',
+    handler: 'getDispute',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/disputes/:id/evidence',
+    handler: 'submitDisputeEvidence',
+  },
   {
     method: 'GET',
     path: '/api/payment/balance',
     handler: 'getBalance',
   },
+  {
+    method: 'POST',
+    path: '/api/payment/wallet/top-up',
+    handler: 'topUpWallet',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/webhooks/:provider',
+    handler: 'receiveWebhook',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/webhooks/events',
+    handler: 'getWebhookEvents',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/webhooks/events/:id/replay',
+    handler: 'replayWebhookEvent',
+  },
   {
     method: 'GET',
     path: '/api/payment/health',
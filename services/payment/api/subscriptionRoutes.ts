@@ -0,0 +1,299 @@
+/**
+ * Subscription API Routes
+ * REST API endpoints for plans and subscriptions
+ */
+
+import { SubscriptionService } from '../core/SubscriptionService';
+import { Subscription } from '../core/types';
+import { ApiRequest, ApiResponse } from './routes';
+
+/**
+ * Subscription API Routes
+ * Provides HTTP endpoints for subscription operations
+ */
+export class SubscriptionApiRoutes {
+  constructor(private subscriptionService: SubscriptionService) {}
+
+  /**
+   * GET /api/payment/plans
+   * Get the plans open for new subscriptions
+   */
+  async getPlans(_req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const plans = await this.subscriptionService.getPlans();
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: plans,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/subscriptions
+   * Subscribe the current user to a plan
+   */
+  async subscribe(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return this.unauthenticated();
+      }
+
+      const result = await this.subscriptionService.subscribe({
+        subscriberId: userId,
+        planId: req.body.planId,
+        paymentMethod: req.body.paymentMethod,
+        skipTrial: req.body.skipTrial,
+        idempotencyKey: req.body.idempotencyKey,
+      });
+
+      return {
+        status: result.success ? 201 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/subscriptions
+   * Get subscriptions for current user
+   */
+  async getSubscriptions(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return this.unauthenticated();
+      }
+
+      const subscriptions = await this.subscriptionService.getSubscriptions(userId);
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: subscriptions,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/subscriptions/:id
+   * Get subscription by ID
+   */
+  async getSubscription(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const loaded = await this.loadOwnSubscription(req);
+      if ('response' in loaded) {
+        return loaded.response;
+      }
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: loaded.subscription,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/subscriptions/:id/change-plan
+   * Move a subscription to another plan, with proration
+   */
+  async changePlan(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const loaded = await this.loadOwnSubscription(req);
+      if ('response' in loaded) {
+        return loaded.response;
+      }
+
+      const result = await this.subscriptionService.changePlan(
+        loaded.subscription.id,
+        req.body.planId
+      );
+
+      return {
+        status: result.success ? 200 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/subscriptions/:id/cancel
+   * Cancel a subscription, at the end of the period unless atPeriodEnd is false
+   */
+  async cancelSubscription(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const loaded = await this.loadOwnSubscription(req);
+      if ('response' in loaded) {
+        return loaded.response;
+      }
+
+      const result = await this.subscriptionService.cancelSubscription(loaded.subscription.id, {
+        atPeriodEnd: req.body?.atPeriodEnd,
+      });
+
+      return {
+        status: result.success ? 200 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/subscriptions/:id/resume
+   * Undo a cancellation scheduled for the end of the period
+   */
+  async resumeSubscription(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const loaded = await this.loadOwnSubscription(req);
+      if ('response' in loaded) {
+        return loaded.response;
+      }
+
+      const result = await this.subscriptionService.resumeSubscription(loaded.subscription.id);
+
+      return {
+        status: result.success ? 200 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Load the subscription in the path, if it belongs to the current user
+   */
+  private async loadOwnSubscription(
+    req: ApiRequest
+  ): Promise<{ subscription: Subscription } | { response: ApiResponse }> {
+    const subscription = await this.subscriptionService.getSubscription(req.params.id);
+
+    if (!subscription) {
+      return {
+        response: {
+          status: 404,
+          json: {
+            success: false,
+            error: {
+              code: 'NOT_FOUND',
+              message: 'Subscription not found',
+            },
+          },
+        },
+      };
+    }
+
+    if (req.user?.id !== subscription.subscriberId) {
+      return {
+        response: {
+          status: 403,
+          json: {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED',
+              message: 'Not authorized to manage this subscription',
+            },
+          },
+        },
+      };
+    }
+
+    return { subscription };
+  }
+
+  /**
+   * Authentication required response
+   */
+  private unauthenticated(): ApiResponse {
+    return {
+      status: 401,
+      json: {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      },
+    };
+  }
+
+  /**
+   * Error handler
+   */
+  private handleError(error: unknown): ApiResponse {
+    console.error('Subscription API Error:', error);
+
+    return {
+      status: 500,
+      json: {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'An error occurred',
+        },
+      },
+    };
+  }
+}
+
+/**
+ * Route definitions for framework integration
+ */
+export const subscriptionRoutes = [
+  {
+    method: 'GET',
+    path: '/api/payment/plans',
+    handler: 'getPlans',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/subscriptions',
+    handler: 'subscribe',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/subscriptions',
+    handler: 'getSubscriptions',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/subscriptions/:id',
+    handler: 'getSubscription',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/subscriptions/:id/change-plan',
+    handler: 'changePlan',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/subscriptions/:id/cancel',
+    handler: 'cancelSubscription',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/subscriptions/:id/resume',
+    handler: 'resumeSubscription',
+  },
+];
@@ -0,0 +1,339 @@
+/**
+ * Webhook API Routes
+ * REST API endpoints for registering webhook endpoints and inspecting their deliveries
+ */
+
+import { WebhookDeliveryService } from '../core/WebhookDeliveryService';
+import { WebhookDeliveryStatus, SELF_ENTITY } from '../core/types';
+import { ApiRequest, ApiResponse } from './routes';
+
+/**
+ * Webhook API Routes
+ * Provides HTTP endpoints for the current user's outbound webhooks
+ */
+export class WebhookApiRoutes {
+  constructor(private webhookService: WebhookDeliveryService) {}
+
+  /**
+   * POST /api/payment/webhook-endpoints
+   * Register an endpoint for the current user; the response has its signing secret
+   */
+  async createEndpoint(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return this.unauthenticated();
+      }
+
+      const { url, events, description } = req.body;
+
+      const result = await this.webhookService.createEndpoint({
+        ownerId: userId,
+        url,
+        events,
+        description,
+      });
+
+      return {
+        status: result.success ? 201 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/webhook-endpoints
+   * Get the current user's endpoints
+   */
+  async getEndpoints(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return this.unauthenticated();
+      }
+
+      const endpoints = await this.webhookService.getEndpoints(userId);
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: endpoints,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/webhook-endpoints/:id
+   * Get one of the current user's endpoints
+   */
+  async getEndpoint(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const endpoint = await this.webhookService.getEndpoint(req.params.id);
+
+      if (!endpoint || endpoint.removedAt) {
+        return this.notFound('Webhook endpoint not found');
+      }
+
+      if (req.user?.id !== endpoint.ownerId) {
+        return this.forbidden('Not authorized to view this webhook endpoint');
+      }
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: endpoint,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * DELETE /api/payment/webhook-endpoints/:id
+   * Remove one of the current user's endpoints; pending retries to it fail
+   */
+  async removeEndpoint(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const endpoint = await this.webhookService.getEndpoint(req.params.id);
+
+      if (!endpoint || endpoint.removedAt) {
+        return this.notFound('Webhook endpoint not found');
+      }
+
+      if (req.user?.id !== endpoint.ownerId) {
+        return this.forbidden('Not authorized to remove this webhook endpoint');
+      }
+
+      const result = await this.webhookService.removeEndpoint(endpoint.id);
+
+      return {
+        status: result.success ? 200 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/webhook-endpoints/:id/deliveries
+   * Get the deliveries to one of the current user's endpoints, newest first
+   */
+  async getDeliveries(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const endpoint = await this.webhookService.getEndpoint(req.params.id);
+
+      if (!endpoint) {
+        return this.notFound('Webhook endpoint not found');
+      }
+
+      if (req.user?.id !== endpoint.ownerId) {
+        return this.forbidden('Not authorized to view this webhook endpoint');
+      }
+
+      const { status, limit = '50' } = req.query;
+
+      const deliveries = await this.webhookService.getDeliveries(endpoint.id, {
+        status: status as WebhookDeliveryStatus | undefined,
+        limit: Math.min(parseInt(limit), 100),
+      });
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: deliveries,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * GET /api/payment/webhook-deliveries/:id
+   * Get a delivery to one of the current user's endpoints, with its log of attempts
+   * Response bodies are only shown to the platform: they are whatever the URL
+   * answered, which is not the merchant's to read back through us.
+   */
+  async getDelivery(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const delivery = await this.webhookService.getDelivery(req.params.id);
+
+      if (!delivery) {
+        return this.notFound('Webhook delivery not found');
+      }
+
+      if (!(await this.ownsEndpoint(req, delivery.endpointId))) {
+        return this.forbidden('Not authorized to view this webhook delivery');
+      }
+
+      const logged = await this.webhookService.getDeliveryAttempts(delivery.id);
+      const attempts =
+        req.user?.id === SELF_ENTITY
+          ? logged
+          : logged.map(({ responseBody: _responseBody, ...attempt }) => attempt);
+
+      return {
+        status: 200,
+        json: {
+          success: true,
+          data: { delivery, attempts },
+        },
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * POST /api/payment/webhook-deliveries/:id/redeliver
+   * Send a delivery to one of the current user's endpoints again now
+   */
+  async redeliver(req: ApiRequest): Promise<ApiResponse> {
+    try {
+      const delivery = await this.webhookService.getDelivery(req.params.id);
+
+      if (!delivery) {
+        return this.notFound('Webhook delivery not found');
+      }
+
+      if (!(await this.ownsEndpoint(req, delivery.endpointId))) {
+        return this.forbidden('Not authorized to redeliver this webhook delivery');
+      }
+
+      const result = await this.webhookService.redeliver(delivery.id);
+
+      // The endpoint failed the request, not this one
+      return {
+        status: result.success ? 200 : result.error?.code === 'WEBHOOK_DELIVERY_FAILED' ? 502 : 400,
+        json: result,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Whether the current user owns an endpoint
+   */
+  private async ownsEndpoint(req: ApiRequest, endpointId: string): Promise<boolean> {
+    const endpoint = await this.webhookService.getEndpoint(endpointId);
+    return !!endpoint && req.user?.id === endpoint.ownerId;
+  }
+
+  /**
+   * Not found response
+   */
+  private notFound(message: string): ApiResponse {
+    return {
+      status: 404,
+      json: {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message,
+        },
+      },
+    };
+  }
+
+  /**
+   * Forbidden response
+   */
+  private forbidden(message: string): ApiResponse {
+    return {
+      status: 403,
+      json: {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message,
+        },
+      },
+    };
+  }
+
+  /**
+   * Authentication required response
+   */
+  private unauthenticated(): ApiResponse {
+    return {
+      status: 401,
+      json: {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      },
+    };
+  }
+
+  /**
+   * Error handler
+   */
+  private handleError(error: unknown): ApiResponse {
+    console.error('Webhook API Error:', error);
+
+    return {
+      status: 500,
+      json: {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'An error occurred',
+        },
+      },
+    };
+  }
+}
+
+/**
+ * Route definitions for framework integration
+ */
+export const webhookRoutes = [
+  {
+    method: 'POST',
+    path: '/api/payment/webhook-endpoints',
+    handler: 'createEndpoint',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/webhook-endpoints',
+    handler: 'getEndpoints',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/webhook-endpoints/:id',
+    handler: 'getEndpoint',
+  },
+  {
+    method: 'DELETE',
+    path: '/api/payment/webhook-endpoints/:id',
+    handler: 'removeEndpoint',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/webhook-endpoints/:id/deliveries',
+    handler: 'getDeliveries',
+  },
+  {
+    method: 'GET',
+    path: '/api/payment/webhook-deliveries/:id',
+    handler: 'getDelivery',
+  },
+  {
+    method: 'POST',
+    path: '/api/payment/webhook-deliveries/:id/redeliver',
+    handler: 'redeliver',
+  },
+];
@@ -0,0 +1,422 @@
+import { BaseService, ServiceMetadata, ServiceContext } from '@shared/types';
+import {
+  CouponServiceConfig,
+  CouponResult,
+  CreateCouponRequest,
+  ApplyCouponRequest,
+  CheckoutRequest,
+  Coupon,
+  CouponRedemption,
+  Money,
+  Transaction,
+  TransactionResult,
+} from './types';
+import { PaymentService } from './PaymentService';
+import { CouponStore } from './CouponStore';
+import { PaymentError } from './errors';
+import {
+  compareMoney,
+  isPositiveMoney,
+  percentOfMoney,
+  subtractMoney,
+  CURRENCY_DECIMALS,
+} from './money';
+
+/**
+ * Coupon codes: letters, digits, dashes and underscores
+ */
+const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+/**
+ * Payment Service events after which a discounted payment will not be charged
+ */
+const UNPAID_TRANSACTION_EVENTS = ['transaction:failed', 'transaction:cancelled'];
+
+/**
+ * Coupon Service
+ * Promo codes with percent or fixed discounts, taken off payments at checkout
+ */
+export class CouponService extends BaseService<CouponServiceConfig> {
+  readonly metadata: ServiceMetadata = {
+    name: 'coupon',
+    version: '0.1.0',
+    description: 'Promo codes and discounts at checkout',
+    dependencies: ['payment'],
+    platforms: ['pwa', 'mobile', 'web'],
+  };
+
+  private store?: CouponStore;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(private readonly payments: PaymentService) {
+    super();
+  }
+
+  async initialize(config: CouponServiceConfig, context?: ServiceContext): Promise<void> {
+    await super.initialize(config, context);
+
+    if (!context?.database) {
+      throw new Error('Database connection required for Coupon Service');
+    }
+
+    this.store = new CouponStore(context.database);
+
+    // Charges answered later fail or are cancelled through the processor's webhooks,
+    // after checkout has returned; their redemptions are given back then
+    if (context.eventBus) {
+      const eventBus = context.eventBus;
+      for (const type of UNPAID_TRANSACTION_EVENTS) {
+        this.unsubscribers.push(
+          eventBus.on(`service:${this.payments.metadata.name}:${type}`, transaction => {
+            this.releaseRedemptionFor(transaction).catch(error =>
+              this.log('error', 'Releasing coupon redemption failed', {
+                transactionId: transaction.id,
+                error,
+              })
+            );
+          })
+        );
+      }
+    } else {
+      this.log('warn', 'No event bus: redemptions of payments failing after checkout are kept');
+    }
+
+    // Create configured coupons that do not exist yet
+    for (const coupon of config.coupons || []) {
+      if (!(await this.store.getCouponByCode(coupon.code))) {
+        const result = await this.createCoupon(coupon);
+        if (!result.success) {
+          throw new Error(`Invalid coupon ${coupon.code}: ${result.error!.message}`);
+        }
+      }
+    }
+
+    this.log('info', 'Coupon Service initialized', {
+      coupons: config.coupons?.length || 0,
+    });
+
+    this._status = 'ready';
+  }
+
+  async shutdown(): Promise<void> {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+
+    await super.shutdown();
+  }
+
+  /**
+   * Create a coupon
+   */
+  async createCoupon(request: CreateCouponRequest): Promise<CouponResult> {
+    try {
+      const { percentOff, amountOff, maxRedemptions, maxRedemptionsPerUser, expiresAt, planIds } =
+        request;
+      const code = request.code?.trim().toUpperCase();
+
+      if (!code || !COUPON_CODE_PATTERN.test(code)) {
+        return this.failure(
+          'INVALID_COUPON',
+          'Coupon codes are 3 to 32 letters, digits, dashes or underscores'
+        );
+      }
+
+      if ((percentOff === undefined) === (amountOff === undefined)) {
+        return this.failure('INVALID_COUPON', 'Give either percentOff or amountOff');
+      }
+
+      if (percentOff !== undefined && !(percentOff > 0 && percentOff < 100)) {
+        return this.failure('INVALID_COUPON', 'percentOff must be between 0 and 100');
+      }
+
+      if (
+        amountOff &&
+        (!Number.isSafeInteger(amountOff.minorUnits) ||
+          !(amountOff.currency in CURRENCY_DECIMALS) ||
+          !isPositiveMoney(amountOff))
+      ) {
+        return this.failure(
+          'INVALID_COUPON',
+          'amountOff must be a positive integer number of minor units with a currency'
+        );
+      }
+
+      if (
+        [maxRedemptions, maxRedemptionsPerUser].some(
+          limit => limit !== undefined && !(Number.isInteger(limit) && limit > 0)
+        )
+      ) {
+        return this.failure('INVALID_COUPON', 'Redemption limits must be positive integers');
+      }
+
+      if (await this.store!.getCouponByCode(code)) {
+        return this.failure('COUPON_EXISTS', `Coupon ${code} already exists`);
+      }
+
+      const coupon = await this.store!.createCoupon({
+        code,
+        discountType: percentOff !== undefined ? 'percent' : 'fixed',
+        percentOff,
+        amountOff,
+        maxRedemptions,
+        maxRedemptionsPerUser,
+        expiresAt,
+        planIds: planIds?.length ? planIds : undefined,
+      });
+
+      this.emit('coupon:created', coupon);
+      this.log('info', 'Coupon created', { couponId: coupon.id, code });
+
+      return { success: true, coupon };
+    } catch (error) {
+      this.log('error', 'Coupon creation failed', { error });
+      return this.failure(
+        'COUPON_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Stop a coupon from being redeemed; past redemptions are kept
+   */
+  async deactivateCoupon(couponId: string): Promise<CouponResult> {
+    try {
+      const coupon = await this.store!.setCouponActive(couponId, false);
+
+      this.log('info', 'Coupon deactivated', { couponId });
+
+      return { success: true, coupon };
+    } catch (error) {
+      this.log('error', 'Coupon deactivation failed', { error });
+      return this.failure(
+        error instanceof PaymentError ? error.code : 'COUPON_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Price a purchase with a coupon, without redeeming it
+   * Checks the coupon is active, unexpired, valid for the plan and currency and
+   * within its limits for the user; returns the discount and the discounted total.
+   */
+  async applyCoupon(request: ApplyCouponRequest): Promise<CouponResult> {
+    try {
+      const { code, userId, amount, planId } = request;
+
+      const coupon = code ? await this.store!.getCouponByCode(code) : null;
+      if (!coupon || !coupon.active) {
+        return this.failure('COUPON_NOT_FOUND', 'This promo code is not valid');
+      }
+
+      if (coupon.expiresAt && coupon.expiresAt.getTime() <= Date.now()) {
+        return this.failure('COUPON_EXPIRED', 'This promo code has expired', { coupon });
+      }
+
+      if (coupon.planIds && (!planId || !coupon.planIds.includes(planId))) {
+        return this.failure('COUPON_NOT_APPLICABLE', 'This promo code does not apply to this plan', {
+          coupon,
+        });
+      }
+
+      if (coupon.amountOff && coupon.amountOff.currency !== amount.currency) {
+        return this.failure(
+          'COUPON_NOT_APPLICABLE',
+          `This promo code only applies to ${coupon.amountOff.currency} prices`,
+          { coupon }
+        );
+      }
+
+      if (coupon.maxRedemptions !== undefined && coupon.timesRedeemed >= coupon.maxRedemptions) {
+        return this.failure('COUPON_LIMIT_REACHED', 'This promo code has been fully redeemed', {
+          coupon,
+        });
+      }
+
+      if (
+        coupon.maxRedemptionsPerUser !== undefined &&
+        (await this.store!.countRedemptions(coupon.id, userId)) >= coupon.maxRedemptionsPerUser
+      ) {
+        return this.failure(
+          'COUPON_USER_LIMIT_REACHED',
+          'You have already used this promo code the maximum number of times',
+          { coupon }
+        );
+      }
+
+      const discount = this.calculateDiscount(coupon, amount);
+      const total = subtractMoney(amount, discount);
+
+      if (!isPositiveMoney(total)) {
+        return this.failure(
+          'COUPON_NOT_APPLICABLE',
+          'This promo code is worth more than the price',
+          { coupon }
+        );
+      }
+
+      return { success: true, coupon, discount, total };
+    } catch (error) {
+      this.log('error', 'Coupon check failed', { error });
+      return this.failure(
+        'COUPON_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Check out: pay through processTransaction, with the promo code's discount taken off
+   * The coupon is checked and redeemed before the payment, then the discounted
+   * amount is charged and the discount recorded on the transaction. A failed
+   * payment gives the redemption back, as does one that fails or is cancelled
+   * later at the processor. A retried checkout with the same idempotency key
+   * redeems once.
+   */
+  async checkout(request: CheckoutRequest): Promise<TransactionResult> {
+    const { couponCode, planId, ...payment } = request;
+    const metadata = planId ? { ...payment.metadata, planId } : payment.metadata;
+
+    if (!couponCode) {
+      return this.payments.processTransaction({ ...payment, metadata, discount: undefined });
+    }
+
+    // A retry of a checkout that went through returns its transaction, even when
+    // the coupon's limits are now used up
+    if (payment.idempotencyKey) {
+      const earlier = await this.store!.getRedemptionByIdempotencyKey(payment.idempotencyKey);
+      const transaction =
+        earlier?.transactionId && (await this.payments.getTransaction(earlier.transactionId));
+      if (transaction) {
+        return { success: true, transaction };
+      }
+    }
+
+    const quote = await this.applyCoupon({
+      code: couponCode,
+      userId: payment.payerId,
+      amount: payment.amount,
+      planId,
+    });
+    if (!quote.success) {
+      return { success: false, error: quote.error };
+    }
+
+    const coupon = quote.coupon!;
+    let redemption: CouponRedemption;
+    try {
+      redemption = await this.store!.redeem(coupon.id, {
+        userId: payment.payerId,
+        discount: quote.discount!,
+        idempotencyKey: payment.idempotencyKey,
+      });
+    } catch (error) {
+      this.log('warn', 'Coupon redemption refused', { couponId: coupon.id, error });
+      return {
+        success: false,
+        error: {
+          code: error instanceof PaymentError ? error.code : 'COUPON_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+
+    const result = await this.payments.processTransaction({
+      ...payment,
+      amount: quote.total!,
+      discount: {
+        couponId: coupon.id,
+        code: coupon.code,
+        percentOff: coupon.percentOff,
+        originalAmount: payment.amount,
+        amount: quote.discount!,
+      },
+      metadata,
+    });
+
+    // A replayed idempotency key returns the earlier transaction, which may have failed
+    const transaction = result.transaction;
+    if (!result.success || !transaction || transaction.status === 'failed') {
+      await this.store!.releaseRedemption(redemption);
+      return result;
+    }
+
+    await this.store!.attachTransaction(redemption.id, transaction.id);
+
+    // A processing charge may have failed before the redemption was linked to it
+    if (transaction.status === 'processing') {
+      const current = await this.payments.getTransaction(transaction.id);
+      if (current && (current.status === 'failed' || current.status === 'cancelled')) {
+        await this.releaseRedemptionFor(current);
+        return { success: true, transaction: current };
+      }
+    }
+
+    this.emit('coupon:redeemed', { coupon, redemption, transaction });
+    this.log('info', 'Coupon redeemed', {
+      couponId: coupon.id,
+      redemptionId: redemption.id,
+      transactionId: transaction.id,
+    });
+
+    return result;
+  }
+
+  /**
+   * Get coupon by ID
+   */
+  async getCoupon(couponId: string): Promise<Coupon | null> {
+    return this.store!.getCoupon(couponId);
+  }
+
+  /**
+   * Get coupon by code, ignoring case
+   */
+  async getCouponByCode(code: string): Promise<Coupon | null> {
+    return this.store!.getCouponByCode(code);
+  }
+
+  /**
+   * Give back the redemption of a discounted payment that will not be charged
+   */
+  private async releaseRedemptionFor(transaction: Transaction): Promise<void> {
+    if (!transaction.discount) {
+      return;
+    }
+
+    const redemption = await this.store!.getRedemptionByTransactionId(transaction.id);
+    if (!redemption || !(await this.store!.releaseRedemption(redemption))) {
+      return;
+    }
+
+    this.emit('coupon:released', { redemption, transaction });
+    this.log('info', 'Coupon redemption released', {
+      couponId: redemption.couponId,
+      redemptionId: redemption.id,
+      transactionId: transaction.id,
+      status: transaction.status,
+    });
+  }
+
+  /**
+   * Amount a coupon takes off a price, never more than the price
+   */
+  private calculateDiscount(coupon: Coupon, amount: Money): Money {
+    if (coupon.percentOff !== undefined) {
+      return percentOfMoney(amount, coupon.percentOff);
+    }
+
+    return compareMoney(coupon.amountOff!, amount) > 0 ? amount : coupon.amountOff!;
+  }
+
+  /**
+   * Failure result
+   */
+  private failure(code: string, message: string, details?: any): CouponResult {
+    return {
+      success: false,
+      error: { code, message, details },
+    };
+  }
+}
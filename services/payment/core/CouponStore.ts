@@ -0,0 +1,311 @@
+import { DatabaseConnection } from '@shared/types';
+import { Coupon, CouponRedemption, Money } from './types';
+import { PaymentError } from './errors';
+import { moneyFromDecimal, moneyToDecimal } from './money';
+
+/**
+ * Coupon Store
+ * Handles all database operations for coupons and their redemptions
+ */
+export class CouponStore {
+  constructor(private db: DatabaseConnection) {}
+
+  /**
+   * Create a coupon
+   */
+  async createCoupon(
+    data: Omit<Coupon, 'id' | 'timesRedeemed' | 'active' | 'createdAt' | 'updatedAt'>
+  ): Promise<Coupon> {
+    const now = new Date();
+
+    const coupon: Coupon = {
+      ...data,
+      id: this.generateId('cpn'),
+      timesRedeemed: 0,
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.db.query(
+      `INSERT INTO coupons (
+        id, code, discount_type, percent_off, amount_off, currency, max_redemptions,
+        max_redemptions_per_user, times_redeemed, expires_at, plan_ids, active,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+      [
+        coupon.id,
+        coupon.code,
+        coupon.discountType,
+        coupon.percentOff,
+        coupon.amountOff ? moneyToDecimal(coupon.amountOff) : null,
+        coupon.amountOff?.currency,
+        coupon.maxRedemptions,
+        coupon.maxRedemptionsPerUser,
+        coupon.timesRedeemed,
+        coupon.expiresAt,
+        coupon.planIds ? JSON.stringify(coupon.planIds) : null,
+        coupon.active,
+        coupon.createdAt,
+        coupon.updatedAt,
+      ]
+    );
+
+    return coupon;
+  }
+
+  /**
+   * Switch a coupon on or off
+   */
+  async setCouponActive(couponId: string, active: boolean): Promise<Coupon> {
+    const coupon = await this.getCoupon(couponId);
+    if (!coupon) {
+      throw new PaymentError('COUPON_NOT_FOUND', 'Coupon not found');
+    }
+
+    const updated = { ...coupon, active, updatedAt: new Date() };
+
+    await this.db.query('UPDATE coupons SET active = $1, updated_at = $2 WHERE id = $3', [
+      updated.active,
+      updated.updatedAt,
+      couponId,
+    ]);
+
+    return updated;
+  }
+
+  /**
+   * Get coupon by ID
+   */
+  async getCoupon(couponId: string): Promise<Coupon | null> {
+    const result = await this.db.query<Coupon>('SELECT * FROM coupons WHERE id = $1', [couponId]);
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToCoupon(row);
+  }
+
+  /**
+   * Get coupon by code, ignoring case
+   */
+  async getCouponByCode(code: string): Promise<Coupon | null> {
+    const result = await this.db.query<Coupon>('SELECT * FROM coupons WHERE code = $1', [
+      code.trim().toUpperCase(),
+    ]);
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToCoupon(row);
+  }
+
+  /**
+   * Number of times a user has redeemed a coupon
+   */
+  async countRedemptions(couponId: string, userId: string): Promise<number> {
+    const result = await this.db.query<Array<{ count: string | number }>>(
+      'SELECT COUNT(*) AS count FROM coupon_redemptions WHERE coupon_id = $1 AND user_id = $2',
+      [couponId, userId]
+    );
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return Number(row?.count) || 0;
+  }
+
+  /**
+   * Record a redemption, within the coupon's global and per-user limits
+   * The coupon row is locked while the limits are checked, so concurrent
+   * checkouts cannot redeem past them. A redemption with the same idempotency
+   * key is returned instead of redeeming again.
+   */
+  async redeem(
+    couponId: string,
+    data: { userId: string; discount: Money; idempotencyKey?: string }
+  ): Promise<CouponRedemption> {
+    return this.db.transaction(async tx => {
+      const store = new CouponStore(tx);
+
+      if (data.idempotencyKey) {
+        const existing = await store.getRedemptionByIdempotencyKey(data.idempotencyKey);
+        if (existing) {
+          return existing;
+        }
+      }
+
+      const result = await tx.query<Coupon>('SELECT * FROM coupons WHERE id = $1 FOR UPDATE', [
+        couponId,
+      ]);
+      if (!result || (Array.isArray(result) && result.length === 0)) {
+        throw new PaymentError('COUPON_NOT_FOUND', 'Coupon not found');
+      }
+      const coupon = store.mapRowToCoupon(Array.isArray(result) ? result[0] : result);
+
+      if (coupon.maxRedemptions !== undefined && coupon.timesRedeemed >= coupon.maxRedemptions) {
+        throw new PaymentError('COUPON_LIMIT_REACHED', 'Coupon has been fully redeemed');
+      }
+
+      if (
+        coupon.maxRedemptionsPerUser !== undefined &&
+        (await store.countRedemptions(couponId, data.userId)) >= coupon.maxRedemptionsPerUser
+      ) {
+        throw new PaymentError(
+          'COUPON_USER_LIMIT_REACHED',
+          'You have already used this coupon the maximum number of times'
+        );
+      }
+
+      const redemption: CouponRedemption = {
+        id: store.generateId('cpr'),
+        couponId,
+        userId: data.userId,
+        discount: data.discount,
+        idempotencyKey: data.idempotencyKey,
+        createdAt: new Date(),
+      };
+
+      await tx.query(
+        `INSERT INTO coupon_redemptions (
+          id, coupon_id, user_id, discount, currency, idempotency_key, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          redemption.id,
+          redemption.couponId,
+          redemption.userId,
+          moneyToDecimal(redemption.discount),
+          redemption.discount.currency,
+          redemption.idempotencyKey,
+          redemption.createdAt,
+        ]
+      );
+
+      await tx.query(
+        `UPDATE coupons SET times_redeemed = times_redeemed + 1, updated_at = $1 WHERE id = $2`,
+        [new Date(), couponId]
+      );
+
+      return redemption;
+    });
+  }
+
+  /**
+   * Link a redemption to the payment it discounted
+   */
+  async attachTransaction(redemptionId: string, transactionId: string): Promise<void> {
+    await this.db.query('UPDATE coupon_redemptions SET transaction_id = $1 WHERE id = $2', [
+      transactionId,
+      redemptionId,
+    ]);
+  }
+
+  /**
+   * Undo a redemption whose payment failed, freeing its place in the limits
+   * The redemption row is locked, so releasing it twice (e.g. from the checkout
+   * and a webhook) frees one place; returns false when it was already released.
+   */
+  async releaseRedemption(redemption: CouponRedemption): Promise<boolean> {
+    return this.db.transaction(async tx => {
+      const result = await tx.query<CouponRedemption>(
+        'SELECT * FROM coupon_redemptions WHERE id = $1 FOR UPDATE',
+        [redemption.id]
+      );
+      if (!result || (Array.isArray(result) && result.length === 0)) {
+        return false;
+      }
+
+      await tx.query('DELETE FROM coupon_redemptions WHERE id = $1', [redemption.id]);
+      await tx.query(
+        `UPDATE coupons SET times_redeemed = times_redeemed - 1, updated_at = $1 WHERE id = $2`,
+        [new Date(), redemption.couponId]
+      );
+
+      return true;
+    });
+  }
+
+  /**
+   * Get the redemption made with an idempotency key
+   */
+  async getRedemptionByIdempotencyKey(
+    idempotencyKey: string
+  ): Promise<CouponRedemption | null> {
+    const result = await this.db.query<CouponRedemption>(
+      'SELECT * FROM coupon_redemptions WHERE idempotency_key = $1',
+      [idempotencyKey]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToRedemption(row);
+  }
+
+  /**
+   * Get the redemption that discounted a payment
+   */
+  async getRedemptionByTransactionId(transactionId: string): Promise<CouponRedemption | null> {
+    const result = await this.db.query<CouponRedemption>(
+      'SELECT * FROM coupon_redemptions WHERE transaction_id = $1',
+      [transactionId]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToRedemption(row);
+  }
+
+  /**
+   * Map database row to Coupon object
+   */
+  private mapRowToCoupon(row: any): Coupon {
+    const planIds = typeof row.plan_ids === 'string' ? JSON.parse(row.plan_ids) : row.plan_ids;
+
+    return {
+      id: row.id,
+      code: row.code,
+      discountType: row.discount_type,
+      percentOff: row.percent_off != null ? Number(row.percent_off) : undefined,
+      amountOff: row.amount_off != null ? moneyFromDecimal(row.amount_off, row.currency) : undefined,
+      maxRedemptions: row.max_redemptions != null ? Number(row.max_redemptions) : undefined,
+      maxRedemptionsPerUser:
+        row.max_redemptions_per_user != null ? Number(row.max_redemptions_per_user) : undefined,
+      timesRedeemed: Number(row.times_redeemed) || 0,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      planIds: planIds || undefined,
+      active: !!row.active,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  /**
+   * Map database row to CouponRedemption object
+   */
+  private mapRowToRedemption(row: any): CouponRedemption {
+    return {
+      id: row.id,
+      couponId: row.coupon_id,
+      userId: row.user_id,
+      transactionId: row.transaction_id || undefined,
+      discount: moneyFromDecimal(row.discount, row.currency),
+      idempotencyKey: row.idempotency_key || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  /**
+   * Generate unique ID
+   */
+  private generateId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
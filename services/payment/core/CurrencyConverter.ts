@@ -0,0 +1,66 @@
+import { Currency, FxSnapshot, IExchangeRateProvider, Money, Transaction } from './types';
+import { addMoney, convertMoney, shareOfMoney, subtractMoney, zeroMoney } from './money';
+import { applySpread } from './exchangeRates';
+
+/**
+ * Currency Converter
+ * Quotes a rate from the configured provider, applies the spread and
+ * converts, returning a snapshot to store on the transaction
+ */
+export class CurrencyConverter {
+  constructor(
+    private provider: IExchangeRateProvider,
+    private spreadPercent = 0
+  ) {}
+
+  /**
+   * Swap the rate provider
+   */
+  setProvider(provider: IExchangeRateProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Convert an amount, or return null when the provider does not quote the pair
+   */
+  async convert(amount: Money, to: Currency): Promise<FxSnapshot | null> {
+    const quote = await this.provider.getRate(amount.currency, to);
+    if (!quote) {
+      return null;
+    }
+
+    const appliedRate = applySpread(quote.rate, this.spreadPercent);
+
+    return {
+      from: amount.currency,
+      to,
+      midRate: quote.rate,
+      spreadPercent: this.spreadPercent,
+      appliedRate,
+      provider: quote.provider,
+      asOf: quote.asOf.toISOString(),
+      sourceAmount: amount,
+      convertedAmount: convertMoney(amount, to, appliedRate),
+    };
+  }
+}
+
+/**
+ * Part of a converted payment's convertedAmount the payee returns for a refund
+ * Allocated on the cumulative refunded amount, so a full refund returns it exactly
+ */
+export function convertedRefundShare(
+  original: Pick<Transaction, 'amount' | 'refundedAmount' | 'fx'>,
+  refundAmount: Money
+): Money {
+  const { fx, amount } = original;
+  if (!fx) {
+    throw new Error('Transaction was not converted');
+  }
+
+  const refundedBefore = original.refundedAmount || zeroMoney(amount.currency);
+  return subtractMoney(
+    shareOfMoney(fx.convertedAmount, addMoney(refundedBefore, refundAmount), amount),
+    shareOfMoney(fx.convertedAmount, refundedBefore, amount)
+  );
+}
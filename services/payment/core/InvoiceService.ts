@@ -0,0 +1,388 @@
+import { BaseService, ServiceMetadata, ServiceContext } from '@shared/types';
+import {
+  InvoiceServiceConfig,
+  InvoiceResult,
+  CreateInvoiceRequest,
+  Invoice,
+  InvoiceLineItem,
+  InvoiceTaxLine,
+  PaymentMethod,
+  Transaction,
+} from './types';
+import { PaymentService } from './PaymentService';
+import { InvoiceStore } from './InvoiceStore';
+import { InvoiceFormat, renderInvoice } from './invoiceRenderer';
+import {
+  addMoney,
+  isPositiveMoney,
+  multiplyMoney,
+  percentOfMoney,
+  zeroMoney,
+  CURRENCY_DECIMALS,
+} from './money';
+
+/**
+ * Days until an invoice is due when neither the request nor the config says
+ */
+const DEFAULT_DUE_DAYS = 30;
+
+/**
+ * Payment Service events that settle a payment the processor accepted as pending
+ */
+const SETTLED_TRANSACTION_EVENTS = [
+  'transaction:completed',
+  'transaction:failed',
+  'transaction:cancelled',
+];
+
+/**
+ * Invoice Service
+ * Invoices with line items and taxes, paid through the Payment Service
+ */
+export class InvoiceService extends BaseService<InvoiceServiceConfig> {
+  readonly metadata: ServiceMetadata = {
+    name: 'invoice',
+    version: '0.1.0',
+    description: 'Invoices and receipts for payments',
+    dependencies: ['payment'],
+    platforms: ['pwa', 'mobile', 'web'],
+  };
+
+  private store?: InvoiceStore;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(private readonly payments: PaymentService) {
+    super();
+  }
+
+  async initialize(config: InvoiceServiceConfig, context?: ServiceContext): Promise<void> {
+    await super.initialize(config, context);
+
+    if (!context?.database) {
+      throw new Error('Database connection required for Invoice Service');
+    }
+
+    if (config.defaultDueDays !== undefined && !(config.defaultDueDays >= 0)) {
+      throw new Error('defaultDueDays must not be negative');
+    }
+
+    this.store = new InvoiceStore(context.database);
+
+    // Payments the processor settles later (bank debits) complete or fail through
+    // its webhooks, after payInvoice has returned
+    if (context.eventBus) {
+      const eventBus = context.eventBus;
+      for (const type of SETTLED_TRANSACTION_EVENTS) {
+        this.unsubscribers.push(
+          eventBus.on(`service:${this.payments.metadata.name}:${type}`, transaction => {
+            this.settlePendingPayment(transaction).catch(error =>
+              this.log('error', 'Settling pending invoice payment failed', {
+                transactionId: transaction.id,
+                error,
+              })
+            );
+          })
+        );
+      }
+    } else {
+      this.log('warn', 'No event bus: invoices paid by pending payments stay open');
+    }
+
+    this.log('info', 'Invoice Service initialized');
+
+    this._status = 'ready';
+  }
+
+  async shutdown(): Promise<void> {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+
+    await super.shutdown();
+  }
+
+  /**
+   * Create an invoice
+   * Line amounts, taxes and totals are worked out here; taxes apply to the subtotal
+   */
+  async createInvoice(request: CreateInvoiceRequest): Promise<InvoiceResult> {
+    try {
+      const { issuerId, customerId, taxes = [], orderId, memo } = request;
+
+      if (!issuerId || !customerId || issuerId === customerId) {
+        return this.failure('INVALID_INVOICE', 'Invoice needs a different issuer and customer');
+      }
+
+      if (!request.lineItems?.length) {
+        return this.failure('INVALID_INVOICE', 'Invoice needs at least one line item');
+      }
+
+      const currency = request.lineItems[0].unitPrice?.currency;
+      const lineItems: InvoiceLineItem[] = [];
+
+      for (const item of request.lineItems) {
+        const { description, quantity = 1, unitPrice } = item;
+
+        if (
+          !unitPrice ||
+          !Number.isSafeInteger(unitPrice.minorUnits) ||
+          !(unitPrice.currency in CURRENCY_DECIMALS)
+        ) {
+          return this.failure(
+            'INVALID_INVOICE',
+            'Unit prices must be an integer number of minor units with a currency'
+          );
+        }
+
+        if (unitPrice.currency !== currency) {
+          return this.failure('INVALID_INVOICE', 'All line items must be in the same currency');
+        }
+
+        if (
+          typeof description !== 'string' ||
+          !description ||
+          !(quantity > 0) ||
+          !Number.isFinite(quantity)
+        ) {
+          return this.failure(
+            'INVALID_INVOICE',
+            'Line items need a description and a positive quantity'
+          );
+        }
+
+        lineItems.push({
+          description,
+          quantity,
+          unitPrice,
+          amount: multiplyMoney(unitPrice, quantity),
+        });
+      }
+
+      if (taxes.some(tax => !tax.name || !(tax.rate >= 0 && tax.rate <= 100))) {
+        return this.failure('INVALID_INVOICE', 'Tax rates must be percentages from 0 to 100');
+      }
+
+      // Rendered into invoice documents as text
+      if (
+        (orderId != null && typeof orderId !== 'string') ||
+        (memo != null && typeof memo !== 'string')
+      ) {
+        return this.failure('INVALID_INVOICE', 'orderId and memo must be strings');
+      }
+
+      const subtotal = addMoney(zeroMoney(currency), ...lineItems.map(item => item.amount));
+      const taxLines: InvoiceTaxLine[] = taxes.map(tax => ({
+        name: tax.name,
+        rate: tax.rate,
+        amount: percentOfMoney(subtotal, tax.rate),
+      }));
+      const taxTotal = addMoney(zeroMoney(currency), ...taxLines.map(tax => tax.amount));
+      const total = addMoney(subtotal, taxTotal);
+
+      if (!isPositiveMoney(total)) {
+        return this.failure('INVALID_INVOICE', 'Invoice total must be positive');
+      }
+
+      const dueDays = this.config.defaultDueDays ?? DEFAULT_DUE_DAYS;
+      const dueDate = request.dueDate
+        ? new Date(request.dueDate)
+        : new Date(Date.now() + dueDays * 24 * 60 * 60 * 1000);
+
+      const invoice = await this.store!.createInvoice(
+        {
+          issuerId,
+          customerId,
+          lineItems,
+          taxLines,
+          subtotal,
+          taxTotal,
+          total,
+          dueDate,
+          orderId,
+          memo,
+        },
+        this.config.numberPrefix || 'INV'
+      );
+
+      this.emit('invoice:created', invoice);
+      this.log('info', 'Invoice created', { invoiceId: invoice.id, number: invoice.number });
+
+      return { success: true, invoice };
+    } catch (error) {
+      this.log('error', 'Invoice creation failed', { error });
+      return this.failure(
+        'INVOICE_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Pay an open invoice
+   * The customer pays the total to the issuer through processTransaction; the
+   * transaction carries the invoice ID and the invoice records the transaction ID.
+   * The invoice's tax lines are the payment's tax, so the tax calculator is skipped
+   * even when the invoice has none.
+   * Each attempt has its own idempotency key, so a double submit charges once.
+   * A payment the processor settles later is kept on the invoice as pending, and
+   * the invoice is marked paid, or open to try again, when it settles.
+   */
+  async payInvoice(invoiceId: string, paymentMethod?: PaymentMethod): Promise<InvoiceResult> {
+    try {
+      const invoice = await this.store!.getInvoice(invoiceId);
+      if (!invoice) {
+        return this.failure('INVOICE_NOT_FOUND', 'Invoice not found');
+      }
+
+      if (invoice.status !== 'open') {
+        return this.failure('INVALID_INVOICE_STATUS', 'Invoice is already paid');
+      }
+
+      if (invoice.pendingTransactionId) {
+        return this.failure(
+          'PAYMENT_PENDING',
+          'Invoice has a payment the processor has not settled yet',
+          { transactionId: invoice.pendingTransactionId }
+        );
+      }
+
+      const result = await this.payments.processTransaction({
+        payerId: invoice.customerId,
+        payeeId: invoice.issuerId,
+        amount: invoice.total,
+        paymentMethod,
+        tax: {
+          name: invoice.taxLines.map(tax => tax.name).join(', ') || undefined,
+          rate: invoice.taxLines.reduce((total, tax) => total + tax.rate, 0),
+          inclusive: true,
+          amount: invoice.taxTotal,
+        },
+        metadata: {
+          description: `Invoice ${invoice.number}`,
+          invoiceId: invoice.id,
+          orderId: invoice.orderId,
+        },
+        idempotencyKey: `invoice:${invoice.id}:${invoice.paymentAttempts}`,
+      });
+
+      if (result.success && result.transaction?.status === 'processing') {
+        const pending = await this.store!.updateInvoice(invoiceId, {
+          pendingTransactionId: result.transaction.id,
+        });
+
+        this.log('info', 'Invoice payment waiting for the processor', {
+          invoiceId,
+          transactionId: result.transaction.id,
+        });
+
+        return { success: true, invoice: pending, transaction: result.transaction };
+      }
+
+      // A replayed idempotency key returns the earlier transaction, which may have failed
+      if (!result.success || result.transaction?.status !== 'completed') {
+        const updated = await this.store!.updateInvoice(invoiceId, {
+          paymentAttempts: invoice.paymentAttempts + 1,
+        });
+
+        this.emit('invoice:payment_failed', { invoice: updated, error: result.error });
+
+        return {
+          ...this.failure(
+            'PAYMENT_FAILED',
+            result.error?.message || 'Invoice payment failed',
+            result.error ? { code: result.error.code } : undefined
+          ),
+          invoice: updated,
+          transaction: result.transaction,
+        };
+      }
+
+      const paid = await this.store!.updateInvoice(invoiceId, {
+        status: 'paid',
+        transactionId: result.transaction.id,
+        paidAt: result.transaction.completedAt || new Date(),
+      });
+
+      this.emit('invoice:paid', paid);
+      this.log('info', 'Invoice paid', { invoiceId, transactionId: result.transaction.id });
+
+      return { success: true, invoice: paid, transaction: result.transaction };
+    } catch (error) {
+      this.log('error', 'Invoice payment failed', { error });
+      return this.failure(
+        'INVOICE_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Mark the invoice a settled pending payment was for paid, or open to pay again
+   */
+  private async settlePendingPayment(transaction: Transaction): Promise<void> {
+    const invoiceId = transaction.metadata?.invoiceId;
+    if (!invoiceId) {
+      return;
+    }
+
+    const invoice = await this.store!.getInvoice(invoiceId);
+    if (!invoice || invoice.pendingTransactionId !== transaction.id) {
+      return;
+    }
+
+    if (transaction.status !== 'completed') {
+      const updated = await this.store!.updateInvoice(invoiceId, {
+        paymentAttempts: invoice.paymentAttempts + 1,
+        pendingTransactionId: undefined,
+      });
+
+      this.emit('invoice:payment_failed', {
+        invoice: updated,
+        error: { code: 'PAYMENT_FAILED', message: `Invoice payment ${transaction.status}` },
+      });
+      this.log('info', 'Pending invoice payment failed', { invoiceId, transactionId: transaction.id });
+      return;
+    }
+
+    const paid = await this.store!.updateInvoice(invoiceId, {
+      status: 'paid',
+      transactionId: transaction.id,
+      pendingTransactionId: undefined,
+      paidAt: transaction.completedAt || new Date(),
+    });
+
+    this.emit('invoice:paid', paid);
+    this.log('info', 'Invoice paid', { invoiceId, transactionId: transaction.id });
+  }
+
+  /**
+   * Get invoice by ID
+   */
+  async getInvoice(invoiceId: string): Promise<Invoice | null> {
+    return this.store!.getInvoice(invoiceId);
+  }
+
+  /**
+   * Get invoices sent to a customer, or issued by an issuer, newest first
+   */
+  async getInvoices(userId: string, role: 'customer' | 'issuer' = 'customer'): Promise<Invoice[]> {
+    return this.store!.getInvoices(userId, role);
+  }
+
+  /**
+   * Render an invoice as HTML or plain text; a paid invoice renders as a receipt
+   */
+  async renderInvoice(invoiceId: string, format: InvoiceFormat = 'html'): Promise<string | null> {
+    const invoice = await this.store!.getInvoice(invoiceId);
+    return invoice ? renderInvoice(invoice, format) : null;
+  }
+
+  /**
+   * Failure result
+   */
+  private failure(code: string, message: string, details?: any): InvoiceResult {
+    return {
+      success: false,
+      error: { code, message, details },
+    };
+  }
+}
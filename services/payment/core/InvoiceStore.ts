@@ -0,0 +1,202 @@
+import { DatabaseConnection } from '@shared/types';
+import { Invoice, InvoiceLineItem, InvoiceTaxLine, Money } from './types';
+import { moneyFromDecimal, moneyToDecimal } from './money';
+
+/**
+ * Invoice Store
+ * Handles all database operations for invoices
+ */
+export class InvoiceStore {
+  constructor(private db: DatabaseConnection) {}
+
+  /**
+   * Create an invoice, numbered after the issuer's previous invoices
+   */
+  async createInvoice(
+    data: {
+      issuerId: string;
+      customerId: string;
+      lineItems: InvoiceLineItem[];
+      taxLines: InvoiceTaxLine[];
+      subtotal: Money;
+      taxTotal: Money;
+      total: Money;
+      dueDate: Date;
+      orderId?: string;
+      memo?: string;
+    },
+    numberPrefix: string
+  ): Promise<Invoice> {
+    const now = new Date();
+    const sequence = (await this.countInvoices(data.issuerId)) + 1;
+
+    const invoice: Invoice = {
+      id: this.generateId(),
+      number: `${numberPrefix}-${String(sequence).padStart(6, '0')}`,
+      issuerId: data.issuerId,
+      customerId: data.customerId,
+      status: 'open',
+      lineItems: data.lineItems,
+      taxLines: data.taxLines,
+      subtotal: data.subtotal,
+      taxTotal: data.taxTotal,
+      total: data.total,
+      dueDate: data.dueDate,
+      orderId: data.orderId,
+      memo: data.memo,
+      paymentAttempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.db.query(
+      `INSERT INTO invoices (
+        id, number, issuer_id, customer_id, status, line_items, tax_lines, subtotal,
+        tax_total, total, currency, due_date, order_id, memo, payment_attempts,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)`,
+      [
+        invoice.id,
+        invoice.number,
+        invoice.issuerId,
+        invoice.customerId,
+        invoice.status,
+        JSON.stringify(invoice.lineItems),
+        JSON.stringify(invoice.taxLines),
+        moneyToDecimal(invoice.subtotal),
+        moneyToDecimal(invoice.taxTotal),
+        moneyToDecimal(invoice.total),
+        invoice.total.currency,
+        invoice.dueDate,
+        invoice.orderId,
+        invoice.memo,
+        invoice.paymentAttempts,
+        invoice.createdAt,
+        invoice.updatedAt,
+      ]
+    );
+
+    return invoice;
+  }
+
+  /**
+   * Update an invoice's payment state
+   */
+  async updateInvoice(
+    invoiceId: string,
+    updates: Partial<
+      Pick<Invoice, 'status' | 'paymentAttempts' | 'transactionId' | 'pendingTransactionId' | 'paidAt'>
+    >
+  ): Promise<Invoice> {
+    const invoice = await this.getInvoice(invoiceId);
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    const updated = { ...invoice, ...updates, updatedAt: new Date() };
+
+    await this.db.query(
+      `UPDATE invoices SET
+        status = $1,
+        payment_attempts = $2,
+        transaction_id = $3,
+        pending_transaction_id = $4,
+        paid_at = $5,
+        updated_at = $6
+      WHERE id = $7`,
+      [
+        updated.status,
+        updated.paymentAttempts,
+        updated.transactionId,
+        updated.pendingTransactionId,
+        updated.paidAt,
+        updated.updatedAt,
+        invoiceId,
+      ]
+    );
+
+    return updated;
+  }
+
+  /**
+   * Get invoice by ID
+   */
+  async getInvoice(invoiceId: string): Promise<Invoice | null> {
+    const result = await this.db.query<Invoice>('SELECT * FROM invoices WHERE id = $1', [
+      invoiceId,
+    ]);
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToInvoice(row);
+  }
+
+  /**
+   * Get invoices sent to a customer, or issued by an issuer, newest first
+   */
+  async getInvoices(userId: string, role: 'customer' | 'issuer'): Promise<Invoice[]> {
+    const column = role === 'issuer' ? 'issuer_id' : 'customer_id';
+    const result = await this.db.query<Invoice>(
+      `SELECT * FROM invoices WHERE ${column} = $1 ORDER BY created_at DESC`,
+      [userId]
+    );
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToInvoice(row));
+  }
+
+  /**
+   * Number of invoices an issuer has created
+   */
+  private async countInvoices(issuerId: string): Promise<number> {
+    const result = await this.db.query<Array<{ count: string | number }>>(
+      'SELECT COUNT(*) AS count FROM invoices WHERE issuer_id = $1',
+      [issuerId]
+    );
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return Number(row?.count) || 0;
+  }
+
+  /**
+   * Map database row to Invoice object
+   */
+  private mapRowToInvoice(row: any): Invoice {
+    const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value || []);
+
+    return {
+      id: row.id,
+      number: row.number,
+      issuerId: row.issuer_id,
+      customerId: row.customer_id,
+      status: row.status,
+      lineItems: parse(row.line_items),
+      taxLines: parse(row.tax_lines),
+      subtotal: moneyFromDecimal(row.subtotal, row.currency),
+      taxTotal: moneyFromDecimal(row.tax_total, row.currency),
+      total: moneyFromDecimal(row.total, row.currency),
+      dueDate: new Date(row.due_date),
+      orderId: row.order_id || undefined,
+      memo: row.memo || undefined,
+      paymentAttempts: Number(row.payment_attempts),
+      transactionId: row.transaction_id || undefined,
+      pendingTransactionId: row.pending_transaction_id || undefined,
+      paidAt: row.paid_at ? new Date(row.paid_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  /**
+   * Generate unique ID
+   */
+  private generateId(): string {
+    return `inv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -6,15 +6,70 @@ import {
   Currency,
   AccountType,
   BalanceInfo,
+  JournalLeg,
+  LedgerEntry,
+  AccountReconciliation,
+  Money,
+  FxSnapshot,
+  TaxSnapshot,
+  DiscountSnapshot,
+  OverdraftLimits,
+  ProcessTransactionRequest,
+  RiskAssessment,
+  RiskDataSource,
+  TransitionContext,
+  TransactionStatusChange,
   SELF_ENTITY,
+  ESCROW_ENTITY,
+  PROCESSOR_ENTITY,
+  FX_ENTITY,
+  TAX_ENTITY,
+  PAYOUT_ENTITY,
+  DISPUTE_ENTITY,
+  Payout,
+  PayoutDestination,
+  AddPayoutDestinationRequest,
+  Dispute,
+  DisputeEvidence,
+  PendingSettlement,
+  TransactionMetadata,
 } from './types';
+import { InsufficientFundsError, PaymentError } from './errors';
+import { convertedRefundShare } from './CurrencyConverter';
+import { assertTransition } from './TransactionStateMachine';
+import {
+  zeroMoney,
+  isZeroMoney,
+  isNegativeMoney,
+  addMoney,
+  compareMoney,
+  subtractMoney,
+  negateMoney,
+  moneyFromDecimal,
+  moneyFromMajor,
+  moneyToDecimal,
+} from './money';
+
+/**
+ * Account types that may go below zero without a configured overdraft limit
+ */
+const UNLIMITED_ACCOUNT_TYPES: AccountType[] = ['platform', 'clearing', 'fx', 'tax'];
+
+/**
+ * The parts of a refund's original payment its pending debit depends on
+ */
+type RefundedPayment = Pick<Transaction, 'amount' | 'refundedAmount' | 'fx'>;
 
 /**
  * Ledger Manager
  * Handles all database operations for transactions and accounts
  */
-export class LedgerManager {
-  constructor(private db: DatabaseConnection) {}
+export class LedgerManager implements RiskDataSource {
+  constructor(
+    private db: DatabaseConnection,
+    private readonly overdraftLimits: OverdraftLimits = {},
+    private readonly inTransaction = false
+  ) {}
 
   async initialize(): Promise<void> {
     // Ensure database connection is ready
@@ -23,84 +78,1790 @@ export class LedgerManager {
   }
 
   /**
-   * Create a new transaction
+   * Run a unit of work against a ledger bound to a single database transaction
+   * Nested calls join the outer transaction
+   */
+  async transaction<T>(fn: (ledger: LedgerManager) => Promise<T>): Promise<T> {
+    if (this.inTransaction) {
+      return fn(this);
+    }
+
+    return this.db.transaction(tx => fn(new LedgerManager(tx, this.overdraftLimits, true)));
+  }
+
+  /**
+   * Settle a transaction: post the journal and mark it completed
+   * in one unit of work. The funding source is debited, tax is credited to the
+   * TAX account, a platform fee to the SELF account and the remainder to the payee.
+   * The row is locked so two settlements (e.g. concurrent webhooks) cannot both post,
+   * nor one post while a void or capture is claimed.
+   */
+  async completeTransaction(transactionId: string): Promise<Transaction> {
+    return this.transaction(async ledger => {
+      const transaction = await ledger.lockTransaction(transactionId);
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+
+      ledger.assertUnclaimed(transaction);
+      assertTransition(transaction.status, 'completed');
+
+      await ledger.postJournal(
+        transaction.id,
+        ledger.settlementLegs(transaction, ledger.fundingSource(transaction))
+      );
+
+      return ledger.updateTransactionStatus(transactionId, 'completed');
+    });
+  }
+
+  /**
+   * Move a transaction's funds from its funding source into escrow and mark it held
+   * Refused while a void is claimed for it.
+   */
+  async holdInEscrow(transactionId: string): Promise<Transaction> {
+    return this.transaction(async ledger => {
+      const transaction = await ledger.lockTransaction(transactionId);
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+
+      ledger.assertUnclaimed(transaction);
+      assertTransition(transaction.status, 'held');
+
+      await ledger.postTransfer(
+        transaction.id,
+        ledger.fundingSource(transaction),
+        ESCROW_ENTITY,
+        transaction.amount
+      );
+
+      return ledger.updateTransactionStatus(transactionId, 'held');
+    });
+  }
+
+  /**
+   * Pay escrowed funds out to the payee (less any platform fee) and mark it released
+   * The row is locked so a concurrent release or cancel cannot pay out the escrow twice.
+   */
+  async releaseEscrow(transactionId: string, context?: TransitionContext): Promise<Transaction> {
+    return this.transaction(async ledger => {
+      const transaction = await ledger.lockTransaction(transactionId);
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+
+      ledger.assertUnclaimed(transaction);
+      assertTransition(transaction.status, 'released');
+
+      await ledger.postJournal(transaction.id, ledger.settlementLegs(transaction, ESCROW_ENTITY));
+
+      return ledger.updateTransactionStatus(transactionId, 'released', context);
+    });
+  }
+
+  /**
+   * Return escrowed funds to their funding source and mark the transaction cancelled
+   * The row is locked so a concurrent release or cancel cannot return the escrow twice.
+   * Any pending settlement claimed for the cancellation is cleared with it.
+   */
+  async cancelEscrow(transactionId: string, context: TransitionContext = {}): Promise<Transaction> {
+    return this.transaction(async ledger => {
+      const transaction = await ledger.lockTransaction(transactionId);
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+
+      assertTransition(transaction.status, 'cancelled');
+
+      await ledger.postTransfer(
+        transaction.id,
+        ESCROW_ENTITY,
+        ledger.fundingSource(transaction),
+        transaction.amount
+      );
+
+      return ledger.updateTransaction(
+        transactionId,
+        {
+          status: 'cancelled',
+          metadata: {
+            ...ledger.withoutSettlement(transaction.metadata),
+            cancellationReason: context.reason,
+          },
+        },
+        context
+      );
+    });
+  }
+
+  /**
+   * Cancel an authorization, or a charge still processing, the processor has voided
+   * Nothing is posted to the ledger before capture or settlement, so there is no
+   * journal to reverse. Any pending settlement claimed for the void is cleared with it.
+   */
+  async voidAuthorization(
+    transactionId: string,
+    context: TransitionContext = {}
+  ): Promise<Transaction> {
+    return this.transaction(async ledger => {
+      const transaction = await ledger.lockTransaction(transactionId);
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+
+      assertTransition(transaction.status, 'cancelled');
+
+      return ledger.updateTransaction(
+        transactionId,
+        {
+          status: 'cancelled',
+          metadata: {
+            ...ledger.withoutSettlement(transaction.metadata),
+            cancellationReason: context.reason,
+          },
+        },
+        context
+      );
+    });
+  }
+
+  /**
+   * Capture an authorization: record the captured amount, fee, tax and conversion,
+   * then settle it like any other payment in the same unit of work
+   * Any pending settlement claimed for the capture is cleared with it.
+   */
+  async captureAuthorization(
+    transactionId: string,
+    captured: { amount: Money; fee?: Money; tax?: TaxSnapshot; fx?: FxSnapshot },
+    context?: TransitionContext
+  ): Promise<Transaction> {
+    return this.transaction(async ledger => {
+      const transaction = await ledger.lockTransaction(transactionId);
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+
+      assertTransition(transaction.status, 'completed');
+
+      await ledger.db.query(
+        `UPDATE transactions SET
+          amount = $1, fee_amount = $2, tax_snapshot = $3, fx_snapshot = $4
+        WHERE id = $5`,
+        [
+          moneyToDecimal(captured.amount),
+          captured.fee ? moneyToDecimal(captured.fee) : null,
+          captured.tax ? JSON.stringify(captured.tax) : null,
+          captured.fx ? JSON.stringify(captured.fx) : null,
+          transactionId,
+        ]
+      );
+
+      const capturedTransaction = { ...transaction, ...captured };
+      await ledger.postJournal(
+        transactionId,
+        ledger.settlementLegs(capturedTransaction, ledger.fundingSource(capturedTransaction))
+      );
+
+      return ledger.updateTransaction(
+        transactionId,
+        {
+          status: 'completed',
+          completedAt: new Date(),
+          metadata: ledger.withoutSettlement(transaction.metadata),
+        },
+        context
+      );
+    });
+  }
+
+  /**
+   * Cancel a transaction that has not settled
+   * Nothing is posted to the ledger before settlement, so there is no journal to
+   * reverse; leaving pending/processing drops it from the pending balance
+   */
+  async cancelTransaction(transactionId: string, context: TransitionContext = {}): Promise<Transaction> {
+    return this.transaction(async ledger => {
+      const transaction = await ledger.lockTransaction(transactionId);
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+
+      ledger.assertUnclaimed(transaction);
+
+      return ledger.updateTransaction(
+        transactionId,
+        {
+          status: 'cancelled',
+          metadata: { ...transaction.metadata, cancellationReason: context.reason },
+        },
+        context
+      );
+    });
+  }
+
+  /**
+   * Claim a transaction for a processor step that ends in the given status
+   * The row is locked while the transition and any earlier claim are checked, so two
+   * requests cannot both call the processor. Commit the claim before calling it.
+   * @param debit What settling it takes from the transaction's funding source,
+   *   checked under lock so a step the source cannot cover is never sent
+   */
+  async claimSettlement(
+    transactionId: string,
+    status: TransactionStatus,
+    settlement: PendingSettlement,
+    debit?: Money
+  ): Promise<Transaction> {
+    return this.transaction(async ledger => {
+      const transaction = await ledger.lockTransaction(transactionId);
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+
+      ledger.assertUnclaimed(transaction);
+      assertTransition(transaction.status, status);
+
+      if (debit) {
+        const source = ledger.fundingSource(transaction);
+        const accountId = await ledger.ensureAccount(source, debit.currency);
+        await ledger.assertSufficientFunds(accountId, source, debit);
+      }
+
+      return ledger.updateTransaction(transactionId, {
+        metadata: { ...transaction.metadata, pendingSettlement: settlement },
+      });
+    });
+  }
+
+  /**
+   * Record progress on a transaction's pending settlement
+   */
+  async updateSettlement(
+    transactionId: string,
+    updates: Partial<PendingSettlement>
+  ): Promise<Transaction> {
+    return this.transaction(async ledger => {
+      const transaction = await ledger.lockTransaction(transactionId);
+      const pendingSettlement = transaction?.metadata?.pendingSettlement;
+      if (!transaction || !pendingSettlement) {
+        throw new Error('Transaction has no pending settlement');
+      }
+
+      return ledger.updateTransaction(transactionId, {
+        metadata: {
+          ...transaction.metadata,
+          pendingSettlement: { ...pendingSettlement, ...updates },
+        },
+      });
+    });
+  }
+
+  /**
+   * Drop a transaction's pending settlement, e.g. once the processor declined it
+   * @param status Status to move it to, e.g. failed for a declined refund
+   */
+  async dropSettlement(
+    transactionId: string,
+    status?: TransactionStatus,
+    context?: TransitionContext
+  ): Promise<Transaction> {
+    return this.transaction(async ledger => {
+      const transaction = await ledger.lockTransaction(transactionId);
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+
+      // Without a status the transaction stays as it was, e.g. still authorized
+      return ledger.updateTransaction(
+        transactionId,
+        { ...(status && { status }), metadata: ledger.withoutSettlement(transaction.metadata) },
+        context
+      );
+    });
+  }
+
+  /**
+   * Record a refund of a payment as processing, claimed for settlement
+   * The original is locked while the refund is checked against what is left to
+   * refund, counting refunds still processing, so concurrent refunds cannot both
+   * pass. The payee's account is locked while their share is checked, unless the
+   * processor already made the refund (processorReference): that one is recorded
+   * regardless and settled once the payee can cover it.
+   */
+  async createRefund(data: {
+    originalTransactionId: string;
+    amount: Money;
+    fee?: Money;
+    tax?: TaxSnapshot;
+    payeeShare: Money;
+    processorReference?: string;
+    metadata: TransactionMetadata;
+  }): Promise<Transaction> {
+    return this.transaction(async ledger => {
+      const original = await ledger.lockTransaction(data.originalTransactionId);
+      if (!original) {
+        throw new Error('Original transaction not found');
+      }
+
+      assertTransition(original.status, 'refunded');
+
+      const remaining = await ledger.getRemainingRefundable(original);
+      if (compareMoney(data.amount, remaining) > 0) {
+        throw new PaymentError(
+          'REFUND_EXCEEDS_REMAINING',
+          'Refund amount exceeds the remaining refundable amount',
+          { remainingRefundable: remaining }
+        );
+      }
+
+      if (!data.processorReference) {
+        const accountId = await ledger.ensureAccount(original.payeeId, data.payeeShare.currency);
+        await ledger.assertSufficientFunds(accountId, original.payeeId, data.payeeShare);
+      }
+
+      const refund = await ledger.createTransaction({
+        payerId: original.payeeId, // Reverse
+        payeeId: original.payerId, // Reverse
+        amount: data.amount,
+        fee: data.fee,
+        tax: data.tax,
+        status: 'processing',
+        originalTransactionId: original.id,
+        metadata: { ...data.metadata, originalTransactionId: original.id },
+      });
+
+      if (!data.processorReference) {
+        return refund;
+      }
+
+      return ledger.updateTransaction(refund.id, { processorReference: data.processorReference });
+    });
+  }
+
+  /**
+   * Settle a refund: post the reversing journal, add it to the original's
+   * refunded amount and complete the refund, all in one unit of work.
+   * The original is locked so concurrent refunds cannot exceed its amount; it
+   * becomes refunded once fully refunded, otherwise partially_refunded.
+   * The refund's fee and tax are the shares of the original platform fee and tax
+   * being reversed; the tax share is taken back from the TAX account.
+   * Card-funded refunds are credited back to the clearing account, since the
+   * processor returns them to the card. For a converted payment the payee returns
+   * their share in their own currency, converted back at the original rate.
+   * A chargeback is posted even if it overdraws the payee.
+   * The refund's pending settlement, if any, is cleared with it.
+   */
+  async completeRefund(
+    originalTransactionId: string,
+    refundTransactionId: string,
+    context?: TransitionContext
+  ): Promise<Transaction> {
+    return this.transaction(async ledger => {
+      const original = await ledger.lockTransaction(originalTransactionId);
+      if (!original) {
+        throw new Error('Original transaction not found');
+      }
+
+      const refund = await ledger.lockTransaction(refundTransactionId);
+      if (!refund) {
+        throw new Error('Refund transaction not found');
+      }
+
+      assertTransition(refund.status, 'completed');
+
+      const refundedAmount = addMoney(
+        original.refundedAmount || zeroMoney(original.amount.currency),
+        refund.amount
+      );
+      const remaining = compareMoney(original.amount, refundedAmount);
+      if (remaining < 0) {
+        throw new Error('Refund exceeds the remaining refundable amount');
+      }
+
+      const feeReversal = refund.fee || zeroMoney(refund.amount.currency);
+      const taxReversal = refund.tax?.amount || zeroMoney(refund.amount.currency);
+      const payeeShare = subtractMoney(subtractMoney(refund.amount, feeReversal), taxReversal);
+
+      // The processor has already taken a chargeback, so it is posted even if the payee is short
+      const overdraw = Boolean(refund.metadata?.disputeId);
+      const payeeLegs: JournalLeg[] = original.fx
+        ? [
+            {
+              ownerId: refund.payerId,
+              direction: 'debit',
+              amount: convertedRefundShare(original, refund.amount),
+              overdraw,
+            },
+            {
+              ownerId: FX_ENTITY,
+              direction: 'credit',
+              amount: convertedRefundShare(original, refund.amount),
+            },
+            { ownerId: FX_ENTITY, direction: 'debit', amount: payeeShare },
+          ]
+        : [{ ownerId: refund.payerId, direction: 'debit', amount: payeeShare, overdraw }];
+
+      await ledger.postJournal(refund.id, [
+        ...payeeLegs,
+        { ownerId: SELF_ENTITY, direction: 'debit', amount: feeReversal },
+        { ownerId: TAX_ENTITY, direction: 'debit', amount: taxReversal },
+        { ownerId: ledger.fundingSource(original), direction: 'credit', amount: refund.amount },
+      ]);
+
+      await ledger.updateTransaction(
+        originalTransactionId,
+        {
+          status: remaining === 0 ? 'refunded' : 'partially_refunded',
+          refundedAmount,
+        },
+        context
+      );
+
+      return ledger.updateTransaction(
+        refundTransactionId,
+        {
+          status: 'completed',
+          completedAt: new Date(),
+          metadata: ledger.withoutSettlement(refund.metadata),
+        },
+        context
+      );
+    });
+  }
+
+  /**
+   * Debit a payout from the owner's wallet and record it as requested
+   * The debit is a completed transaction from the owner to the PAYOUT account,
+   * posted in the same unit of work as the payout row, so an overdrawn wallet
+   * rolls both back.
+   */
+  async createPayout(data: {
+    ownerId: string;
+    destinationId: string;
+    amount: Money;
+    idempotencyKey?: string;
+  }): Promise<Payout> {
+    return this.transaction(async ledger => {
+      const id = ledger.generateId();
+      const now = new Date();
+
+      const debit = await ledger.createTransaction({
+        payerId: data.ownerId,
+        payeeId: PAYOUT_ENTITY,
+        amount: data.amount,
+        status: 'pending',
+        metadata: {
+          description: 'Payout',
+          payoutId: id,
+          idempotencyKey: data.idempotencyKey,
+        },
+      });
+      await ledger.completeTransaction(debit.id);
+
+      const payout: Payout = {
+        id,
+        ownerId: data.ownerId,
+        destinationId: data.destinationId,
+        amount: data.amount,
+        status: 'requested',
+        debitTransactionId: debit.id,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await ledger.db.query(
+        `INSERT INTO payouts (
+          id, owner_id, destination_id, amount, currency, status, debit_transaction_id,
+          created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          payout.id,
+          payout.ownerId,
+          payout.destinationId,
+          moneyToDecimal(payout.amount),
+          payout.amount.currency,
+          payout.status,
+          payout.debitTransactionId,
+          payout.createdAt,
+          payout.updatedAt,
+        ]
+      );
+
+      return payout;
+    });
+  }
+
+  /**
+   * Assign a requested payout to a batch
+   * Returns null when another batch already took it
+   */
+  async claimPayout(payoutId: string, batchId: string): Promise<Payout | null> {
+    return this.transaction(async ledger => {
+      const payout = await ledger.lockPayout(payoutId);
+      if (!payout || payout.status !== 'requested' || payout.batchId) {
+        return null;
+      }
+
+      return ledger.savePayout({ ...payout, batchId });
+    });
+  }
+
+  /**
+   * Record that the processor accepted a payout and mark it in transit
+   */
+  async markPayoutInTransit(payoutId: string, processorReference?: string): Promise<Payout> {
+    return this.transaction(async ledger => {
+      const payout = await ledger.lockPayoutInStatus(payoutId, ['requested']);
+
+      return ledger.savePayout({
+        ...payout,
+        status: 'in_transit',
+        processorReference,
+        sentAt: new Date(),
+      });
+    });
+  }
+
+  /**
+   * Mark an in-transit payout paid
+   * The amount leaves the PAYOUT account for the clearing account, which the
+   * processor paid it out of.
+   */
+  async completePayout(payoutId: string): Promise<Payout> {
+    return this.transaction(async ledger => {
+      const payout = await ledger.lockPayoutInStatus(payoutId, ['in_transit']);
+
+      await ledger.postTransfer(
+        payout.debitTransactionId,
+        PAYOUT_ENTITY,
+        PROCESSOR_ENTITY,
+        payout.amount
+      );
+
+      return ledger.savePayout({ ...payout, status: 'paid', paidAt: new Date() });
+    });
+  }
+
+  /**
+   * Mark a requested or in-transit payout failed and return the amount to the wallet
+   * The reversal is its own transaction from the PAYOUT account back to the owner,
+   * recorded as the refund of the payout's debit.
+   */
+  async failPayout(payoutId: string, reason: string): Promise<Payout> {
+    return this.transaction(async ledger => {
+      const payout = await ledger.lockPayoutInStatus(payoutId, ['requested', 'in_transit']);
+
+      const reversal = await ledger.createTransaction({
+        payerId: PAYOUT_ENTITY,
+        payeeId: payout.ownerId,
+        amount: payout.amount,
+        status: 'pending',
+        originalTransactionId: payout.debitTransactionId,
+        metadata: {
+          description: 'Payout reversal',
+          payoutId: payout.id,
+          reason,
+        },
+      });
+      await ledger.completeTransaction(reversal.id);
+
+      await ledger.updateTransaction(
+        payout.debitTransactionId,
+        { status: 'refunded', refundedAmount: payout.amount },
+        { reason }
+      );
+
+      return ledger.savePayout({
+        ...payout,
+        status: 'failed',
+        failureReason: reason,
+        reversalTransactionId: reversal.id,
+      });
+    });
+  }
+
+  /**
+   * Open a dispute against a payment and hold the payee's share of it
+   * The payment is locked while its status and the disputed amount are checked
+   * against what is left to refund, counting refunds still processing. The hold
+   * moves the share from the payee to the DISPUTE account in the same unit of
+   * work as the dispute row; the processor has already taken the money, so it is
+   * posted even if the payee has spent theirs and goes negative.
+   * A payment has at most one open dispute.
+   */
+  async openDispute(data: {
+    transactionId: string;
+    amount: Money;
+    holdAmount: Money;
+    reason: string;
+    processorReference?: string;
+    evidenceDueBy?: Date;
+  }): Promise<Dispute> {
+    return this.transaction(async ledger => {
+      const transaction = await ledger.lockTransaction(data.transactionId);
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+
+      if (await ledger.getOpenDispute(transaction.id)) {
+        throw new PaymentError('DISPUTE_OPEN', 'Transaction already has an open dispute');
+      }
+
+      if (
+        transaction.status !== 'completed' &&
+        transaction.status !== 'released' &&
+        transaction.status !== 'partially_refunded'
+      ) {
+        throw new PaymentError(
+          'INVALID_TRANSACTION_STATUS',
+          'Can only dispute completed, released or partially refunded transactions'
+        );
+      }
+
+      const remaining = await ledger.getRemainingRefundable(transaction);
+      if (compareMoney(data.amount, remaining) > 0) {
+        throw new PaymentError(
+          'INVALID_DISPUTE_AMOUNT',
+          'Disputed amount exceeds the remaining refundable amount',
+          { remainingRefundable: remaining }
+        );
+      }
+
+      await ledger.postJournal(transaction.id, [
+        {
+          ownerId: transaction.payeeId,
+          direction: 'debit',
+          amount: data.holdAmount,
+          overdraw: true,
+        },
+        { ownerId: DISPUTE_ENTITY, direction: 'credit', amount: data.holdAmount },
+      ]);
+
+      const now = new Date();
+      const dispute: Dispute = {
+        id: ledger.generateId(),
+        transactionId: transaction.id,
+        payerId: transaction.payerId,
+        payeeId: transaction.payeeId,
+        amount: data.amount,
+        holdAmount: data.holdAmount,
+        reason: data.reason,
+        status: 'needs_response',
+        processorReference: data.processorReference,
+        evidenceDueBy: data.evidenceDueBy,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await ledger.db.query(
+        `INSERT INTO disputes (
+          id, transaction_id, payer_id, payee_id, amount, currency, hold_amount, hold_currency,
+          reason, status, processor_reference, evidence_due_by, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+        [
+          dispute.id,
+          dispute.transactionId,
+          dispute.payerId,
+          dispute.payeeId,
+          moneyToDecimal(dispute.amount),
+          dispute.amount.currency,
+          moneyToDecimal(dispute.holdAmount),
+          dispute.holdAmount.currency,
+          dispute.reason,
+          dispute.status,
+          dispute.processorReference,
+          dispute.evidenceDueBy,
+          dispute.createdAt,
+          dispute.updatedAt,
+        ]
+      );
+
+      await ledger.markDisputed(dispute);
+
+      return dispute;
+    });
+  }
+
+  /**
+   * Record the payee's evidence for a dispute and mark it under review
+   */
+  async submitDisputeEvidence(disputeId: string, evidence: DisputeEvidence): Promise<Dispute> {
+    return this.transaction(async ledger => {
+      const dispute = await ledger.lockDisputeInStatus(disputeId, ['needs_response']);
+
+      const updated = await ledger.saveDispute({ ...dispute, status: 'under_review', evidence });
+      await ledger.markDisputed(updated);
+
+      return updated;
+    });
+  }
+
+  /**
+   * Mark an open dispute won and release the hold back to the payee
+   */
+  async winDispute(disputeId: string): Promise<Dispute> {
+    return this.transaction(async ledger => {
+      const dispute = await ledger.lockDisputeInStatus(disputeId, [
+        'needs_response',
+        'under_review',
+      ]);
+
+      await ledger.postTransfer(
+        dispute.transactionId,
+        DISPUTE_ENTITY,
+        dispute.payeeId,
+        dispute.holdAmount
+      );
+
+      const updated = await ledger.saveDispute({
+        ...dispute,
+        status: 'won',
+        resolvedAt: new Date(),
+      });
+      await ledger.markDisputed(updated);
+
+      return updated;
+    });
+  }
+
+  /**
+   * Mark an open dispute lost and charge it back
+   * The chargeback is a refund of the disputed amount: the hold goes back to the
+   * payee and completeRefund takes it, with the reversed fee and tax, back to the
+   * payment's funding source, all in one unit of work.
+   */
+  async loseDispute(
+    disputeId: string,
+    reversal: { fee?: Money; tax?: TaxSnapshot }
+  ): Promise<{ dispute: Dispute; chargeback: Transaction }> {
+    return this.transaction(async ledger => {
+      const dispute = await ledger.lockDisputeInStatus(disputeId, [
+        'needs_response',
+        'under_review',
+      ]);
+
+      await ledger.postTransfer(
+        dispute.transactionId,
+        DISPUTE_ENTITY,
+        dispute.payeeId,
+        dispute.holdAmount
+      );
+
+      const chargeback = await ledger.createTransaction({
+        payerId: dispute.payeeId,
+        payeeId: dispute.payerId,
+        amount: dispute.amount,
+        fee: reversal.fee,
+        tax: reversal.tax,
+        status: 'processing',
+        originalTransactionId: dispute.transactionId,
+        metadata: {
+          description: `Chargeback for transaction ${dispute.transactionId}`,
+          reason: dispute.reason,
+          originalTransactionId: dispute.transactionId,
+          disputeId: dispute.id,
+        },
+      });
+      const completed = await ledger.completeRefund(dispute.transactionId, chargeback.id, {
+        reason: `Dispute lost: ${dispute.reason}`,
+      });
+
+      const updated = await ledger.saveDispute({
+        ...dispute,
+        status: 'lost',
+        reversalTransactionId: chargeback.id,
+        resolvedAt: new Date(),
+      });
+      await ledger.markDisputed(updated);
+
+      return { dispute: updated, chargeback: completed };
+    });
+  }
+
+  /**
+   * Create a new transaction and record its initial status
+   */
+  async createTransaction(
+    data: {
+      payerId: string;
+      payeeId: string;
+      amount: Money;
+      fee?: Money;
+      tax?: TaxSnapshot;
+      status: TransactionStatus;
+      paymentMethod?: string;
+      originalTransactionId?: string;
+      fx?: FxSnapshot;
+      discount?: DiscountSnapshot;
+      metadata?: any;
+    },
+    context: TransitionContext = {}
+  ): Promise<Transaction> {
+    const id = this.generateId();
+    const now = new Date();
+
+    const transaction: Transaction = {
+      id,
+      payerId: data.payerId,
+      payeeId: data.payeeId,
+      amount: data.amount,
+      fee: data.fee,
+      tax: data.tax,
+      status: data.status,
+      paymentMethod: data.paymentMethod as any,
+      originalTransactionId: data.originalTransactionId,
+      fx: data.fx,
+      discount: data.discount,
+      metadata: data.metadata,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.transaction(async ledger => {
+      await ledger.db.query(
+        `INSERT INTO transactions (
+          id, payer_id, payee_id, amount, fee_amount, currency, status, payment_method,
+          original_transaction_id, tax_snapshot, fx_snapshot, discount_snapshot, metadata,
+          created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+        [
+          transaction.id,
+          transaction.payerId,
+          transaction.payeeId,
+          moneyToDecimal(transaction.amount),
+          transaction.fee ? moneyToDecimal(transaction.fee) : null,
+          transaction.amount.currency,
+          transaction.status,
+          transaction.paymentMethod,
+          transaction.originalTransactionId,
+          transaction.tax ? JSON.stringify(transaction.tax) : null,
+          transaction.fx ? JSON.stringify(transaction.fx) : null,
+          transaction.discount ? JSON.stringify(transaction.discount) : null,
+          JSON.stringify(transaction.metadata || {}),
+          transaction.createdAt,
+          transaction.updatedAt,
+        ]
+      );
+
+      await ledger.recordStatusChange(transaction.id, null, transaction.status, context);
+
+      return transaction;
+    });
+  }
+
+  /**
+   * Update transaction
+   * A status change must be allowed by the state machine and is recorded in the history
+   */
+  async updateTransaction(
+    transactionId: string,
+    updates: Partial<Transaction>,
+    context: TransitionContext = {}
+  ): Promise<Transaction> {
+    return this.transaction(async ledger => {
+      const transaction = await ledger.getTransaction(transactionId);
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+
+      const statusChanged = updates.status !== undefined && updates.status !== transaction.status;
+      if (statusChanged) {
+        assertTransition(transaction.status, updates.status!);
+      }
+
+      const updated = { ...transaction, ...updates, updatedAt: new Date() };
+
+      await ledger.db.query(
+        `UPDATE transactions SET
+          status = $1,
+          processor_reference = $2,
+          refunded_amount = $3,
+          authorized_amount = $4,
+          authorization_expires_at = $5,
+          metadata = $6,
+          updated_at = $7,
+          completed_at = $8
+        WHERE id = $9`,
+        [
+          updated.status,
+          updated.processorReference,
+          moneyToDecimal(updated.refundedAmount || zeroMoney(updated.amount.currency)),
+          updated.authorizedAmount ? moneyToDecimal(updated.authorizedAmount) : null,
+          updated.authorizationExpiresAt,
+          JSON.stringify(updated.metadata || {}),
+          updated.updatedAt,
+          updated.completedAt,
+          transactionId,
+        ]
+      );
+
+      if (statusChanged) {
+        await ledger.recordStatusChange(transactionId, transaction.status, updated.status, context);
+      }
+
+      return updated;
+    });
+  }
+
+  /**
+   * Update transaction status
+   */
+  async updateTransactionStatus(
+    transactionId: string,
+    status: TransactionStatus,
+    context?: TransitionContext
+  ): Promise<Transaction> {
+    const updates: Partial<Transaction> = { status };
+    if (status === 'completed' || status === 'released') {
+      updates.completedAt = new Date();
+    }
+    return this.updateTransaction(transactionId, updates, context);
+  }
+
+  /**
+   * Get the status history of a transaction, oldest first
+   */
+  async getStatusHistory(transactionId: string): Promise<TransactionStatusChange[]> {
+    const result = await this.db.query(
+      'SELECT * FROM transaction_status_history WHERE transaction_id = $1 ORDER BY created_at ASC',
+      [transactionId]
+    );
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToStatusChange(row));
+  }
+
+  /**
+   * Get transaction by ID
+   */
+  async getTransaction(transactionId: string): Promise<Transaction | null> {
+    const result = await this.db.query<Transaction>(
+      'SELECT * FROM transactions WHERE id = $1',
+      [transactionId]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToTransaction(row);
+  }
+
+  /**
+   * Amount of a payment not yet refunded, counting refunds still processing
+   */
+  async getRemainingRefundable(original: Transaction): Promise<Money> {
+    const refunds = await this.getRefunds(original.id);
+    const committed = refunds
+      .filter(refund => refund.status === 'processing')
+      .reduce(
+        (total, refund) => addMoney(total, refund.amount),
+        original.refundedAmount || zeroMoney(original.amount.currency)
+      );
+
+    return subtractMoney(original.amount, committed);
+  }
+
+  /**
+   * Get the refunds issued against a transaction, oldest first
+   */
+  async getRefunds(transactionId: string): Promise<Transaction[]> {
+    const result = await this.db.query<Transaction>(
+      'SELECT * FROM transactions WHERE original_transaction_id = $1 ORDER BY created_at ASC',
+      [transactionId]
+    );
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToTransaction(row));
+  }
+
+  /**
+   * Get authorizations that were not captured before they expired, oldest expiry first
+   */
+  async getExpiredAuthorizations(asOf: Date): Promise<Transaction[]> {
+    const result = await this.db.query<Transaction>(
+      `SELECT * FROM transactions
+       WHERE status = 'authorized' AND authorization_expires_at <= $1
+       ORDER BY authorization_expires_at ASC`,
+      [asOf]
+    );
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToTransaction(row));
+  }
+
+  /**
+   * Find transaction by idempotency key
+   */
+  async findByIdempotencyKey(key: string): Promise<Transaction | null> {
+    const result = await this.db.query<Transaction>(
+      `SELECT * FROM transactions WHERE metadata->>'idempotencyKey' = $1`,
+      [key]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToTransaction(row);
+  }
+
+  /**
+   * Find the payment a processor reference belongs to; refunds are left out
+   */
+  async findByProcessorReference(processorReference: string): Promise<Transaction | null> {
+    const result = await this.db.query<Transaction>(
+      `SELECT * FROM transactions
+       WHERE processor_reference = $1 AND original_transaction_id IS NULL`,
+      [processorReference]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToTransaction(row);
+  }
+
+  /**
+   * Get transactions for an owner
+   */
+  async getTransactions(
+    ownerId: string,
+    options?: {
+      status?: TransactionStatus;
+      limit?: number;
+      offset?: number;
+    }
+  ): Promise<Transaction[]> {
+    let query = `
+      SELECT * FROM transactions
+      WHERE payer_id = $1 OR payee_id = $1
+    `;
+
+    const params: any[] = [ownerId];
+
+    if (options?.status) {
+      query += ` AND status = $${params.length + 1}`;
+      params.push(options.status);
+    }
+
+    query += ` ORDER BY created_at DESC`;
+
+    if (options?.limit) {
+      query += ` LIMIT $${params.length + 1}`;
+      params.push(options.limit);
+    }
+
+    if (options?.offset) {
+      query += ` OFFSET $${params.length + 1}`;
+      params.push(options.offset);
+    }
+
+    const result = await this.db.query<Transaction>(query, params);
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToTransaction(row));
+  }
+
+  /**
+   * Get payout by ID
+   */
+  async getPayout(payoutId: string): Promise<Payout | null> {
+    const result = await this.db.query<Payout>('SELECT * FROM payouts WHERE id = $1', [payoutId]);
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToPayout(row);
+  }
+
+  /**
+   * Get the payout the processor knows by a reference
+   */
+  async findPayoutByProcessorReference(processorReference: string): Promise<Payout | null> {
+    const result = await this.db.query<Payout>(
+      'SELECT * FROM payouts WHERE processor_reference = $1',
+      [processorReference]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToPayout(row);
+  }
+
+  /**
+   * Get an owner's payouts, newest first
+   */
+  async getPayouts(ownerId: string): Promise<Payout[]> {
+    const result = await this.db.query<Payout>(
+      'SELECT * FROM payouts WHERE owner_id = $1 ORDER BY created_at DESC',
+      [ownerId]
+    );
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToPayout(row));
+  }
+
+  /**
+   * Get requested payouts no batch has taken yet, oldest first
+   */
+  async getUnbatchedPayouts(): Promise<Payout[]> {
+    const result = await this.db.query<Payout>(
+      `SELECT * FROM payouts
+       WHERE status = 'requested' AND batch_id IS NULL
+       ORDER BY created_at ASC`
+    );
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToPayout(row));
+  }
+
+  /**
+   * Save a payout destination
+   * The owner's first destination, or one saved as default, becomes the only default
+   */
+  async addPayoutDestination(request: AddPayoutDestinationRequest): Promise<PayoutDestination> {
+    return this.transaction(async ledger => {
+      const existing = await ledger.getPayoutDestinations(request.ownerId);
+      const now = new Date();
+
+      const destination: PayoutDestination = {
+        id: ledger.generateId(),
+        ownerId: request.ownerId,
+        type: 'bank_account',
+        bankName: request.bankName,
+        last4: request.last4,
+        currency: request.currency,
+        accountHolderName: request.accountHolderName,
+        externalReference: request.externalReference,
+        isDefault: !!request.isDefault || existing.length === 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      if (destination.isDefault) {
+        await ledger.db.query(
+          'UPDATE payout_destinations SET is_default = FALSE, updated_at = $1 WHERE owner_id = $2',
+          [now, request.ownerId]
+        );
+      }
+
+      await ledger.db.query(
+        `INSERT INTO payout_destinations (
+          id, owner_id, type, bank_name, last4, currency, account_holder_name,
+          external_reference, is_default, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        [
+          destination.id,
+          destination.ownerId,
+          destination.type,
+          destination.bankName,
+          destination.last4,
+          destination.currency,
+          destination.accountHolderName,
+          destination.externalReference,
+          destination.isDefault,
+          destination.createdAt,
+          destination.updatedAt,
+        ]
+      );
+
+      return destination;
+    });
+  }
+
+  /**
+   * Remove a payout destination
+   * The row is kept for the payouts already sent to it. Removing the default
+   * makes the owner's newest remaining destination the default.
+   */
+  async removePayoutDestination(destinationId: string): Promise<PayoutDestination> {
+    return this.transaction(async ledger => {
+      const destination = await ledger.getPayoutDestination(destinationId);
+      if (!destination || destination.removedAt) {
+        throw new PaymentError('DESTINATION_NOT_FOUND', 'Payout destination not found');
+      }
+
+      const now = new Date();
+      await ledger.db.query(
+        `UPDATE payout_destinations SET
+          is_default = FALSE, removed_at = $1, updated_at = $1
+        WHERE id = $2`,
+        [now, destinationId]
+      );
+
+      if (destination.isDefault) {
+        const [next] = await ledger.getPayoutDestinations(destination.ownerId);
+        if (next) {
+          await ledger.db.query(
+            'UPDATE payout_destinations SET is_default = TRUE, updated_at = $1 WHERE id = $2',
+            [now, next.id]
+          );
+        }
+      }
+
+      return { ...destination, isDefault: false, removedAt: now, updatedAt: now };
+    });
+  }
+
+  /**
+   * Get payout destination by ID, including removed ones
+   */
+  async getPayoutDestination(destinationId: string): Promise<PayoutDestination | null> {
+    const result = await this.db.query<PayoutDestination>(
+      'SELECT * FROM payout_destinations WHERE id = $1',
+      [destinationId]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToPayoutDestination(row);
+  }
+
+  /**
+   * Get an owner's payout destinations that have not been removed, newest first
+   */
+  async getPayoutDestinations(ownerId: string): Promise<PayoutDestination[]> {
+    const result = await this.db.query<PayoutDestination>(
+      `SELECT * FROM payout_destinations
+       WHERE owner_id = $1 AND removed_at IS NULL
+       ORDER BY created_at DESC`,
+      [ownerId]
+    );
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToPayoutDestination(row));
+  }
+
+  /**
+   * Get dispute by ID
+   */
+  async getDispute(disputeId: string): Promise<Dispute | null> {
+    const result = await this.db.query<Dispute>('SELECT * FROM disputes WHERE id = $1', [
+      disputeId,
+    ]);
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToDispute(row);
+  }
+
+  /**
+   * Get the dispute opened for a processor's dispute ID
+   */
+  async findDisputeByProcessorReference(processorReference: string): Promise<Dispute | null> {
+    const result = await this.db.query<Dispute>(
+      'SELECT * FROM disputes WHERE processor_reference = $1',
+      [processorReference]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToDispute(row);
+  }
+
+  /**
+   * Get a payment's dispute that is still awaiting a decision
+   */
+  async getOpenDispute(transactionId: string): Promise<Dispute | null> {
+    const result = await this.db.query<Dispute>(
+      `SELECT * FROM disputes
+       WHERE transaction_id = $1 AND status IN ('needs_response', 'under_review')`,
+      [transactionId]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToDispute(row);
+  }
+
+  /**
+   * Get disputes against payments a user made or received, newest first
+   */
+  async getDisputes(userId: string): Promise<Dispute[]> {
+    const result = await this.db.query<Dispute>(
+      `SELECT * FROM disputes
+       WHERE payer_id = $1 OR payee_id = $1
+       ORDER BY created_at DESC`,
+      [userId]
+    );
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToDispute(row));
+  }
+
+  /**
+   * Post a simple transfer journal: debit the payer, credit the payee
+   */
+  async postTransfer(
+    transactionId: string,
+    payerId: string,
+    payeeId: string,
+    amount: Money
+  ): Promise<LedgerEntry[]> {
+    return this.postJournal(transactionId, [
+      { ownerId: payerId, direction: 'debit', amount },
+      { ownerId: payeeId, direction: 'credit', amount },
+    ]);
+  }
+
+  /**
+   * Post a journal of entries for a transaction
+   * Entries are immutable; account balances are moved by the same amounts.
+   * Zero-amount legs (e.g. a fee of nothing) are dropped.
+   */
+  async postJournal(transactionId: string, legs: JournalLeg[]): Promise<LedgerEntry[]> {
+    const postable = legs.filter(leg => !isZeroMoney(leg.amount));
+    this.assertBalanced(postable);
+
+    return this.transaction(ledger => ledger.writeJournal(transactionId, postable));
+  }
+
+  /**
+   * Get ledger entries for an owner
+   */
+  async getLedgerEntries(
+    ownerId: string,
+    options?: {
+      currency?: Currency;
+      transactionId?: string;
+      limit?: number;
+      offset?: number;
+    }
+  ): Promise<LedgerEntry[]> {
+    let query = `SELECT * FROM ledger_entries WHERE owner_id = $1`;
+
+    const params: any[] = [ownerId];
+
+    if (options?.currency) {
+      query += ` AND currency = $${params.length + 1}`;
+      params.push(options.currency);
+    }
+
+    if (options?.transactionId) {
+      query += ` AND transaction_id = $${params.length + 1}`;
+      params.push(options.transactionId);
+    }
+
+    query += ` ORDER BY created_at DESC`;
+
+    if (options?.limit) {
+      query += ` LIMIT $${params.length + 1}`;
+      params.push(options.limit);
+    }
+
+    if (options?.offset) {
+      query += ` OFFSET $${params.length + 1}`;
+      params.push(options.offset);
+    }
+
+    const result = await this.db.query(query, params);
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToLedgerEntry(row));
+  }
+
+  /**
+   * Check an account's stored balance against the sum of its ledger entries
+   */
+  async reconcileAccount(
+    ownerId: string,
+    currency: Currency
+  ): Promise<AccountReconciliation | null> {
+    const result = await this.db.query(
+      'SELECT * FROM accounts WHERE owner_id = $1 AND currency = $2',
+      [ownerId, currency]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const account = Array.isArray(result) ? result[0] : result;
+
+    const ledgerResult = await this.db.query<{ total: string }>(
+      `SELECT COALESCE(SUM(CASE WHEN direction = 'credit' THEN amount ELSE -amount END), 0) as total
+       FROM ledger_entries WHERE account_id = $1`,
+      [account.id]
+    );
+
+    const ledgerBalance = moneyFromDecimal(
+      Array.isArray(ledgerResult) ? ledgerResult[0]?.total || 0 : ledgerResult?.total || 0,
+      account.currency
+    );
+    const storedBalance = moneyFromDecimal(account.balance, account.currency);
+
+    return {
+      accountId: account.id,
+      ownerId: account.owner_id,
+      currency: account.currency,
+      storedBalance,
+      ledgerBalance,
+      balanced: storedBalance.minorUnits === ledgerBalance.minorUnits,
+    };
+  }
+
+  /**
+   * Get account balances, one per currency the owner holds
+   * Pending is what the owner's pending, processing and authorized outgoing transactions
+   * will debit from that account (see pendingDebit); incoming ones are not counted
+   */
+  async getBalances(ownerId: string): Promise<BalanceInfo[]> {
+    const result = await this.db.query<Account>(
+      'SELECT * FROM accounts WHERE owner_id = $1 ORDER BY currency',
+      [ownerId]
+    );
+
+    if (!result || !Array.isArray(result) || result.length === 0) {
+      return [];
+    }
+
+    // A refund's original payment is joined in, as its debit depends on the conversion
+    const pendingResult = await this.db.query<any[]>(
+      `SELECT t.*, o.amount AS original_amount, o.currency AS original_currency,
+              o.refunded_amount AS original_refunded_amount, o.fx_snapshot AS original_fx_snapshot
+       FROM transactions t
+       LEFT JOIN transactions o ON o.id = t.original_transaction_id
+       WHERE t.payer_id = $1 AND t.status IN ('pending', 'processing', 'authorized')`,
+      [ownerId]
+    );
+
+    const pendingByCurrency = new Map<Currency, Money>();
+    if (Array.isArray(pendingResult)) {
+      for (const row of pendingResult) {
+        const original = row.original_amount != null ? this.mapRowToRefundedPayment(row) : null;
+        const debit = this.pendingDebit(this.mapRowToTransaction(row), original);
+        if (debit) {
+          const total = pendingByCurrency.get(debit.currency) || zeroMoney(debit.currency);
+          pendingByCurrency.set(debit.currency, addMoney(total, debit));
+        }
+      }
+    }
+
+    return result.map((account: any) => {
+      const currency: Currency = account.currency;
+      const balance = moneyFromDecimal(account.balance, currency);
+      const pendingBalance = pendingByCurrency.get(currency) || zeroMoney(currency);
+
+      return {
+        accountId: account.id,
+        ownerId: account.owner_id,
+        balance,
+        currency,
+        availableBalance: subtractMoney(balance, pendingBalance),
+        pendingBalance,
+      };
+    });
+  }
+
+  /**
+   * What a transaction that has not settled will debit from its payer's account
+   * A refund debits the payee's share, in their own currency for a converted payment.
+   * Payments charged to a card through the processor debit nothing: they are
+   * funded from the clearing account.
+   */
+  private pendingDebit(transaction: Transaction, original: RefundedPayment | null): Money | null {
+    if (transaction.originalTransactionId) {
+      if (original?.fx) {
+        return convertedRefundShare(original, transaction.amount);
+      }
+
+      const fee = transaction.fee || zeroMoney(transaction.amount.currency);
+      const tax = transaction.tax?.amount || zeroMoney(transaction.amount.currency);
+      return subtractMoney(subtractMoney(transaction.amount, fee), tax);
+    }
+
+    const charged =
+      transaction.processorReference ||
+      (transaction.paymentMethod &&
+        transaction.paymentMethod !== 'wallet' &&
+        transaction.payerId !== SELF_ENTITY);
+    return charged ? null : transaction.amount;
+  }
+
+  /**
+   * Get account balance in one currency
+   * Without a currency, returns the first account's balance
+   */
+  async getBalance(ownerId: string, currency?: Currency): Promise<BalanceInfo | null> {
+    const balances = await this.getBalances(ownerId);
+    const balance = currency ? balances.find(info => info.currency === currency) : balances[0];
+    return balance || null;
+  }
+
+  /**
+   * Check an owner could be debited an amount without going below their overdraft limit
+   * A pre-flight check only; postJournal re-checks under a row lock
+   */
+  async hasSufficientFunds(ownerId: string, amount: Money): Promise<boolean> {
+    const result = await this.db.query(
+      'SELECT type, balance FROM accounts WHERE owner_id = $1 AND currency = $2',
+      [ownerId, amount.currency]
+    );
+
+    const account: any = Array.isArray(result) ? result[0] : result;
+    const type: AccountType = account?.type || this.accountTypeFor(ownerId);
+    const balance = moneyFromDecimal(account?.balance || 0, amount.currency);
+
+    return this.withinOverdraft(type, subtractMoney(balance, amount));
+  }
+
+  /**
+   * Insert journal entries and move account balances
+   * Must run inside a unit of work
+   */
+  private async writeJournal(transactionId: string, legs: JournalLeg[]): Promise<LedgerEntry[]> {
+    const journalId = this.generateId();
+    const now = new Date();
+    const entries: LedgerEntry[] = [];
+
+    for (const leg of legs) {
+      const accountId = await this.ensureAccount(leg.ownerId, leg.amount.currency);
+
+      if (leg.direction === 'debit' && !leg.overdraw) {
+        await this.assertSufficientFunds(accountId, leg.ownerId, leg.amount);
+      }
+
+      const entry: LedgerEntry = {
+        id: this.generateId(),
+        journalId,
+        transactionId,
+        accountId,
+        ownerId: leg.ownerId,
+        direction: leg.direction,
+        amount: leg.amount,
+        createdAt: now,
+      };
+
+      await this.db.query(
+        `INSERT INTO ledger_entries (
+          id, journal_id, transaction_id, account_id, owner_id,
+          direction, amount, currency, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          entry.id,
+          entry.journalId,
+          entry.transactionId,
+          entry.accountId,
+          entry.ownerId,
+          entry.direction,
+          moneyToDecimal(entry.amount),
+          entry.amount.currency,
+          entry.createdAt,
+        ]
+      );
+
+      const delta = leg.direction === 'credit' ? leg.amount : negateMoney(leg.amount);
+      await this.db.query(
+        `UPDATE accounts SET balance = balance + $1, updated_at = $2 WHERE id = $3`,
+        [moneyToDecimal(delta), now, accountId]
+      );
+
+      entries.push(entry);
+    }
+
+    return entries;
+  }
+
+  /**
+   * Count a payer's transactions since a time and total those in one currency
+   * Failed and cancelled transactions are ignored
+   */
+  async getPayerActivity(
+    payerId: string,
+    currency: Currency,
+    since: Date
+  ): Promise<{ count: number; total: Money }> {
+    const result = await this.db.query<{ count: string; total: string }>(
+      `SELECT
+        COUNT(*) as count,
+        COALESCE(SUM(amount) FILTER (WHERE currency = $2), 0) as total
+       FROM transactions
+       WHERE payer_id = $1 AND created_at >= $3 AND status NOT IN ('failed', 'cancelled')`,
+      [payerId, currency, since]
+    );
+
+    const row: any = Array.isArray(result) ? result[0] : result;
+
+    return {
+      count: parseInt(row?.count || '0', 10),
+      total: moneyFromDecimal(row?.total || 0, currency),
+    };
+  }
+
+  /**
+   * When the owner's first account was opened
    */
-  async createTransaction(data: {
-    payerId: string;
-    payeeId: string;
-    amount: number;
-    currency: Currency;
-    status: TransactionStatus;
-    paymentMethod?: string;
-    metadata?: any;
-  }): Promise<Transaction> {
-    const id = this.generateId();
-    const now = new Date();
+  async getAccountOpenedAt(ownerId: string): Promise<Date | null> {
+    const result = await this.db.query<{ opened_at: string | null }>(
+      'SELECT MIN(created_at) as opened_at FROM accounts WHERE owner_id = $1',
+      [ownerId]
+    );
 
-    const transaction: Transaction = {
-      id,
-      payerId: data.payerId,
-      payeeId: data.payeeId,
-      amount: data.amount,
-      currency: data.currency,
-      status: data.status,
-      paymentMethod: data.paymentMethod as any,
-      metadata: data.metadata,
-      createdAt: now,
-      updatedAt: now,
-    };
+    const row: any = Array.isArray(result) ? result[0] : result;
+    return row?.opened_at ? new Date(row.opened_at) : null;
+  }
 
+  /**
+   * Write a risk assessment to the audit log
+   */
+  async recordRiskAssessment(
+    request: ProcessTransactionRequest,
+    assessment: RiskAssessment
+  ): Promise<void> {
     await this.db.query(
-      `INSERT INTO transactions (
-        id, payer_id, payee_id, amount, currency, status,
-        payment_method, metadata, created_at, updated_at
+      `INSERT INTO risk_audit_log (
+        id, payer_id, payee_id, amount, currency, outcome,
+        reason_codes, decisions, idempotency_key, created_at
       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
       [
-        transaction.id,
-        transaction.payerId,
-        transaction.payeeId,
-        transaction.amount,
-        transaction.currency,
-        transaction.status,
-        transaction.paymentMethod,
-        JSON.stringify(transaction.metadata || {}),
-        transaction.createdAt,
-        transaction.updatedAt,
+        this.generateId(),
+        request.payerId,
+        request.payeeId,
+        moneyToDecimal(request.amount),
+        request.amount.currency,
+        assessment.outcome,
+        JSON.stringify(
+          assessment.decisions
+            .filter(decision => decision.outcome !== 'allow')
+            .map(decision => decision.reasonCode)
+        ),
+        JSON.stringify(assessment.decisions),
+        request.idempotencyKey,
+        new Date(),
       ]
     );
+  }
+
+  /**
+   * Get a transaction and lock its row until the unit of work ends
+   */
+  private async lockTransaction(transactionId: string): Promise<Transaction | null> {
+    const result = await this.db.query<Transaction>(
+      'SELECT * FROM transactions WHERE id = $1 FOR UPDATE',
+      [transactionId]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
 
-    return transaction;
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToTransaction(row);
   }
 
   /**
-   * Update transaction
+   * Get a payout and lock its row until the unit of work ends
    */
-  async updateTransaction(
-    transactionId: string,
-    updates: Partial<Transaction>
-  ): Promise<Transaction> {
-    const transaction = await this.getTransaction(transactionId);
-    if (!transaction) {
-      throw new Error('Transaction not found');
+  private async lockPayout(payoutId: string): Promise<Payout | null> {
+    const result = await this.db.query<Payout>('SELECT * FROM payouts WHERE id = $1 FOR UPDATE', [
+      payoutId,
+    ]);
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToPayout(row);
+  }
+
+  /**
+   * Lock a payout, rejecting it unless it is in one of the given statuses
+   */
+  private async lockPayoutInStatus(payoutId: string, statuses: Payout['status'][]): Promise<Payout> {
+    const payout = await this.lockPayout(payoutId);
+    if (!payout) {
+      throw new PaymentError('PAYOUT_NOT_FOUND', 'Payout not found');
+    }
+
+    if (!statuses.includes(payout.status)) {
+      throw new PaymentError(
+        'INVALID_PAYOUT_STATUS',
+        `Payout is ${payout.status}, expected ${statuses.join(' or ')}`,
+        { status: payout.status }
+      );
     }
 
-    const updated = { ...transaction, ...updates, updatedAt: new Date() };
+    return payout;
+  }
+
+  /**
+   * Write a payout's progress back to its row
+   */
+  private async savePayout(payout: Payout): Promise<Payout> {
+    const updated = { ...payout, updatedAt: new Date() };
 
     await this.db.query(
-      `UPDATE transactions SET
+      `UPDATE payouts SET
         status = $1,
-        processor_reference = $2,
-        metadata = $3,
-        updated_at = $4,
-        completed_at = $5
-      WHERE id = $6`,
+        batch_id = $2,
+        processor_reference = $3,
+        failure_reason = $4,
+        reversal_transaction_id = $5,
+        sent_at = $6,
+        paid_at = $7,
+        updated_at = $8
+      WHERE id = $9`,
       [
         updated.status,
+        updated.batchId,
         updated.processorReference,
-        JSON.stringify(updated.metadata || {}),
+        updated.failureReason,
+        updated.reversalTransactionId,
+        updated.sentAt,
+        updated.paidAt,
         updated.updatedAt,
-        updated.completedAt,
-        transactionId,
+        updated.id,
       ]
     );
 
@@ -108,185 +1869,283 @@ export class LedgerManager {
   }
 
   /**
-   * Update transaction status
+   * Lock a dispute, rejecting it unless it is in one of the given statuses
    */
-  async updateTransactionStatus(
-    transactionId: string,
-    status: TransactionStatus
-  ): Promise<Transaction> {
-    const updates: Partial<Transaction> = { status };
-    if (status === 'completed') {
-      updates.completedAt = new Date();
+  private async lockDisputeInStatus(
+    disputeId: string,
+    statuses: Dispute['status'][]
+  ): Promise<Dispute> {
+    const result = await this.db.query<Dispute>(
+      'SELECT * FROM disputes WHERE id = $1 FOR UPDATE',
+      [disputeId]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      throw new PaymentError('DISPUTE_NOT_FOUND', 'Dispute not found');
+    }
+
+    const dispute = this.mapRowToDispute(Array.isArray(result) ? result[0] : result);
+
+    if (!statuses.includes(dispute.status)) {
+      throw new PaymentError(
+        'INVALID_DISPUTE_STATUS',
+        `Dispute is ${dispute.status}, expected ${statuses.join(' or ')}`,
+        { status: dispute.status }
+      );
     }
-    return this.updateTransaction(transactionId, updates);
+
+    return dispute;
   }
 
   /**
-   * Get transaction by ID
+   * Write a dispute's progress back to its row
    */
-  async getTransaction(transactionId: string): Promise<Transaction | null> {
-    const result = await this.db.query<Transaction>(
-      'SELECT * FROM transactions WHERE id = $1',
-      [transactionId]
+  private async saveDispute(dispute: Dispute): Promise<Dispute> {
+    const updated = { ...dispute, updatedAt: new Date() };
+
+    await this.db.query(
+      `UPDATE disputes SET
+        status = $1,
+        evidence = $2,
+        reversal_transaction_id = $3,
+        resolved_at = $4,
+        updated_at = $5
+      WHERE id = $6`,
+      [
+        updated.status,
+        updated.evidence ? JSON.stringify(updated.evidence) : null,
+        updated.reversalTransactionId,
+        updated.resolvedAt,
+        updated.updatedAt,
+        updated.id,
+      ]
     );
 
-    if (!result || (Array.isArray(result) && result.length === 0)) {
-      return null;
+    return updated;
+  }
+
+  /**
+   * Note a dispute's progress on the disputed payment, for transaction lists
+   */
+  private async markDisputed(dispute: Dispute): Promise<void> {
+    const transaction = await this.getTransaction(dispute.transactionId);
+    if (!transaction) {
+      throw new Error('Transaction not found');
     }
 
-    const row = Array.isArray(result) ? result[0] : result;
-    return this.mapRowToTransaction(row);
+    await this.updateTransaction(transaction.id, {
+      metadata: { ...transaction.metadata, disputeId: dispute.id, disputeStatus: dispute.status },
+    });
   }
 
   /**
-   * Find transaction by idempotency key
+   * Append a status change to the transaction's history
    */
-  async findByIdempotencyKey(key: string): Promise<Transaction | null> {
-    const result = await this.db.query<Transaction>(
-      `SELECT * FROM transactions WHERE metadata->>'idempotencyKey' = $1`,
-      [key]
+  private async recordStatusChange(
+    transactionId: string,
+    fromStatus: TransactionStatus | null,
+    toStatus: TransactionStatus,
+    context: TransitionContext
+  ): Promise<void> {
+    await this.db.query(
+      `INSERT INTO transaction_status_history (
+        id, transaction_id, from_status, to_status, actor, reason, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        this.generateId(),
+        transactionId,
+        fromStatus,
+        toStatus,
+        context.actor || 'system',
+        context.reason,
+        new Date(),
+      ]
     );
-
-    if (!result || (Array.isArray(result) && result.length === 0)) {
-      return null;
-    }
-
-    const row = Array.isArray(result) ? result[0] : result;
-    return this.mapRowToTransaction(row);
   }
 
   /**
-   * Get transactions for an owner
+   * Lock an account row for the rest of the unit of work and reject a debit
+   * that would take it below its overdraft limit
    */
-  async getTransactions(
+  private async assertSufficientFunds(
+    accountId: string,
     ownerId: string,
-    options?: {
-      status?: TransactionStatus;
-      limit?: number;
-      offset?: number;
-    }
-  ): Promise<Transaction[]> {
-    let query = `
-      SELECT * FROM transactions
-      WHERE payer_id = $1 OR payee_id = $1
-    `;
+    amount: Money
+  ): Promise<void> {
+    const result = await this.db.query(
+      'SELECT type, balance FROM accounts WHERE id = $1 FOR UPDATE',
+      [accountId]
+    );
 
-    const params: any[] = [ownerId];
+    const account: any = Array.isArray(result) ? result[0] : result;
+    const type: AccountType = account?.type || this.accountTypeFor(ownerId);
+    const balance = moneyFromDecimal(account?.balance || 0, amount.currency);
 
-    if (options?.status) {
-      query += ` AND status = $${params.length + 1}`;
-      params.push(options.status);
+    if (!this.withinOverdraft(type, subtractMoney(balance, amount))) {
+      throw new InsufficientFundsError(ownerId, balance);
     }
+  }
 
-    query += ` ORDER BY created_at DESC`;
-
-    if (options?.limit) {
-      query += ` LIMIT $${params.length + 1}`;
-      params.push(options.limit);
+  /**
+   * Whether an account type may hold a balance
+   * Platform, clearing, fx and tax accounts are unlimited unless a limit is configured
+   */
+  private withinOverdraft(type: AccountType, balance: Money): boolean {
+    const limit = this.overdraftLimits[type];
+    if (limit === undefined) {
+      return UNLIMITED_ACCOUNT_TYPES.includes(type) || !isNegativeMoney(balance);
     }
 
-    if (options?.offset) {
-      query += ` OFFSET $${params.length + 1}`;
-      params.push(options.offset);
-    }
+    return compareMoney(balance, negateMoney(moneyFromMajor(limit, balance.currency))) >= 0;
+  }
 
-    const result = await this.db.query<Transaction>(query, params);
+  /**
+   * Where a transaction's funds come from: the clearing account when it was
+   * charged through the processor, otherwise the payer's wallet
+   */
+  private fundingSource(transaction: Transaction): string {
+    return transaction.processorReference ? PROCESSOR_ENTITY : transaction.payerId;
+  }
 
-    if (!result || !Array.isArray(result)) {
-      return [];
+  /**
+   * Journal legs settling a transaction from a source account: the source is
+   * debited the full amount, tax goes to TAX, the platform fee to SELF and the
+   * rest to the payee. A converted payment pays the payee's share through the FX account.
+   */
+  private settlementLegs(transaction: Transaction, sourceOwnerId: string): JournalLeg[] {
+    const fee = transaction.fee || zeroMoney(transaction.amount.currency);
+    const tax = transaction.tax?.amount || zeroMoney(transaction.amount.currency);
+    const payeeShare = subtractMoney(subtractMoney(transaction.amount, fee), tax);
+
+    const legs: JournalLeg[] = [
+      { ownerId: sourceOwnerId, direction: 'debit', amount: transaction.amount },
+      { ownerId: TAX_ENTITY, direction: 'credit', amount: tax },
+      { ownerId: SELF_ENTITY, direction: 'credit', amount: fee },
+    ];
+
+    if (!transaction.fx) {
+      return [...legs, { ownerId: transaction.payeeId, direction: 'credit', amount: payeeShare }];
     }
 
-    return result.map(row => this.mapRowToTransaction(row));
+    const { convertedAmount } = transaction.fx;
+    return [
+      ...legs,
+      { ownerId: FX_ENTITY, direction: 'credit', amount: payeeShare },
+      { ownerId: FX_ENTITY, direction: 'debit', amount: convertedAmount },
+      { ownerId: transaction.payeeId, direction: 'credit', amount: convertedAmount },
+    ];
   }
 
   /**
-   * Update account balances
+   * Ensure account exists and return its ID
    */
-  async updateBalances(
-    payerId: string,
-    payeeId: string,
-    amount: number,
-    currency: Currency
-  ): Promise<void> {
-    // Ensure accounts exist
-    await this.ensureAccount(payerId, currency);
-    await this.ensureAccount(payeeId, currency);
-
-    // Deduct from payer
-    if (payerId !== SELF_ENTITY) {
-      await this.db.query(
-        `UPDATE accounts SET balance = balance - $1, updated_at = $2 WHERE owner_id = $3 AND currency = $4`,
-        [amount, new Date(), payerId, currency]
-      );
+  private async ensureAccount(ownerId: string, currency: Currency): Promise<string> {
+    const existing = await this.findAccountId(ownerId, currency);
+    if (existing) {
+      return existing;
     }
 
-    // Add to payee
-    if (payeeId !== SELF_ENTITY) {
-      await this.db.query(
-        `UPDATE accounts SET balance = balance + $1, updated_at = $2 WHERE owner_id = $3 AND currency = $4`,
-        [amount, new Date(), payeeId, currency]
-      );
+    // Two first postings for the same owner can race here: the loser's insert
+    // is skipped and it re-selects the winner's account
+    const now = new Date();
+    const type = this.accountTypeFor(ownerId);
+    await this.db.query(
+      `INSERT INTO accounts (id, owner_id, type, balance, currency, status, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (owner_id, currency) DO NOTHING`,
+      [this.generateId(), ownerId, type, 0, currency, 'active', now, now]
+    );
+
+    const id = await this.findAccountId(ownerId, currency);
+    if (!id) {
+      throw new Error(`Account for ${ownerId} in ${currency} could not be created`);
     }
+    return id;
   }
 
   /**
-   * Get account balance
+   * ID of an owner's account in a currency, or null when there is none
    */
-  async getBalance(ownerId: string): Promise<BalanceInfo | null> {
-    const result = await this.db.query<Account>(
-      'SELECT * FROM accounts WHERE owner_id = $1',
-      [ownerId]
+  private async findAccountId(ownerId: string, currency: Currency): Promise<string | null> {
+    const result = await this.db.query(
+      'SELECT id FROM accounts WHERE owner_id = $1 AND currency = $2',
+      [ownerId, currency]
     );
 
     if (!result || (Array.isArray(result) && result.length === 0)) {
       return null;
     }
+    return (Array.isArray(result) ? result[0] : result).id;
+  }
 
-    const account = Array.isArray(result) ? result[0] : result;
-
-    // Calculate pending balance
-    const pendingResult = await this.db.query<{ total: number }>(
-      `SELECT COALESCE(SUM(amount), 0) as total FROM transactions
-       WHERE (payer_id = $1 OR payee_id = $1) AND status IN ('pending', 'processing')`,
-      [ownerId]
-    );
+  /**
+   * Reject settling a transaction another request has claimed (see claimSettlement)
+   */
+  private assertUnclaimed(transaction: Transaction): void {
+    const pending = transaction.metadata?.pendingSettlement;
+    if (pending) {
+      throw new PaymentError(
+        'SETTLEMENT_PENDING',
+        `Transaction ${transaction.id} is being settled (${pending.operation})`,
+        { pendingSettlement: pending }
+      );
+    }
+  }
 
-    const pendingBalance = Array.isArray(pendingResult)
-      ? pendingResult[0]?.total || 0
-      : pendingResult?.total || 0;
+  /**
+   * Transaction metadata without its pending settlement
+   */
+  private withoutSettlement(metadata?: TransactionMetadata): TransactionMetadata {
+    const { pendingSettlement, ...rest } = metadata || {};
+    return rest;
+  }
 
-    return {
-      accountId: (account as any).id,
-      ownerId: (account as any).owner_id,
-      balance: (account as any).balance,
-      currency: (account as any).currency,
-      availableBalance: (account as any).balance - pendingBalance,
-      pendingBalance,
-    };
+  /**
+   * Account type for a new account
+   */
+  private accountTypeFor(ownerId: string): AccountType {
+    switch (ownerId) {
+      case SELF_ENTITY:
+        return 'platform';
+      case ESCROW_ENTITY:
+        return 'escrow';
+      case PROCESSOR_ENTITY:
+        return 'clearing';
+      case FX_ENTITY:
+        return 'fx';
+      case TAX_ENTITY:
+        return 'tax';
+      case PAYOUT_ENTITY:
+        return 'payout';
+      case DISPUTE_ENTITY:
+        return 'dispute';
+      default:
+        return 'user';
+    }
   }
 
   /**
-   * Ensure account exists
+   * Reject journals whose debits and credits differ in any currency
    */
-  private async ensureAccount(ownerId: string, currency: Currency): Promise<void> {
-    // Skip for SELF entity
-    if (ownerId === SELF_ENTITY) {
-      return;
+  private assertBalanced(legs: JournalLeg[]): void {
+    if (legs.length < 2) {
+      throw new Error('Journal requires at least two entries');
     }
 
-    const existing = await this.db.query(
-      'SELECT id FROM accounts WHERE owner_id = $1 AND currency = $2',
-      [ownerId, currency]
-    );
+    const totals = new Map<Currency, number>();
 
-    if (!existing || (Array.isArray(existing) && existing.length === 0)) {
-      const id = this.generateId();
-      const now = new Date();
-      await this.db.query(
-        `INSERT INTO accounts (id, owner_id, type, balance, currency, status, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-        [id, ownerId, 'user', 0, currency, 'active', now, now]
-      );
+    for (const leg of legs) {
+      if (leg.amount.minorUnits <= 0) {
+        throw new Error('Journal entry amounts must be positive');
+      }
+      const signed = leg.direction === 'credit' ? leg.amount.minorUnits : -leg.amount.minorUnits;
+      totals.set(leg.amount.currency, (totals.get(leg.amount.currency) || 0) + signed);
+    }
+
+    for (const [currency, total] of totals) {
+      if (total !== 0) {
+        throw new Error(`Unbalanced journal: ${currency} entries do not sum to zero`);
+      }
     }
   }
 
@@ -298,11 +2157,25 @@ export class LedgerManager {
       id: row.id,
       payerId: row.payer_id,
       payeeId: row.payee_id,
-      amount: parseFloat(row.amount),
-      currency: row.currency,
+      amount: moneyFromDecimal(row.amount, row.currency),
+      fee: row.fee_amount != null ? moneyFromDecimal(row.fee_amount, row.currency) : undefined,
       status: row.status,
       paymentMethod: row.payment_method,
       processorReference: row.processor_reference,
+      refundedAmount:
+        row.refunded_amount != null ? moneyFromDecimal(row.refunded_amount, row.currency) : undefined,
+      originalTransactionId: row.original_transaction_id || undefined,
+      tax: typeof row.tax_snapshot === 'string' ? JSON.parse(row.tax_snapshot) : row.tax_snapshot || undefined,
+      fx: typeof row.fx_snapshot === 'string' ? JSON.parse(row.fx_snapshot) : row.fx_snapshot || undefined,
+      discount:
+        typeof row.discount_snapshot === 'string'
+          ? JSON.parse(row.discount_snapshot)
+          : row.discount_snapshot || undefined,
+      authorizedAmount:
+        row.authorized_amount != null ? moneyFromDecimal(row.authorized_amount, row.currency) : undefined,
+      authorizationExpiresAt: row.authorization_expires_at
+        ? new Date(row.authorization_expires_at)
+        : undefined,
       metadata: typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
@@ -310,6 +2183,121 @@ export class LedgerManager {
     };
   }
 
+  /**
+   * Map the original payment columns joined onto a refund's row (see getBalances)
+   */
+  private mapRowToRefundedPayment(row: any): RefundedPayment {
+    return {
+      amount: moneyFromDecimal(row.original_amount, row.original_currency),
+      refundedAmount:
+        row.original_refunded_amount != null
+          ? moneyFromDecimal(row.original_refunded_amount, row.original_currency)
+          : undefined,
+      fx:
+        typeof row.original_fx_snapshot === 'string'
+          ? JSON.parse(row.original_fx_snapshot)
+          : row.original_fx_snapshot || undefined,
+    };
+  }
+
+  /**
+   * Map database row to LedgerEntry object
+   */
+  private mapRowToLedgerEntry(row: any): LedgerEntry {
+    return {
+      id: row.id,
+      journalId: row.journal_id,
+      transactionId: row.transaction_id,
+      accountId: row.account_id,
+      ownerId: row.owner_id,
+      direction: row.direction,
+      amount: moneyFromDecimal(row.amount, row.currency),
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  /**
+   * Map database row to Payout object
+   */
+  private mapRowToPayout(row: any): Payout {
+    return {
+      id: row.id,
+      ownerId: row.owner_id,
+      destinationId: row.destination_id,
+      amount: moneyFromDecimal(row.amount, row.currency),
+      status: row.status,
+      batchId: row.batch_id || undefined,
+      processorReference: row.processor_reference || undefined,
+      failureReason: row.failure_reason || undefined,
+      debitTransactionId: row.debit_transaction_id,
+      reversalTransactionId: row.reversal_transaction_id || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
+      paidAt: row.paid_at ? new Date(row.paid_at) : undefined,
+    };
+  }
+
+  /**
+   * Map database row to PayoutDestination object
+   */
+  private mapRowToPayoutDestination(row: any): PayoutDestination {
+    return {
+      id: row.id,
+      ownerId: row.owner_id,
+      type: row.type,
+      bankName: row.bank_name || undefined,
+      last4: row.last4,
+      currency: row.currency,
+      accountHolderName: row.account_holder_name,
+      externalReference: row.external_reference,
+      isDefault: !!row.is_default,
+      removedAt: row.removed_at ? new Date(row.removed_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  /**
+   * Map database row to Dispute object
+   */
+  private mapRowToDispute(row: any): Dispute {
+    const evidence = typeof row.evidence === 'string' ? JSON.parse(row.evidence) : row.evidence;
+
+    return {
+      id: row.id,
+      transactionId: row.transaction_id,
+      payerId: row.payer_id,
+      payeeId: row.payee_id,
+      amount: moneyFromDecimal(row.amount, row.currency),
+      holdAmount: moneyFromDecimal(row.hold_amount, row.hold_currency),
+      reason: row.reason,
+      status: row.status,
+      processorReference: row.processor_reference || undefined,
+      evidence: evidence ? { ...evidence, submittedAt: new Date(evidence.submittedAt) } : undefined,
+      evidenceDueBy: row.evidence_due_by ? new Date(row.evidence_due_by) : undefined,
+      reversalTransactionId: row.reversal_transaction_id || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+    };
+  }
+
+  /**
+   * Map database row to TransactionStatusChange object
+   */
+  private mapRowToStatusChange(row: any): TransactionStatusChange {
+    return {
+      id: row.id,
+      transactionId: row.transaction_id,
+      fromStatus: row.from_status || null,
+      toStatus: row.to_status,
+      actor: row.actor,
+      reason: row.reason || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
   /**
    * Generate unique ID
    */
@@ -1,242 +1,211 @@
-import { IPaymentProcessor, PaymentProcessorConfig, Currency, PaymentMethod } from './types';
+import {
+  IPaymentProcessor,
+  PaymentProcessorConfig,
+  ProcessorAdapter,
+  ProcessorCapabilities,
+  ProcessorChargeResult,
+  Money,
+  PaymentMethod,
+  DisputeEvidence,
+  ProcessorEvent,
+  WebhookHeaders,
+} from './types';
+import { createProcessorAdapter } from './processorRegistry';
 
 /**
  * Payment Processor
- * Handles actual payment processing through external providers
+ * Handles actual payment processing through the registered adapter for the
+ * configured provider, turning thrown errors and unsupported operations into
+ * failed results
  */
 export class PaymentProcessor implements IPaymentProcessor {
-  constructor(private config: PaymentProcessorConfig) {}
+  private adapter: ProcessorAdapter;
+
+  constructor(private config: PaymentProcessorConfig) {
+    this.adapter = createProcessorAdapter(config);
+  }
+
+  get capabilities(): ProcessorCapabilities {
+    return this.adapter.capabilities;
+  }
 
   async processPayment(
-    amount: number,
-    currency: Currency,
+    amount: Money,
     paymentMethod: PaymentMethod,
     metadata?: Record<string, unknown>
-  ): Promise<{ success: boolean; reference?: string; error?: string }> {
-    try {
-      switch (this.config.provider) {
-        case 'stripe':
-          return this.processStripePayment(amount, currency, paymentMethod, metadata);
-
-        case 'paypal':
-          return this.processPayPalPayment(amount, currency, paymentMethod, metadata);
+  ): Promise<ProcessorChargeResult> {
+    return this.call('Payment processing failed', () =>
+      this.adapter.processPayment(amount, paymentMethod, metadata)
+    );
+  }
 
-        case 'square':
-          return this.processSquarePayment(amount, currency, paymentMethod, metadata);
+  async processRefund(
+    reference: string,
+    amount: Money,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }> {
+    const { processRefund } = this.adapter;
+    if (!this.capabilities.refunds || !processRefund) {
+      return this.unsupported('refunds');
+    }
 
-        case 'mock':
-          return this.processMockPayment(amount, currency, paymentMethod, metadata);
+    return this.call('Refund processing failed', () =>
+      processRefund.call(this.adapter, reference, amount, metadata)
+    );
+  }
 
-        default:
-          return {
-            success: false,
-            error: `Unsupported payment provider: ${this.config.provider}`,
-          };
-      }
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Payment processing failed',
-      };
+  async authorize(
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    metadata?: Record<string, unknown>
+  ): Promise<ProcessorChargeResult> {
+    const { authorize } = this.adapter;
+    if (!this.capabilities.authorizeCapture || !authorize) {
+      return this.unsupported('authorizations');
     }
+
+    return this.call('Authorization failed', () =>
+      authorize.call(this.adapter, amount, paymentMethod, metadata)
+    );
   }
 
-  async processRefund(
+  async capture(
     reference: string,
-    amount: number,
-    currency: Currency
+    amount: Money
   ): Promise<{ success: boolean; error?: string }> {
-    try {
-      switch (this.config.provider) {
-        case 'stripe':
-          return this.processStripeRefund(reference, amount, currency);
+    const { capture } = this.adapter;
+    if (!this.capabilities.authorizeCapture || !capture) {
+      return this.unsupported('captures');
+    }
 
-        case 'paypal':
-          return this.processPayPalRefund(reference, amount, currency);
+    return this.call('Capture failed', () => capture.call(this.adapter, reference, amount));
+  }
 
-        case 'square':
-          return this.processSquareRefund(reference, amount, currency);
+  async voidAuthorization(
+    reference: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const { voidAuthorization } = this.adapter;
+    if (!this.capabilities.authorizeCapture || !voidAuthorization) {
+      return this.unsupported('voiding authorizations');
+    }
 
-        case 'mock':
-          return this.processMockRefund(reference, amount, currency);
+    return this.call('Void failed', () => voidAuthorization.call(this.adapter, reference));
+  }
 
-        default:
-          return {
-            success: false,
-            error: `Unsupported payment provider: ${this.config.provider}`,
-          };
-      }
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Refund processing failed',
-      };
+  async voidPayment(reference: string): Promise<{ success: boolean; error?: string }> {
+    const { voidPayment } = this.adapter;
+    if (!this.capabilities.voids || !voidPayment) {
+      return this.unsupported('voiding payments');
     }
+
+    return this.call('Void failed', () => voidPayment.call(this.adapter, reference));
   }
 
   async verifyPayment(
     reference: string
-  ): Promise<{ verified: boolean; status: string }> {
-    // Implementation would verify payment with provider
-    return { verified: true, status: 'completed' };
-  }
-
-  /**
-   * Stripe payment processing
-   */
-  private async processStripePayment(
-    amount: number,
-    currency: Currency,
-    paymentMethod: PaymentMethod,
-    metadata?: Record<string, unknown>
-  ): Promise<{ success: boolean; reference?: string; error?: string }> {
-    // In production, integrate with Stripe SDK
-    // const stripe = new Stripe(this.config.apiKey);
-    // const paymentIntent = await stripe.paymentIntents.create({
-    //   amount: amount * 100, // Stripe uses cents
-    //   currency: currency.toLowerCase(),
-    //   payment_method: paymentMethod,
-    //   metadata,
-    // });
-
-    // Mock implementation
-    if (this.config.testMode) {
+  ): Promise<{ verified: boolean; status: string; error?: string }> {
+    try {
+      return await this.adapter.verifyPayment(reference);
+    } catch (error) {
       return {
-        success: true,
-        reference: `stripe_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        verified: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Payment verification failed',
       };
     }
-
-    throw new Error('Stripe integration not yet implemented');
-  }
-
-  /**
-   * Stripe refund processing
-   */
-  private async processStripeRefund(
-    reference: string,
-    amount: number,
-    currency: Currency
-  ): Promise<{ success: boolean; error?: string }> {
-    // In production, integrate with Stripe SDK
-    // const stripe = new Stripe(this.config.apiKey);
-    // const refund = await stripe.refunds.create({
-    //   payment_intent: reference,
-    //   amount: amount * 100,
-    // });
-
-    if (this.config.testMode) {
-      return { success: true };
-    }
-
-    throw new Error('Stripe refund not yet implemented');
   }
 
-  /**
-   * PayPal payment processing
-   */
-  private async processPayPalPayment(
-    amount: number,
-    currency: Currency,
-    paymentMethod: PaymentMethod,
+  async sendPayout(
+    amount: Money,
+    destinationReference: string,
     metadata?: Record<string, unknown>
   ): Promise<{ success: boolean; reference?: string; error?: string }> {
-    // PayPal integration would go here
-    if (this.config.testMode) {
-      return {
-        success: true,
-        reference: `paypal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      };
+    const { sendPayout } = this.adapter;
+    if (!this.capabilities.payouts || !sendPayout) {
+      return this.unsupported('payouts');
     }
 
-    throw new Error('PayPal integration not yet implemented');
+    return this.call('Payout failed', () =>
+      sendPayout.call(this.adapter, amount, destinationReference, metadata)
+    );
   }
 
-  /**
-   * PayPal refund processing
-   */
-  private async processPayPalRefund(
-    reference: string,
-    amount: number,
-    currency: Currency
+  async submitDisputeEvidence(
+    disputeReference: string,
+    evidence: DisputeEvidence
   ): Promise<{ success: boolean; error?: string }> {
-    if (this.config.testMode) {
-      return { success: true };
+    const { submitDisputeEvidence } = this.adapter;
+    if (!this.capabilities.disputes || !submitDisputeEvidence) {
+      return this.unsupported('dispute evidence');
     }
 
-    throw new Error('PayPal refund not yet implemented');
+    return this.call('Evidence submission failed', () =>
+      submitDisputeEvidence.call(this.adapter, disputeReference, evidence)
+    );
   }
 
-  /**
-   * Square payment processing
-   */
-  private async processSquarePayment(
-    amount: number,
-    currency: Currency,
-    paymentMethod: PaymentMethod,
-    metadata?: Record<string, unknown>
-  ): Promise<{ success: boolean; reference?: string; error?: string }> {
-    // Square integration would go here
-    if (this.config.testMode) {
-      return {
-        success: true,
-        reference: `square_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      };
+  async verifyWebhook(
+    payload: string,
+    headers: WebhookHeaders
+  ): Promise<{ success: boolean; error?: string }> {
+    const { verifyWebhook } = this.adapter;
+    if (!this.capabilities.webhooks || !verifyWebhook) {
+      return this.unsupported('webhooks');
+    }
+
+    const secret = this.config.webhookSecret;
+    if (!secret) {
+      return { success: false, error: 'Webhook secret is not configured' };
     }
 
-    throw new Error('Square integration not yet implemented');
+    return this.call('Webhook verification failed', async () =>
+      (await verifyWebhook.call(this.adapter, payload, headers, secret))
+        ? { success: true }
+        : { success: false, error: 'Webhook signature does not match' }
+    );
   }
 
-  /**
-   * Square refund processing
-   */
-  private async processSquareRefund(
-    reference: string,
-    amount: number,
-    currency: Currency
-  ): Promise<{ success: boolean; error?: string }> {
-    if (this.config.testMode) {
-      return { success: true };
+  async parseWebhookEvent(
+    payload: string
+  ): Promise<{ success: boolean; event?: ProcessorEvent; error?: string }> {
+    const { parseWebhookEvent } = this.adapter;
+    if (!this.capabilities.webhooks || !parseWebhookEvent) {
+      return this.unsupported('webhooks');
     }
 
-    throw new Error('Square refund not yet implemented');
+    return this.call('Webhook is not a valid event', async () => {
+      const event = parseWebhookEvent.call(this.adapter, payload);
+      if (!event.id || !event.providerType) {
+        return { success: false, error: 'Webhook has no event ID or type' };
+      }
+      return { success: true, event };
+    });
   }
 
   /**
-   * Mock payment processing (for testing)
+   * Call the adapter, returning what it throws as a failed result
    */
-  private async processMockPayment(
-    amount: number,
-    currency: Currency,
-    paymentMethod: PaymentMethod,
-    metadata?: Record<string, unknown>
-  ): Promise<{ success: boolean; reference?: string; error?: string }> {
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    // Simulate 5% failure rate
-    if (Math.random() < 0.05) {
+  private async call<T extends { success: boolean; error?: string }>(
+    fallbackError: string,
+    operation: () => Promise<T>
+  ): Promise<T | { success: false; error: string }> {
+    try {
+      return await operation();
+    } catch (error) {
       return {
         success: false,
-        error: 'Mock payment failed (random failure)',
+        error: error instanceof Error ? error.message : fallbackError,
       };
     }
-
-    return {
-      success: true,
-      reference: `mock_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    };
   }
 
   /**
-   * Mock refund processing
+   * Failed result for an operation the provider does not support
    */
-  private async processMockRefund(
-    reference: string,
-    amount: number,
-    currency: Currency
-  ): Promise<{ success: boolean; error?: string }> {
-    await new Promise(resolve => setTimeout(resolve, 300));
-    return { success: true };
+  private unsupported(operation: string): { success: false; error: string } {
+    return {
+      success: false,
+      error: `Payment processor ${this.adapter.name} does not support ${operation}`,
+    };
   }
 }
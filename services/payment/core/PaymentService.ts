@@ -6,13 +6,90 @@ import {
   Transaction,
   TransactionStatus,
   RefundRequest,
+  TopUpRequest,
   BalanceInfo,
   SELF_ENTITY,
+  PROCESSOR_ENTITY,
+  PAYOUT_ENTITY,
   IPaymentProcessor,
   Currency,
+  Money,
+  IRiskRule,
+  IExchangeRateProvider,
+  ITaxCalculator,
+  FxSnapshot,
+  TaxSnapshot,
+  LedgerEntry,
+  AccountReconciliation,
+  TransactionStatusChange,
+  Payout,
+  PayoutDestination,
+  PayoutResult,
+  AddPayoutDestinationRequest,
+  RequestPayoutRequest,
+  PaymentMethod,
+  PendingSettlement,
+  Dispute,
+  DisputeResult,
+  OpenDisputeRequest,
+  SubmitDisputeEvidenceRequest,
+  ProcessorEvent,
+  WebhookEvent,
+  WebhookEventStatus,
+  WebhookHeaders,
+  WebhookResult,
 } from './types';
 import { LedgerManager } from './LedgerManager';
+import { WebhookStore } from './WebhookStore';
+import { RiskEngine } from './RiskEngine';
+import { AllowDenyListRule, DailyAmountRule, NewAccountRule, VelocityRule } from './riskRules';
+import {
+  compareMoney,
+  isPositiveMoney,
+  isZeroMoney,
+  isNegativeMoney,
+  moneyFromMajor,
+  subtractMoney,
+  addMoney,
+  zeroMoney,
+  moneyToDecimal,
+  percentOfMoney,
+  allocateMoney,
+  CURRENCY_DECIMALS,
+} from './money';
 import { PaymentProcessor } from './PaymentProcessor';
+import { InsufficientFundsError, PaymentError } from './errors';
+import { CurrencyConverter, convertedRefundShare } from './CurrencyConverter';
+import { StaticExchangeRateProvider } from './exchangeRates';
+import { RuleTableTaxCalculator, taxIncludedIn } from './taxCalculators';
+
+/**
+ * Hours an authorization can be captured for when not configured
+ */
+const DEFAULT_AUTHORIZATION_EXPIRY_HOURS = 7 * 24;
+
+/**
+ * Minutes between authorization expiry sweeps when not configured
+ */
+const DEFAULT_AUTHORIZATION_SWEEP_MINUTES = 15;
+
+/**
+ * Minutes between payout batches when not configured
+ */
+const DEFAULT_PAYOUT_BATCH_MINUTES = 60;
+
+/**
+ * Failure when the processor declines a pending settlement's step
+ */
+const SETTLEMENT_DECLINED: Record<
+  PendingSettlement['operation'],
+  { code: string; message: string }
+> = {
+  capture: { code: 'CAPTURE_FAILED', message: 'Capture failed' },
+  void: { code: 'VOID_FAILED', message: 'Void failed' },
+  refund: { code: 'REFUND_FAILED', message: 'Refund processing failed' },
+  escrow_cancel: { code: 'REFUND_FAILED', message: 'Refund processing failed' },
+};
 
 /**
  * Payment Service
@@ -27,7 +104,13 @@ export class PaymentService extends BaseService<PaymentServiceConfig> {
   };
 
   private ledger?: LedgerManager;
+  private webhooks?: WebhookStore;
   private processor?: IPaymentProcessor;
+  private riskEngine?: RiskEngine;
+  private converter?: CurrencyConverter;
+  private taxCalculator?: ITaxCalculator;
+  private authorizationSweep?: ReturnType<typeof setInterval>;
+  private payoutBatch?: ReturnType<typeof setInterval>;
 
   async initialize(config: PaymentServiceConfig, context?: ServiceContext): Promise<void> {
     await super.initialize(config, context);
@@ -36,12 +119,74 @@ export class PaymentService extends BaseService<PaymentServiceConfig> {
       throw new Error('Database connection required for Payment Service');
     }
 
+    const feePercent = config.platformFeePercent;
+    if (feePercent !== undefined && (feePercent < 0 || feePercent >= 100)) {
+      throw new Error('platformFeePercent must be at least 0 and below 100');
+    }
+
+    const expiryHours = config.authorization?.expiryHours;
+    if (expiryHours !== undefined && expiryHours <= 0) {
+      throw new Error('authorization.expiryHours must be positive');
+    }
+
+    const spreadPercent = config.fx?.spreadPercent;
+    if (spreadPercent !== undefined && (spreadPercent < 0 || spreadPercent >= 100)) {
+      throw new Error('fx.spreadPercent must be at least 0 and below 100');
+    }
+
+    const minPayout = config.payouts?.minAmount;
+    if (minPayout !== undefined && minPayout < 0) {
+      throw new Error('payouts.minAmount must not be negative');
+    }
+
     // Initialize ledger manager
-    this.ledger = new LedgerManager(context.database);
+    this.ledger = new LedgerManager(context.database, config.overdraftLimits);
     await this.ledger.initialize();
+    this.webhooks = new WebhookStore(context.database);
 
     // Initialize payment processor
     this.processor = new PaymentProcessor(config.processor);
+    if (config.payouts?.enabled && !this.processor.capabilities.payouts) {
+      throw new Error(`Payment processor ${config.processor.provider} does not support payouts`);
+    }
+
+    // Initialize risk rules
+    if (config.fraudDetection?.enabled) {
+      this.riskEngine = this.createRiskEngine(config.fraudDetection);
+    }
+
+    // Initialize currency conversion with the bundled offline rates
+    if (config.fx?.enabled) {
+      this.converter = new CurrencyConverter(new StaticExchangeRateProvider(), spreadPercent);
+    }
+
+    // Initialize tax calculation with the configured rate table
+    if (config.tax?.enabled) {
+      this.taxCalculator = new RuleTableTaxCalculator(
+        config.tax.rules || [],
+        config.tax.defaultJurisdiction
+      );
+    }
+
+    // Void authorizations that were never captured
+    const sweepMinutes = config.authorization?.sweepIntervalMinutes ?? DEFAULT_AUTHORIZATION_SWEEP_MINUTES;
+    if (sweepMinutes > 0) {
+      this.authorizationSweep = setInterval(() => {
+        this.expireAuthorizations().catch(error =>
+          this.log('error', 'Authorization expiry sweep failed', { error })
+        );
+      }, sweepMinutes * 60 * 1000);
+    }
+
+    // Send requested payouts in batches
+    const batchMinutes = config.payouts?.batchIntervalMinutes ?? DEFAULT_PAYOUT_BATCH_MINUTES;
+    if (config.payouts?.enabled && batchMinutes > 0) {
+      this.payoutBatch = setInterval(() => {
+        this.processPayoutBatch().catch(error =>
+          this.log('error', 'Payout batch failed', { error })
+        );
+      }, batchMinutes * 60 * 1000);
+    }
 
     this.log('info', 'Payment Service initialized', {
       processor: config.processor.provider,
@@ -59,7 +204,7 @@ export class PaymentService extends BaseService<PaymentServiceConfig> {
     try {
       this.validateTransaction(request);
 
-      const { payerId, payeeId, amount, currency, paymentMethod, metadata, idempotencyKey } = request;
+      const { payerId, payeeId, paymentMethod, metadata, idempotencyKey } = request;
 
       // Check for duplicate transaction (idempotency)
       if (idempotencyKey) {
@@ -69,76 +214,163 @@ export class PaymentService extends BaseService<PaymentServiceConfig> {
         }
       }
 
+      // Add tax to tax-exclusive prices; everything below works on the amount charged
+      const { amount, tax } = await this.applyTax(request);
+      const charged = { ...request, amount };
+
+      // Wallet-funded payments need the balance to cover them
+      if (!(await this.hasFundsFor(charged))) {
+        return this.insufficientFunds();
+      }
+
+      // Screen the payment before anything is recorded
+      const screening = await this.screenTransaction(charged);
+      if (screening.blocked) {
+        return screening.blocked;
+      }
+
+      // Convert the payee's share if they are paid in another currency
+      const fee = this.calculatePlatformFee(payerId, payeeId, netOfTax(amount, tax));
+      const conversion = await this.convertForPayee(charged, fee, tax);
+      if (conversion.failed) {
+        return conversion.failed;
+      }
+
       // Create pending transaction
       const transaction = await this.ledger!.createTransaction({
         payerId,
         payeeId,
         amount,
-        currency: currency || this.config.defaultCurrency,
+        fee,
+        tax,
+        fx: conversion.fx,
+        discount: request.discount,
         status: 'pending',
         paymentMethod,
         metadata: {
           ...metadata,
           idempotencyKey,
+          riskReview: screening.riskReview,
         },
       });
 
-      this.log('info', 'Transaction created', { transactionId: transaction.id, amount });
+      this.log('info', 'Transaction created', {
+        transactionId: transaction.id,
+        amount: moneyToDecimal(amount),
+        currency: amount.currency,
+      });
 
-      // Determine if this requires payment processing
-      const requiresProcessing = this.requiresPaymentProcessing(payerId, payeeId);
+      // Charge the payer through the processor if needed
+      const unsettled = await this.chargeTransaction(transaction);
+      if (unsettled) {
+        return unsettled;
+      }
 
-      if (requiresProcessing && paymentMethod) {
-        // Process payment through payment processor
-        await this.ledger!.updateTransactionStatus(transaction.id, 'processing');
+      // Post the journal and mark the transaction completed as one unit
+      const result = await this.settle(transaction.id, () =>
+        this.ledger!.completeTransaction(transaction.id)
+      );
+      if (!result.success) {
+        return result;
+      }
 
-        const result = await this.processor!.processPayment(
-          amount,
-          transaction.currency,
-          paymentMethod,
-          {
-            transactionId: transaction.id,
-            payerId,
-            payeeId,
-          }
-        );
+      this.emit('transaction:completed', result.transaction);
+      this.log('info', 'Transaction completed', { transactionId: transaction.id });
 
-        if (!result.success) {
-          await this.ledger!.updateTransactionStatus(transaction.id, 'failed');
-          return {
-            success: false,
-            error: {
-              code: 'PAYMENT_FAILED',
-              message: result.error || 'Payment processing failed',
-            },
-          };
+      return result;
+    } catch (error) {
+      this.log('error', 'Transaction failed', { error });
+      return {
+        success: false,
+        error: {
+          code: error instanceof PaymentError ? error.code : 'TRANSACTION_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  }
+
+  /**
+   * Top up a user's wallet by charging a payment method
+   * The charge is recorded as a payment from the clearing account to the user and
+   * credited to their balance in full, without platform fee or tax. The balance
+   * can then be spent with paymentMethod 'wallet'.
+   */
+  async topUpWallet(request: TopUpRequest): Promise<TransactionResult> {
+    try {
+      const { userId, amount, paymentMethod, idempotencyKey } = request;
+
+      if (!paymentMethod || paymentMethod === 'wallet') {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_PAYMENT_METHOD',
+            message: 'Top-ups must be charged to a payment method',
+          },
+        };
+      }
+
+      const charge: ProcessTransactionRequest = {
+        payerId: PROCESSOR_ENTITY,
+        payeeId: userId,
+        amount,
+        paymentMethod,
+        idempotencyKey,
+      };
+      this.validateTransaction(charge);
+
+      if (idempotencyKey) {
+        const existing = await this.ledger!.findByIdempotencyKey(idempotencyKey);
+        if (existing) {
+          return { success: true, transaction: existing };
         }
+      }
 
-        // Update with processor reference
-        await this.ledger!.updateTransaction(transaction.id, {
-          processorReference: result.reference,
-        });
+      // The user is the one paying, so the risk rules look at them
+      const screening = await this.screenTransaction({ ...charge, payerId: userId });
+      if (screening.blocked) {
+        return screening.blocked;
       }
 
-      // Update account balances
-      await this.ledger!.updateBalances(payerId, payeeId, amount, transaction.currency);
+      const transaction = await this.ledger!.createTransaction({
+        payerId: PROCESSOR_ENTITY,
+        payeeId: userId,
+        amount,
+        status: 'pending',
+        paymentMethod,
+        metadata: {
+          description: 'Wallet top-up',
+          idempotencyKey,
+          riskReview: screening.riskReview,
+        },
+      });
+
+      const unsettled = await this.chargeTransaction(transaction);
+      if (unsettled) {
+        return unsettled;
+      }
 
-      // Mark transaction as completed
-      const completedTransaction = await this.ledger!.updateTransactionStatus(
-        transaction.id,
-        'completed'
+      const result = await this.settle(transaction.id, () =>
+        this.ledger!.completeTransaction(transaction.id)
       );
+      if (!result.success) {
+        return result;
+      }
 
-      this.emit('transaction:completed', completedTransaction);
-      this.log('info', 'Transaction completed', { transactionId: transaction.id });
+      this.emit('wallet:topped_up', result.transaction);
+      this.log('info', 'Wallet topped up', {
+        transactionId: transaction.id,
+        amount: moneyToDecimal(amount),
+        currency: amount.currency,
+      });
 
-      return { success: true, transaction: completedTransaction };
+      return result;
     } catch (error) {
-      this.log('error', 'Transaction failed', { error });
+      this.log('error', 'Wallet top-up failed', { error });
       return {
         success: false,
         error: {
-          code: 'TRANSACTION_ERROR',
+          code: error instanceof PaymentError ? error.code : 'TOP_UP_ERROR',
           message: error instanceof Error ? error.message : 'Unknown error',
         },
       };
@@ -146,106 +378,222 @@ export class PaymentService extends BaseService<PaymentServiceConfig> {
   }
 
   /**
-   * Process a refund
+   * Authorize a payment without charging it
+   * The amount is held on the payment method until captured, voided or expired
    */
-  async processRefund(request: RefundRequest): Promise<TransactionResult> {
+  async authorizePayment(request: ProcessTransactionRequest): Promise<TransactionResult> {
     try {
-      const { transactionId, amount, reason } = request;
+      this.validateTransaction(request);
 
-      if (!this.config.refundsEnabled) {
+      const { payerId, payeeId, payeeCurrency, paymentMethod, metadata, idempotencyKey } = request;
+
+      if (!this.chargesPaymentMethod(payerId, payeeId, paymentMethod)) {
         return {
           success: false,
           error: {
-            code: 'REFUNDS_DISABLED',
-            message: 'Refunds are not enabled',
+            code: 'AUTHORIZATION_NOT_SUPPORTED',
+            message: 'Only payments charged to a payment method can be authorized',
           },
         };
       }
 
-      // Get original transaction
-      const originalTx = await this.ledger!.getTransaction(transactionId);
-      if (!originalTx) {
+      if (!this.processor!.capabilities.authorizeCapture) {
         return {
           success: false,
           error: {
-            code: 'TRANSACTION_NOT_FOUND',
-            message: 'Original transaction not found',
+            code: 'AUTHORIZATION_NOT_SUPPORTED',
+            message: 'Payment processor cannot authorize payments',
           },
         };
       }
 
-      if (originalTx.status !== 'completed') {
+      if (idempotencyKey) {
+        const existing = await this.ledger!.findByIdempotencyKey(idempotencyKey);
+        if (existing) {
+          return { success: true, transaction: existing };
+        }
+      }
+
+      // Hold the price with any tax added on top
+      const { amount, tax } = await this.applyTax(request);
+      const charged = { ...request, amount };
+
+      const screening = await this.screenTransaction(charged);
+      if (screening.blocked) {
+        return screening.blocked;
+      }
+
+      // Fail now rather than at capture if the payee's currency cannot be quoted
+      const conversion = await this.convertForPayee(charged, undefined, tax);
+      if (conversion.failed) {
+        return conversion.failed;
+      }
+
+      const transaction = await this.ledger!.createTransaction({
+        payerId,
+        payeeId,
+        amount,
+        tax,
+        status: 'pending',
+        paymentMethod,
+        metadata: {
+          ...metadata,
+          idempotencyKey,
+          riskReview: screening.riskReview,
+          payeeCurrency,
+        },
+      });
+
+      await this.ledger!.updateTransactionStatus(transaction.id, 'processing');
+
+      const result = await this.processor!.authorize(amount, paymentMethod, {
+        transactionId: transaction.id,
+        payerId,
+        payeeId,
+        paymentMethodToken: metadata?.paymentMethodToken,
+      });
+
+      if (!result.success) {
+        await this.ledger!.updateTransactionStatus(transaction.id, 'failed', {
+          reason: result.error,
+        });
         return {
           success: false,
           error: {
-            code: 'INVALID_TRANSACTION_STATUS',
-            message: 'Can only refund completed transactions',
+            code: result.requiresAction ? 'AUTHENTICATION_REQUIRED' : 'AUTHORIZATION_FAILED',
+            message: result.error || 'Authorization failed',
           },
         };
       }
 
-      const refundAmount = amount || originalTx.amount;
+      const expiryHours = this.config.authorization?.expiryHours ?? DEFAULT_AUTHORIZATION_EXPIRY_HOURS;
+      const authorized = await this.ledger!.updateTransaction(transaction.id, {
+        status: 'authorized',
+        processorReference: result.reference,
+        authorizedAmount: amount,
+        authorizationExpiresAt: new Date(Date.now() + expiryHours * 60 * 60 * 1000),
+      });
 
-      // Create refund transaction (reverse the original)
-      const refundTransaction = await this.ledger!.createTransaction({
-        payerId: originalTx.payeeId, // Reverse
-        payeeId: originalTx.payerId, // Reverse
-        amount: refundAmount,
-        currency: originalTx.currency,
-        status: 'processing',
-        metadata: {
-          description: `Refund for transaction ${transactionId}`,
-          reason,
-          originalTransactionId: transactionId,
-        },
+      this.emit('authorization:created', authorized);
+      this.log('info', 'Payment authorized', {
+        transactionId: transaction.id,
+        amount: moneyToDecimal(amount),
+        currency: amount.currency,
       });
 
-      // Process refund with payment processor if needed
-      if (originalTx.processorReference) {
-        const result = await this.processor!.processRefund(
-          originalTx.processorReference,
-          refundAmount,
-          originalTx.currency
-        );
+      return { success: true, transaction: authorized };
+    } catch (error) {
+      this.log('error', 'Authorization failed', { error });
+      return {
+        success: false,
+        error: {
+          code: error instanceof PaymentError ? error.code : 'AUTHORIZATION_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  }
 
-        if (!result.success) {
-          await this.ledger!.updateTransactionStatus(refundTransaction.id, 'failed');
-          return {
-            success: false,
-            error: {
-              code: 'REFUND_FAILED',
-              message: result.error || 'Refund processing failed',
-            },
-          };
-        }
+  /**
+   * Capture all or part of an authorized payment
+   * The platform fee and any currency conversion apply to the captured amount.
+   * A partial capture includes tax at the authorization's rate.
+   * @param amount Defaults to the full authorized amount
+   * @param actor Who captured the payment, for the status history
+   */
+  async capturePayment(
+    transactionId: string,
+    amount?: Money,
+    actor?: string
+  ): Promise<TransactionResult> {
+    try {
+      const authorizedTx = await this.getAuthorizedTransaction(transactionId);
+      if ('error' in authorizedTx) {
+        return authorizedTx.error;
       }
 
-      // Update balances
-      await this.ledger!.updateBalances(
-        refundTransaction.payerId,
-        refundTransaction.payeeId,
-        refundAmount,
-        originalTx.currency
-      );
+      const { transaction } = authorizedTx;
+      const authorizedAmount = transaction.authorizedAmount || transaction.amount;
+      const captureAmount = amount || authorizedAmount;
+
+      if (
+        captureAmount.currency !== authorizedAmount.currency ||
+        !isPositiveMoney(captureAmount) ||
+        compareMoney(captureAmount, authorizedAmount) > 0
+      ) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_CAPTURE_AMOUNT',
+            message: 'Capture amount must be positive and at most the authorized amount',
+            details: { authorizedAmount },
+          },
+        };
+      }
 
-      // Mark original transaction as refunded
-      await this.ledger!.updateTransactionStatus(originalTx.id, 'refunded');
+      if (
+        compareMoney(captureAmount, authorizedAmount) < 0 &&
+        !this.processor!.capabilities.partialCapture
+      ) {
+        return {
+          success: false,
+          error: {
+            code: 'PARTIAL_CAPTURE_NOT_SUPPORTED',
+            message: 'Payment processor can only capture the whole authorized amount',
+            details: { authorizedAmount },
+          },
+        };
+      }
 
-      // Complete refund transaction
-      const completedRefund = await this.ledger!.updateTransactionStatus(
-        refundTransaction.id,
-        'completed'
+      const { payerId, payeeId } = transaction;
+      const tax =
+        transaction.tax && compareMoney(captureAmount, authorizedAmount) !== 0
+          ? { ...transaction.tax, amount: taxIncludedIn(captureAmount, transaction.tax.rate) }
+          : transaction.tax;
+      const fee = this.calculatePlatformFee(payerId, payeeId, netOfTax(captureAmount, tax));
+      const conversion = await this.convertForPayee(
+        {
+          payerId,
+          payeeId,
+          amount: captureAmount,
+          payeeCurrency: transaction.metadata?.payeeCurrency,
+        },
+        fee,
+        tax
       );
+      if (conversion.failed) {
+        return conversion.failed;
+      }
 
-      this.emit('refund:completed', completedRefund);
+      // Claimed, with the funding source checked under lock, before the processor
+      // captures it; the ledger is settled once the processor has captured it
+      let claimed: Transaction;
+      try {
+        claimed = await this.ledger!.claimSettlement(
+          transactionId,
+          'completed',
+          {
+            operation: 'capture',
+            capture: { amount: captureAmount, fee, tax, fx: conversion.fx },
+            actor,
+            claimedAt: new Date().toISOString(),
+          },
+          captureAmount
+        );
+      } catch (error) {
+        if (error instanceof InsufficientFundsError) {
+          return this.insufficientFunds(error.details);
+        }
+        throw error;
+      }
 
-      return { success: true, transaction: completedRefund };
+      return await this.completeSettlement(claimed);
     } catch (error) {
-      this.log('error', 'Refund failed', { error });
+      this.log('error', 'Capture failed', { error });
       return {
         success: false,
         error: {
-          code: 'REFUND_ERROR',
+          code: error instanceof PaymentError ? error.code : 'CAPTURE_ERROR',
           message: error instanceof Error ? error.message : 'Unknown error',
         },
       };
@@ -253,75 +601,2207 @@ export class PaymentService extends BaseService<PaymentServiceConfig> {
   }
 
   /**
-   * Get account balance
+   * Release an authorization without charging the payer
+   * Claimed under lock before the processor voids it, so a concurrent capture
+   * cannot be captured after the void; the ledger is settled once it is voided.
+   * @param actor Who voided the authorization, for the status history
    */
-  async getBalance(ownerId: string): Promise<BalanceInfo | null> {
-    return this.ledger!.getBalance(ownerId);
-  }
+  async voidAuthorization(
+    transactionId: string,
+    reason?: string,
+    actor?: string
+  ): Promise<TransactionResult> {
+    try {
+      const authorizedTx = await this.getAuthorizedTransaction(transactionId);
+      if ('error' in authorizedTx) {
+        return authorizedTx.error;
+      }
 
-  /**
-   * Get transaction by ID
-   */
-  async getTransaction(transactionId: string): Promise<Transaction | null> {
-    return this.ledger!.getTransaction(transactionId);
-  }
+      const claimed = await this.ledger!.claimSettlement(transactionId, 'cancelled', {
+        operation: 'void',
+        actor,
+        reason,
+        claimedAt: new Date().toISOString(),
+      });
 
-  /**
-   * Get transactions for an owner
-   */
-  async getTransactions(
-    ownerId: string,
-    options?: {
-      status?: TransactionStatus;
-      limit?: number;
-      offset?: number;
+      return await this.completeSettlement(claimed);
+    } catch (error) {
+      this.log('error', 'Authorization void failed', { error });
+      return {
+        success: false,
+        error: {
+          code: error instanceof PaymentError ? error.code : 'VOID_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
     }
-  ): Promise<Transaction[]> {
-    return this.ledger!.getTransactions(ownerId, options);
   }
 
   /**
-   * Validate transaction request
+   * Void every authorization that expired before it was captured
+   * Runs on a timer (authorization.sweepIntervalMinutes); returns the expired transactions
    */
-  private validateTransaction(request: ProcessTransactionRequest): void {
-    const { amount, payerId, payeeId } = request;
+  async expireAuthorizations(asOf: Date = new Date()): Promise<Transaction[]> {
+    const stale = await this.ledger!.getExpiredAuthorizations(asOf);
+    const expired: Transaction[] = [];
 
-    if (amount <= 0) {
-      throw new Error('Transaction amount must be positive');
-    }
+    for (const transaction of stale) {
+      // Being captured; voiding it now could void a capture the processor has made
+      if (transaction.metadata?.pendingSettlement) {
+        continue;
+      }
 
-    if (this.config.minTransactionAmount && amount < this.config.minTransactionAmount) {
-      throw new Error(`Transaction amount below minimum: ${this.config.minTransactionAmount}`);
+      try {
+        expired.push(await this.expireAuthorization(transaction));
+      } catch (error) {
+        this.log('error', 'Authorization expiry failed', { transactionId: transaction.id, error });
+      }
     }
 
-    if (this.config.maxTransactionAmount && amount > this.config.maxTransactionAmount) {
-      throw new Error(`Transaction amount exceeds maximum: ${this.config.maxTransactionAmount}`);
-    }
+    return expired;
+  }
 
-    if (payerId === payeeId) {
-      throw new Error('Payer and payee cannot be the same');
+  /**
+   * Process a refund
+   */
+  async processRefund(request: RefundRequest): Promise<TransactionResult> {
+    if (!this.config.refundsEnabled) {
+      return {
+        success: false,
+        error: {
+          code: 'REFUNDS_DISABLED',
+          message: 'Refunds are not enabled',
+        },
+      };
     }
 
-    if (!payerId || !payeeId) {
-      throw new Error('Payer and payee are required');
-    }
+    return this.refund(request);
   }
 
   /**
-   * Determine if payment processing is required
+   * Hold a payment in escrow
+   * Charges the payer as for a normal transaction, but keeps the funds in the
+   * escrow account until releaseEscrow or cancelEscrow is called
    */
-  private requiresPaymentProcessing(payerId: string, payeeId: string): boolean {
-    // If paying FROM the platform, no external processing needed (payout)
-    if (payerId === SELF_ENTITY) {
-      return false;
-    }
+  async holdInEscrow(request: ProcessTransactionRequest): Promise<TransactionResult> {
+    try {
+      if (!this.config.escrowEnabled) {
+        return {
+          success: false,
+          error: {
+            code: 'ESCROW_DISABLED',
+            message: 'Escrow is not enabled',
+          },
+        };
+      }
 
-    // If paying TO the platform, external processing needed (charge)
-    if (payeeId === SELF_ENTITY) {
-      return true;
-    }
+      this.validateTransaction(request);
+
+      const { payerId, payeeId, paymentMethod, metadata, idempotencyKey } = request;
+
+      // Check for duplicate hold (idempotency)
+      if (idempotencyKey) {
+        const existing = await this.ledger!.findByIdempotencyKey(idempotencyKey);
+        if (existing) {
+          return { success: true, transaction: existing };
+        }
+      }
+
+      const { amount, tax } = await this.applyTax(request);
+      const charged = { ...request, amount };
+
+      if (!(await this.hasFundsFor(charged))) {
+        return this.insufficientFunds();
+      }
+
+      const screening = await this.screenTransaction(charged);
+      if (screening.blocked) {
+        return screening.blocked;
+      }
+
+      const fee = this.calculatePlatformFee(payerId, payeeId, netOfTax(amount, tax));
+      const conversion = await this.convertForPayee(charged, fee, tax);
+      if (conversion.failed) {
+        return conversion.failed;
+      }
+
+      const transaction = await this.ledger!.createTransaction({
+        payerId,
+        payeeId,
+        amount,
+        fee,
+        tax,
+        fx: conversion.fx,
+        status: 'pending',
+        paymentMethod,
+        metadata: {
+          ...metadata,
+          idempotencyKey,
+          riskReview: screening.riskReview,
+          escrow: true,
+        },
+      });
+
+      const unsettled = await this.chargeTransaction(transaction);
+      if (unsettled) {
+        return unsettled;
+      }
+
+      // Move the funds into escrow and mark the transaction held as one unit
+      const result = await this.settle(transaction.id, () =>
+        this.ledger!.holdInEscrow(transaction.id)
+      );
+      if (!result.success) {
+        return result;
+      }
+
+      this.emit('escrow:held', result.transaction);
+      this.log('info', 'Funds held in escrow', { transactionId: transaction.id });
+
+      return result;
+    } catch (error) {
+      this.log('error', 'Escrow hold failed', { error });
+      return {
+        success: false,
+        error: {
+          code: error instanceof PaymentError ? error.code : 'ESCROW_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  }
+
+  /**
+   * Release escrowed funds to the payee
+   * @param actor Who released the funds, for the status history
+   */
+  async releaseEscrow(transactionId: string, actor?: string): Promise<TransactionResult> {
+    try {
+      const heldTx = await this.getHeldTransaction(transactionId);
+      if ('error' in heldTx) {
+        return heldTx.error;
+      }
+
+      const releasedTransaction = await this.ledger!.releaseEscrow(transactionId, { actor });
+
+      this.emit('escrow:released', releasedTransaction);
+      this.log('info', 'Escrow released', { transactionId });
+
+      return { success: true, transaction: releasedTransaction };
+    } catch (error) {
+      this.log('error', 'Escrow release failed', { error });
+      return {
+        success: false,
+        error: {
+          code: error instanceof PaymentError ? error.code : 'ESCROW_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  }
+
+  /**
+   * Cancel an escrow hold and return the funds to the payer
+   * Card-funded holds are refunded through the payment processor. The hold is claimed
+   * first, so a concurrent release or cancel fails, and the refund is sent after the
+   * claim commits; the ledger is settled once the processor has refunded it.
+   * @param actor Who cancelled the hold, for the status history
+   */
+  async cancelEscrow(
+    transactionId: string,
+    reason?: string,
+    actor?: string
+  ): Promise<TransactionResult> {
+    try {
+      const heldTx = await this.getHeldTransaction(transactionId);
+      if ('error' in heldTx) {
+        return heldTx.error;
+      }
+
+      const claimed = await this.ledger!.claimSettlement(transactionId, 'cancelled', {
+        operation: 'escrow_cancel',
+        actor,
+        reason,
+        processorSucceeded: !heldTx.transaction.processorReference,
+        claimedAt: new Date().toISOString(),
+      });
+
+      return await this.completeSettlement(claimed);
+    } catch (error) {
+      this.log('error', 'Escrow cancellation failed', { error });
+      return {
+        success: false,
+        error: {
+          code: error instanceof PaymentError ? error.code : 'ESCROW_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  }
+
+  /**
+   * Settle a transaction's pending settlement, e.g. one whose ledger step failed
+   * after the processor had done its part (see the settlement:failed event)
+   * The processor step is only sent again if it never succeeded; it is keyed by
+   * transaction, so a processor that already acted on it does not act twice.
+   */
+  async retrySettlement(transactionId: string): Promise<TransactionResult> {
+    try {
+      const transaction = await this.ledger!.getTransaction(transactionId);
+      if (!transaction) {
+        return {
+          success: false,
+          error: {
+            code: 'TRANSACTION_NOT_FOUND',
+            message: 'Transaction not found',
+          },
+        };
+      }
+
+      if (!transaction.metadata?.pendingSettlement) {
+        return {
+          success: false,
+          error: {
+            code: 'NO_PENDING_SETTLEMENT',
+            message: 'Transaction has no pending settlement',
+          },
+        };
+      }
+
+      return await this.completeSettlement(transaction);
+    } catch (error) {
+      this.log('error', 'Settlement retry failed', { error });
+      return {
+        success: false,
+        error: {
+          code: error instanceof PaymentError ? error.code : 'SETTLEMENT_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  }
+
+  /**
+   * Cancel a transaction that has not settled yet
+   * Pending transactions are voided directly; processing ones are claimed, then
+   * voided with the payment processor first, when it supports voiding
+   * @param actor Who cancelled the transaction, for the status history
+   */
+  async cancelTransaction(
+    transactionId: string,
+    reason?: string,
+    actor?: string
+  ): Promise<TransactionResult> {
+    try {
+      const transaction = await this.ledger!.getTransaction(transactionId);
+      if (!transaction) {
+        return {
+          success: false,
+          error: {
+            code: 'TRANSACTION_NOT_FOUND',
+            message: 'Transaction not found',
+          },
+        };
+      }
+
+      if (transaction.status !== 'pending' && transaction.status !== 'processing') {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_TRANSACTION_STATUS',
+            message: 'Only pending or processing transactions can be cancelled',
+          },
+        };
+      }
+
+      if (transaction.status === 'processing') {
+        // Without a reference the charge is still in flight and cannot be voided yet
+        if (!transaction.processorReference) {
+          return {
+            success: false,
+            error: {
+              code: 'INVALID_TRANSACTION_STATUS',
+              message: 'Payment is still being charged',
+            },
+          };
+        }
+
+        if (!this.processor!.capabilities.voids) {
+          return {
+            success: false,
+            error: {
+              code: 'VOID_NOT_SUPPORTED',
+              message: 'Payment processor cannot void processing payments',
+            },
+          };
+        }
+
+        // Claimed first, so a webhook settling the charge meanwhile is refused
+        const claimed = await this.ledger!.claimSettlement(transactionId, 'cancelled', {
+          operation: 'void',
+          actor,
+          reason,
+          claimedAt: new Date().toISOString(),
+        });
+
+        return await this.completeSettlement(claimed);
+      }
+
+      const cancelledTransaction = await this.ledger!.cancelTransaction(transactionId, {
+        actor,
+        reason,
+      });
+
+      this.emit('transaction:cancelled', cancelledTransaction);
+      this.log('info', 'Transaction cancelled', { transactionId, reason });
+
+      return { success: true, transaction: cancelledTransaction };
+    } catch (error) {
+      this.log('error', 'Transaction cancellation failed', { error });
+      return {
+        success: false,
+        error: {
+          code: error instanceof PaymentError ? error.code : 'CANCEL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  }
+
+  /**
+   * Save a bank account for a user's payouts
+   * Only the processor's token and the last four digits are stored
+   */
+  async addPayoutDestination(request: AddPayoutDestinationRequest): Promise<PayoutResult> {
+    try {
+      if (!this.config.payouts?.enabled) {
+        return this.payoutsDisabled();
+      }
+
+      const { ownerId, last4, currency, accountHolderName, externalReference } = request;
+
+      if (!ownerId || !accountHolderName || !externalReference) {
+        return this.payoutFailure(
+          'INVALID_PAYOUT_DESTINATION',
+          'Owner, account holder name and processor reference are required'
+        );
+      }
+
+      if (!/^\d{4}$/.test(last4 || '')) {
+        return this.payoutFailure('INVALID_PAYOUT_DESTINATION', 'last4 must be four digits');
+      }
+
+      if (!(currency in CURRENCY_DECIMALS)) {
+        return this.payoutFailure('INVALID_PAYOUT_DESTINATION', `Unsupported currency: ${currency}`);
+      }
+
+      const destination = await this.ledger!.addPayoutDestination(request);
+
+      this.log('info', 'Payout destination added', { destinationId: destination.id, ownerId });
+
+      return { success: true, destination };
+    } catch (error) {
+      this.log('error', 'Adding payout destination failed', { error });
+      return this.payoutFailure(
+        error instanceof PaymentError ? error.code : 'PAYOUT_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Remove a payout destination
+   * Payouts already requested to it are still sent
+   */
+  async removePayoutDestination(destinationId: string): Promise<PayoutResult> {
+    try {
+      const destination = await this.ledger!.removePayoutDestination(destinationId);
+
+      this.log('info', 'Payout destination removed', { destinationId });
+
+      return { success: true, destination };
+    } catch (error) {
+      this.log('error', 'Removing payout destination failed', { error });
+      return this.payoutFailure(
+        error instanceof PaymentError ? error.code : 'PAYOUT_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Request a payout from a user's wallet
+   * The amount is debited from the wallet straight away and held in the PAYOUT
+   * account until the next batch sends it; a payout that fails is reversed.
+   */
+  async requestPayout(request: RequestPayoutRequest): Promise<PayoutResult> {
+    try {
+      if (!this.config.payouts?.enabled) {
+        return this.payoutsDisabled();
+      }
+
+      const { ownerId, amount, destinationId } = request;
+
+      if (!amount || !Number.isSafeInteger(amount.minorUnits) || !isPositiveMoney(amount)) {
+        return this.payoutFailure(
+          'INVALID_AMOUNT',
+          'Payout amount must be a positive integer number of minor units'
+        );
+      }
+
+      const minAmount = this.config.payouts.minAmount;
+      if (minAmount && compareMoney(amount, moneyFromMajor(minAmount, amount.currency)) < 0) {
+        return this.payoutFailure('INVALID_AMOUNT', `Payout amount below minimum: ${minAmount}`);
+      }
+
+      // Replaying the key returns the payout it created, without debiting again
+      const idempotencyKey = request.idempotencyKey && `payout:${request.idempotencyKey}`;
+      if (idempotencyKey) {
+        const existing = await this.ledger!.findByIdempotencyKey(idempotencyKey);
+        const payout = existing?.metadata?.payoutId
+          ? await this.ledger!.getPayout(existing.metadata.payoutId)
+          : null;
+        if (payout) {
+          return { success: true, payout };
+        }
+      }
+
+      const destination = destinationId
+        ? await this.ledger!.getPayoutDestination(destinationId)
+        : (await this.ledger!.getPayoutDestinations(ownerId)).find(d => d.isDefault) || null;
+
+      if (!destination || destination.ownerId !== ownerId || destination.removedAt) {
+        return this.payoutFailure('DESTINATION_NOT_FOUND', 'Payout destination not found');
+      }
+
+      if (destination.currency !== amount.currency) {
+        return this.payoutFailure(
+          'CURRENCY_MISMATCH',
+          `Payout destination takes ${destination.currency}, not ${amount.currency}`
+        );
+      }
+
+      const payout = await this.ledger!.createPayout({
+        ownerId,
+        destinationId: destination.id,
+        amount,
+        idempotencyKey,
+      });
+
+      this.emit('payout:requested', payout);
+      this.log('info', 'Payout requested', {
+        payoutId: payout.id,
+        amount: moneyToDecimal(amount),
+        currency: amount.currency,
+      });
+
+      return { success: true, payout };
+    } catch (error) {
+      this.log('error', 'Payout request failed', { error });
+      return this.payoutFailure(
+        error instanceof PaymentError ? error.code : 'PAYOUT_ERROR',
+        error instanceof Error ? error.message : 'Unknown error',
+        error instanceof PaymentError ? error.details : undefined
+      );
+    }
+  }
+
+  /**
+   * Send every requested payout as one batch
+   * Runs on a timer (payouts.batchIntervalMinutes). Each payout is claimed for the
+   * batch first, so overlapping runs cannot send it twice. Accepted payouts go
+   * in transit; rejected ones fail and are reversed. Returns the batch's payouts.
+   */
+  async processPayoutBatch(): Promise<Payout[]> {
+    const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const requested = await this.ledger!.getUnbatchedPayouts();
+    const sent: Payout[] = [];
+
+    for (const { id } of requested) {
+      try {
+        const payout = await this.ledger!.claimPayout(id, batchId);
+        if (payout) {
+          sent.push(await this.sendPayout(payout));
+        }
+      } catch (error) {
+        this.log('error', 'Payout send failed', { payoutId: id, batchId, error });
+      }
+    }
+
+    if (sent.length > 0) {
+      this.log('info', 'Payout batch sent', { batchId, count: sent.length });
+    }
+
+    return sent;
+  }
+
+  /**
+   * Mark an in-transit payout paid, once the processor confirms it arrived
+   */
+  async completePayout(payoutId: string): Promise<PayoutResult> {
+    try {
+      const payout = await this.ledger!.completePayout(payoutId);
+
+      this.emit('payout:paid', payout);
+      this.log('info', 'Payout paid', { payoutId });
+
+      return { success: true, payout };
+    } catch (error) {
+      this.log('error', 'Payout completion failed', { error });
+      return this.payoutFailure(
+        error instanceof PaymentError ? error.code : 'PAYOUT_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Mark a payout failed and return its amount to the owner's wallet
+   * For payouts the processor rejected or returned
+   */
+  async failPayout(payoutId: string, reason: string): Promise<PayoutResult> {
+    try {
+      const payout = await this.ledger!.failPayout(payoutId, reason);
+
+      this.emit('payout:failed', payout);
+      this.log('warn', 'Payout failed', { payoutId, reason });
+
+      return { success: true, payout };
+    } catch (error) {
+      this.log('error', 'Payout failure handling failed', { error });
+      return this.payoutFailure(
+        error instanceof PaymentError ? error.code : 'PAYOUT_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Open a dispute against a card payment, usually when the processor reports one
+   * The payee's share of the disputed amount is held until the dispute is
+   * resolved; a processor dispute ID that was already opened returns that dispute.
+   */
+  async openDispute(request: OpenDisputeRequest): Promise<DisputeResult> {
+    try {
+      const { transactionId, reason, processorReference, evidenceDueBy } = request;
+
+      if (processorReference) {
+        const existing = await this.ledger!.findDisputeByProcessorReference(processorReference);
+        if (existing) {
+          return { success: true, dispute: existing };
+        }
+      }
+
+      const original = await this.ledger!.getTransaction(transactionId);
+      if (!original) {
+        return this.disputeFailure('TRANSACTION_NOT_FOUND', 'Transaction not found');
+      }
+
+      if (!original.processorReference) {
+        return this.disputeFailure('INVALID_TRANSACTION', 'Only card payments can be disputed');
+      }
+
+      if (
+        original.status !== 'completed' &&
+        original.status !== 'released' &&
+        original.status !== 'partially_refunded'
+      ) {
+        return this.disputeFailure(
+          'INVALID_TRANSACTION_STATUS',
+          'Can only dispute completed, released or partially refunded transactions'
+        );
+      }
+
+      // Refunds still processing count as refunded; the ledger checks again under a lock
+      const remaining = await this.ledger!.getRemainingRefundable(original);
+      const amount = request.amount || remaining;
+
+      if (
+        amount.currency !== original.amount.currency ||
+        !isPositiveMoney(amount) ||
+        compareMoney(amount, remaining) > 0
+      ) {
+        return this.disputeFailure(
+          'INVALID_DISPUTE_AMOUNT',
+          'Disputed amount must be positive, in the original currency and not yet refunded',
+          { remainingRefundable: remaining }
+        );
+      }
+
+      if (!reason) {
+        return this.disputeFailure('INVALID_DISPUTE', 'Dispute reason is required');
+      }
+
+      const dispute = await this.ledger!.openDispute({
+        transactionId,
+        amount,
+        holdAmount: this.calculatePayeeReversal(original, amount),
+        reason,
+        processorReference,
+        evidenceDueBy,
+      });
+
+      this.emit('dispute:opened', dispute);
+      this.log('warn', 'Dispute opened', {
+        disputeId: dispute.id,
+        transactionId,
+        amount: moneyToDecimal(amount),
+        currency: amount.currency,
+      });
+
+      return { success: true, dispute };
+    } catch (error) {
+      this.log('error', 'Dispute opening failed', { error });
+      return this.disputeFailure(
+        error instanceof PaymentError ? error.code : 'DISPUTE_ERROR',
+        error instanceof Error ? error.message : 'Unknown error',
+        error instanceof PaymentError ? error.details : undefined
+      );
+    }
+  }
+
+  /**
+   * Submit the payee's evidence for a dispute to the processor and mark it under review
+   */
+  async submitDisputeEvidence(
+    disputeId: string,
+    request: SubmitDisputeEvidenceRequest
+  ): Promise<DisputeResult> {
+    try {
+      if (!request.explanation?.trim()) {
+        return this.disputeFailure('INVALID_EVIDENCE', 'Evidence needs an explanation');
+      }
+
+      const dispute = await this.ledger!.getDispute(disputeId);
+      if (!dispute) {
+        return this.disputeFailure('DISPUTE_NOT_FOUND', 'Dispute not found');
+      }
+
+      if (dispute.status !== 'needs_response') {
+        return this.disputeFailure(
+          'INVALID_DISPUTE_STATUS',
+          'Evidence has already been submitted or the dispute is resolved',
+          { status: dispute.status }
+        );
+      }
+
+      if (dispute.evidenceDueBy && dispute.evidenceDueBy.getTime() < Date.now()) {
+        return this.disputeFailure('EVIDENCE_OVERDUE', 'The evidence due date has passed', {
+          evidenceDueBy: dispute.evidenceDueBy,
+        });
+      }
+
+      const evidence = {
+        explanation: request.explanation,
+        documentUrls: request.documentUrls,
+        submittedAt: new Date(),
+      };
+
+      if (dispute.processorReference) {
+        const result = await this.processor!.submitDisputeEvidence(
+          dispute.processorReference,
+          evidence
+        );
+
+        if (!result.success) {
+          return this.disputeFailure(
+            'EVIDENCE_REJECTED',
+            result.error || 'The processor did not accept the evidence'
+          );
+        }
+      }
+
+      const updated = await this.ledger!.submitDisputeEvidence(disputeId, evidence);
+
+      this.emit('dispute:evidence_submitted', updated);
+      this.log('info', 'Dispute evidence submitted', { disputeId });
+
+      return { success: true, dispute: updated };
+    } catch (error) {
+      this.log('error', 'Dispute evidence submission failed', { error });
+      return this.disputeFailure(
+        error instanceof PaymentError ? error.code : 'DISPUTE_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Resolve an open dispute once the card issuer decides
+   * Won releases the hold to the payee. Lost charges the disputed amount back as a
+   * refund of the payment, reversing its share of the platform fee and tax.
+   */
+  async resolveDispute(disputeId: string, outcome: 'won' | 'lost'): Promise<DisputeResult> {
+    try {
+      if (outcome === 'won') {
+        const dispute = await this.ledger!.winDispute(disputeId);
+
+        this.emit('dispute:won', dispute);
+        this.log('info', 'Dispute won', { disputeId });
+
+        return { success: true, dispute };
+      }
+
+      const open = await this.ledger!.getDispute(disputeId);
+      if (!open) {
+        return this.disputeFailure('DISPUTE_NOT_FOUND', 'Dispute not found');
+      }
+
+      const original = await this.ledger!.getTransaction(open.transactionId);
+      if (!original) {
+        return this.disputeFailure('TRANSACTION_NOT_FOUND', 'Transaction not found');
+      }
+
+      const taxReversal = this.calculateTaxReversal(original, open.amount);
+      const { dispute, chargeback } = await this.ledger!.loseDispute(disputeId, {
+        fee: this.calculateFeeReversal(original, open.amount),
+        tax: taxReversal && { ...original.tax!, amount: taxReversal },
+      });
+
+      this.emit('dispute:lost', dispute);
+      this.log('warn', 'Dispute lost', { disputeId, chargebackId: chargeback.id });
+
+      return { success: true, dispute, transaction: chargeback };
+    } catch (error) {
+      this.log('error', 'Dispute resolution failed', { error });
+      return this.disputeFailure(
+        error instanceof PaymentError ? error.code : 'DISPUTE_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Receive a webhook from the payment processor
+   * The signature is checked with processor.webhookSecret, then the event is
+   * stored, once per provider event ID, and applied to the transaction with its
+   * processor reference. A redelivered event that was already applied is not
+   * applied again; one that failed is retried.
+   * @param payload The raw request body, exactly as received
+   */
+  async receiveWebhook(
+    provider: string,
+    payload: string,
+    headers: WebhookHeaders
+  ): Promise<WebhookResult> {
+    try {
+      if (provider !== this.config.processor.provider) {
+        return this.webhookFailure(
+          'UNKNOWN_PROVIDER',
+          `Webhooks from ${provider} are not accepted`
+        );
+      }
+
+      if (!this.processor!.capabilities.webhooks || !this.config.processor.webhookSecret) {
+        return this.webhookFailure(
+          'WEBHOOKS_NOT_CONFIGURED',
+          `Webhooks from ${provider} are not configured`
+        );
+      }
+
+      const lowerCased = Object.fromEntries(
+        Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+      );
+      const verified = await this.processor!.verifyWebhook(payload, lowerCased);
+      if (!verified.success) {
+        this.log('warn', 'Webhook signature rejected', { provider, error: verified.error });
+        return this.webhookFailure('INVALID_SIGNATURE', verified.error || 'Invalid signature');
+      }
+
+      const parsed = await this.processor!.parseWebhookEvent(payload);
+      if (!parsed.success) {
+        return this.webhookFailure('INVALID_WEBHOOK', parsed.error || 'Invalid webhook');
+      }
+
+      const stored = await this.webhooks!.recordEvent(provider, parsed.event!, payload);
+      if (stored.status === 'processed' || stored.status === 'ignored') {
+        return { success: true, event: stored, duplicate: true };
+      }
+
+      const claimed = await this.webhooks!.claimEvent(stored.id, ['received', 'failed']);
+      if (!claimed) {
+        return this.webhookFailure(
+          'WEBHOOK_IN_PROGRESS',
+          'Webhook event is being applied by another delivery',
+          { eventId: stored.id }
+        );
+      }
+
+      return this.applyWebhookEvent(claimed, parsed.event!);
+    } catch (error) {
+      this.log('error', 'Webhook failed', { provider, error });
+      return this.webhookFailure(
+        error instanceof PaymentError ? error.code : 'WEBHOOK_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Apply a stored webhook event again, e.g. one that failed
+   * Its payload is parsed again without the signature check it passed on arrival.
+   * Events already applied are safe to replay: changes a transaction already has are skipped.
+   */
+  async replayWebhookEvent(webhookEventId: string): Promise<WebhookResult> {
+    try {
+      const stored = await this.webhooks!.getEvent(webhookEventId);
+      if (!stored) {
+        return this.webhookFailure('WEBHOOK_EVENT_NOT_FOUND', 'Webhook event not found');
+      }
+
+      if (stored.provider !== this.config.processor.provider) {
+        return this.webhookFailure(
+          'UNKNOWN_PROVIDER',
+          `Webhook event is from ${stored.provider}, not the configured processor`
+        );
+      }
+
+      const parsed = await this.processor!.parseWebhookEvent(stored.payload);
+      if (!parsed.success) {
+        return this.webhookFailure('INVALID_WEBHOOK', parsed.error || 'Invalid webhook');
+      }
+
+      const claimed = await this.webhooks!.claimEvent(stored.id, [
+        'received',
+        'processed',
+        'ignored',
+        'failed',
+      ]);
+      if (!claimed) {
+        return this.webhookFailure(
+          'WEBHOOK_IN_PROGRESS',
+          'Webhook event is being applied by a delivery',
+          { eventId: stored.id }
+        );
+      }
+
+      this.log('info', 'Replaying webhook event', { webhookEventId });
+
+      return this.applyWebhookEvent(claimed, parsed.event!);
+    } catch (error) {
+      this.log('error', 'Webhook replay failed', { webhookEventId, error });
+      return this.webhookFailure(
+        error instanceof PaymentError ? error.code : 'WEBHOOK_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Stop the authorization expiry sweep and payout batches
+   */
+  async shutdown(): Promise<void> {
+    if (this.authorizationSweep) {
+      clearInterval(this.authorizationSweep);
+      this.authorizationSweep = undefined;
+    }
+    if (this.payoutBatch) {
+      clearInterval(this.payoutBatch);
+      this.payoutBatch = undefined;
+    }
+    await super.shutdown();
+  }
+
+  /**
+   * Add a custom risk rule
+   * Runs after the built-in rules; requires fraudDetection to be enabled
+   */
+  addRiskRule(rule: IRiskRule): void {
+    if (!this.riskEngine) {
+      throw new Error('Fraud detection is not enabled');
+    }
+    this.riskEngine.addRule(rule);
+  }
+
+  /**
+   * Use a different exchange rate provider
+   * Requires fx to be enabled
+   */
+  setExchangeRateProvider(provider: IExchangeRateProvider): void {
+    if (!this.converter) {
+      throw new Error('Currency conversion is not enabled');
+    }
+    this.converter.setProvider(provider);
+  }
+
+  /**
+   * Use a different tax calculator
+   * Requires tax to be enabled
+   */
+  setTaxCalculator(calculator: ITaxCalculator): void {
+    if (!this.taxCalculator) {
+      throw new Error('Tax calculation is not enabled');
+    }
+    this.taxCalculator = calculator;
+  }
+
+  /**
+   * Get account balance in one currency
+   * Without a currency, returns the first account's balance
+   */
+  async getBalance(ownerId: string, currency?: Currency): Promise<BalanceInfo | null> {
+    return this.ledger!.getBalance(ownerId, currency);
+  }
+
+  /**
+   * Get account balances, one per currency
+   */
+  async getBalances(ownerId: string): Promise<BalanceInfo[]> {
+    return this.ledger!.getBalances(ownerId);
+  }
+
+  /**
+   * Get ledger entries for an owner
+   */
+  async getLedgerEntries(
+    ownerId: string,
+    options?: {
+      currency?: Currency;
+      transactionId?: string;
+      limit?: number;
+      offset?: number;
+    }
+  ): Promise<LedgerEntry[]> {
+    return this.ledger!.getLedgerEntries(ownerId, options);
+  }
+
+  /**
+   * Check an account balance against its ledger entries
+   */
+  async reconcileAccount(ownerId: string, currency: Currency): Promise<AccountReconciliation | null> {
+    return this.ledger!.reconcileAccount(ownerId, currency);
+  }
+
+  /**
+   * Get transaction by ID, with the refunds issued against it
+   */
+  async getTransaction(transactionId: string): Promise<Transaction | null> {
+    const transaction = await this.ledger!.getTransaction(transactionId);
+    if (!transaction) {
+      return null;
+    }
+
+    const refunds = await this.ledger!.getRefunds(transactionId);
+    return { ...transaction, refunds };
+  }
+
+  /**
+   * Get the status history of a transaction, oldest first
+   */
+  async getTransactionHistory(transactionId: string): Promise<TransactionStatusChange[]> {
+    return this.ledger!.getStatusHistory(transactionId);
+  }
+
+  /**
+   * Get transactions for an owner
+   */
+  async getTransactions(
+    ownerId: string,
+    options?: {
+      status?: TransactionStatus;
+      limit?: number;
+      offset?: number;
+    }
+  ): Promise<Transaction[]> {
+    return this.ledger!.getTransactions(ownerId, options);
+  }
+
+  /**
+   * Get payout by ID
+   */
+  async getPayout(payoutId: string): Promise<Payout | null> {
+    return this.ledger!.getPayout(payoutId);
+  }
+
+  /**
+   * Get a user's payouts, newest first
+   */
+  async getPayouts(ownerId: string): Promise<Payout[]> {
+    return this.ledger!.getPayouts(ownerId);
+  }
+
+  /**
+   * Get payout destination by ID, including removed ones
+   */
+  async getPayoutDestination(destinationId: string): Promise<PayoutDestination | null> {
+    return this.ledger!.getPayoutDestination(destinationId);
+  }
+
+  /**
+   * Get a user's payout destinations, newest first
+   */
+  async getPayoutDestinations(ownerId: string): Promise<PayoutDestination[]> {
+    return this.ledger!.getPayoutDestinations(ownerId);
+  }
+
+  /**
+   * Get dispute by ID
+   */
+  async getDispute(disputeId: string): Promise<Dispute | null> {
+    return this.ledger!.getDispute(disputeId);
+  }
+
+  /**
+   * Get disputes against payments a user made or received, newest first
+   */
+  async getDisputes(userId: string): Promise<Dispute[]> {
+    return this.ledger!.getDisputes(userId);
+  }
+
+  /**
+   * Get webhook event by ID
+   */
+  async getWebhookEvent(webhookEventId: string): Promise<WebhookEvent | null> {
+    return this.webhooks!.getEvent(webhookEventId);
+  }
+
+  /**
+   * Get received webhook events, newest first, e.g. the failed ones to replay
+   */
+  async getWebhookEvents(
+    filters: { status?: WebhookEventStatus; limit?: number } = {}
+  ): Promise<WebhookEvent[]> {
+    return this.webhooks!.getEvents(filters);
+  }
+
+  /**
+   * Validate transaction request
+   */
+  private validateTransaction(request: ProcessTransactionRequest): void {
+    const { amount, payerId, payeeId, payeeCurrency } = request;
+
+    if (!amount || !Number.isSafeInteger(amount.minorUnits) || !amount.currency) {
+      throw new Error('Transaction amount must be an integer number of minor units with a currency');
+    }
+
+    if (!isPositiveMoney(amount)) {
+      throw new Error('Transaction amount must be positive');
+    }
+
+    if (payeeCurrency && !(payeeCurrency in CURRENCY_DECIMALS)) {
+      throw new Error(`Unsupported payee currency: ${payeeCurrency}`);
+    }
+
+    if (
+      this.config.minTransactionAmount &&
+      compareMoney(amount, moneyFromMajor(this.config.minTransactionAmount, amount.currency)) < 0
+    ) {
+      throw new Error(`Transaction amount below minimum: ${this.config.minTransactionAmount}`);
+    }
+
+    if (
+      this.config.maxTransactionAmount &&
+      compareMoney(amount, moneyFromMajor(this.config.maxTransactionAmount, amount.currency)) > 0
+    ) {
+      throw new Error(`Transaction amount exceeds maximum: ${this.config.maxTransactionAmount}`);
+    }
+
+    if (payerId === payeeId) {
+      throw new Error('Payer and payee cannot be the same');
+    }
+
+    if (!payerId || !payeeId) {
+      throw new Error('Payer and payee are required');
+    }
+  }
+
+  /**
+   * Build the risk engine with the built-in rules enabled by config
+   */
+  private createRiskEngine(
+    settings: NonNullable<PaymentServiceConfig['fraudDetection']>
+  ): RiskEngine {
+    const engine = new RiskEngine(this.ledger!);
+
+    if (settings.allowList || settings.denyList) {
+      engine.addRule(
+        new AllowDenyListRule({ allowList: settings.allowList, denyList: settings.denyList })
+      );
+    }
+
+    if (settings.velocity) {
+      engine.addRule(new VelocityRule({ ...settings.velocity, outcome: 'review' }));
+    }
+
+    if (settings.maxTransactionCount) {
+      engine.addRule(
+        new VelocityRule({ maxCount: settings.maxTransactionCount, windowMinutes: 24 * 60 })
+      );
+    }
+
+    if (settings.maxDailyAmount) {
+      engine.addRule(new DailyAmountRule(settings.maxDailyAmount));
+    }
+
+    if (settings.newAccount) {
+      engine.addRule(new NewAccountRule(settings.newAccount));
+    }
+
+    return engine;
+  }
+
+  /**
+   * Run risk rules against a payment before it is recorded
+   * Returns a failure result when blocked, otherwise any review reason codes
+   */
+  private async screenTransaction(
+    request: ProcessTransactionRequest
+  ): Promise<{ blocked?: TransactionResult; riskReview?: string[] }> {
+    if (!this.riskEngine || request.payerId === SELF_ENTITY) {
+      return {};
+    }
+
+    const assessment = await this.riskEngine.assess(request);
+
+    if (assessment.outcome !== 'allow') {
+      await this.ledger!.recordRiskAssessment(request, assessment);
+    }
+
+    const flagged = assessment.decisions
+      .filter(decision => decision.outcome === assessment.outcome)
+      .map(decision => decision.reasonCode);
+
+    if (assessment.outcome === 'block') {
+      this.log('warn', 'Transaction blocked by risk rules', {
+        payerId: request.payerId,
+        reasons: flagged,
+      });
+      return {
+        blocked: {
+          success: false,
+          error: {
+            code: 'RISK_BLOCKED',
+            message: 'Transaction blocked by risk rules',
+            details: { reasons: flagged },
+          },
+        },
+      };
+    }
+
+    return { riskReview: assessment.outcome === 'review' ? flagged : undefined };
+  }
+
+  /**
+   * Convert the payee's share (amount less platform fee and tax) when they are paid in another currency
+   * Returns a failure result when conversion is disabled or the pair has no rate
+   */
+  private async convertForPayee(
+    request: ProcessTransactionRequest,
+    fee?: Money,
+    tax?: TaxSnapshot
+  ): Promise<{ failed?: TransactionResult; fx?: FxSnapshot }> {
+    const { amount, payeeCurrency } = request;
+
+    if (!payeeCurrency || payeeCurrency === amount.currency) {
+      return {};
+    }
+
+    if (!this.converter) {
+      return {
+        failed: {
+          success: false,
+          error: {
+            code: 'FX_DISABLED',
+            message: 'Currency conversion is not enabled',
+          },
+        },
+      };
+    }
+
+    const net = netOfTax(amount, tax);
+    const payeeShare = fee ? subtractMoney(net, fee) : net;
+    const fx = await this.converter.convert(payeeShare, payeeCurrency);
+    if (!fx) {
+      return {
+        failed: {
+          success: false,
+          error: {
+            code: 'FX_RATE_UNAVAILABLE',
+            message: `No exchange rate from ${amount.currency} to ${payeeCurrency}`,
+          },
+        },
+      };
+    }
+
+    return { fx };
+  }
+
+  /**
+   * Work out a payment's tax and the amount to charge
+   * Tax on a tax-exclusive price is added on top; an inclusive price already contains it.
+   * Payouts from the platform are never taxed.
+   */
+  private async applyTax(
+    request: ProcessTransactionRequest
+  ): Promise<{ amount: Money; tax?: TaxSnapshot }> {
+    const { payerId, payeeId, amount, taxJurisdiction, metadata } = request;
+
+    if (payerId === SELF_ENTITY) {
+      return { amount };
+    }
+
+    const tax =
+      request.tax ||
+      (await this.taxCalculator?.calculate({
+        payerId,
+        payeeId,
+        amount,
+        jurisdiction: taxJurisdiction,
+        category: metadata?.category,
+      }));
+
+    if (!tax || isZeroMoney(tax.amount)) {
+      return { amount };
+    }
+
+    if (
+      tax.amount.currency !== amount.currency ||
+      isNegativeMoney(tax.amount) ||
+      (tax.inclusive && compareMoney(tax.amount, amount) >= 0)
+    ) {
+      throw new PaymentError('INVALID_TAX', 'Tax must be in the payment currency and below its amount');
+    }
+
+    return { amount: tax.inclusive ? amount : addMoney(amount, tax.amount), tax };
+  }
+
+  /**
+   * Pre-flight balance check for wallet-funded payments
+   * Card-funded payments are charged through the processor and always pass
+   */
+  private async hasFundsFor(request: ProcessTransactionRequest): Promise<boolean> {
+    const { payerId, payeeId, amount, paymentMethod } = request;
+
+    if (this.chargesPaymentMethod(payerId, payeeId, paymentMethod)) {
+      return true;
+    }
+
+    return this.ledger!.hasSufficientFunds(payerId, amount);
+  }
+
+  /**
+   * Run a ledger settlement, failing the transaction if an account would be overdrawn
+   * The ledger re-checks balances under a row lock, so this catches concurrent spends
+   */
+  private async settle(
+    transactionId: string,
+    settlement: () => Promise<Transaction>
+  ): Promise<TransactionResult> {
+    try {
+      return { success: true, transaction: await settlement() };
+    } catch (error) {
+      if (!(error instanceof InsufficientFundsError)) {
+        throw error;
+      }
+
+      await this.ledger!.updateTransactionStatus(transactionId, 'failed', {
+        reason: 'INSUFFICIENT_FUNDS',
+      });
+      this.log('warn', 'Settlement rejected: insufficient funds', {
+        transactionId,
+        ownerId: error.ownerId,
+      });
+
+      return this.insufficientFunds(error.details);
+    }
+  }
+
+  /**
+   * Finish a claimed settlement: send its processor step unless that already
+   * succeeded, then settle the ledger
+   * A processor failure drops the claim. A ledger failure after the processor
+   * succeeded keeps it, flagged with the error, for retrySettlement.
+   */
+  private async completeSettlement(transaction: Transaction): Promise<TransactionResult> {
+    const settlement = transaction.metadata!.pendingSettlement!;
+
+    if (!settlement.processorSucceeded) {
+      const result = await this.sendSettlement(transaction);
+      if (!result.success) {
+        // A declined refund fails; a declined capture, void or escrow cancellation
+        // leaves the authorization or hold as it was
+        if (settlement.operation === 'refund') {
+          await this.ledger!.dropSettlement(transaction.id, 'failed', { reason: result.error });
+        } else {
+          await this.ledger!.dropSettlement(transaction.id);
+        }
+
+        const declined = SETTLEMENT_DECLINED[settlement.operation];
+        return {
+          success: false,
+          error: {
+            code: declined.code,
+            message: result.error || declined.message,
+          },
+        };
+      }
+
+      await this.ledger!.updateSettlement(transaction.id, { processorSucceeded: true });
+    }
+
+    try {
+      return { success: true, transaction: await this.postSettlement(transaction) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const pending = await this.ledger!.updateSettlement(transaction.id, { error: message });
+
+      this.emit('settlement:failed', pending);
+      this.log('error', 'Ledger settlement failed after the processor step', {
+        transactionId: transaction.id,
+        operation: settlement.operation,
+        error,
+      });
+
+      return {
+        success: false,
+        error: {
+          code: 'SETTLEMENT_FAILED',
+          message: `Processor step succeeded but the ledger was not settled: ${message}`,
+          details: { transactionId: transaction.id, operation: settlement.operation },
+        },
+      };
+    }
+  }
+
+  /**
+   * Send a pending settlement's processor step, keyed by transaction
+   */
+  private async sendSettlement(
+    transaction: Transaction
+  ): Promise<{ success: boolean; error?: string }> {
+    const settlement = transaction.metadata!.pendingSettlement!;
+
+    switch (settlement.operation) {
+      case 'capture':
+        return this.processor!.capture(transaction.processorReference!, settlement.capture!.amount);
+      case 'void':
+        return transaction.status === 'authorized'
+          ? this.processor!.voidAuthorization(transaction.processorReference!)
+          : this.processor!.voidPayment(transaction.processorReference!);
+      case 'refund': {
+        const original = await this.ledger!.getTransaction(transaction.originalTransactionId!);
+        const result = await this.processor!.processRefund(
+          original!.processorReference!,
+          transaction.amount,
+          { transactionId: transaction.id }
+        );
+
+        // Kept so the processor's webhook for this refund is not recorded again
+        if (result.success && result.reference) {
+          await this.ledger!.updateTransaction(transaction.id, {
+            processorReference: result.reference,
+          });
+        }
+        return result;
+      }
+      case 'escrow_cancel':
+        return this.processor!.processRefund(transaction.processorReference!, transaction.amount, {
+          transactionId: transaction.id,
+        });
+    }
+  }
+
+  /**
+   * Post a pending settlement to the ledger, clearing the claim, and announce it
+   */
+  private async postSettlement(transaction: Transaction): Promise<Transaction> {
+    const { operation, capture, actor, reason } = transaction.metadata!.pendingSettlement!;
+
+    switch (operation) {
+      case 'capture': {
+        const captured = await this.ledger!.captureAuthorization(transaction.id, capture!, {
+          actor,
+        });
+        this.emit('authorization:captured', captured);
+        this.emit('transaction:completed', captured);
+        this.log('info', 'Authorization captured', {
+          transactionId: transaction.id,
+          amount: moneyToDecimal(captured.amount),
+          currency: captured.amount.currency,
+        });
+        return captured;
+      }
+      case 'void': {
+        const voided = await this.ledger!.voidAuthorization(transaction.id, { actor, reason });
+        if (transaction.status === 'authorized') {
+          this.emit('authorization:voided', voided);
+          this.log('info', 'Authorization voided', { transactionId: transaction.id, reason });
+        } else {
+          this.emit('transaction:cancelled', voided);
+          this.log('info', 'Transaction cancelled', { transactionId: transaction.id, reason });
+        }
+        return voided;
+      }
+      case 'refund': {
+        const refund = await this.ledger!.completeRefund(
+          transaction.originalTransactionId!,
+          transaction.id,
+          { actor, reason }
+        );
+        this.emit('refund:completed', refund);
+        return refund;
+      }
+      case 'escrow_cancel': {
+        const cancelled = await this.ledger!.cancelEscrow(transaction.id, { actor, reason });
+        this.emit('escrow:cancelled', cancelled);
+        this.log('info', 'Escrow cancelled', { transactionId: transaction.id, reason });
+        return cancelled;
+      }
+    }
+  }
+
+  /**
+   * Failure result for a payment the account balance cannot cover
+   */
+  private insufficientFunds(details?: Record<string, unknown>): TransactionResult {
+    return {
+      success: false,
+      error: {
+        code: 'INSUFFICIENT_FUNDS',
+        message: 'Insufficient funds',
+        details,
+      },
+    };
+  }
+
+  /**
+   * Charge the payer through the payment processor when the payment needs it
+   * Returns a failure result if the charge was declined, and the processing
+   * transaction if the processor settles it later (see applyProcessorEvent)
+   */
+  private async chargeTransaction(transaction: Transaction): Promise<TransactionResult | null> {
+    const { id, payerId, payeeId, amount, paymentMethod, metadata } = transaction;
+
+    if (!this.chargesPaymentMethod(payerId, payeeId, paymentMethod)) {
+      return null;
+    }
+
+    await this.ledger!.updateTransactionStatus(id, 'processing');
+
+    const result = await this.processor!.processPayment(amount, paymentMethod, {
+      transactionId: id,
+      payerId,
+      payeeId,
+      paymentMethodToken: metadata?.paymentMethodToken,
+    });
+
+    if (!result.success) {
+      await this.ledger!.updateTransactionStatus(id, 'failed', { reason: result.error });
+      return {
+        success: false,
+        error: {
+          code: result.requiresAction ? 'AUTHENTICATION_REQUIRED' : 'PAYMENT_FAILED',
+          message: result.error || 'Payment processing failed',
+        },
+      };
+    }
+
+    if (result.pending) {
+      const pending = await this.ledger!.updateTransaction(id, {
+        processorReference: result.reference,
+        metadata: { ...metadata, asyncCharge: true },
+      });
+
+      this.emit('transaction:processing', pending);
+      this.log('info', 'Charge pending at processor', { transactionId: id });
+
+      return { success: true, transaction: pending };
+    }
+
+    // Update with processor reference
+    await this.ledger!.updateTransaction(id, {
+      processorReference: result.reference,
+    });
+
+    return null;
+  }
+
+  /**
+   * Load a transaction that is currently held in escrow
+   */
+  private async getHeldTransaction(
+    transactionId: string
+  ): Promise<{ transaction: Transaction } | { error: TransactionResult }> {
+    const transaction = await this.ledger!.getTransaction(transactionId);
+    if (!transaction) {
+      return {
+        error: {
+          success: false,
+          error: {
+            code: 'TRANSACTION_NOT_FOUND',
+            message: 'Transaction not found',
+          },
+        },
+      };
+    }
+
+    if (transaction.status !== 'held') {
+      return {
+        error: {
+          success: false,
+          error: {
+            code: 'INVALID_TRANSACTION_STATUS',
+            message: 'Transaction is not held in escrow',
+          },
+        },
+      };
+    }
+
+    if (transaction.metadata?.pendingSettlement) {
+      return { error: this.settlementPending(transaction) };
+    }
+
+    return { transaction };
+  }
+
+  /**
+   * Failure result for a transaction claimed by a settlement still in progress
+   */
+  private settlementPending(transaction: Transaction): TransactionResult {
+    return {
+      success: false,
+      error: {
+        code: 'SETTLEMENT_PENDING',
+        message: 'Transaction is being settled',
+        details: { pendingSettlement: transaction.metadata!.pendingSettlement },
+      },
+    };
+  }
+
+  /**
+   * Load a transaction that is authorized and can still be captured
+   * An authorization found past its expiry is voided on the spot
+   */
+  private async getAuthorizedTransaction(
+    transactionId: string
+  ): Promise<{ transaction: Transaction } | { error: TransactionResult }> {
+    const transaction = await this.ledger!.getTransaction(transactionId);
+    if (!transaction) {
+      return {
+        error: {
+          success: false,
+          error: {
+            code: 'TRANSACTION_NOT_FOUND',
+            message: 'Transaction not found',
+          },
+        },
+      };
+    }
+
+    if (transaction.status !== 'authorized') {
+      return {
+        error: {
+          success: false,
+          error: {
+            code: 'INVALID_TRANSACTION_STATUS',
+            message: 'Transaction is not authorized',
+          },
+        },
+      };
+    }
+
+    if (transaction.metadata?.pendingSettlement) {
+      return { error: this.settlementPending(transaction) };
+    }
+
+    if (transaction.authorizationExpiresAt && transaction.authorizationExpiresAt <= new Date()) {
+      await this.expireAuthorization(transaction);
+      return {
+        error: {
+          success: false,
+          error: {
+            code: 'AUTHORIZATION_EXPIRED',
+            message: 'Authorization has expired',
+          },
+        },
+      };
+    }
+
+    return { transaction };
+  }
 
-    // For user-to-user, depends on implementation (could use escrow)
+  /**
+   * Void an expired authorization and mark it cancelled
+   * Claimed first like voidAuthorization, so a capture claimed meanwhile wins. The
+   * processor drops stale holds itself, so a failed void is logged and not retried.
+   */
+  private async expireAuthorization(transaction: Transaction): Promise<Transaction> {
+    const context = { actor: 'system', reason: 'Authorization expired' };
+    await this.ledger!.claimSettlement(transaction.id, 'cancelled', {
+      operation: 'void',
+      ...context,
+      claimedAt: new Date().toISOString(),
+    });
+
+    const result = await this.processor!.voidAuthorization(transaction.processorReference!);
+    if (!result.success) {
+      this.log('warn', 'Could not void expired authorization', {
+        transactionId: transaction.id,
+        error: result.error,
+      });
+    }
+
+    const expired = await this.ledger!.voidAuthorization(transaction.id, context);
+
+    this.emit('authorization:expired', expired);
+    this.log('info', 'Authorization expired', { transactionId: transaction.id });
+
+    return expired;
+  }
+
+  /**
+   * Send a claimed payout to its destination through the processor
+   * A payout whose destination was removed before the batch is still sent there
+   */
+  private async sendPayout(payout: Payout): Promise<Payout> {
+    const destination = await this.ledger!.getPayoutDestination(payout.destinationId);
+    if (!destination) {
+      const result = await this.failPayout(payout.id, 'Payout destination not found');
+      return result.payout || payout;
+    }
+
+    const result = await this.processor!.sendPayout(payout.amount, destination.externalReference, {
+      payoutId: payout.id,
+      batchId: payout.batchId,
+      ownerId: payout.ownerId,
+    });
+
+    if (!result.success) {
+      const failed = await this.failPayout(payout.id, result.error || 'Payout rejected');
+      return failed.payout || payout;
+    }
+
+    const inTransit = await this.ledger!.markPayoutInTransit(payout.id, result.reference);
+
+    this.emit('payout:in_transit', inTransit);
+    this.log('info', 'Payout in transit', { payoutId: payout.id, batchId: payout.batchId });
+
+    return inTransit;
+  }
+
+  /**
+   * Refund a payment, through the processor when it was charged through one
+   * A refund the processor already made (processorRefund, its reference for it,
+   * from a webhook) is only recorded in the ledger.
+   */
+  private async refund(
+    request: RefundRequest,
+    processorRefund?: string
+  ): Promise<TransactionResult> {
+    try {
+      const { transactionId, amount, reason, actor } = request;
+
+      // Get original transaction
+      const originalTx = await this.ledger!.getTransaction(transactionId);
+      if (!originalTx) {
+        return {
+          success: false,
+          error: {
+            code: 'TRANSACTION_NOT_FOUND',
+            message: 'Original transaction not found',
+          },
+        };
+      }
+
+      // A payout's debit is only ever reversed by failing the payout
+      if (originalTx.payerId === PAYOUT_ENTITY || originalTx.payeeId === PAYOUT_ENTITY) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_TRANSACTION',
+            message: 'Payouts cannot be refunded',
+          },
+        };
+      }
+
+      if (
+        originalTx.status !== 'completed' &&
+        originalTx.status !== 'released' &&
+        originalTx.status !== 'partially_refunded'
+      ) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_TRANSACTION_STATUS',
+            message: 'Can only refund completed, released or partially refunded transactions',
+          },
+        };
+      }
+
+      const remainingRefundable = this.getRemainingRefundable(originalTx);
+      const refundAmount = amount || remainingRefundable;
+
+      if (refundAmount.currency !== originalTx.amount.currency || !isPositiveMoney(refundAmount)) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_REFUND_AMOUNT',
+            message: 'Refund amount must be positive and in the original currency',
+          },
+        };
+      }
+
+      if (compareMoney(refundAmount, remainingRefundable) > 0) {
+        return {
+          success: false,
+          error: {
+            code: 'REFUND_EXCEEDS_REMAINING',
+            message: 'Refund amount exceeds the remaining refundable amount',
+            details: { remainingRefundable },
+          },
+        };
+      }
+
+      // A disputed payment is refunded by losing the dispute
+      if (await this.ledger!.getOpenDispute(transactionId)) {
+        return {
+          success: false,
+          error: {
+            code: 'DISPUTE_OPEN',
+            message: 'Transaction has an open dispute',
+          },
+        };
+      }
+
+      // Card payments are refunded through the processor, so only as it allows
+      if (originalTx.processorReference && !processorRefund) {
+        const { refunds, partialRefunds } = this.processor!.capabilities;
+
+        if (!refunds) {
+          return {
+            success: false,
+            error: {
+              code: 'REFUND_NOT_SUPPORTED',
+              message: 'Payment processor cannot refund payments',
+            },
+          };
+        }
+
+        if (!partialRefunds && compareMoney(refundAmount, originalTx.amount) !== 0) {
+          return {
+            success: false,
+            error: {
+              code: 'PARTIAL_REFUND_NOT_SUPPORTED',
+              message: 'Payment processor can only refund whole payments',
+            },
+          };
+        }
+      }
+
+      // The refund is recorded, with the payee's share checked under lock, before the
+      // processor is called; the ledger is settled once the processor has refunded it
+      const feeReversal = this.calculateFeeReversal(originalTx, refundAmount);
+      const taxReversal = this.calculateTaxReversal(originalTx, refundAmount);
+      let refundTransaction: Transaction;
+      try {
+        refundTransaction = await this.ledger!.createRefund({
+          originalTransactionId: transactionId,
+          amount: refundAmount,
+          fee: feeReversal,
+          tax: taxReversal && { ...originalTx.tax!, amount: taxReversal },
+          payeeShare: this.calculatePayeeReversal(originalTx, refundAmount),
+          processorReference: processorRefund,
+          metadata: {
+            description: `Refund for transaction ${transactionId}`,
+            reason,
+            pendingSettlement: {
+              operation: 'refund',
+              actor,
+              reason,
+              processorSucceeded: !!processorRefund || !originalTx.processorReference,
+              claimedAt: new Date().toISOString(),
+            },
+          },
+        });
+      } catch (error) {
+        if (error instanceof InsufficientFundsError) {
+          return this.insufficientFunds(error.details);
+        }
+        throw error;
+      }
+
+      return await this.completeSettlement(refundTransaction);
+    } catch (error) {
+      this.log('error', 'Refund failed', { error });
+      return {
+        success: false,
+        error: {
+          code: error instanceof PaymentError ? error.code : 'REFUND_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  }
+
+  /**
+   * Failure result for a payout request
+   */
+  private payoutFailure(code: string, message: string, details?: any): PayoutResult {
+    return {
+      success: false,
+      error: { code, message, details },
+    };
+  }
+
+  /**
+   * Failure result for a dispute operation
+   */
+  private disputeFailure(code: string, message: string, details?: any): DisputeResult {
+    return {
+      success: false,
+      error: { code, message, details },
+    };
+  }
+
+  /**
+   * Failure result for a webhook
+   */
+  private webhookFailure(code: string, message: string, details?: any): WebhookResult {
+    return {
+      success: false,
+      error: { code, message, details },
+    };
+  }
+
+  /**
+   * Apply a claimed webhook event to the ledger and record the outcome on it
+   */
+  private async applyWebhookEvent(
+    stored: WebhookEvent,
+    event: ProcessorEvent
+  ): Promise<WebhookResult> {
+    let result: TransactionResult & { ignored?: string };
+    try {
+      result = await this.applyProcessorEvent(event);
+    } catch (error) {
+      result = {
+        success: false,
+        error: {
+          code: error instanceof PaymentError ? error.code : 'WEBHOOK_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+
+    const finished = await this.webhooks!.finishEvent(stored, {
+      status: !result.success ? 'failed' : result.ignored ? 'ignored' : 'processed',
+      detail: result.error?.message || result.ignored,
+      transactionId: result.transaction?.id,
+    });
+
+    if (!result.success) {
+      this.log('error', 'Webhook event failed', {
+        webhookEventId: stored.id,
+        eventType: stored.eventType,
+        error: result.error,
+      });
+      return { success: false, event: finished, error: result.error };
+    }
+
+    this.emit('webhook:processed', finished);
+    this.log('info', result.ignored ? 'Webhook event ignored' : 'Webhook event applied', {
+      webhookEventId: stored.id,
+      eventType: stored.eventType,
+      transactionId: finished.transactionId,
+      detail: result.ignored,
+    });
+
+    return { success: true, event: finished };
+  }
+
+  /**
+   * Apply a processor event to the payment with its processor reference
+   * A pending charge is settled or failed; a payment or authorization the
+   * processor failed or cancelled is marked so; a refund made at the processor
+   * (e.g. from its dashboard) is recorded. Payout events go to the payout (see
+   * applyPayoutEvent). Events for changes the transaction already has, or that
+   * no transaction matches, are ignored.
+   */
+  private async applyProcessorEvent(
+    event: ProcessorEvent
+  ): Promise<TransactionResult & { ignored?: string }> {
+    if (!event.type || !event.reference) {
+      return { success: true, ignored: `${event.providerType} events are not applied` };
+    }
+
+    if (event.type === 'payout.paid' || event.type === 'payout.failed') {
+      return this.applyPayoutEvent(event);
+    }
+
+    const transaction = await this.ledger!.findByProcessorReference(event.reference);
+    if (!transaction) {
+      return { success: true, ignored: `No transaction for ${event.reference}` };
+    }
+
+    if (event.type === 'refund.succeeded') {
+      return this.recordProcessorRefund(transaction, event);
+    }
+
+    // Charges answered right away are settled by the request that made them
+    const awaitingProcessor =
+      transaction.status === 'authorized' ||
+      (transaction.status === 'processing' && !!transaction.metadata?.asyncCharge);
+    if (!awaitingProcessor) {
+      return { success: true, transaction, ignored: `Transaction is ${transaction.status}` };
+    }
+
+    // Being captured or voided; the provider retries once that has finished
+    if (transaction.metadata?.pendingSettlement) {
+      return this.settlementPending(transaction);
+    }
+
+    const context = { actor: 'system', reason: event.reason };
+
+    if (event.type === 'payment.succeeded') {
+      if (transaction.status === 'authorized') {
+        return { success: true, transaction, ignored: 'Authorizations settle when captured' };
+      }
+      return this.settleAsyncCharge(transaction);
+    }
+
+    if (event.type === 'payment.failed') {
+      const failed = await this.ledger!.updateTransactionStatus(transaction.id, 'failed', context);
+
+      this.emit('transaction:failed', failed);
+      this.log('info', 'Transaction failed at processor', { transactionId: transaction.id });
+
+      return { success: true, transaction: failed };
+    }
+
+    const cancelled = await this.ledger!.cancelTransaction(transaction.id, {
+      ...context,
+      reason: event.reason || 'Cancelled at processor',
+    });
+
+    this.emit('transaction:cancelled', cancelled);
+    this.log('info', 'Transaction cancelled at processor', { transactionId: transaction.id });
+
+    return { success: true, transaction: cancelled };
+  }
+
+  /**
+   * Mark the in-transit payout with the event's processor reference paid, or failed
+   * with its amount returned to the wallet
+   * Payouts no longer in transit already have their outcome, so the event is ignored.
+   */
+  private async applyPayoutEvent(
+    event: ProcessorEvent
+  ): Promise<TransactionResult & { ignored?: string }> {
+    const payout = await this.ledger!.findPayoutByProcessorReference(event.reference!);
+    if (!payout) {
+      return { success: true, ignored: `No payout for ${event.reference}` };
+    }
+
+    if (payout.status !== 'in_transit') {
+      return { success: true, ignored: `Payout is ${payout.status}` };
+    }
+
+    const result =
+      event.type === 'payout.paid'
+        ? await this.completePayout(payout.id)
+        : await this.failPayout(payout.id, event.reason || 'Failed at processor');
+
+    return result.success ? { success: true } : { success: false, error: result.error };
+  }
+
+  /**
+   * Settle a charge the processor reported succeeded after accepting it as pending
+   * Escrow payments are held, everything else completed as it would have been
+   * had the charge succeeded right away.
+   */
+  private async settleAsyncCharge(transaction: Transaction): Promise<TransactionResult> {
+    const escrow = !!transaction.metadata?.escrow;
+
+    const result = await this.settle(transaction.id, () =>
+      escrow
+        ? this.ledger!.holdInEscrow(transaction.id)
+        : this.ledger!.completeTransaction(transaction.id)
+    );
+    if (!result.success) {
+      return result;
+    }
+
+    if (escrow) {
+      this.emit('escrow:held', result.transaction);
+    } else if (transaction.payerId === PROCESSOR_ENTITY) {
+      this.emit('wallet:topped_up', result.transaction);
+    } else {
+      this.emit('transaction:completed', result.transaction);
+    }
+    this.log('info', 'Pending charge settled', { transactionId: transaction.id });
+
+    return result;
+  }
+
+  /**
+   * Record a refund the processor reports, unless it is already in the ledger
+   * Refunds made through processRefund carry their refund transaction ID, or
+   * have the processor's refund reference once recorded.
+   */
+  private async recordProcessorRefund(
+    original: Transaction,
+    event: ProcessorEvent
+  ): Promise<TransactionResult & { ignored?: string }> {
+    if (!event.refundReference || !event.amount) {
+      return { success: true, transaction: original, ignored: 'Refund has no ID or amount' };
+    }
+
+    const refunds = await this.ledger!.getRefunds(original.id);
+    const recorded = refunds.find(
+      refund =>
+        refund.id === event.transactionId || refund.processorReference === event.refundReference
+    );
+    if (recorded) {
+      return { success: true, transaction: recorded, ignored: 'Refund is already recorded' };
+    }
+
+    const result = await this.refund(
+      {
+        transactionId: original.id,
+        amount: event.amount,
+        reason: event.reason || 'Refunded at processor',
+        actor: 'system',
+      },
+      event.refundReference
+    );
+
+    if (result.success) {
+      this.log('info', 'Processor refund recorded', {
+        transactionId: original.id,
+        refundReference: event.refundReference,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Failure result when payouts are not enabled
+   */
+  private payoutsDisabled(): PayoutResult {
+    return this.payoutFailure('PAYOUTS_DISABLED', 'Payouts are not enabled');
+  }
+
+  /**
+   * Platform fee for a payment
+   * Charged on user-to-user and marketplace payments only, never when SELF is a party.
+   * Rounded half away from zero to the minor unit: 2.9% of 5.00 is 0.145, so 0.15.
+   */
+  private calculatePlatformFee(payerId: string, payeeId: string, amount: Money): Money | undefined {
+    const percent = this.config.platformFeePercent;
+    if (!percent || payerId === SELF_ENTITY || payeeId === SELF_ENTITY) {
+      return undefined;
+    }
+
+    return percentOfMoney(amount, percent);
+  }
+
+  /**
+   * Amount of a transaction not yet refunded
+   */
+  private getRemainingRefundable(transaction: Transaction): Money {
+    return subtractMoney(
+      transaction.amount,
+      transaction.refundedAmount || zeroMoney(transaction.amount.currency)
+    );
+  }
+
+  /**
+   * Share of the original platform fee returned by a refund
+   */
+  private calculateFeeReversal(originalTx: Transaction, refundAmount: Money): Money | undefined {
+    return this.calculateReversal(originalTx, originalTx.fee, refundAmount);
+  }
+
+  /**
+   * Share of the original tax returned by a refund
+   */
+  private calculateTaxReversal(originalTx: Transaction, refundAmount: Money): Money | undefined {
+    return this.calculateReversal(originalTx, originalTx.tax?.amount, refundAmount);
+  }
+
+  /**
+   * Share of a refund taken back from the payee: the refund less the reversed fee
+   * and tax, or for a converted payment, that share in the payee's currency
+   */
+  private calculatePayeeReversal(originalTx: Transaction, refundAmount: Money): Money {
+    if (originalTx.fx) {
+      return convertedRefundShare(originalTx, refundAmount);
+    }
+
+    return subtractMoney(
+      subtractMoney(
+        refundAmount,
+        this.calculateFeeReversal(originalTx, refundAmount) || zeroMoney(refundAmount.currency)
+      ),
+      this.calculateTaxReversal(originalTx, refundAmount) || zeroMoney(refundAmount.currency)
+    );
+  }
+
+  /**
+   * Share of part of the original amount (fee or tax) returned by a refund
+   * Allocated on the cumulative refunded amount, so the reversals of several
+   * partial refunds add up exactly to the part once fully refunded
+   */
+  private calculateReversal(
+    originalTx: Transaction,
+    part: Money | undefined,
+    refundAmount: Money
+  ): Money | undefined {
+    if (!part || isZeroMoney(part)) {
+      return undefined;
+    }
+
+    const shareOf = (refunded: Money): Money =>
+      allocateMoney(refunded, [part.minorUnits, originalTx.amount.minorUnits - part.minorUnits])[0];
+
+    const refundedBefore = originalTx.refundedAmount || zeroMoney(refundAmount.currency);
+    return subtractMoney(
+      shareOf(addMoney(refundedBefore, refundAmount)),
+      shareOf(refundedBefore)
+    );
+  }
+
+  /**
+   * Whether a payment is charged to its payment method through the processor
+   * Payments with no payment method, or paymentMethod 'wallet', are paid from the
+   * payer's balance instead
+   */
+  private chargesPaymentMethod(
+    payerId: string,
+    payeeId: string,
+    paymentMethod?: PaymentMethod
+  ): paymentMethod is Exclude<PaymentMethod, 'wallet'> {
+    return (
+      !!paymentMethod &&
+      paymentMethod !== 'wallet' &&
+      this.requiresPaymentProcessing(payerId, payeeId)
+    );
+  }
+
+  /**
+   * Determine if payment processing is required
+   */
+  private requiresPaymentProcessing(payerId: string, payeeId: string): boolean {
+    // If paying FROM the platform, no external processing needed: the platform
+    // credits the payee's wallet, and requestPayout sends money out from there
+    if (payerId === SELF_ENTITY) {
+      return false;
+    }
+
+    // If paying TO the platform, external processing needed (charge)
+    if (payeeId === SELF_ENTITY) {
+      return true;
+    }
+
+    // For user-to-user, charge the payer (holdInEscrow defers the payout)
     return true;
   }
 }
+
+/**
+ * Amount less the tax it includes
+ */
+function netOfTax(amount: Money, tax?: TaxSnapshot): Money {
+  return tax ? subtractMoney(amount, tax.amount) : amount;
+}
@@ -0,0 +1,73 @@
+import {
+  IRiskRule,
+  ProcessTransactionRequest,
+  RiskAssessment,
+  RiskDataSource,
+  RiskDecision,
+  RiskOutcome,
+} from './types';
+
+const SEVERITY: Record<RiskOutcome, number> = {
+  allow: 0,
+  review: 1,
+  block: 2,
+};
+
+/**
+ * Risk Engine
+ * Runs pluggable risk rules against a payment before it is recorded
+ */
+export class RiskEngine {
+  private rules: IRiskRule[] = [];
+
+  constructor(private data: RiskDataSource) {}
+
+  /**
+   * Add a rule; rules run in the order they were added
+   */
+  addRule(rule: IRiskRule): void {
+    this.rules.push(rule);
+  }
+
+  /**
+   * Remove a rule by name
+   */
+  removeRule(name: string): void {
+    this.rules = this.rules.filter(rule => rule.name !== name);
+  }
+
+  getRules(): IRiskRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Assess a payment
+   * The most severe outcome wins, unless a rule returns a final decision
+   */
+  async assess(
+    request: ProcessTransactionRequest,
+    now: Date = new Date()
+  ): Promise<RiskAssessment> {
+    const decisions: RiskDecision[] = [];
+
+    for (const rule of this.rules) {
+      const decision: RiskDecision = {
+        ...(await rule.evaluate({ request, now, data: this.data })),
+        rule: rule.name,
+      };
+      decisions.push(decision);
+
+      if (decision.final) {
+        return { outcome: decision.outcome, decisions };
+      }
+    }
+
+    const outcome = decisions.reduce<RiskOutcome>(
+      (worst, decision) =>
+        SEVERITY[decision.outcome] > SEVERITY[worst] ? decision.outcome : worst,
+      'allow'
+    );
+
+    return { outcome, decisions };
+  }
+}
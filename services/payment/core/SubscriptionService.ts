@@ -0,0 +1,834 @@
+import { BaseService, ServiceMetadata, ServiceContext } from '@shared/types';
+import {
+  SubscriptionServiceConfig,
+  SubscriptionResult,
+  SubscribeRequest,
+  CreatePlanRequest,
+  Subscription,
+  Plan,
+  BillingInterval,
+  Money,
+  PaymentMethod,
+  Transaction,
+  TransactionResult,
+  SELF_ENTITY,
+} from './types';
+import { PaymentService } from './PaymentService';
+import { SubscriptionStore } from './SubscriptionStore';
+import {
+  allocateMoney,
+  compareMoney,
+  isPositiveMoney,
+  isZeroMoney,
+  subtractMoney,
+  zeroMoney,
+  CURRENCY_DECIMALS,
+} from './money';
+
+/**
+ * Hours to wait before each dunning retry when not configured
+ */
+const DEFAULT_DUNNING_RETRY_HOURS = [24, 72, 168];
+
+/**
+ * Minutes between scheduler runs when not configured
+ */
+const DEFAULT_SCHEDULER_INTERVAL_MINUTES = 60;
+
+/**
+ * Payment Service events that settle a charge the processor accepted as pending
+ */
+const SETTLED_TRANSACTION_EVENTS = [
+  'transaction:completed',
+  'transaction:failed',
+  'transaction:cancelled',
+];
+
+/**
+ * Subscription Service
+ * Recurring plan billing on top of the Payment Service: trials, renewals,
+ * proration on plan changes and dunning for failed renewals
+ */
+export class SubscriptionService extends BaseService<SubscriptionServiceConfig> {
+  readonly metadata: ServiceMetadata = {
+    name: 'subscription',
+    version: '0.1.0',
+    description: 'Recurring subscription billing for plans',
+    dependencies: ['payment'],
+    platforms: ['pwa', 'mobile', 'web'],
+  };
+
+  private store?: SubscriptionStore;
+  private scheduler?: ReturnType<typeof setInterval>;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(private readonly payments: PaymentService) {
+    super();
+  }
+
+  async initialize(config: SubscriptionServiceConfig, context?: ServiceContext): Promise<void> {
+    await super.initialize(config, context);
+
+    if (!context?.database) {
+      throw new Error('Database connection required for Subscription Service');
+    }
+
+    if (config.dunningRetryHours?.some(hours => !(hours > 0))) {
+      throw new Error('dunningRetryHours must all be positive');
+    }
+
+    this.store = new SubscriptionStore(context.database);
+
+    // Charges the processor settles later (bank debits) complete or fail through
+    // its webhooks, after subscribe, changePlan or the renewal has returned
+    if (context.eventBus) {
+      const eventBus = context.eventBus;
+      for (const type of SETTLED_TRANSACTION_EVENTS) {
+        this.unsubscribers.push(
+          eventBus.on(`service:${this.payments.metadata.name}:${type}`, transaction => {
+            this.settlePendingCharge(transaction).catch(error =>
+              this.log('error', 'Settling pending subscription charge failed', {
+                transactionId: transaction.id,
+                error,
+              })
+            );
+          })
+        );
+      }
+    } else {
+      this.log('warn', 'No event bus: pending renewals settle on the next scheduler run only');
+    }
+
+    // Create configured plans that do not exist yet
+    for (const plan of config.plans || []) {
+      if (!plan.id || !(await this.store.getPlan(plan.id))) {
+        await this.createPlan(plan);
+      }
+    }
+
+    // Bill due subscriptions on a timer
+    const intervalMinutes = config.schedulerIntervalMinutes ?? DEFAULT_SCHEDULER_INTERVAL_MINUTES;
+    if (intervalMinutes > 0) {
+      this.scheduler = setInterval(() => {
+        this.processDueSubscriptions().catch(error =>
+          this.log('error', 'Subscription scheduler run failed', { error })
+        );
+      }, intervalMinutes * 60 * 1000);
+    }
+
+    this.log('info', 'Subscription Service initialized', {
+      plans: config.plans?.length || 0,
+    });
+
+    this._status = 'ready';
+  }
+
+  /**
+   * Stop the billing scheduler
+   */
+  async shutdown(): Promise<void> {
+    if (this.scheduler) {
+      clearInterval(this.scheduler);
+      this.scheduler = undefined;
+    }
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    await super.shutdown();
+  }
+
+  /**
+   * Create a plan
+   */
+  async createPlan(request: CreatePlanRequest): Promise<Plan> {
+    const { price, intervalCount = 1, trialDays = 0 } = request;
+
+    if (!price || !Number.isSafeInteger(price.minorUnits) || !(price.currency in CURRENCY_DECIMALS)) {
+      throw new Error('Plan price must be an integer number of minor units with a currency');
+    }
+
+    if (!isPositiveMoney(price)) {
+      throw new Error('Plan price must be positive');
+    }
+
+    if (!Number.isInteger(intervalCount) || intervalCount < 1) {
+      throw new Error('Plan intervalCount must be a positive integer');
+    }
+
+    if (!Number.isInteger(trialDays) || trialDays < 0) {
+      throw new Error('Plan trialDays must be a non-negative integer');
+    }
+
+    const plan = await this.store!.createPlan({ ...request, intervalCount, trialDays });
+
+    this.emit('plan:created', plan);
+    return plan;
+  }
+
+  /**
+   * Get plan by ID
+   */
+  async getPlan(planId: string): Promise<Plan | null> {
+    return this.store!.getPlan(planId);
+  }
+
+  /**
+   * Get the plans open for new subscriptions, cheapest first
+   */
+  async getPlans(): Promise<Plan[]> {
+    return this.store!.getPlans();
+  }
+
+  /**
+   * Subscribe to a plan
+   * Starts the plan's trial, or charges the first billing cycle now. The
+   * subscription is created before the charge, so a second request for the same
+   * subscriber finds it and is turned away instead of charging again. A charge the
+   * processor settles later leaves the subscription active until it fails.
+   */
+  async subscribe(request: SubscribeRequest): Promise<SubscriptionResult> {
+    try {
+      const { subscriberId, planId, paymentMethod, skipTrial, idempotencyKey } = request;
+
+      const plan = await this.store!.getPlan(planId);
+      if (!plan || !plan.active) {
+        return this.failure('PLAN_NOT_FOUND', 'Plan not found');
+      }
+
+      const existing = await this.store!.getSubscriptions(subscriberId);
+      if (existing.some(subscription => this.isLive(subscription))) {
+        return this.failure('ALREADY_SUBSCRIBED', 'Subscriber already has a subscription');
+      }
+
+      const now = new Date();
+
+      if (plan.trialDays > 0 && !skipTrial) {
+        const trialEnd = addBillingInterval(now, 'day', plan.trialDays);
+        const subscription = await this.store!.createSubscription({
+          subscriberId,
+          planId,
+          status: 'trialing',
+          paymentMethod,
+          currentPeriodStart: now,
+          currentPeriodEnd: trialEnd,
+          trialEnd,
+          nextBillingAt: trialEnd,
+          credit: zeroMoney(plan.price.currency),
+        });
+        if (!subscription) {
+          return this.failure('ALREADY_SUBSCRIBED', 'Subscriber already has a subscription');
+        }
+
+        this.emit('subscription:created', subscription);
+        this.log('info', 'Subscription trial started', { subscriptionId: subscription.id, planId });
+
+        return { success: true, subscription };
+      }
+
+      // Claim the subscriber before charging; the charge is keyed on the claim
+      const periodEnd = addBillingInterval(now, plan.interval, plan.intervalCount);
+      const claimed = await this.store!.createSubscription({
+        subscriberId,
+        planId,
+        status: 'active',
+        paymentMethod,
+        currentPeriodStart: now,
+        currentPeriodEnd: periodEnd,
+        nextBillingAt: periodEnd,
+        credit: zeroMoney(plan.price.currency),
+      });
+      if (!claimed) {
+        return this.failure('ALREADY_SUBSCRIBED', 'Subscriber already has a subscription');
+      }
+
+      const charge = await this.charge(
+        subscriberId,
+        plan.price,
+        paymentMethod,
+        { description: `${plan.name} subscription`, subscriptionId: claimed.id },
+        `subscribe:${subscriberId}:${planId}:${idempotencyKey ?? claimed.id}`
+      );
+      if (!this.isPaid(charge) && !this.isPending(charge)) {
+        await this.store!.deleteSubscription(claimed.id);
+        return this.paymentFailed(charge);
+      }
+
+      const transactionId = charge.transaction!.id;
+      const subscription = await this.store!.updateSubscription(claimed.id, {
+        lastTransactionId: transactionId,
+        pendingCharge: this.isPending(charge) ? { transactionId, purpose: 'subscribe' } : undefined,
+      });
+
+      this.emit('subscription:created', subscription);
+      this.log('info', 'Subscription started', { subscriptionId: subscription.id, planId });
+
+      return { success: true, subscription, transaction: charge.transaction };
+    } catch (error) {
+      this.log('error', 'Subscribe failed', { error });
+      return this.failure(
+        'SUBSCRIPTION_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Move a subscription to another plan
+   * The unused part of the current cycle is credited against the new plan. With the
+   * same billing cycle the new plan is charged for the rest of the current period;
+   * otherwise a new period starts now at the new plan's full price. A net charge is
+   * billed immediately, a net credit is taken off the following renewals. When the
+   * processor settles the charge later, the plan changes once it completes.
+   */
+  async changePlan(subscriptionId: string, planId: string): Promise<SubscriptionResult> {
+    try {
+      const subscription = await this.store!.getSubscription(subscriptionId);
+      if (!subscription) {
+        return this.failure('SUBSCRIPTION_NOT_FOUND', 'Subscription not found');
+      }
+
+      if (subscription.status !== 'trialing' && subscription.status !== 'active') {
+        return this.failure(
+          'INVALID_SUBSCRIPTION_STATUS',
+          'Only trialing or active subscriptions can change plan'
+        );
+      }
+
+      if (subscription.planId === planId) {
+        return this.failure('SAME_PLAN', 'Subscription is already on this plan');
+      }
+
+      if (subscription.pendingCharge) {
+        return this.failure(
+          'PAYMENT_PENDING',
+          'Subscription has a charge the processor has not settled yet'
+        );
+      }
+
+      const [currentPlan, newPlan] = await Promise.all([
+        this.store!.getPlan(subscription.planId),
+        this.store!.getPlan(planId),
+      ]);
+      if (!currentPlan || !newPlan || !newPlan.active) {
+        return this.failure('PLAN_NOT_FOUND', 'Plan not found');
+      }
+
+      if (newPlan.price.currency !== currentPlan.price.currency) {
+        return this.failure(
+          'PLAN_CURRENCY_MISMATCH',
+          'Plans must be priced in the same currency to switch between them'
+        );
+      }
+
+      // Trials are free, so switching only changes what is billed at trial end
+      if (subscription.status === 'trialing') {
+        const updated = await this.store!.updateSubscription(subscriptionId, { planId });
+        this.emit('subscription:plan_changed', updated);
+        return { success: true, subscription: updated };
+      }
+
+      const now = new Date();
+      const { currentPeriodStart, currentPeriodEnd } = subscription;
+      const periodMs = currentPeriodEnd.getTime() - currentPeriodStart.getTime();
+      const remainingMs = Math.min(Math.max(currentPeriodEnd.getTime() - now.getTime(), 0), periodMs);
+
+      const unused = prorate(currentPlan.price, remainingMs, periodMs);
+      const sameCycle =
+        newPlan.interval === currentPlan.interval && newPlan.intervalCount === currentPlan.intervalCount;
+
+      const periodStart = sameCycle ? currentPeriodStart : now;
+      const periodEnd = sameCycle
+        ? currentPeriodEnd
+        : addBillingInterval(now, newPlan.interval, newPlan.intervalCount);
+      const newCost = sameCycle ? prorate(newPlan.price, remainingMs, periodMs) : newPlan.price;
+
+      let credit = subscription.credit;
+      let transactionId = subscription.lastTransactionId;
+      let charge: TransactionResult | undefined;
+
+      const due = subtractMoney(newCost, unused);
+      if (isPositiveMoney(due)) {
+        const applied = applyCredit(due, credit);
+        credit = applied.credit;
+
+        if (!isZeroMoney(applied.amount)) {
+          charge = await this.charge(
+            subscription.subscriberId,
+            applied.amount,
+            subscription.paymentMethod,
+            { description: `${newPlan.name} subscription (prorated)`, subscriptionId },
+            // A repeated request reads the same unchanged subscription, so it replays this charge
+            `subscription:${subscriptionId}:plan:${planId}:${subscription.updatedAt.getTime()}`
+          );
+          if (this.isPending(charge)) {
+            const pending = await this.store!.updateSubscription(subscriptionId, {
+              lastTransactionId: charge.transaction!.id,
+              pendingCharge: {
+                transactionId: charge.transaction!.id,
+                purpose: 'plan_change',
+                planChange: {
+                  planId,
+                  periodStart: periodStart.toISOString(),
+                  periodEnd: periodEnd.toISOString(),
+                  credit,
+                },
+              },
+            });
+
+            this.log('info', 'Plan change waiting for its charge to settle', {
+              subscriptionId,
+              transactionId: charge.transaction!.id,
+            });
+
+            return { success: true, subscription: pending, transaction: charge.transaction };
+          }
+          if (!this.isPaid(charge)) {
+            return this.paymentFailed(charge);
+          }
+          transactionId = charge.transaction!.id;
+        }
+      } else {
+        credit = subtractMoney(credit, due);
+      }
+
+      const updated = await this.store!.updateSubscription(subscriptionId, {
+        planId,
+        currentPeriodStart: periodStart,
+        currentPeriodEnd: periodEnd,
+        nextBillingAt: periodEnd,
+        credit,
+        lastTransactionId: transactionId,
+      });
+
+      this.emit('subscription:plan_changed', updated);
+      this.log('info', 'Subscription plan changed', {
+        subscriptionId,
+        from: currentPlan.id,
+        to: newPlan.id,
+      });
+
+      return { success: true, subscription: updated, transaction: charge?.transaction };
+    } catch (error) {
+      this.log('error', 'Plan change failed', { error });
+      return this.failure(
+        'SUBSCRIPTION_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Cancel a subscription
+   * By default it stays usable until the end of the period already paid for
+   */
+  async cancelSubscription(
+    subscriptionId: string,
+    options: { atPeriodEnd?: boolean } = {}
+  ): Promise<SubscriptionResult> {
+    try {
+      const subscription = await this.store!.getSubscription(subscriptionId);
+      if (!subscription) {
+        return this.failure('SUBSCRIPTION_NOT_FOUND', 'Subscription not found');
+      }
+
+      if (subscription.status === 'cancelled') {
+        return this.failure('INVALID_SUBSCRIPTION_STATUS', 'Subscription is already cancelled');
+      }
+
+      const atPeriodEnd = (options.atPeriodEnd ?? true) && this.isLive(subscription);
+
+      const updated = atPeriodEnd
+        ? await this.store!.updateSubscription(subscriptionId, { cancelAtPeriodEnd: true })
+        : await this.store!.updateSubscription(subscriptionId, {
+            status: 'cancelled',
+            cancelledAt: new Date(),
+            nextBillingAt: undefined,
+          });
+
+      if (!atPeriodEnd) {
+        this.emit('subscription:cancelled', updated);
+      }
+      this.log('info', 'Subscription cancelled', { subscriptionId, atPeriodEnd });
+
+      return { success: true, subscription: updated };
+    } catch (error) {
+      this.log('error', 'Subscription cancellation failed', { error });
+      return this.failure(
+        'SUBSCRIPTION_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Undo a cancellation scheduled for the end of the period
+   */
+  async resumeSubscription(subscriptionId: string): Promise<SubscriptionResult> {
+    try {
+      const subscription = await this.store!.getSubscription(subscriptionId);
+      if (!subscription) {
+        return this.failure('SUBSCRIPTION_NOT_FOUND', 'Subscription not found');
+      }
+
+      if (!subscription.cancelAtPeriodEnd || !this.isLive(subscription)) {
+        return this.failure(
+          'INVALID_SUBSCRIPTION_STATUS',
+          'Subscription has no cancellation to undo'
+        );
+      }
+
+      const updated = await this.store!.updateSubscription(subscriptionId, {
+        cancelAtPeriodEnd: false,
+      });
+
+      this.log('info', 'Subscription resumed', { subscriptionId });
+
+      return { success: true, subscription: updated };
+    } catch (error) {
+      this.log('error', 'Subscription resume failed', { error });
+      return this.failure(
+        'SUBSCRIPTION_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Get subscription by ID
+   */
+  async getSubscription(subscriptionId: string): Promise<Subscription | null> {
+    return this.store!.getSubscription(subscriptionId);
+  }
+
+  /**
+   * Get a subscriber's subscriptions, newest first
+   */
+  async getSubscriptions(subscriberId: string): Promise<Subscription[]> {
+    return this.store!.getSubscriptions(subscriberId);
+  }
+
+  /**
+   * Bill every subscription whose trial, period or dunning retry has come due
+   * Runs on a timer (schedulerIntervalMinutes). Charges carry an idempotency key
+   * per period and attempt, so overlapping runs cannot bill a renewal twice.
+   */
+  async processDueSubscriptions(asOf: Date = new Date()): Promise<SubscriptionResult[]> {
+    const due = await this.store!.getDueSubscriptions(asOf);
+    const results: SubscriptionResult[] = [];
+
+    for (const subscription of due) {
+      try {
+        results.push(await this.renew(subscription));
+      } catch (error) {
+        this.log('error', 'Subscription renewal failed', { subscriptionId: subscription.id, error });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Bill the next period of a due subscription
+   * A failed charge schedules the next dunning retry, or marks the subscription
+   * unpaid once the retries are used up. A charge the processor settles later
+   * leaves the period unbilled; running this again replays the same charge, so the
+   * scheduler or the charge's settled event finishes the renewal.
+   */
+  private async renew(subscription: Subscription): Promise<SubscriptionResult> {
+    const { id, subscriberId, failedAttempts, pendingCharge } = subscription;
+
+    if (pendingCharge && pendingCharge.purpose !== 'renewal') {
+      return this.failure(
+        'PAYMENT_PENDING',
+        'Subscription has a charge the processor has not settled yet'
+      );
+    }
+
+    if (subscription.cancelAtPeriodEnd && !pendingCharge) {
+      const cancelled = await this.store!.updateSubscription(id, {
+        status: 'cancelled',
+        cancelledAt: subscription.currentPeriodEnd,
+        nextBillingAt: undefined,
+      });
+      this.emit('subscription:cancelled', cancelled);
+      return { success: true, subscription: cancelled };
+    }
+
+    const plan = await this.store!.getPlan(subscription.planId);
+    if (!plan) {
+      throw new Error(`Plan not found: ${subscription.planId}`);
+    }
+
+    // The period being paid for starts where the last paid period (or the trial) ended
+    const periodStart = subscription.currentPeriodEnd;
+    const periodEnd = addBillingInterval(periodStart, plan.interval, plan.intervalCount);
+    const { amount, credit } = applyCredit(plan.price, subscription.credit);
+
+    let charge: TransactionResult | undefined;
+    if (!isZeroMoney(amount)) {
+      charge = await this.charge(
+        subscriberId,
+        amount,
+        subscription.paymentMethod,
+        { description: `${plan.name} subscription renewal`, subscriptionId: id },
+        `subscription:${id}:${periodStart.toISOString()}:${failedAttempts}`
+      );
+    }
+
+    if (charge && this.isPending(charge)) {
+      const pending = await this.store!.updateSubscription(id, {
+        lastTransactionId: charge.transaction!.id,
+        pendingCharge: { transactionId: charge.transaction!.id, purpose: 'renewal' },
+      });
+
+      this.log('info', 'Subscription renewal waiting for its charge to settle', {
+        subscriptionId: id,
+        transactionId: charge.transaction!.id,
+      });
+
+      return { success: true, subscription: pending, transaction: charge.transaction };
+    }
+
+    if (charge && !this.isPaid(charge)) {
+      return this.recordFailedRenewal(subscription, charge);
+    }
+
+    const renewed = await this.store!.updateSubscription(id, {
+      status: 'active',
+      currentPeriodStart: periodStart,
+      currentPeriodEnd: periodEnd,
+      nextBillingAt: periodEnd,
+      failedAttempts: 0,
+      credit,
+      lastTransactionId: charge?.transaction?.id ?? subscription.lastTransactionId,
+      pendingCharge: undefined,
+    });
+
+    this.emit('subscription:renewed', renewed);
+    this.log('info', 'Subscription renewed', { subscriptionId: id, periodEnd });
+
+    return { success: true, subscription: renewed, transaction: charge?.transaction };
+  }
+
+  /**
+   * Dunning: schedule a retry of a failed renewal, or give up after the last one
+   */
+  private async recordFailedRenewal(
+    subscription: Subscription,
+    charge: TransactionResult
+  ): Promise<SubscriptionResult> {
+    const retryHours = this.config.dunningRetryHours ?? DEFAULT_DUNNING_RETRY_HOURS;
+    const attempts = subscription.failedAttempts + 1;
+    const exhausted = attempts > retryHours.length;
+
+    const updated = await this.store!.updateSubscription(subscription.id, {
+      status: exhausted ? 'unpaid' : 'past_due',
+      failedAttempts: attempts,
+      nextBillingAt: exhausted
+        ? undefined
+        : new Date(Date.now() + retryHours[attempts - 1] * 60 * 60 * 1000),
+      lastTransactionId: charge.transaction?.id ?? subscription.lastTransactionId,
+      pendingCharge: undefined,
+    });
+
+    if (exhausted) {
+      this.emit('subscription:unpaid', updated);
+      this.log('warn', 'Subscription unpaid after dunning', { subscriptionId: subscription.id });
+    } else {
+      this.emit('subscription:payment_failed', { subscription: updated, error: charge.error });
+      this.log('warn', 'Subscription renewal failed', {
+        subscriptionId: subscription.id,
+        attempt: attempts,
+        nextRetryAt: updated.nextBillingAt,
+      });
+    }
+
+    return { ...this.paymentFailed(charge), subscription: updated };
+  }
+
+  /**
+   * Resolve the subscription charge a settled transaction was pending for
+   * A completed first charge keeps the subscription, a failed one cancels it; a
+   * completed plan change charge applies the change. Renewals run again, replaying
+   * the now settled charge.
+   */
+  private async settlePendingCharge(transaction: Transaction): Promise<void> {
+    const subscriptionId = transaction.metadata?.subscriptionId;
+    if (!subscriptionId) {
+      return;
+    }
+
+    const subscription = await this.store!.getSubscription(subscriptionId);
+    const pending = subscription?.pendingCharge;
+    if (!subscription || pending?.transactionId !== transaction.id) {
+      return;
+    }
+
+    if (pending.purpose === 'renewal') {
+      await this.renew(subscription);
+      return;
+    }
+
+    const paid = transaction.status === 'completed';
+
+    if (pending.purpose === 'subscribe') {
+      if (paid) {
+        await this.store!.updateSubscription(subscriptionId, { pendingCharge: undefined });
+        this.log('info', 'Subscription first charge settled', { subscriptionId });
+        return;
+      }
+
+      const cancelled = await this.store!.updateSubscription(subscriptionId, {
+        status: 'cancelled',
+        cancelledAt: new Date(),
+        nextBillingAt: undefined,
+        pendingCharge: undefined,
+      });
+      this.emit('subscription:cancelled', cancelled);
+      this.log('warn', 'Subscription cancelled: first charge failed', { subscriptionId });
+      return;
+    }
+
+    if (!paid) {
+      const updated = await this.store!.updateSubscription(subscriptionId, {
+        pendingCharge: undefined,
+      });
+      this.emit('subscription:payment_failed', {
+        subscription: updated,
+        error: { code: 'PAYMENT_FAILED', message: `Plan change charge ${transaction.status}` },
+      });
+      this.log('warn', 'Plan change charge failed', { subscriptionId });
+      return;
+    }
+
+    const { planId, periodStart, periodEnd, credit } = pending.planChange!;
+    const updated = await this.store!.updateSubscription(subscriptionId, {
+      planId,
+      currentPeriodStart: new Date(periodStart),
+      currentPeriodEnd: new Date(periodEnd),
+      nextBillingAt: new Date(periodEnd),
+      credit,
+      pendingCharge: undefined,
+    });
+
+    this.emit('subscription:plan_changed', updated);
+    this.log('info', 'Subscription plan changed', { subscriptionId, to: planId });
+  }
+
+  /**
+   * Charge a subscriber through the Payment Service
+   */
+  private async charge(
+    subscriberId: string,
+    amount: Money,
+    paymentMethod: PaymentMethod | undefined,
+    metadata: { description: string; subscriptionId?: string },
+    idempotencyKey?: string
+  ): Promise<TransactionResult> {
+    return this.payments.processTransaction({
+      payerId: subscriberId,
+      payeeId: this.config.payeeId || SELF_ENTITY,
+      amount,
+      paymentMethod,
+      metadata,
+      idempotencyKey,
+    });
+  }
+
+  /**
+   * Whether a charge went through
+   * A replayed idempotency key returns the earlier transaction, which may have failed
+   */
+  private isPaid(result: TransactionResult): boolean {
+    return result.success && result.transaction?.status === 'completed';
+  }
+
+  /**
+   * Whether the processor accepted a charge it settles later
+   */
+  private isPending(result: TransactionResult): boolean {
+    return result.success && result.transaction?.status === 'processing';
+  }
+
+  /**
+   * Whether a subscription can still be billed
+   */
+  private isLive(subscription: Subscription): boolean {
+    return ['trialing', 'active', 'past_due'].includes(subscription.status);
+  }
+
+  /**
+   * Failure result for a declined subscription charge
+   */
+  private paymentFailed(charge: TransactionResult): SubscriptionResult {
+    return this.failure(
+      'PAYMENT_FAILED',
+      charge.error?.message || 'Subscription payment failed',
+      charge.error ? { code: charge.error.code } : undefined
+    );
+  }
+
+  /**
+   * Failure result
+   */
+  private failure(code: string, message: string, details?: any): SubscriptionResult {
+    return {
+      success: false,
+      error: { code, message, details },
+    };
+  }
+}
+
+/**
+ * Add whole billing intervals to a date, in UTC
+ * Month arithmetic clamps to the last day of shorter months (Jan 31 + 1 month = Feb 28/29)
+ */
+export function addBillingInterval(date: Date, interval: BillingInterval, count: number): Date {
+  const next = new Date(date.getTime());
+
+  switch (interval) {
+    case 'day':
+      next.setUTCDate(next.getUTCDate() + count);
+      return next;
+
+    case 'week':
+      next.setUTCDate(next.getUTCDate() + 7 * count);
+      return next;
+
+    case 'month':
+    case 'year': {
+      const months = interval === 'year' ? 12 * count : count;
+      const day = next.getUTCDate();
+      next.setUTCDate(1);
+      next.setUTCMonth(next.getUTCMonth() + months);
+      const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+      next.setUTCDate(Math.min(day, lastDay));
+      return next;
+    }
+  }
+}
+
+/**
+ * Share of a cycle's price for the remaining part of the period
+ */
+function prorate(price: Money, remainingMs: number, periodMs: number): Money {
+  if (remainingMs <= 0 || periodMs <= 0) {
+    return zeroMoney(price.currency);
+  }
+  return allocateMoney(price, [remainingMs, periodMs - remainingMs])[0];
+}
+
+/**
+ * Take credit off an amount due
+ * Returns what is left to charge and the credit remaining afterwards
+ */
+function applyCredit(amount: Money, credit: Money): { amount: Money; credit: Money } {
+  if (credit.currency !== amount.currency || !isPositiveMoney(credit)) {
+    return { amount, credit };
+  }
+
+  if (compareMoney(credit, amount) >= 0) {
+    return { amount: zeroMoney(amount.currency), credit: subtractMoney(credit, amount) };
+  }
+
+  return { amount: subtractMoney(amount, credit), credit: zeroMoney(credit.currency) };
+}
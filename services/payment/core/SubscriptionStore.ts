@@ -0,0 +1,322 @@
+import { DatabaseConnection } from '@shared/types';
+import {
+  Plan,
+  Subscription,
+  SubscriptionStatus,
+  CreatePlanRequest,
+  PaymentMethod,
+  Money,
+} from './types';
+import { moneyFromDecimal, moneyToDecimal, zeroMoney } from './money';
+
+/**
+ * Subscription Store
+ * Handles all database operations for plans and subscriptions
+ */
+export class SubscriptionStore {
+  constructor(private db: DatabaseConnection) {}
+
+  /**
+   * Create a plan
+   */
+  async createPlan(data: CreatePlanRequest): Promise<Plan> {
+    const now = new Date();
+
+    const plan: Plan = {
+      id: data.id || this.generateId('plan'),
+      name: data.name,
+      price: data.price,
+      interval: data.interval,
+      intervalCount: data.intervalCount ?? 1,
+      trialDays: data.trialDays ?? 0,
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.db.query(
+      `INSERT INTO subscription_plans (
+        id, name, price, currency, interval, interval_count, trial_days, active, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        plan.id,
+        plan.name,
+        moneyToDecimal(plan.price),
+        plan.price.currency,
+        plan.interval,
+        plan.intervalCount,
+        plan.trialDays,
+        plan.active,
+        plan.createdAt,
+        plan.updatedAt,
+      ]
+    );
+
+    return plan;
+  }
+
+  /**
+   * Get plan by ID
+   */
+  async getPlan(planId: string): Promise<Plan | null> {
+    const result = await this.db.query<Plan>('SELECT * FROM subscription_plans WHERE id = $1', [
+      planId,
+    ]);
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToPlan(row);
+  }
+
+  /**
+   * Get plans, cheapest first
+   */
+  async getPlans(options?: { includeInactive?: boolean }): Promise<Plan[]> {
+    const query = options?.includeInactive
+      ? 'SELECT * FROM subscription_plans ORDER BY price ASC'
+      : 'SELECT * FROM subscription_plans WHERE active = TRUE ORDER BY price ASC';
+
+    const result = await this.db.query<Plan>(query);
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToPlan(row));
+  }
+
+  /**
+   * Create a subscription, unless the subscriber already has a live one
+   * The partial unique index on live subscriptions settles concurrent requests:
+   * returns null when another subscription holds the subscriber.
+   */
+  async createSubscription(data: {
+    subscriberId: string;
+    planId: string;
+    status: SubscriptionStatus;
+    paymentMethod?: PaymentMethod;
+    currentPeriodStart: Date;
+    currentPeriodEnd: Date;
+    trialEnd?: Date;
+    nextBillingAt?: Date;
+    credit: Money;
+    lastTransactionId?: string;
+  }): Promise<Subscription | null> {
+    const now = new Date();
+
+    const subscription: Subscription = {
+      id: this.generateId('sub'),
+      subscriberId: data.subscriberId,
+      planId: data.planId,
+      status: data.status,
+      paymentMethod: data.paymentMethod,
+      currentPeriodStart: data.currentPeriodStart,
+      currentPeriodEnd: data.currentPeriodEnd,
+      trialEnd: data.trialEnd,
+      cancelAtPeriodEnd: false,
+      nextBillingAt: data.nextBillingAt,
+      failedAttempts: 0,
+      credit: data.credit,
+      lastTransactionId: data.lastTransactionId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.db.query(
+      `INSERT INTO subscriptions (
+        id, subscriber_id, plan_id, status, payment_method, current_period_start,
+        current_period_end, trial_end, cancel_at_period_end, next_billing_at,
+        failed_attempts, credit, currency, last_transaction_id, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      ON CONFLICT (subscriber_id) WHERE status IN ('trialing', 'active', 'past_due') DO NOTHING`,
+      [
+        subscription.id,
+        subscription.subscriberId,
+        subscription.planId,
+        subscription.status,
+        subscription.paymentMethod,
+        subscription.currentPeriodStart,
+        subscription.currentPeriodEnd,
+        subscription.trialEnd,
+        subscription.cancelAtPeriodEnd,
+        subscription.nextBillingAt,
+        subscription.failedAttempts,
+        moneyToDecimal(subscription.credit),
+        subscription.credit.currency,
+        subscription.lastTransactionId,
+        subscription.createdAt,
+        subscription.updatedAt,
+      ]
+    );
+
+    return this.getSubscription(subscription.id);
+  }
+
+  /**
+   * Delete a subscription whose first charge failed, freeing the subscriber again
+   */
+  async deleteSubscription(subscriptionId: string): Promise<void> {
+    await this.db.query('DELETE FROM subscriptions WHERE id = $1', [subscriptionId]);
+  }
+
+  /**
+   * Update subscription
+   */
+  async updateSubscription(
+    subscriptionId: string,
+    updates: Partial<Subscription>
+  ): Promise<Subscription> {
+    const subscription = await this.getSubscription(subscriptionId);
+    if (!subscription) {
+      throw new Error('Subscription not found');
+    }
+
+    const updated = { ...subscription, ...updates, updatedAt: new Date() };
+
+    await this.db.query(
+      `UPDATE subscriptions SET
+        plan_id = $1,
+        status = $2,
+        payment_method = $3,
+        current_period_start = $4,
+        current_period_end = $5,
+        trial_end = $6,
+        cancel_at_period_end = $7,
+        cancelled_at = $8,
+        next_billing_at = $9,
+        failed_attempts = $10,
+        credit = $11,
+        currency = $12,
+        last_transaction_id = $13,
+        pending_charge = $14,
+        updated_at = $15
+      WHERE id = $16`,
+      [
+        updated.planId,
+        updated.status,
+        updated.paymentMethod,
+        updated.currentPeriodStart,
+        updated.currentPeriodEnd,
+        updated.trialEnd,
+        updated.cancelAtPeriodEnd,
+        updated.cancelledAt,
+        updated.nextBillingAt,
+        updated.failedAttempts,
+        moneyToDecimal(updated.credit),
+        updated.credit.currency,
+        updated.lastTransactionId,
+        updated.pendingCharge ? JSON.stringify(updated.pendingCharge) : null,
+        updated.updatedAt,
+        subscriptionId,
+      ]
+    );
+
+    return updated;
+  }
+
+  /**
+   * Get subscription by ID
+   */
+  async getSubscription(subscriptionId: string): Promise<Subscription | null> {
+    const result = await this.db.query<Subscription>('SELECT * FROM subscriptions WHERE id = $1', [
+      subscriptionId,
+    ]);
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToSubscription(row);
+  }
+
+  /**
+   * Get a subscriber's subscriptions, newest first
+   */
+  async getSubscriptions(subscriberId: string): Promise<Subscription[]> {
+    const result = await this.db.query<Subscription>(
+      'SELECT * FROM subscriptions WHERE subscriber_id = $1 ORDER BY created_at DESC',
+      [subscriberId]
+    );
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToSubscription(row));
+  }
+
+  /**
+   * Get subscriptions whose next billing time has come, oldest first
+   */
+  async getDueSubscriptions(asOf: Date): Promise<Subscription[]> {
+    const result = await this.db.query<Subscription>(
+      `SELECT * FROM subscriptions
+       WHERE status IN ('trialing', 'active', 'past_due') AND next_billing_at <= $1
+       ORDER BY next_billing_at ASC`,
+      [asOf]
+    );
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToSubscription(row));
+  }
+
+  /**
+   * Map database row to Plan object
+   */
+  private mapRowToPlan(row: any): Plan {
+    return {
+      id: row.id,
+      name: row.name,
+      price: moneyFromDecimal(row.price, row.currency),
+      interval: row.interval,
+      intervalCount: Number(row.interval_count),
+      trialDays: Number(row.trial_days),
+      active: Boolean(row.active),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  /**
+   * Map database row to Subscription object
+   */
+  private mapRowToSubscription(row: any): Subscription {
+    return {
+      id: row.id,
+      subscriberId: row.subscriber_id,
+      planId: row.plan_id,
+      status: row.status,
+      paymentMethod: row.payment_method || undefined,
+      currentPeriodStart: new Date(row.current_period_start),
+      currentPeriodEnd: new Date(row.current_period_end),
+      trialEnd: row.trial_end ? new Date(row.trial_end) : undefined,
+      cancelAtPeriodEnd: Boolean(row.cancel_at_period_end),
+      cancelledAt: row.cancelled_at ? new Date(row.cancelled_at) : undefined,
+      nextBillingAt: row.next_billing_at ? new Date(row.next_billing_at) : undefined,
+      failedAttempts: Number(row.failed_attempts),
+      credit:
+        row.credit != null ? moneyFromDecimal(row.credit, row.currency) : zeroMoney(row.currency),
+      lastTransactionId: row.last_transaction_id || undefined,
+      pendingCharge:
+        typeof row.pending_charge === 'string'
+          ? JSON.parse(row.pending_charge)
+          : row.pending_charge || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  /**
+   * Generate unique ID
+   */
+  private generateId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,48 @@
+import { TransactionStatus } from './types';
+import { InvalidTransitionError } from './errors';
+
+/**
+ * Transaction State Machine
+ * The status changes a transaction may go through; everything else is rejected
+ */
+
+/**
+ * Allowed next statuses for each status
+ * refunded, failed and cancelled are final. Updates that keep the status
+ * (e.g. a second partial refund) are not transitions.
+ */
+export const TRANSACTION_TRANSITIONS: Readonly<Record<TransactionStatus, readonly TransactionStatus[]>> = {
+  pending: ['processing', 'authorized', 'completed', 'held', 'failed', 'cancelled'],
+  processing: ['authorized', 'completed', 'held', 'failed', 'cancelled'],
+  authorized: ['completed', 'failed', 'cancelled'],
+  held: ['released', 'cancelled'],
+  completed: ['partially_refunded', 'refunded'],
+  released: ['partially_refunded', 'refunded'],
+  partially_refunded: ['refunded'],
+  refunded: [],
+  failed: [],
+  cancelled: [],
+};
+
+/**
+ * Whether a transaction may move from one status to another
+ */
+export function canTransition(from: TransactionStatus, to: TransactionStatus): boolean {
+  return TRANSACTION_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw InvalidTransitionError unless the transition is allowed
+ */
+export function assertTransition(from: TransactionStatus, to: TransactionStatus): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(from, to);
+  }
+}
+
+/**
+ * Whether a status has no further transitions
+ */
+export function isFinalStatus(status: TransactionStatus): boolean {
+  return TRANSACTION_TRANSITIONS[status].length === 0;
+}
@@ -0,0 +1,621 @@
+import { BaseService, ServiceMetadata, ServiceContext } from '@shared/types';
+import {
+  WebhookDeliveryServiceConfig,
+  WebhookDeliveryResult,
+  WebhookDeliveryStatus,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookEndpoint,
+  CreateWebhookEndpointRequest,
+  MerchantWebhookEvent,
+  MerchantWebhookEventType,
+  SELF_ENTITY,
+} from './types';
+import { PaymentService } from './PaymentService';
+import { WebhookDeliveryStore } from './WebhookDeliveryStore';
+import { PaymentError } from './errors';
+import { randomBytes, signWebhookPayload, toHex } from './webhookSignatures';
+import { isInternalAddress, pinnedLookup, resolveHostAddresses } from './webhookAddresses';
+
+/**
+ * Payment Service events that can be sent to webhook endpoints
+ */
+export const MERCHANT_WEBHOOK_EVENTS: MerchantWebhookEventType[] = [
+  'transaction:processing',
+  'transaction:completed',
+  'transaction:failed',
+  'transaction:cancelled',
+  'refund:completed',
+  'authorization:created',
+  'authorization:captured',
+  'authorization:voided',
+  'authorization:expired',
+  'escrow:held',
+  'escrow:released',
+  'escrow:cancelled',
+  'wallet:topped_up',
+  'payout:requested',
+  'payout:in_transit',
+  'payout:paid',
+  'payout:failed',
+  'dispute:opened',
+  'dispute:evidence_submitted',
+  'dispute:won',
+  'dispute:lost',
+];
+
+/**
+ * Request header with the event ID, for receivers to drop repeats
+ */
+export const WEBHOOK_ID_HEADER = 'X-Payment-Webhook-Id';
+
+/**
+ * Request header with the body's signature (see signWebhookPayload)
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Payment-Webhook-Signature';
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_RETRY_BASE_SECONDS = 60;
+const DEFAULT_MAX_RETRY_SECONDS = 6 * 60 * 60;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Minutes between scheduler runs when not configured
+ */
+const DEFAULT_SCHEDULER_INTERVAL_MINUTES = 1;
+
+/**
+ * Response bodies are logged up to this many characters
+ */
+const MAX_LOGGED_RESPONSE_LENGTH = 1000;
+
+/**
+ * Outcome of checking an endpoint URL's host
+ */
+interface AddressCheck {
+  /** Why events may not be sent there */
+  blocked?: string;
+  /** The checked addresses to connect to; unset when any address is allowed */
+  addresses?: string[];
+}
+
+/**
+ * Webhook Delivery Service
+ * Sends Payment Service events to the HTTP endpoints merchants register:
+ * signed JSON bodies, queued per endpoint and retried with exponential backoff,
+ * with every attempt logged
+ */
+export class WebhookDeliveryService extends BaseService<WebhookDeliveryServiceConfig> {
+  readonly metadata: ServiceMetadata = {
+    name: 'webhooks',
+    version: '0.1.0',
+    description: 'Outbound webhooks for payment events',
+    dependencies: ['payment'],
+    platforms: ['pwa', 'mobile', 'web'],
+  };
+
+  private store?: WebhookDeliveryStore;
+  private scheduler?: ReturnType<typeof setInterval>;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(private readonly payments: PaymentService) {
+    super();
+  }
+
+  async initialize(config: WebhookDeliveryServiceConfig, context?: ServiceContext): Promise<void> {
+    await super.initialize(config, context);
+
+    if (!context?.database) {
+      throw new Error('Database connection required for Webhook Delivery Service');
+    }
+
+    // Payment events only reach other services through the event bus
+    if (!context.eventBus) {
+      throw new Error('Event bus required for Webhook Delivery Service');
+    }
+
+    const { maxAttempts, retryBaseSeconds, maxRetrySeconds, timeoutMs } = config;
+    if (maxAttempts !== undefined && !(Number.isInteger(maxAttempts) && maxAttempts > 0)) {
+      throw new Error('maxAttempts must be a positive integer');
+    }
+
+    const durations = [retryBaseSeconds, maxRetrySeconds, timeoutMs];
+    if (durations.some(value => value !== undefined && !(value > 0))) {
+      throw new Error('retryBaseSeconds, maxRetrySeconds and timeoutMs must be positive');
+    }
+
+    this.store = new WebhookDeliveryStore(context.database);
+
+    const eventBus = context.eventBus;
+    for (const type of MERCHANT_WEBHOOK_EVENTS) {
+      this.unsubscribers.push(
+        eventBus.on(`service:${this.payments.metadata.name}:${type}`, data => {
+          this.publish(type, data).catch(error =>
+            this.log('error', 'Queueing webhook deliveries failed', { type, error })
+          );
+        })
+      );
+    }
+
+    // Send due retries on a timer
+    const intervalMinutes = config.schedulerIntervalMinutes ?? DEFAULT_SCHEDULER_INTERVAL_MINUTES;
+    if (intervalMinutes > 0) {
+      this.scheduler = setInterval(() => {
+        this.processDueDeliveries().catch(error =>
+          this.log('error', 'Webhook delivery scheduler run failed', { error })
+        );
+      }, intervalMinutes * 60 * 1000);
+    }
+
+    this.log('info', 'Webhook Delivery Service initialized', {
+      events: MERCHANT_WEBHOOK_EVENTS.length,
+    });
+
+    this._status = 'ready';
+  }
+
+  /**
+   * Stop listening for payment events and stop the retry scheduler
+   */
+  async shutdown(): Promise<void> {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+
+    if (this.scheduler) {
+      clearInterval(this.scheduler);
+      this.scheduler = undefined;
+    }
+    await super.shutdown();
+  }
+
+  /**
+   * Register an endpoint to be sent events
+   * The endpoint's signing secret is generated and returned with it. Its host must
+   * resolve to public addresses only (see checkAddress).
+   */
+  async createEndpoint(request: CreateWebhookEndpointRequest): Promise<WebhookDeliveryResult> {
+    try {
+      const { ownerId, events, description } = request;
+
+      const url = this.parseUrl(request.url);
+      if (!url) {
+        return this.failure(
+          'INVALID_WEBHOOK_URL',
+          this.config.allowInsecureUrls
+            ? 'url must be an http or https URL'
+            : 'url must be an https URL'
+        );
+      }
+
+      const { blocked } = await this.checkAddress(url);
+      if (blocked) {
+        return this.failure('INVALID_WEBHOOK_URL', blocked);
+      }
+
+      if (!Array.isArray(events) || events.length === 0) {
+        return this.failure('INVALID_WEBHOOK_EVENTS', 'Give at least one event type');
+      }
+
+      const unknown = events.filter(type => !MERCHANT_WEBHOOK_EVENTS.includes(type));
+      if (unknown.length > 0) {
+        return this.failure(
+          'INVALID_WEBHOOK_EVENTS',
+          `Unknown event types: ${unknown.join(', ')}`,
+          { unknown }
+        );
+      }
+
+      const endpoint = await this.store!.createEndpoint({
+        ownerId,
+        url,
+        description,
+        events: Array.from(new Set(events)),
+        secret: await createSecret(),
+      });
+
+      this.emit('endpoint:created', endpoint);
+      this.log('info', 'Webhook endpoint created', { endpointId: endpoint.id, ownerId });
+
+      return { success: true, endpoint };
+    } catch (error) {
+      this.log('error', 'Webhook endpoint creation failed', { error });
+      return this.failure(
+        'WEBHOOK_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Remove an endpoint; nothing more is sent to it, including pending retries
+   */
+  async removeEndpoint(endpointId: string): Promise<WebhookDeliveryResult> {
+    try {
+      const endpoint = await this.store!.removeEndpoint(endpointId);
+
+      this.log('info', 'Webhook endpoint removed', { endpointId });
+
+      return { success: true, endpoint };
+    } catch (error) {
+      this.log('error', 'Removing webhook endpoint failed', { error });
+      return this.failure(
+        error instanceof PaymentError ? error.code : 'WEBHOOK_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Get webhook endpoint by ID
+   */
+  async getEndpoint(endpointId: string): Promise<WebhookEndpoint | null> {
+    return this.store!.getEndpoint(endpointId);
+  }
+
+  /**
+   * Get an owner's endpoints, newest first
+   */
+  async getEndpoints(ownerId: string): Promise<WebhookEndpoint[]> {
+    return this.store!.getEndpoints(ownerId);
+  }
+
+  /**
+   * Get webhook delivery by ID
+   */
+  async getDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    return this.store!.getDelivery(deliveryId);
+  }
+
+  /**
+   * Get an endpoint's deliveries, newest first
+   */
+  async getDeliveries(
+    endpointId: string,
+    filters: { status?: WebhookDeliveryStatus; limit?: number } = {}
+  ): Promise<WebhookDelivery[]> {
+    return this.store!.getDeliveries(endpointId, filters);
+  }
+
+  /**
+   * Get the delivery log: every request made for a delivery, with the response
+   */
+  async getDeliveryAttempts(deliveryId: string): Promise<WebhookDeliveryAttempt[]> {
+    return this.store!.getAttempts(deliveryId);
+  }
+
+  /**
+   * Send a delivery again now, whatever its status
+   * A delivered event is sent again, and a failed one gets one more attempt;
+   * the delivery's status follows how the attempt ends.
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDeliveryResult> {
+    try {
+      const queued = await this.store!.getDelivery(deliveryId);
+      if (!queued) {
+        return this.failure('WEBHOOK_DELIVERY_NOT_FOUND', 'Webhook delivery not found');
+      }
+
+      const endpoint = await this.store!.getEndpoint(queued.endpointId);
+      if (!endpoint || endpoint.removedAt) {
+        return this.failure('WEBHOOK_ENDPOINT_NOT_FOUND', 'Webhook endpoint has been removed');
+      }
+
+      const delivery = await this.attempt(deliveryId, new Date(), true);
+
+      if (delivery?.status !== 'delivered') {
+        return this.failure(
+          'WEBHOOK_DELIVERY_FAILED',
+          delivery?.lastError || 'Webhook delivery failed',
+          { delivery }
+        );
+      }
+
+      return { success: true, delivery };
+    } catch (error) {
+      this.log('error', 'Webhook redelivery failed', { deliveryId, error });
+      return this.failure(
+        error instanceof PaymentError ? error.code : 'WEBHOOK_ERROR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Send pending deliveries whose next attempt is due
+   * Called by the scheduler; can also be run by a cron job
+   */
+  async processDueDeliveries(asOf: Date = new Date()): Promise<WebhookDelivery[]> {
+    const due = await this.store!.getDueDeliveries(asOf);
+    const results: WebhookDelivery[] = [];
+
+    for (const delivery of due) {
+      try {
+        const attempted = await this.attempt(delivery.id, asOf);
+        if (attempted) {
+          results.push(attempted);
+        }
+      } catch (error) {
+        this.log('error', 'Webhook delivery failed', { deliveryId: delivery.id, error });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Queue a payment event for every endpoint subscribed to it, then send them
+   * Endpoints are sent events about transactions, payouts and disputes their
+   * owner is a party to; the platform's own (SELF_ENTITY) are sent every event.
+   */
+  private async publish(type: MerchantWebhookEventType, data: any): Promise<void> {
+    const parties = [data?.payerId, data?.payeeId, data?.ownerId].filter(Boolean);
+
+    const endpoints = (await this.store!.getActiveEndpoints()).filter(
+      endpoint =>
+        endpoint.events.includes(type) &&
+        (endpoint.ownerId === SELF_ENTITY || parties.includes(endpoint.ownerId))
+    );
+    if (endpoints.length === 0) {
+      return;
+    }
+
+    const event: MerchantWebhookEvent = {
+      id: `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+    const payload = JSON.stringify(event);
+
+    const deliveries: WebhookDelivery[] = [];
+    for (const endpoint of endpoints) {
+      deliveries.push(
+        await this.store!.createDelivery({
+          endpointId: endpoint.id,
+          eventId: event.id,
+          eventType: type,
+          payload,
+        })
+      );
+    }
+
+    for (const delivery of deliveries) {
+      await this.attempt(delivery.id, new Date());
+    }
+  }
+
+  /**
+   * Make one attempt at a delivery and record how it went
+   * The retry is scheduled when the delivery is claimed, before the request is
+   * sent, so a crash mid-request leaves it to the scheduler. Returns null when
+   * the delivery was not due.
+   */
+  private async attempt(
+    deliveryId: string,
+    asOf: Date,
+    force = false
+  ): Promise<WebhookDelivery | null> {
+    const delivery = await this.store!.claimDelivery(deliveryId, {
+      asOf,
+      retryAt: attempt => new Date(asOf.getTime() + this.retryDelayMs(attempt)),
+      force,
+    });
+    if (!delivery) {
+      return null;
+    }
+
+    const endpoint = await this.store!.getEndpoint(delivery.endpointId);
+    if (!endpoint || endpoint.removedAt) {
+      return this.store!.finishDelivery(delivery, { status: 'failed', error: 'Endpoint removed' });
+    }
+
+    const started = Date.now();
+    const outcome = await this.send(endpoint, delivery);
+
+    await this.store!.recordAttempt({
+      deliveryId: delivery.id,
+      attempt: delivery.attempts,
+      ...outcome,
+      durationMs: Date.now() - started,
+      attemptedAt: new Date(started),
+    });
+
+    const maxAttempts = this.config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const status: WebhookDeliveryStatus = outcome.succeeded
+      ? 'delivered'
+      : delivery.attempts >= maxAttempts
+        ? 'failed'
+        : 'pending';
+
+    const finished = await this.store!.finishDelivery(delivery, {
+      status,
+      responseStatus: outcome.responseStatus,
+      error: outcome.error,
+    });
+
+    if (status === 'delivered') {
+      this.emit('delivery:delivered', finished);
+    } else if (status === 'failed') {
+      this.emit('delivery:failed', finished);
+      this.log('warn', 'Webhook delivery failed', {
+        deliveryId: delivery.id,
+        endpointId: endpoint.id,
+        attempts: delivery.attempts,
+      });
+    }
+
+    return finished;
+  }
+
+  /**
+   * POST a delivery's payload to its endpoint, signed with the endpoint's secret
+   * Any 2xx status counts as delivered; redirects are not followed. The host is
+   * resolved and checked again before each request, as what it resolves to can
+   * change, and the request connects only to the addresses that were checked.
+   */
+  private async send(
+    endpoint: WebhookEndpoint,
+    delivery: WebhookDelivery
+  ): Promise<
+    Pick<WebhookDeliveryAttempt, 'succeeded' | 'responseStatus' | 'responseBody' | 'error'>
+  > {
+    const { blocked, addresses } = await this.checkAddress(endpoint.url);
+    if (blocked) {
+      return { succeeded: false, error: blocked };
+    }
+
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await this.post(
+        endpoint.url,
+        {
+          'Content-Type': 'application/json',
+          [WEBHOOK_ID_HEADER]: delivery.eventId,
+          [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(endpoint.secret, delivery.payload),
+        },
+        delivery.payload,
+        addresses,
+        controller.signal
+      );
+      const ok = response.status >= 200 && response.status < 300;
+
+      return {
+        succeeded: ok,
+        responseStatus: response.status,
+        responseBody: response.body.slice(0, MAX_LOGGED_RESPONSE_LENGTH) || undefined,
+        error: ok ? undefined : `Endpoint returned HTTP ${response.status}`,
+      };
+    } catch (error) {
+      return {
+        succeeded: false,
+        error: controller.signal.aborted
+          ? `Endpoint did not respond within ${timeoutMs} ms`
+          : `Could not reach endpoint: ${error instanceof Error ? error.message : error}`,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * POST a body over node:http(s), connecting only to the given addresses when
+   * there are any; the URL's hostname is still sent as the Host header and TLS
+   * server name. Redirects are not followed.
+   */
+  private async post(
+    url: string,
+    headers: Record<string, string>,
+    body: string,
+    addresses: string[] | undefined,
+    signal: AbortSignal
+  ): Promise<{ status: number; body: string }> {
+    const target = new URL(url);
+    const { request } =
+      target.protocol === 'https:' ? await import('node:https') : await import('node:http');
+
+    return new Promise((resolve, reject) => {
+      const outgoing = request(
+        target,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+          lookup: addresses && pinnedLookup(addresses),
+          signal,
+        },
+        response => {
+          let text = '';
+          response.setEncoding('utf8');
+          response.on('data', (chunk: string) => {
+            if (text.length < MAX_LOGGED_RESPONSE_LENGTH) {
+              text += chunk;
+            }
+          });
+          response.on('end', () => resolve({ status: response.statusCode ?? 0, body: text }));
+          response.on('close', () =>
+            reject(new Error('Connection closed before the response ended'))
+          );
+        }
+      );
+
+      outgoing.on('error', reject);
+      outgoing.end(body);
+    });
+  }
+
+  /**
+   * Wait before the retry after an attempt: the base delay doubled for each
+   * earlier attempt, up to the maximum
+   * Never shorter than the request timeout, so the scheduler does not send a
+   * delivery again while its request is in flight.
+   */
+  private retryDelayMs(attempt: number): number {
+    const baseSeconds = this.config.retryBaseSeconds ?? DEFAULT_RETRY_BASE_SECONDS;
+    const maxSeconds = this.config.maxRetrySeconds ?? DEFAULT_MAX_RETRY_SECONDS;
+    const seconds = Math.min(baseSeconds * 2 ** (attempt - 1), maxSeconds);
+
+    return Math.max(seconds * 1000, this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  }
+
+  /**
+   * Normalize an endpoint URL, or null when it is not one events can be sent to
+   */
+  private parseUrl(value: unknown): string | null {
+    if (typeof value !== 'string') {
+      return null;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return null;
+    }
+
+    const protocols = this.config.allowInsecureUrls ? ['https:', 'http:'] : ['https:'];
+    return protocols.includes(url.protocol) ? url.toString() : null;
+  }
+
+  /**
+   * Whether events may be sent to an endpoint URL, and the addresses to send them to
+   * Every address its host resolves to must be public, so merchants cannot point
+   * the platform at its own network, unless allowPrivateAddresses is set.
+   */
+  private async checkAddress(url: string): Promise<AddressCheck> {
+    if (this.config.allowPrivateAddresses) {
+      return {};
+    }
+
+    let addresses: string[];
+    try {
+      addresses = await resolveHostAddresses(url);
+    } catch {
+      return { blocked: `Could not resolve ${new URL(url).hostname}` };
+    }
+
+    if (addresses.length === 0 || addresses.some(isInternalAddress)) {
+      return { blocked: 'url must not point at a loopback, private or link-local address' };
+    }
+
+    return { addresses };
+  }
+
+  /**
+   * Create failure result
+   */
+  private failure(code: string, message: string, details?: any): WebhookDeliveryResult {
+    return {
+      success: false,
+      error: { code, message, details },
+    };
+  }
+}
+
+/**
+ * Generate an endpoint signing secret
+ */
+async function createSecret(): Promise<string> {
+  return `whsec_${toHex(await randomBytes(24))}`;
+}
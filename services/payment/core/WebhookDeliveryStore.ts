@@ -0,0 +1,436 @@
+import { DatabaseConnection } from '@shared/types';
+import {
+  MerchantWebhookEventType,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+} from './types';
+import { PaymentError } from './errors';
+
+/**
+ * Webhook Delivery Store
+ * Handles all database operations for webhook endpoints, their delivery queue and delivery log
+ */
+export class WebhookDeliveryStore {
+  constructor(private db: DatabaseConnection) {}
+
+  /**
+   * Create a webhook endpoint
+   */
+  async createEndpoint(
+    data: Omit<WebhookEndpoint, 'id' | 'createdAt' | 'updatedAt' | 'removedAt'>
+  ): Promise<WebhookEndpoint> {
+    const now = new Date();
+
+    const endpoint: WebhookEndpoint = {
+      ...data,
+      id: this.generateId('we'),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.db.query(
+      `INSERT INTO webhook_endpoints (
+        id, owner_id, url, description, events, secret, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        endpoint.id,
+        endpoint.ownerId,
+        endpoint.url,
+        endpoint.description,
+        JSON.stringify(endpoint.events),
+        endpoint.secret,
+        endpoint.createdAt,
+        endpoint.updatedAt,
+      ]
+    );
+
+    return endpoint;
+  }
+
+  /**
+   * Remove an endpoint; its pending deliveries fail, and are kept in the log
+   */
+  async removeEndpoint(endpointId: string): Promise<WebhookEndpoint> {
+    return this.db.transaction(async tx => {
+      const store = new WebhookDeliveryStore(tx);
+
+      const endpoint = await store.getEndpoint(endpointId);
+      if (!endpoint || endpoint.removedAt) {
+        throw new PaymentError('WEBHOOK_ENDPOINT_NOT_FOUND', 'Webhook endpoint not found');
+      }
+
+      const now = new Date();
+      await tx.query(
+        'UPDATE webhook_endpoints SET removed_at = $1, updated_at = $1 WHERE id = $2',
+        [now, endpointId]
+      );
+      await tx.query(
+        `UPDATE webhook_deliveries SET
+          status = 'failed', next_attempt_at = NULL, last_error = $1, updated_at = $2
+        WHERE endpoint_id = $3 AND status = 'pending'`,
+        ['Endpoint removed', now, endpointId]
+      );
+
+      return { ...endpoint, removedAt: now, updatedAt: now };
+    });
+  }
+
+  /**
+   * Get webhook endpoint by ID, including removed ones
+   */
+  async getEndpoint(endpointId: string): Promise<WebhookEndpoint | null> {
+    const result = await this.db.query<WebhookEndpoint>(
+      'SELECT * FROM webhook_endpoints WHERE id = $1',
+      [endpointId]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToEndpoint(row);
+  }
+
+  /**
+   * Get an owner's endpoints that have not been removed, newest first
+   */
+  async getEndpoints(ownerId: string): Promise<WebhookEndpoint[]> {
+    const result = await this.db.query<WebhookEndpoint>(
+      `SELECT * FROM webhook_endpoints
+       WHERE owner_id = $1 AND removed_at IS NULL
+       ORDER BY created_at DESC`,
+      [ownerId]
+    );
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToEndpoint(row));
+  }
+
+  /**
+   * Get every endpoint that has not been removed, to match events against
+   */
+  async getActiveEndpoints(): Promise<WebhookEndpoint[]> {
+    const result = await this.db.query<WebhookEndpoint>(
+      'SELECT * FROM webhook_endpoints WHERE removed_at IS NULL'
+    );
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToEndpoint(row));
+  }
+
+  /**
+   * Queue an event for an endpoint, due straight away
+   */
+  async createDelivery(data: {
+    endpointId: string;
+    eventId: string;
+    eventType: MerchantWebhookEventType;
+    payload: string;
+  }): Promise<WebhookDelivery> {
+    const now = new Date();
+
+    const delivery: WebhookDelivery = {
+      ...data,
+      id: this.generateId('wd'),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.db.query(
+      `INSERT INTO webhook_deliveries (
+        id, endpoint_id, event_id, event_type, payload, status, attempts, next_attempt_at,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        delivery.id,
+        delivery.endpointId,
+        delivery.eventId,
+        delivery.eventType,
+        delivery.payload,
+        delivery.status,
+        delivery.attempts,
+        delivery.nextAttemptAt,
+        delivery.createdAt,
+        delivery.updatedAt,
+      ]
+    );
+
+    return delivery;
+  }
+
+  /**
+   * Count an attempt at a delivery that is due, and schedule the retry that
+   * follows it before the request is sent
+   * Returns null when the delivery is not pending or not due yet, e.g. when the
+   * scheduler or another attempt got to it first. force claims it regardless.
+   */
+  async claimDelivery(
+    deliveryId: string,
+    options: { asOf: Date; retryAt: (attempt: number) => Date; force?: boolean }
+  ): Promise<WebhookDelivery | null> {
+    return this.db.transaction(async tx => {
+      const store = new WebhookDeliveryStore(tx);
+
+      const result = await tx.query<WebhookDelivery>(
+        'SELECT * FROM webhook_deliveries WHERE id = $1 FOR UPDATE',
+        [deliveryId]
+      );
+      if (!result || (Array.isArray(result) && result.length === 0)) {
+        throw new PaymentError('WEBHOOK_DELIVERY_NOT_FOUND', 'Webhook delivery not found');
+      }
+
+      const delivery = store.mapRowToDelivery(Array.isArray(result) ? result[0] : result);
+      const due =
+        delivery.status === 'pending' &&
+        (!delivery.nextAttemptAt || delivery.nextAttemptAt <= options.asOf);
+      if (!due && !options.force) {
+        return null;
+      }
+
+      const attempts = delivery.attempts + 1;
+      const claimed: WebhookDelivery = {
+        ...delivery,
+        status: 'pending',
+        attempts,
+        nextAttemptAt: options.retryAt(attempts),
+        updatedAt: options.asOf,
+      };
+
+      await tx.query(
+        `UPDATE webhook_deliveries SET
+          status = $1, attempts = $2, next_attempt_at = $3, updated_at = $4
+        WHERE id = $5`,
+        [claimed.status, claimed.attempts, claimed.nextAttemptAt, claimed.updatedAt, deliveryId]
+      );
+
+      return claimed;
+    });
+  }
+
+  /**
+   * Record how a claimed delivery's attempt ended
+   * Pending deliveries keep the retry time set when they were claimed.
+   */
+  async finishDelivery(
+    delivery: WebhookDelivery,
+    outcome: { status: WebhookDeliveryStatus; responseStatus?: number; error?: string }
+  ): Promise<WebhookDelivery> {
+    const now = new Date();
+
+    const finished: WebhookDelivery = {
+      ...delivery,
+      status: outcome.status,
+      nextAttemptAt: outcome.status === 'pending' ? delivery.nextAttemptAt : undefined,
+      lastResponseStatus: outcome.responseStatus,
+      lastError: outcome.error,
+      deliveredAt: outcome.status === 'delivered' ? now : delivery.deliveredAt,
+      updatedAt: now,
+    };
+
+    await this.db.query(
+      `UPDATE webhook_deliveries SET
+        status = $1, next_attempt_at = $2, last_response_status = $3, last_error = $4,
+        delivered_at = $5, updated_at = $6
+      WHERE id = $7`,
+      [
+        finished.status,
+        finished.nextAttemptAt,
+        finished.lastResponseStatus,
+        finished.lastError,
+        finished.deliveredAt,
+        finished.updatedAt,
+        finished.id,
+      ]
+    );
+
+    return finished;
+  }
+
+  /**
+   * Log a request made for a delivery
+   */
+  async recordAttempt(
+    data: Omit<WebhookDeliveryAttempt, 'id'>
+  ): Promise<WebhookDeliveryAttempt> {
+    const attempt: WebhookDeliveryAttempt = {
+      ...data,
+      id: this.generateId('wda'),
+    };
+
+    await this.db.query(
+      `INSERT INTO webhook_delivery_attempts (
+        id, delivery_id, attempt, succeeded, response_status, response_body, error,
+        duration_ms, attempted_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        attempt.id,
+        attempt.deliveryId,
+        attempt.attempt,
+        attempt.succeeded,
+        attempt.responseStatus,
+        attempt.responseBody,
+        attempt.error,
+        attempt.durationMs,
+        attempt.attemptedAt,
+      ]
+    );
+
+    return attempt;
+  }
+
+  /**
+   * Get webhook delivery by ID
+   */
+  async getDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const result = await this.db.query<WebhookDelivery>(
+      'SELECT * FROM webhook_deliveries WHERE id = $1',
+      [deliveryId]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToDelivery(row);
+  }
+
+  /**
+   * Get an endpoint's deliveries, newest first, optionally only those in a status
+   */
+  async getDeliveries(
+    endpointId: string,
+    filters: { status?: WebhookDeliveryStatus; limit?: number } = {}
+  ): Promise<WebhookDelivery[]> {
+    let query = 'SELECT * FROM webhook_deliveries WHERE endpoint_id = $1';
+    const params: any[] = [endpointId];
+
+    if (filters.status) {
+      query += ` AND status = $${params.length + 1}`;
+      params.push(filters.status);
+    }
+
+    query += ` ORDER BY created_at DESC LIMIT $${params.length + 1}`;
+    params.push(filters.limit || 50);
+
+    const result = await this.db.query<WebhookDelivery>(query, params);
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToDelivery(row));
+  }
+
+  /**
+   * Get pending deliveries whose next attempt is due, oldest first
+   */
+  async getDueDeliveries(asOf: Date, limit = 100): Promise<WebhookDelivery[]> {
+    const result = await this.db.query<WebhookDelivery>(
+      `SELECT * FROM webhook_deliveries
+       WHERE status = 'pending' AND next_attempt_at <= $1
+       ORDER BY next_attempt_at ASC
+       LIMIT $2`,
+      [asOf, limit]
+    );
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToDelivery(row));
+  }
+
+  /**
+   * Get the requests made for a delivery, in order
+   */
+  async getAttempts(deliveryId: string): Promise<WebhookDeliveryAttempt[]> {
+    const result = await this.db.query<WebhookDeliveryAttempt>(
+      'SELECT * FROM webhook_delivery_attempts WHERE delivery_id = $1 ORDER BY attempt ASC',
+      [deliveryId]
+    );
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToAttempt(row));
+  }
+
+  /**
+   * Map database row to WebhookEndpoint object
+   */
+  private mapRowToEndpoint(row: any): WebhookEndpoint {
+    const events = typeof row.events === 'string' ? JSON.parse(row.events) : row.events;
+
+    return {
+      id: row.id,
+      ownerId: row.owner_id,
+      url: row.url,
+      description: row.description || undefined,
+      events: events || [],
+      secret: row.secret,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      removedAt: row.removed_at ? new Date(row.removed_at) : undefined,
+    };
+  }
+
+  /**
+   * Map database row to WebhookDelivery object
+   */
+  private mapRowToDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      endpointId: row.endpoint_id,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      payload: row.payload,
+      status: row.status,
+      attempts: Number(row.attempts) || 0,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+      lastResponseStatus:
+        row.last_response_status != null ? Number(row.last_response_status) : undefined,
+      lastError: row.last_error || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined,
+    };
+  }
+
+  /**
+   * Map database row to WebhookDeliveryAttempt object
+   */
+  private mapRowToAttempt(row: any): WebhookDeliveryAttempt {
+    return {
+      id: row.id,
+      deliveryId: row.delivery_id,
+      attempt: Number(row.attempt),
+      succeeded: !!row.succeeded,
+      responseStatus: row.response_status != null ? Number(row.response_status) : undefined,
+      responseBody: row.response_body || undefined,
+      error: row.error || undefined,
+      durationMs: Number(row.duration_ms) || 0,
+      attemptedAt: new Date(row.attempted_at),
+    };
+  }
+
+  /**
+   * Generate unique ID
+   */
+  private generateId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
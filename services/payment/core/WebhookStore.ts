@@ -0,0 +1,221 @@
+import { DatabaseConnection } from '@shared/types';
+import { ProcessorEvent, WebhookEvent, WebhookEventStatus } from './types';
+import { PaymentError } from './errors';
+
+/**
+ * Webhook Store
+ * Handles all database operations for webhook events received from the processor
+ */
+export class WebhookStore {
+  constructor(private db: DatabaseConnection) {}
+
+  /**
+   * Store a received event, or return the one already stored for its event ID
+   * The (provider, event_id) unique constraint settles concurrent deliveries.
+   */
+  async recordEvent(
+    provider: string,
+    event: ProcessorEvent,
+    payload: string
+  ): Promise<WebhookEvent> {
+    const existing = await this.getEventByProviderId(provider, event.id);
+    if (existing) {
+      return existing;
+    }
+
+    const stored: WebhookEvent = {
+      id: this.generateId('whe'),
+      provider,
+      eventId: event.id,
+      eventType: event.providerType,
+      processorReference: event.reference,
+      payload,
+      status: 'received',
+      attempts: 0,
+      receivedAt: new Date(),
+    };
+
+    await this.db.query(
+      `INSERT INTO webhook_events (
+        id, provider, event_id, event_type, processor_reference, payload, status,
+        attempts, received_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (provider, event_id) DO NOTHING`,
+      [
+        stored.id,
+        stored.provider,
+        stored.eventId,
+        stored.eventType,
+        stored.processorReference,
+        stored.payload,
+        stored.status,
+        stored.attempts,
+        stored.receivedAt,
+      ]
+    );
+
+    // A concurrent delivery may have stored it first
+    return (await this.getEventByProviderId(provider, event.id)) || stored;
+  }
+
+  /**
+   * Mark an event processing and count the attempt, if it is in one of the given statuses
+   * Returns null when it is not, e.g. when another delivery is applying it.
+   */
+  async claimEvent(
+    eventId: string,
+    statuses: WebhookEventStatus[]
+  ): Promise<WebhookEvent | null> {
+    return this.db.transaction(async tx => {
+      const store = new WebhookStore(tx);
+
+      const result = await tx.query<WebhookEvent>(
+        'SELECT * FROM webhook_events WHERE id = $1 FOR UPDATE',
+        [eventId]
+      );
+      if (!result || (Array.isArray(result) && result.length === 0)) {
+        throw new PaymentError('WEBHOOK_EVENT_NOT_FOUND', 'Webhook event not found');
+      }
+
+      const event = store.mapRowToEvent(Array.isArray(result) ? result[0] : result);
+      if (!statuses.includes(event.status)) {
+        return null;
+      }
+
+      const claimed: WebhookEvent = {
+        ...event,
+        status: 'processing',
+        attempts: event.attempts + 1,
+      };
+
+      await tx.query('UPDATE webhook_events SET status = $1, attempts = $2 WHERE id = $3', [
+        claimed.status,
+        claimed.attempts,
+        eventId,
+      ]);
+
+      return claimed;
+    });
+  }
+
+  /**
+   * Record how applying a claimed event ended
+   */
+  async finishEvent(
+    event: WebhookEvent,
+    outcome: { status: WebhookEventStatus; detail?: string; transactionId?: string }
+  ): Promise<WebhookEvent> {
+    const finished: WebhookEvent = {
+      ...event,
+      status: outcome.status,
+      detail: outcome.detail,
+      transactionId: outcome.transactionId || event.transactionId,
+      processedAt: new Date(),
+    };
+
+    await this.db.query(
+      `UPDATE webhook_events SET
+        status = $1, detail = $2, transaction_id = $3, processed_at = $4
+      WHERE id = $5`,
+      [
+        finished.status,
+        finished.detail,
+        finished.transactionId,
+        finished.processedAt,
+        finished.id,
+      ]
+    );
+
+    return finished;
+  }
+
+  /**
+   * Get webhook event by ID
+   */
+  async getEvent(eventId: string): Promise<WebhookEvent | null> {
+    const result = await this.db.query<WebhookEvent>(
+      'SELECT * FROM webhook_events WHERE id = $1',
+      [eventId]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToEvent(row);
+  }
+
+  /**
+   * Get webhook event by the provider's event ID
+   */
+  async getEventByProviderId(
+    provider: string,
+    providerEventId: string
+  ): Promise<WebhookEvent | null> {
+    const result = await this.db.query<WebhookEvent>(
+      'SELECT * FROM webhook_events WHERE provider = $1 AND event_id = $2',
+      [provider, providerEventId]
+    );
+
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      return null;
+    }
+
+    const row = Array.isArray(result) ? result[0] : result;
+    return this.mapRowToEvent(row);
+  }
+
+  /**
+   * Get webhook events, newest first, optionally only those in a status
+   */
+  async getEvents(
+    filters: { status?: WebhookEventStatus; limit?: number } = {}
+  ): Promise<WebhookEvent[]> {
+    let query = 'SELECT * FROM webhook_events';
+    const params: any[] = [];
+
+    if (filters.status) {
+      query += ` WHERE status = $${params.length + 1}`;
+      params.push(filters.status);
+    }
+
+    query += ` ORDER BY received_at DESC LIMIT $${params.length + 1}`;
+    params.push(filters.limit || 50);
+
+    const result = await this.db.query<WebhookEvent>(query, params);
+
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+
+    return result.map(row => this.mapRowToEvent(row));
+  }
+
+  /**
+   * Map database row to WebhookEvent object
+   */
+  private mapRowToEvent(row: any): WebhookEvent {
+    return {
+      id: row.id,
+      provider: row.provider,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      processorReference: row.processor_reference || undefined,
+      payload: row.payload,
+      status: row.status,
+      detail: row.detail || undefined,
+      transactionId: row.transaction_id || undefined,
+      attempts: Number(row.attempts) || 0,
+      receivedAt: new Date(row.received_at),
+      processedAt: row.processed_at ? new Date(row.processed_at) : undefined,
+    };
+  }
+
+  /**
+   * Generate unique ID
+   */
+  private generateId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,46 @@
+import { Money, TransactionStatus } from './types';
+
+/**
+ * Payment Errors
+ * Thrown inside the ledger and mapped to TransactionResult error codes by PaymentService
+ */
+
+/**
+ * Base error carrying a TransactionResult error code
+ */
+export class PaymentError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+/**
+ * A debit would take an account below its overdraft limit
+ */
+export class InsufficientFundsError extends PaymentError {
+  constructor(
+    readonly ownerId: string,
+    readonly available: Money
+  ) {
+    super('INSUFFICIENT_FUNDS', 'Insufficient funds', { ownerId, available });
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+/**
+ * A status change the transaction state machine does not allow
+ */
+export class InvalidTransitionError extends PaymentError {
+  constructor(
+    readonly from: TransactionStatus,
+    readonly to: TransactionStatus
+  ) {
+    super('INVALID_TRANSITION', `Cannot move a transaction from ${from} to ${to}`, { from, to });
+    this.name = 'InvalidTransitionError';
+  }
+}
@@ -0,0 +1,111 @@
+import { Currency, ExchangeRate, IExchangeRateProvider } from './types';
+import defaultRates from '../config/exchange-rates.json';
+
+/**
+ * Exchange Rates
+ * Offline rate provider and exact decimal arithmetic on rate strings
+ */
+
+/**
+ * Rates against a base currency, as in config/exchange-rates.json
+ */
+export interface ExchangeRateTable {
+  base: Currency;
+  /** ISO timestamp the rates were published */
+  asOf: string;
+  /** Units of each currency per unit of the base currency */
+  rates: Partial<Record<Currency, string>>;
+}
+
+/** Decimal places kept on derived rates */
+const RATE_PLACES = 10;
+const RATE_SCALE = BigInt(10) ** BigInt(RATE_PLACES);
+
+/**
+ * Static rate provider
+ * Serves cross rates from a fixed table; defaults to the bundled config/exchange-rates.json
+ */
+export class StaticExchangeRateProvider implements IExchangeRateProvider {
+  readonly name = 'static';
+
+  constructor(private table: ExchangeRateTable = defaultRates as ExchangeRateTable) {}
+
+  /**
+   * Create a provider from the JSON text of a rate table file
+   */
+  static fromJSON(json: string): StaticExchangeRateProvider {
+    return new StaticExchangeRateProvider(JSON.parse(json));
+  }
+
+  async getRate(from: Currency, to: Currency): Promise<ExchangeRate | null> {
+    const fromRate = this.table.rates[from];
+    const toRate = this.table.rates[to];
+    if (!fromRate || !toRate) {
+      return null;
+    }
+
+    return {
+      from,
+      to,
+      rate: from === to ? '1' : crossRate(fromRate, toRate),
+      provider: this.name,
+      asOf: new Date(this.table.asOf),
+    };
+  }
+}
+
+/**
+ * Rate from one currency to another, given both rates against a common base
+ */
+export function crossRate(fromRate: string, toRate: string): string {
+  const from = parseRate(fromRate);
+  if (from === BigInt(0)) {
+    throw new RangeError('Exchange rate must be positive');
+  }
+  return formatRate(divideRounded(parseRate(toRate) * RATE_SCALE, from));
+}
+
+/**
+ * Take a percentage spread off a rate (e.g. 1.5 for 1.5%)
+ */
+export function applySpread(rate: string, spreadPercent: number): string {
+  if (spreadPercent === 0) {
+    return rate;
+  }
+  const hundred = BigInt(100) * RATE_SCALE;
+  const kept = hundred - parseRate(String(spreadPercent));
+  return formatRate(divideRounded(parseRate(rate) * kept, hundred));
+}
+
+/**
+ * Parse a non-negative decimal string into an integer scaled by RATE_SCALE
+ */
+function parseRate(rate: string): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(rate.trim());
+  if (!match) {
+    throw new RangeError(`Invalid exchange rate: ${rate}`);
+  }
+
+  const [, whole, fraction = ''] = match;
+  const digits = BigInt(whole + fraction.padEnd(RATE_PLACES, '0').slice(0, RATE_PLACES));
+  const roundUp = fraction.length > RATE_PLACES && fraction[RATE_PLACES] >= '5';
+  return roundUp ? digits + BigInt(1) : digits;
+}
+
+/**
+ * Render a scaled rate as a decimal string without trailing zeros
+ */
+function formatRate(scaled: bigint): string {
+  const digits = scaled.toString().padStart(RATE_PLACES + 1, '0');
+  const whole = digits.slice(0, digits.length - RATE_PLACES);
+  const fraction = digits.slice(digits.length - RATE_PLACES).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Divide non-negative integers, rounding half up
+ */
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  const quotient = numerator / denominator;
+  return (numerator % denominator) * BigInt(2) >= denominator ? quotient + BigInt(1) : quotient;
+}
@@ -5,5 +5,65 @@
 
 export { PaymentService } from './PaymentService';
 export { LedgerManager } from './LedgerManager';
+export { SubscriptionService, addBillingInterval } from './SubscriptionService';
+export { SubscriptionStore } from './SubscriptionStore';
+export { InvoiceService } from './InvoiceService';
+export { InvoiceStore } from './InvoiceStore';
+export { CouponService } from './CouponService';
+export { CouponStore } from './CouponStore';
+export { WebhookStore } from './WebhookStore';
+export {
+  WebhookDeliveryService,
+  MERCHANT_WEBHOOK_EVENTS,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './WebhookDeliveryService';
+export { WebhookDeliveryStore } from './WebhookDeliveryStore';
+export {
+  hmacSha256,
+  toHex,
+  toBase64,
+  timingSafeEqual,
+  signWebhookPayload,
+  verifyWebhookPayload,
+} from './webhookSignatures';
+export { renderInvoice, renderInvoiceHtml, renderInvoiceText } from './invoiceRenderer';
+export type { InvoiceFormat } from './invoiceRenderer';
 export { PaymentProcessor } from './PaymentProcessor';
+export {
+  registerProcessor,
+  unregisterProcessor,
+  getRegisteredProcessors,
+  createProcessorAdapter,
+} from './processorRegistry';
+export { StripeAdapter } from './processors/StripeAdapter';
+export { PayPalAdapter } from './processors/PayPalAdapter';
+export { SquareAdapter } from './processors/SquareAdapter';
+export { MockAdapter, MOCK_TEST_TOKENS, MOCK_TEST_AMOUNTS } from './processors/MockAdapter';
+export type { MockCharge } from './processors/MockAdapter';
+export { RiskEngine } from './RiskEngine';
+export { AllowDenyListRule, VelocityRule, DailyAmountRule, NewAccountRule } from './riskRules';
+export { PaymentError, InsufficientFundsError, InvalidTransitionError } from './errors';
+export {
+  TRANSACTION_TRANSITIONS,
+  canTransition,
+  assertTransition,
+  isFinalStatus,
+} from './TransactionStateMachine';
+export { StripeClient, StripeApiError } from './stripeClient';
+export type {
+  StripeClientOptions,
+  StripePaymentIntent,
+  StripePaymentIntentStatus,
+  StripeRefund,
+  StripePayout,
+  StripeDispute,
+  StripeEvent,
+  StripeErrorBody,
+} from './stripeClient';
+export { CurrencyConverter } from './CurrencyConverter';
+export { StaticExchangeRateProvider, crossRate, applySpread } from './exchangeRates';
+export type { ExchangeRateTable } from './exchangeRates';
+export { RuleTableTaxCalculator, taxOn, taxIncludedIn } from './taxCalculators';
 export * from './types';
+export * from './money';
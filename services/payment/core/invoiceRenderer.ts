@@ -0,0 +1,186 @@
+import { Invoice } from './types';
+import { formatMoney } from './money';
+
+/**
+ * Invoice Renderer
+ * Renders invoices as standalone HTML documents or plain text. A paid invoice
+ * renders as a receipt.
+ */
+
+export type InvoiceFormat = 'html' | 'text';
+
+/**
+ * Render an invoice in the given format
+ */
+export function renderInvoice(invoice: Invoice, format: InvoiceFormat): string {
+  return format === 'html' ? renderInvoiceHtml(invoice) : renderInvoiceText(invoice);
+}
+
+/**
+ * Render an invoice as a standalone HTML document
+ */
+export function renderInvoiceHtml(invoice: Invoice): string {
+  const title = `${documentTitle(invoice)} ${invoice.number}`;
+
+  const lineRows = invoice.lineItems
+    .map(
+      item => `
+        <tr>
+          <td>${escapeHtml(item.description)}</td>
+          <td class="quantity">${item.quantity}</td>
+          <td class="amount">${formatMoney(item.unitPrice)}</td>
+          <td class="amount">${formatMoney(item.amount)}</td>
+        </tr>`
+    )
+    .join('');
+
+  const totalRows = totalLines(invoice)
+    .map(
+      ([label, amount]) => `
+        <tr>
+          <td colspan="3">${escapeHtml(label)}</td>
+          <td class="amount">${amount}</td>
+        </tr>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: sans-serif; color: #1f2937; max-width: 640px; margin: 2rem auto; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 0.5rem; border-bottom: 1px solid #e5e7eb; text-align: left; }
+    .quantity, .amount { text-align: right; }
+    tfoot tr:last-child td { font-weight: bold; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <dl>
+    ${detailLines(invoice)
+      .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+      .join('\n    ')}
+  </dl>
+  <table>
+    <thead>
+      <tr>
+        <th>Description</th>
+        <th class="quantity">Qty</th>
+        <th class="amount">Unit price</th>
+        <th class="amount">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${lineRows}
+    </tbody>
+    <tfoot>${totalRows}
+    </tfoot>
+  </table>${invoice.memo ? `\n  <p>${escapeHtml(invoice.memo)}</p>` : ''}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render an invoice as plain text, e.g. for email bodies
+ */
+export function renderInvoiceText(invoice: Invoice): string {
+  const width = 48;
+  const row = (label: string, value: string) =>
+    `${label}${' '.repeat(Math.max(1, width - label.length - value.length))}${value}`;
+  const rule = '-'.repeat(width);
+
+  const lines = [
+    `${documentTitle(invoice).toUpperCase()} ${invoice.number}`,
+    '',
+    ...detailLines(invoice).map(([label, value]) => `${label}: ${value}`),
+    '',
+    rule,
+    ...invoice.lineItems.map(item =>
+      row(
+        item.quantity === 1 ? item.description : `${item.description} x ${item.quantity}`,
+        formatMoney(item.amount)
+      )
+    ),
+    rule,
+    ...totalLines(invoice).map(([label, amount]) => row(label, amount)),
+  ];
+
+  if (invoice.memo) {
+    lines.push('', invoice.memo);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Document heading: a paid invoice is a receipt
+ */
+function documentTitle(invoice: Invoice): string {
+  return invoice.status === 'paid' ? 'Receipt' : 'Invoice';
+}
+
+/**
+ * Label/value pairs shown under the heading
+ */
+function detailLines(invoice: Invoice): Array<[string, string]> {
+  const details: Array<[string, string]> = [
+    ['From', invoice.issuerId],
+    ['To', invoice.customerId],
+    ['Issued', formatDate(invoice.createdAt)],
+  ];
+
+  if (invoice.orderId) {
+    details.push(['Order', invoice.orderId]);
+  }
+
+  if (invoice.status === 'paid') {
+    details.push(['Paid', invoice.paidAt ? formatDate(invoice.paidAt) : 'Yes']);
+    if (invoice.transactionId) {
+      details.push(['Transaction', invoice.transactionId]);
+    }
+  } else {
+    details.push(['Due', formatDate(invoice.dueDate)]);
+  }
+
+  return details;
+}
+
+/**
+ * Subtotal, tax and total rows, with formatted amounts
+ */
+function totalLines(invoice: Invoice): Array<[string, string]> {
+  return [
+    ['Subtotal', formatMoney(invoice.subtotal)],
+    ...invoice.taxLines.map(
+      tax => [`${tax.name} (${tax.rate}%)`, formatMoney(tax.amount)] as [string, string]
+    ),
+    [invoice.status === 'paid' ? 'Total paid' : 'Total due', formatMoney(invoice.total)],
+  ];
+}
+
+/**
+ * Format a date for display, in UTC
+ */
+function formatDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  }).format(date);
+}
+
+/**
+ * Escape text for HTML element content and attribute values
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,318 @@
+import { Currency, Money } from './types';
+
+/**
+ * Money Helpers
+ * Exact arithmetic on integer minor-unit amounts
+ */
+
+/**
+ * Number of minor-unit digits per currency
+ */
+export const CURRENCY_DECIMALS: Record<Currency, number> = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  CAD: 2,
+  AUD: 2,
+};
+
+/**
+ * Create a Money value from integer minor units
+ */
+export function createMoney(minorUnits: number, currency: Currency): Money {
+  if (!Number.isSafeInteger(minorUnits)) {
+    throw new RangeError(`Money amount must be an integer number of minor units: ${minorUnits}`);
+  }
+  return { minorUnits, currency };
+}
+
+/**
+ * Zero in the given currency
+ */
+export function zeroMoney(currency: Currency): Money {
+  return createMoney(0, currency);
+}
+
+/**
+ * Create a Money value from a major-unit number (e.g. 49.99 dollars)
+ * Rounds half away from zero to the nearest minor unit
+ */
+export function moneyFromMajor(value: number, currency: Currency): Money {
+  return moneyFromDecimal(String(value), currency);
+}
+
+/**
+ * Convert a Money value to a major-unit number, for display and config comparison only
+ */
+export function moneyToMajor(value: Money): number {
+  return Number(moneyToDecimal(value));
+}
+
+/**
+ * Parse a decimal string (e.g. a SQL DECIMAL column) into Money without floating point
+ * Digits beyond the currency's minor unit are rounded half away from zero
+ */
+export function moneyFromDecimal(value: string | number, currency: Currency): Money {
+  const text = String(value).trim();
+  const match = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!match || (match[2] === '' && !match[3])) {
+    throw new RangeError(`Invalid decimal amount: ${value}`);
+  }
+
+  const [, sign, intPart, fracPart = '', exponent = '0'] = match;
+  const decimals = CURRENCY_DECIMALS[currency];
+
+  // Shift the decimal point by the exponent and the currency's decimals
+  let digits = (intPart || '0') + fracPart;
+  let point = (intPart || '0').length + parseInt(exponent, 10) + decimals;
+  if (point < 0) {
+    digits = '0'.repeat(-point) + digits;
+    point = 0;
+  }
+  if (point > digits.length) {
+    digits = digits + '0'.repeat(point - digits.length);
+  }
+
+  let minorUnits = Number(digits.slice(0, point) || '0');
+  const remainder = digits.slice(point);
+  if (remainder.length > 0 && remainder[0] >= '5') {
+    minorUnits += 1;
+  }
+
+  return createMoney(sign === '-' && minorUnits !== 0 ? -minorUnits : minorUnits, currency);
+}
+
+/**
+ * Render Money as an exact decimal string (e.g. "49.99") for SQL DECIMAL columns
+ */
+export function moneyToDecimal(value: Money): string {
+  const decimals = CURRENCY_DECIMALS[value.currency];
+  const negative = value.minorUnits < 0;
+  const digits = Math.abs(value.minorUnits).toString().padStart(decimals + 1, '0');
+
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals);
+
+  return `${negative ? '-' : ''}${whole}${decimals > 0 ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Add Money values of the same currency
+ */
+export function addMoney(a: Money, ...rest: Money[]): Money {
+  return rest.reduce((sum, value) => {
+    assertSameCurrency(sum, value);
+    return createMoney(sum.minorUnits + value.minorUnits, sum.currency);
+  }, a);
+}
+
+/**
+ * Subtract b from a
+ */
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return createMoney(a.minorUnits - b.minorUnits, a.currency);
+}
+
+/**
+ * Negate a Money value
+ */
+export function negateMoney(value: Money): Money {
+  return createMoney(-value.minorUnits || 0, value.currency);
+}
+
+/**
+ * Multiply by a factor, rounding half away from zero to the nearest minor unit
+ * Exact: the factor is taken as the decimal it is written as, so 500 * 0.029 is 14.5 and
+ * rounds to 15.
+ */
+export function multiplyMoney(value: Money, factor: number): Money {
+  const [numerator, denominator] = decimalFraction(factor);
+  return createMoney(
+    roundHalfAwayFromZero(BigInt(value.minorUnits) * numerator, denominator),
+    value.currency
+  );
+}
+
+/**
+ * Percentage of a Money value (e.g. 2.9 for 2.9%), exact as multiplyMoney is
+ */
+export function percentOfMoney(value: Money, percent: number): Money {
+  const [numerator, denominator] = decimalFraction(percent);
+  return createMoney(
+    roundHalfAwayFromZero(BigInt(value.minorUnits) * numerator, denominator * BigInt(100)),
+    value.currency
+  );
+}
+
+/**
+ * Split a Money value by ratios without losing or creating minor units
+ * Leftover units go to the parts with the largest remainders. Exact: the ratios are
+ * scaled to whole numbers and the shares worked out in BigInt.
+ */
+export function allocateMoney(value: Money, ratios: number[]): Money[] {
+  if (ratios.length === 0 || ratios.some(ratio => !Number.isFinite(ratio) || ratio < 0)) {
+    throw new RangeError('Allocation ratios must be non-negative and sum to more than zero');
+  }
+
+  const fractions = ratios.map(decimalFraction);
+  const commonDenominator = fractions.reduce(
+    (common, [, denominator]) => (common / greatestCommonDivisor(common, denominator)) * denominator,
+    BigInt(1)
+  );
+  const weights = fractions.map(
+    ([numerator, denominator]) => numerator * (commonDenominator / denominator)
+  );
+  const total = weights.reduce((sum, weight) => sum + weight, BigInt(0));
+  if (total <= BigInt(0)) {
+    throw new RangeError('Allocation ratios must be non-negative and sum to more than zero');
+  }
+
+  const sign = value.minorUnits < 0 ? -1 : 1;
+  const units = BigInt(Math.abs(value.minorUnits));
+
+  const parts = weights.map(weight => (units * weight) / total);
+  let leftover = units - parts.reduce((sum, part) => sum + part, BigInt(0));
+
+  const byRemainder = weights
+    .map((weight, index) => ({ index, remainder: (units * weight) % total }))
+    .sort((a, b) =>
+      a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1
+    );
+
+  for (let i = 0; leftover > BigInt(0); i++, leftover--) {
+    parts[byRemainder[i % byRemainder.length].index] += BigInt(1);
+  }
+
+  return parts.map(part => createMoney(sign * Number(part) || 0, value.currency));
+}
+
+/**
+ * Share of a Money value proportional to part / whole, e.g. the slice of a fee
+ * belonging to a partial refund. The share of the whole is exactly the value.
+ */
+export function shareOfMoney(value: Money, part: Money, whole: Money): Money {
+  assertSameCurrency(part, whole);
+  if (whole.minorUnits <= 0 || part.minorUnits < 0 || part.minorUnits > whole.minorUnits) {
+    throw new RangeError('Share must be a part of a positive whole');
+  }
+
+  if (part.minorUnits === 0) {
+    return zeroMoney(value.currency);
+  }
+
+  return allocateMoney(value, [part.minorUnits, whole.minorUnits - part.minorUnits])[0];
+}
+
+/**
+ * Convert Money into another currency at a decimal-string rate (units of `to` per unit of
+ * value's currency). Exact: rounds half away from zero once, to the target's minor unit.
+ */
+export function convertMoney(value: Money, to: Currency, rate: string): Money {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(rate.trim());
+  if (!match) {
+    throw new RangeError(`Invalid exchange rate: ${rate}`);
+  }
+
+  const [, whole, fraction = ''] = match;
+  const scale = fraction.length + CURRENCY_DECIMALS[value.currency] - CURRENCY_DECIMALS[to];
+
+  let numerator = BigInt(value.minorUnits) * BigInt(whole + fraction);
+  let denominator = BigInt(1);
+  if (scale >= 0) {
+    denominator = BigInt(10) ** BigInt(scale);
+  } else {
+    numerator *= BigInt(10) ** BigInt(-scale);
+  }
+
+  return createMoney(roundHalfAwayFromZero(numerator, denominator), to);
+}
+
+/**
+ * A number as the exact fraction of the decimal it prints as, e.g. 0.029 as 29 / 1000
+ */
+function decimalFraction(value: number): [bigint, bigint] {
+  const match = Number.isFinite(value)
+    ? /^(-?)(\d+)(?:\.(\d+))?(?:e([+-]\d+))?$/.exec(String(value))
+    : null;
+  if (!match) {
+    throw new RangeError(`Invalid factor: ${value}`);
+  }
+
+  const [, sign, whole, fraction = '', exponent = '0'] = match;
+  const scale = fraction.length - Number(exponent);
+
+  let numerator = BigInt(`${sign}${whole}${fraction}`);
+  let denominator = BigInt(1);
+  if (scale >= 0) {
+    denominator = BigInt(10) ** BigInt(scale);
+  } else {
+    numerator *= BigInt(10) ** BigInt(-scale);
+  }
+
+  return [numerator, denominator];
+}
+
+/**
+ * Greatest common divisor of two positive BigInts
+ */
+function greatestCommonDivisor(a: bigint, b: bigint): bigint {
+  while (b > BigInt(0)) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+/**
+ * numerator / denominator (denominator positive) rounded half away from zero
+ */
+function roundHalfAwayFromZero(numerator: bigint, denominator: bigint): number {
+  const negative = numerator < 0;
+  const magnitude = negative ? -numerator : numerator;
+  let quotient = magnitude / denominator;
+  if ((magnitude % denominator) * BigInt(2) >= denominator) {
+    quotient += BigInt(1);
+  }
+
+  return Number(negative ? -quotient : quotient) || 0;
+}
+
+/**
+ * Compare Money values: -1 if a < b, 0 if equal, 1 if a > b
+ */
+export function compareMoney(a: Money, b: Money): -1 | 0 | 1 {
+  assertSameCurrency(a, b);
+  if (a.minorUnits === b.minorUnits) return 0;
+  return a.minorUnits < b.minorUnits ? -1 : 1;
+}
+
+export function isZeroMoney(value: Money): boolean {
+  return value.minorUnits === 0;
+}
+
+export function isPositiveMoney(value: Money): boolean {
+  return value.minorUnits > 0;
+}
+
+export function isNegativeMoney(value: Money): boolean {
+  return value.minorUnits < 0;
+}
+
+/**
+ * Format Money for display
+ */
+export function formatMoney(value: Money, locale: string = 'en-US'): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: value.currency,
+  }).format(moneyToMajor(value));
+}
+
+/**
+ * Throw if two Money values are in different currencies
+ */
+export function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Currency mismatch: ${a.currency} and ${b.currency}`);
+  }
+}
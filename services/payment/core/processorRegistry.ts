@@ -0,0 +1,58 @@
+import { PaymentProcessorConfig, ProcessorAdapter, ProcessorAdapterFactory } from './types';
+import { StripeAdapter } from './processors/StripeAdapter';
+import { PayPalAdapter } from './processors/PayPalAdapter';
+import { SquareAdapter } from './processors/SquareAdapter';
+import { MockAdapter } from './processors/MockAdapter';
+
+/**
+ * Processor Registry
+ * Processor adapters by provider name; the built-in ones are registered on load
+ */
+
+const factories = new Map<string, ProcessorAdapterFactory>([
+  ['stripe', config => new StripeAdapter(config)],
+  ['paypal', config => new PayPalAdapter(config)],
+  ['square', config => new SquareAdapter(config)],
+  ['mock', config => new MockAdapter(config)],
+]);
+
+/**
+ * Register a processor, to be used by setting PaymentProcessorConfig.provider to its name
+ * Register before initializing the services that use it. A name can only be
+ * registered once; unregister it first to replace it.
+ */
+export function registerProcessor(name: string, factory: ProcessorAdapterFactory): void {
+  if (!name) {
+    throw new Error('Processor name is required');
+  }
+  if (factories.has(name)) {
+    throw new Error(`Payment processor ${name} is already registered`);
+  }
+  factories.set(name, factory);
+}
+
+/**
+ * Remove a registered processor
+ */
+export function unregisterProcessor(name: string): boolean {
+  return factories.delete(name);
+}
+
+/**
+ * Names of the registered processors
+ */
+export function getRegisteredProcessors(): string[] {
+  return [...factories.keys()];
+}
+
+/**
+ * Create the adapter for the configured provider
+ */
+export function createProcessorAdapter(config: PaymentProcessorConfig): ProcessorAdapter {
+  const factory = factories.get(config.provider);
+  if (!factory) {
+    const registered = getRegisteredProcessors().join(', ');
+    throw new Error(`Unsupported payment provider: ${config.provider} (registered: ${registered})`);
+  }
+  return factory(config);
+}
@@ -0,0 +1,438 @@
+import {
+  ProcessorAdapter,
+  ProcessorCapabilities,
+  ProcessorEvent,
+  ProcessorEventType,
+  PaymentProcessorConfig,
+  ProcessorChargeResult,
+  MockOutcome,
+  MockProcessorOptions,
+  TransactionStatus,
+  Currency,
+  Money,
+  PaymentMethod,
+  DisputeEvidence,
+  WebhookHeaders,
+} from '../types';
+import { addMoney, compareMoney, createMoney, zeroMoney } from '../money';
+import { hmacSha256, timingSafeEqual, toHex } from '../webhookSignatures';
+
+/**
+ * Body of a mock webhook; type is already a processor event type
+ */
+interface MockWebhookBody {
+  id: string;
+  type: string;
+  created: string;
+  data: {
+    reference?: string;
+    refundReference?: string;
+    /** Refund amount in minor units, with currency */
+    amount?: number;
+    currency?: Currency;
+    transactionId?: string;
+    reason?: string;
+  };
+}
+
+const MOCK_EVENT_TYPES: ProcessorEventType[] = [
+  'payment.succeeded',
+  'payment.failed',
+  'payment.cancelled',
+  'refund.succeeded',
+  'payout.paid',
+  'payout.failed',
+];
+
+/**
+ * Payment method tokens (metadata.paymentMethodToken) with a fixed outcome
+ */
+export const MOCK_TEST_TOKENS: Record<string, MockOutcome> = {
+  mock_card_success: 'succeeded',
+  mock_card_declined: 'declined',
+  mock_card_insufficient_funds: 'insufficient_funds',
+  mock_card_timeout: 'timeout',
+  mock_card_requires_action: 'requires_action',
+};
+
+/**
+ * Amounts, in minor units of any currency, with a fixed outcome
+ * The last two digits are the ISO 8583 response codes for the outcome.
+ */
+export const MOCK_TEST_AMOUNTS: Record<number, MockOutcome> = {
+  400005: 'declined', // 05: do not honor
+  400051: 'insufficient_funds', // 51: insufficient funds
+  400065: 'requires_action', // 65: authentication required
+  400068: 'timeout', // 68: response received too late
+};
+
+/**
+ * Error each failed outcome returns
+ */
+const MOCK_OUTCOME_ERRORS: Record<Exclude<MockOutcome, 'succeeded'>, string> = {
+  declined: 'Your card was declined.',
+  insufficient_funds: 'Your card has insufficient funds.',
+  timeout: 'Mock processor did not respond in time',
+  requires_action: 'Payment requires customer authentication (3D Secure)',
+};
+
+/**
+ * A charge or authorization made through the mock processor
+ */
+export interface MockCharge {
+  reference: string;
+  /** Amount charged; for authorizations, the amount held until captured */
+  amount: Money;
+  refunded: Money;
+  status: Extract<
+    TransactionStatus,
+    'authorized' | 'completed' | 'partially_refunded' | 'refunded' | 'cancelled'
+  >;
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+/**
+ * Mock Adapter
+ * Simulated payments for development and tests. Outcomes come from the
+ * configured rules, then the test tokens and amounts, then the seeded failure
+ * rate; charges are kept in memory, so captures, voids, refunds and
+ * verifyPayment act on what was charged.
+ */
+export class MockAdapter implements ProcessorAdapter {
+  readonly name = 'mock';
+  readonly capabilities: ProcessorCapabilities = {
+    refunds: true,
+    partialRefunds: true,
+    authorizeCapture: true,
+    partialCapture: true,
+    voids: true,
+    payouts: true,
+    disputes: true,
+    webhooks: true,
+  };
+
+  /** Charges and authorizations by reference */
+  readonly charges = new Map<string, MockCharge>();
+
+  private readonly options: MockProcessorOptions;
+  private readonly random: () => number;
+
+  /** References are unique per instance, not seeded, so a restart cannot repeat them */
+  private readonly runId = `${Date.now().toString(36)}${Math.random().toString(36).substr(2, 4)}`;
+  private referenceCount = 0;
+
+  constructor(config?: PaymentProcessorConfig) {
+    this.options = config?.mock || {};
+    this.random =
+      this.options.seed !== undefined ? seededRandom(this.options.seed) : Math.random;
+  }
+
+  /**
+   * Mock payment processing (for testing)
+   */
+  async processPayment(
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    metadata?: Record<string, unknown>
+  ): Promise<ProcessorChargeResult> {
+    await this.delay();
+
+    const declined = this.decline(amount, metadata);
+    if (declined) {
+      return declined;
+    }
+
+    const charge = this.recordCharge('mock', amount, 'completed', metadata);
+    return { success: true, reference: charge.reference };
+  }
+
+  /**
+   * Mock refund processing
+   */
+  async processRefund(
+    reference: string,
+    amount: Money,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }> {
+    await this.delay();
+
+    const charge = this.charges.get(reference);
+    if (!charge) {
+      return { success: false, error: `No such mock charge: ${reference}` };
+    }
+    if (charge.status !== 'completed' && charge.status !== 'partially_refunded') {
+      return { success: false, error: `Mock charge ${reference} is ${charge.status}` };
+    }
+
+    const refunded = addMoney(charge.refunded, amount);
+    if (compareMoney(refunded, charge.amount) > 0) {
+      return { success: false, error: 'Refund exceeds the unrefunded amount of the charge' };
+    }
+
+    charge.refunded = refunded;
+    charge.status = compareMoney(refunded, charge.amount) === 0 ? 'refunded' : 'partially_refunded';
+
+    return { success: true, reference: this.nextReference('mock_re') };
+  }
+
+  /**
+   * Mock authorization
+   */
+  async authorize(
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    metadata?: Record<string, unknown>
+  ): Promise<ProcessorChargeResult> {
+    await this.delay();
+
+    const declined = this.decline(amount, metadata);
+    if (declined) {
+      return declined;
+    }
+
+    const charge = this.recordCharge('mock_auth', amount, 'authorized', metadata);
+    return { success: true, reference: charge.reference };
+  }
+
+  /**
+   * Mock capture
+   */
+  async capture(
+    reference: string,
+    amount: Money
+  ): Promise<{ success: boolean; error?: string }> {
+    await this.delay();
+
+    const charge = this.charges.get(reference);
+    if (charge?.status !== 'authorized') {
+      return { success: false, error: `No open mock authorization: ${reference}` };
+    }
+    if (compareMoney(amount, charge.amount) > 0) {
+      return { success: false, error: 'Capture exceeds the authorized amount' };
+    }
+
+    charge.amount = amount;
+    charge.status = 'completed';
+
+    return { success: true };
+  }
+
+  /**
+   * Mock authorization void
+   */
+  async voidAuthorization(
+    reference: string
+  ): Promise<{ success: boolean; error?: string }> {
+    await this.delay();
+
+    const charge = this.charges.get(reference);
+    if (charge?.status !== 'authorized') {
+      return { success: false, error: `No open mock authorization: ${reference}` };
+    }
+
+    charge.status = 'cancelled';
+    return { success: true };
+  }
+
+  /**
+   * Mock void processing; only charges with nothing refunded can be voided
+   */
+  async voidPayment(
+    reference: string
+  ): Promise<{ success: boolean; error?: string }> {
+    await this.delay();
+
+    const charge = this.charges.get(reference);
+    if (charge?.status !== 'completed') {
+      return { success: false, error: `No voidable mock charge: ${reference}` };
+    }
+
+    charge.status = 'cancelled';
+    return { success: true };
+  }
+
+  /**
+   * Mock payout
+   */
+  async sendPayout(
+    amount: Money,
+    destinationReference: string,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }> {
+    await this.delay();
+
+    if (this.randomFailure()) {
+      return {
+        success: false,
+        error: 'Mock payout rejected (random failure)',
+      };
+    }
+
+    return {
+      success: true,
+      reference: this.nextReference('mock_po'),
+    };
+  }
+
+  /**
+   * Mock dispute evidence
+   */
+  async submitDisputeEvidence(
+    disputeReference: string,
+    evidence: DisputeEvidence
+  ): Promise<{ success: boolean; error?: string }> {
+    await this.delay();
+    return { success: true };
+  }
+
+  /**
+   * Mock webhook signature: x-mock-signature is the hex HMAC-SHA256 of the body
+   */
+  async verifyWebhook(
+    payload: string,
+    headers: WebhookHeaders,
+    secret: string
+  ): Promise<boolean> {
+    const signature = headers['x-mock-signature'];
+    if (!signature) {
+      return false;
+    }
+
+    return timingSafeEqual(signature, toHex(await hmacSha256(secret, payload)));
+  }
+
+  /**
+   * Mock webhook event
+   */
+  parseWebhookEvent(payload: string): ProcessorEvent {
+    const event: MockWebhookBody = JSON.parse(payload);
+    const { reference, refundReference, amount, currency, transactionId, reason } =
+      event.data || {};
+    const type = MOCK_EVENT_TYPES.find(known => known === event.type);
+
+    return {
+      id: event.id,
+      providerType: event.type,
+      type,
+      reference,
+      refundReference,
+      amount: amount !== undefined && currency ? createMoney(amount, currency) : undefined,
+      transactionId,
+      reason,
+      createdAt: new Date(event.created),
+    };
+  }
+
+  /**
+   * Mock payment verification: the charge's status, from the charges made
+   * through this adapter
+   */
+  async verifyPayment(reference: string): Promise<{ verified: boolean; status: string }> {
+    const charge = this.charges.get(reference);
+    if (!charge) {
+      return { verified: false, status: 'not_found' };
+    }
+
+    return { verified: charge.status !== 'cancelled', status: charge.status };
+  }
+
+  /**
+   * Failed result for a charge or authorization that fails, if it does
+   * A timeout throws, as a request that never got an answer would.
+   */
+  private decline(
+    amount: Money,
+    metadata?: Record<string, unknown>
+  ): ProcessorChargeResult | undefined {
+    const outcome = this.outcomeFor(amount, metadata?.paymentMethodToken);
+    if (outcome === 'timeout') {
+      throw new Error(MOCK_OUTCOME_ERRORS.timeout);
+    }
+    if (outcome !== 'succeeded') {
+      return {
+        success: false,
+        requiresAction: outcome === 'requires_action' || undefined,
+        error: MOCK_OUTCOME_ERRORS[outcome],
+      };
+    }
+    if (this.randomFailure()) {
+      return { success: false, error: 'Mock payment failed (random failure)' };
+    }
+    return undefined;
+  }
+
+  /**
+   * Outcome of the first matching rule, test token or test amount
+   */
+  private outcomeFor(amount: Money, token: unknown): MockOutcome {
+    const rule = this.options.rules?.find(
+      candidate =>
+        (candidate.amount === undefined || candidate.amount === amount.minorUnits) &&
+        (candidate.currency === undefined || candidate.currency === amount.currency) &&
+        (candidate.token === undefined || candidate.token === token)
+    );
+    if (rule) {
+      return rule.outcome;
+    }
+
+    if (typeof token === 'string' && MOCK_TEST_TOKENS[token]) {
+      return MOCK_TEST_TOKENS[token];
+    }
+
+    return MOCK_TEST_AMOUNTS[amount.minorUnits] || 'succeeded';
+  }
+
+  /**
+   * Keep a successful charge or authorization
+   */
+  private recordCharge(
+    prefix: string,
+    amount: Money,
+    status: MockCharge['status'],
+    metadata?: Record<string, unknown>
+  ): MockCharge {
+    const charge: MockCharge = {
+      reference: this.nextReference(prefix),
+      amount,
+      refunded: zeroMoney(amount.currency),
+      status,
+      metadata,
+      createdAt: new Date(),
+    };
+
+    this.charges.set(charge.reference, charge);
+    return charge;
+  }
+
+  private randomFailure(): boolean {
+    return this.random() < (this.options.failureRate ?? 0);
+  }
+
+  private nextReference(prefix: string): string {
+    this.referenceCount += 1;
+    return `${prefix}_${this.runId}_${this.referenceCount}`;
+  }
+
+  private async delay(): Promise<void> {
+    if (this.options.latencyMs) {
+      await new Promise(resolve => setTimeout(resolve, this.options.latencyMs));
+    }
+  }
+}
+
+/**
+ * Seeded random number generator (mulberry32): the same seed gives the same
+ * numbers in [0, 1)
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,161 @@
+import {
+  PaymentProcessorConfig,
+  ProcessorAdapter,
+  ProcessorCapabilities,
+  Money,
+  PaymentMethod,
+  DisputeEvidence,
+} from '../types';
+
+/**
+ * PayPal Adapter
+ * PayPal payments; only test mode is implemented so far.
+ * PayPal signs webhooks with certificates rather than a shared secret, so they
+ * are not accepted.
+ */
+export class PayPalAdapter implements ProcessorAdapter {
+  readonly name = 'paypal';
+  readonly capabilities: ProcessorCapabilities = {
+    refunds: true,
+    partialRefunds: true,
+    authorizeCapture: true,
+    partialCapture: true,
+    voids: true,
+    payouts: true,
+    disputes: true,
+    webhooks: false,
+  };
+
+  constructor(private config: PaymentProcessorConfig) {}
+
+  /**
+   * PayPal payment processing
+   */
+  async processPayment(
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }> {
+    // PayPal integration would go here
+    if (this.config.testMode) {
+      return {
+        success: true,
+        reference: `paypal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      };
+    }
+
+    throw new Error('PayPal integration not yet implemented');
+  }
+
+  /**
+   * PayPal refund processing
+   */
+  async processRefund(
+    reference: string,
+    amount: Money
+  ): Promise<{ success: boolean; error?: string }> {
+    if (this.config.testMode) {
+      return { success: true };
+    }
+
+    throw new Error('PayPal refund not yet implemented');
+  }
+
+  /**
+   * PayPal void
+   */
+  async voidPayment(
+    reference: string
+  ): Promise<{ success: boolean; error?: string }> {
+    if (this.config.testMode) {
+      return { success: true };
+    }
+
+    throw new Error('PayPal void not yet implemented');
+  }
+
+  /**
+   * PayPal authorization
+   */
+  async authorize(
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }> {
+    if (this.config.testMode) {
+      return {
+        success: true,
+        reference: `paypal_auth_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      };
+    }
+
+    throw new Error('PayPal authorization not yet implemented');
+  }
+
+  /**
+   * PayPal capture
+   */
+  async capture(
+    reference: string,
+    amount: Money
+  ): Promise<{ success: boolean; error?: string }> {
+    if (this.config.testMode) {
+      return { success: true };
+    }
+
+    throw new Error('PayPal capture not yet implemented');
+  }
+
+  /**
+   * PayPal authorization void
+   */
+  async voidAuthorization(
+    reference: string
+  ): Promise<{ success: boolean; error?: string }> {
+    if (this.config.testMode) {
+      return { success: true };
+    }
+
+    throw new Error('PayPal void not yet implemented');
+  }
+
+  /**
+   * PayPal payout
+   */
+  async sendPayout(
+    amount: Money,
+    destinationReference: string,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }> {
+    if (this.config.testMode) {
+      return {
+        success: true,
+        reference: `paypal_po_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      };
+    }
+
+    throw new Error('PayPal payout not yet implemented');
+  }
+
+  /**
+   * PayPal dispute evidence
+   */
+  async submitDisputeEvidence(
+    disputeReference: string,
+    evidence: DisputeEvidence
+  ): Promise<{ success: boolean; error?: string }> {
+    if (this.config.testMode) {
+      return { success: true };
+    }
+
+    throw new Error('PayPal dispute evidence not yet implemented');
+  }
+
+  /**
+   * PayPal payment verification
+   */
+  async verifyPayment(reference: string): Promise<{ verified: boolean; status: string }> {
+    // Implementation would verify payment with provider
+    return { verified: true, status: 'completed' };
+  }
+}
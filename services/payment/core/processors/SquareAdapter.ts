@@ -0,0 +1,234 @@
+import {
+  PaymentProcessorConfig,
+  ProcessorAdapter,
+  ProcessorCapabilities,
+  ProcessorEvent,
+  ProcessorEventType,
+  Currency,
+  Money,
+  PaymentMethod,
+  DisputeEvidence,
+  WebhookHeaders,
+} from '../types';
+import { createMoney, CURRENCY_DECIMALS } from '../money';
+import { hmacSha256, timingSafeEqual, toBase64 } from '../webhookSignatures';
+
+/**
+ * Processor event each final Square payment status corresponds to
+ */
+const SQUARE_PAYMENT_STATUSES: Record<string, ProcessorEventType> = {
+  COMPLETED: 'payment.succeeded',
+  FAILED: 'payment.failed',
+  CANCELED: 'payment.cancelled',
+};
+
+/**
+ * Square Adapter
+ * Square payments; only test mode is implemented so far.
+ * Square captures delayed payments in full, so partial capture is not supported.
+ */
+export class SquareAdapter implements ProcessorAdapter {
+  readonly name = 'square';
+  readonly capabilities: ProcessorCapabilities = {
+    refunds: true,
+    partialRefunds: true,
+    authorizeCapture: true,
+    partialCapture: false,
+    voids: true,
+    payouts: true,
+    disputes: true,
+    webhooks: true,
+  };
+
+  constructor(private config: PaymentProcessorConfig) {}
+
+  /**
+   * Square payment processing
+   */
+  async processPayment(
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }> {
+    // Square integration would go here
+    if (this.config.testMode) {
+      return {
+        success: true,
+        reference: `square_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      };
+    }
+
+    throw new Error('Square integration not yet implemented');
+  }
+
+  /**
+   * Square refund processing
+   */
+  async processRefund(
+    reference: string,
+    amount: Money
+  ): Promise<{ success: boolean; error?: string }> {
+    if (this.config.testMode) {
+      return { success: true };
+    }
+
+    throw new Error('Square refund not yet implemented');
+  }
+
+  /**
+   * Square void
+   */
+  async voidPayment(
+    reference: string
+  ): Promise<{ success: boolean; error?: string }> {
+    if (this.config.testMode) {
+      return { success: true };
+    }
+
+    throw new Error('Square void not yet implemented');
+  }
+
+  /**
+   * Square authorization (delayed capture)
+   */
+  async authorize(
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }> {
+    if (this.config.testMode) {
+      return {
+        success: true,
+        reference: `square_auth_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      };
+    }
+
+    throw new Error('Square authorization not yet implemented');
+  }
+
+  /**
+   * Square capture
+   */
+  async capture(
+    reference: string,
+    amount: Money
+  ): Promise<{ success: boolean; error?: string }> {
+    if (this.config.testMode) {
+      return { success: true };
+    }
+
+    throw new Error('Square capture not yet implemented');
+  }
+
+  /**
+   * Square authorization void
+   */
+  async voidAuthorization(
+    reference: string
+  ): Promise<{ success: boolean; error?: string }> {
+    if (this.config.testMode) {
+      return { success: true };
+    }
+
+    throw new Error('Square void not yet implemented');
+  }
+
+  /**
+   * Square payout
+   */
+  async sendPayout(
+    amount: Money,
+    destinationReference: string,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }> {
+    if (this.config.testMode) {
+      return {
+        success: true,
+        reference: `square_po_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      };
+    }
+
+    throw new Error('Square payout not yet implemented');
+  }
+
+  /**
+   * Square dispute evidence
+   */
+  async submitDisputeEvidence(
+    disputeReference: string,
+    evidence: DisputeEvidence
+  ): Promise<{ success: boolean; error?: string }> {
+    if (this.config.testMode) {
+      return { success: true };
+    }
+
+    throw new Error('Square dispute evidence not yet implemented');
+  }
+
+  /**
+   * Square webhook signature: x-square-hmacsha256-signature is the base64
+   * HMAC-SHA256 of the notification URL followed by the body, with the signature key
+   */
+  async verifyWebhook(
+    payload: string,
+    headers: WebhookHeaders,
+    secret: string
+  ): Promise<boolean> {
+    if (!this.config.webhookUrl) {
+      throw new Error('Square webhooks need webhookUrl, the notification URL they are signed with');
+    }
+
+    const signature = headers['x-square-hmacsha256-signature'];
+    if (!signature) {
+      return false;
+    }
+
+    const expected = toBase64(await hmacSha256(secret, `${this.config.webhookUrl}${payload}`));
+    return timingSafeEqual(signature, expected);
+  }
+
+  /**
+   * Square webhook event (payment.updated, refund.created, refund.updated)
+   */
+  parseWebhookEvent(payload: string): ProcessorEvent {
+    const event = JSON.parse(payload);
+    const parsed: ProcessorEvent = {
+      id: event.event_id,
+      providerType: event.type,
+      createdAt: new Date(event.created_at),
+    };
+
+    const payment = event.data?.object?.payment;
+    if (event.type === 'payment.updated' && payment) {
+      return { ...parsed, type: SQUARE_PAYMENT_STATUSES[payment.status], reference: payment.id };
+    }
+
+    const refund = event.data?.object?.refund;
+    if ((event.type === 'refund.created' || event.type === 'refund.updated') && refund) {
+      if (refund.status !== 'COMPLETED') {
+        return { ...parsed, reference: refund.payment_id };
+      }
+
+      const { amount, currency } = refund.amount_money || {};
+      const known = currency in CURRENCY_DECIMALS;
+      return {
+        ...parsed,
+        type: 'refund.succeeded',
+        reference: refund.payment_id,
+        refundReference: refund.id,
+        amount: known ? createMoney(amount, currency as Currency) : undefined,
+        reason: refund.reason || undefined,
+      };
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Square payment verification
+   */
+  async verifyPayment(reference: string): Promise<{ verified: boolean; status: string }> {
+    // Implementation would verify payment with provider
+    return { verified: true, status: 'completed' };
+  }
+}
@@ -0,0 +1,408 @@
+import {
+  PaymentProcessorConfig,
+  ProcessorAdapter,
+  ProcessorCapabilities,
+  ProcessorChargeResult,
+  ProcessorEvent,
+  ProcessorEventType,
+  Currency,
+  Money,
+  PaymentMethod,
+  DisputeEvidence,
+  TransactionStatus,
+  WebhookHeaders,
+} from '../types';
+import {
+  StripeApiError,
+  StripeClient,
+  StripeEvent,
+  StripePaymentIntent,
+  StripePaymentIntentStatus,
+} from '../stripeClient';
+import { createMoney, CURRENCY_DECIMALS } from '../money';
+import { verifyWebhookPayload } from '../webhookSignatures';
+
+/**
+ * Transaction status each Stripe PaymentIntent status corresponds to
+ */
+const STRIPE_STATUSES: Record<StripePaymentIntentStatus, TransactionStatus> = {
+  requires_payment_method: 'pending',
+  requires_confirmation: 'pending',
+  requires_action: 'pending',
+  processing: 'processing',
+  requires_capture: 'authorized',
+  canceled: 'cancelled',
+  succeeded: 'completed',
+};
+
+/**
+ * Processor event each Stripe event type corresponds to
+ * Refund events count once the refund has succeeded; a cancelled payout fails.
+ */
+const STRIPE_EVENT_TYPES: Record<string, ProcessorEventType> = {
+  'payment_intent.succeeded': 'payment.succeeded',
+  'payment_intent.payment_failed': 'payment.failed',
+  'payment_intent.canceled': 'payment.cancelled',
+  'refund.created': 'refund.succeeded',
+  'refund.updated': 'refund.succeeded',
+  'payout.paid': 'payout.paid',
+  'payout.failed': 'payout.failed',
+  'payout.canceled': 'payout.failed',
+};
+
+/**
+ * Seconds a webhook's signature timestamp may be from now, as in Stripe's libraries
+ */
+const STRIPE_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Stripe Adapter
+ * Payments and authorizations as PaymentIntents through the Stripe REST API
+ */
+export class StripeAdapter implements ProcessorAdapter {
+  readonly name = 'stripe';
+  readonly capabilities: ProcessorCapabilities = {
+    refunds: true,
+    partialRefunds: true,
+    authorizeCapture: true,
+    partialCapture: true,
+    voids: true,
+    payouts: true,
+    disputes: true,
+    webhooks: true,
+  };
+
+  private stripe?: StripeClient;
+
+  constructor(private config: PaymentProcessorConfig) {}
+
+  /**
+   * Stripe payment processing
+   * Creates and confirms a PaymentIntent for the payer's saved card
+   * (metadata.paymentMethodToken), keyed by transaction so a retry charges once.
+   * Bank debits stay processing until Stripe's webhook reports the outcome.
+   */
+  async processPayment(
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    metadata?: Record<string, unknown>
+  ): Promise<ProcessorChargeResult> {
+    const { paymentMethodToken, ...intentMetadata } = metadata || {};
+    if (typeof paymentMethodToken !== 'string' || !paymentMethodToken) {
+      return {
+        success: false,
+        error: 'Stripe payments need metadata.paymentMethodToken (a PaymentMethod ID)',
+      };
+    }
+
+    const intent = await this.stripeClient()
+      .createPaymentIntent(
+        { amount, paymentMethod: paymentMethodToken, metadata: intentMetadata },
+        metadata?.transactionId ? `charge_${metadata.transactionId}` : undefined
+      )
+      .catch(declinedCard);
+
+    if (intent.status === 'processing') {
+      return { success: true, pending: true, reference: intent.id };
+    }
+
+    if (intent.status !== 'succeeded') {
+      return declinedIntent(intent);
+    }
+
+    return { success: true, reference: intent.id };
+  }
+
+  /**
+   * Stripe refund processing
+   * The refund transaction goes in the refund's metadata, so its webhook is known as ours
+   */
+  async processRefund(
+    reference: string,
+    amount: Money,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }> {
+    const refund = await this.stripeClient().createRefund(
+      { paymentIntent: reference, amount, metadata },
+      metadata?.transactionId ? `refund_${metadata.transactionId}` : undefined
+    );
+
+    // Card refunds are pending until the issuer confirms them, and rarely fail after
+    if (refund.status === 'failed' || refund.status === 'canceled') {
+      return {
+        success: false,
+        reference: refund.id,
+        error: `Stripe refund ${refund.id} ${refund.status}: ${
+          refund.failure_reason || 'unknown reason'
+        }`,
+      };
+    }
+
+    return { success: true, reference: refund.id };
+  }
+
+  /**
+   * Stripe void (cancel the PaymentIntent before it settles)
+   */
+  async voidPayment(
+    reference: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const intent = await this.stripeClient().cancelPaymentIntent(reference);
+
+    if (intent.status !== 'canceled') {
+      return { success: false, error: describePaymentIntent(intent) };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Stripe authorization (PaymentIntent with manual capture)
+   */
+  async authorize(
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    metadata?: Record<string, unknown>
+  ): Promise<ProcessorChargeResult> {
+    const { paymentMethodToken, ...intentMetadata } = metadata || {};
+    if (typeof paymentMethodToken !== 'string' || !paymentMethodToken) {
+      return {
+        success: false,
+        error: 'Stripe authorizations need metadata.paymentMethodToken (a PaymentMethod ID)',
+      };
+    }
+
+    const intent = await this.stripeClient()
+      .createPaymentIntent(
+        {
+          amount,
+          paymentMethod: paymentMethodToken,
+          captureMethod: 'manual',
+          metadata: intentMetadata,
+        },
+        metadata?.transactionId ? `authorize_${metadata.transactionId}` : undefined
+      )
+      .catch(declinedCard);
+
+    if (intent.status !== 'requires_capture') {
+      return declinedIntent(intent);
+    }
+
+    return { success: true, reference: intent.id };
+  }
+
+  /**
+   * Stripe capture
+   * A PaymentIntent is captured once, so it keys the capture and a retry gets the same answer
+   */
+  async capture(
+    reference: string,
+    amount: Money
+  ): Promise<{ success: boolean; error?: string }> {
+    const intent = await this.stripeClient().capturePaymentIntent(
+      reference,
+      amount,
+      `capture_${reference}`
+    );
+
+    if (intent.status !== 'succeeded') {
+      return { success: false, error: describePaymentIntent(intent) };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Stripe authorization void
+   */
+  async voidAuthorization(
+    reference: string
+  ): Promise<{ success: boolean; error?: string }> {
+    return this.voidPayment(reference);
+  }
+
+  /**
+   * Stripe payout (to a bank account tokenized by Stripe)
+   */
+  async sendPayout(
+    amount: Money,
+    destinationReference: string,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }> {
+    const payout = await this.stripeClient().createPayout(
+      { amount, destination: destinationReference, metadata },
+      metadata?.payoutId ? `payout_${metadata.payoutId}` : undefined
+    );
+
+    if (payout.status === 'failed' || payout.status === 'canceled') {
+      return { success: false, reference: payout.id, error: `Stripe payout ${payout.status}` };
+    }
+
+    return { success: true, reference: payout.id };
+  }
+
+  /**
+   * Stripe dispute evidence
+   */
+  async submitDisputeEvidence(
+    disputeReference: string,
+    evidence: DisputeEvidence
+  ): Promise<{ success: boolean; error?: string }> {
+    // Files must be uploaded to Stripe to attach them, so document links go in the text
+    const documents = evidence.documentUrls?.length
+      ? `\n\nSupporting documents:\n${evidence.documentUrls.join('\n')}`
+      : '';
+
+    await this.stripeClient().submitDisputeEvidence(disputeReference, {
+      uncategorized_text: `${evidence.explanation}${documents}`,
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Stripe payment verification
+   */
+  async verifyPayment(
+    reference: string
+  ): Promise<{ verified: boolean; status: string }> {
+    const intent = await this.stripeClient().retrievePaymentIntent(reference);
+    const status = STRIPE_STATUSES[intent.status];
+
+    return {
+      verified: status === 'completed' || status === 'authorized',
+      status,
+    };
+  }
+
+  /**
+   * Stripe webhook signature: Stripe-Signature holds a timestamp and one or more
+   * v1 signatures, each an HMAC-SHA256 of "timestamp.body" with the endpoint secret.
+   * Merchant webhooks are signed the same way, so verifyWebhookPayload checks both.
+   */
+  async verifyWebhook(
+    payload: string,
+    headers: WebhookHeaders,
+    secret: string
+  ): Promise<boolean> {
+    return verifyWebhookPayload(
+      payload,
+      headers['stripe-signature'] || '',
+      secret,
+      STRIPE_WEBHOOK_TOLERANCE_SECONDS
+    );
+  }
+
+  /**
+   * Stripe webhook event
+   */
+  parseWebhookEvent(payload: string): ProcessorEvent {
+    const event: StripeEvent = JSON.parse(payload);
+    const object = event.data?.object || {};
+    const parsed: ProcessorEvent = {
+      id: event.id,
+      providerType: event.type,
+      createdAt: new Date(event.created * 1000),
+    };
+
+    const type = STRIPE_EVENT_TYPES[event.type];
+    if (!type) {
+      return parsed;
+    }
+
+    if (type === 'payout.paid' || type === 'payout.failed') {
+      return {
+        ...parsed,
+        type,
+        reference: object.id,
+        reason:
+          type === 'payout.failed'
+            ? object.failure_message || `Stripe payout ${object.status}`
+            : undefined,
+      };
+    }
+
+    if (type !== 'refund.succeeded') {
+      return {
+        ...parsed,
+        type,
+        reference: object.id,
+        reason:
+          object.last_payment_error?.message || object.cancellation_reason || undefined,
+      };
+    }
+
+    // Refunds are pending until the card issuer confirms them
+    if (object.status !== 'succeeded') {
+      return { ...parsed, reference: object.payment_intent };
+    }
+
+    const currency = String(object.currency).toUpperCase();
+    const known = currency in CURRENCY_DECIMALS;
+    return {
+      ...parsed,
+      type,
+      reference: object.payment_intent,
+      refundReference: object.id,
+      amount: known ? createMoney(object.amount, currency as Currency) : undefined,
+      transactionId: object.metadata?.transactionId,
+      reason: object.reason || undefined,
+    };
+  }
+
+  /**
+   * Stripe client for the configured secret key, created on first use
+   */
+  private stripeClient(): StripeClient {
+    if (!this.stripe) {
+      const secretKey = this.config.secretKey || this.config.apiKey;
+      if (!secretKey) {
+        throw new Error('Stripe secret key is not configured');
+      }
+      this.stripe = new StripeClient({ secretKey, apiBaseUrl: this.config.apiBaseUrl });
+    }
+    return this.stripe;
+  }
+}
+
+/**
+ * Failed result for a charge or authorization whose PaymentIntent did not go through
+ * requires_action means the customer has to authenticate it (3D Secure) first.
+ */
+function declinedIntent(intent: StripePaymentIntent): ProcessorChargeResult {
+  return {
+    success: false,
+    reference: intent.id,
+    requiresAction: intent.status === 'requires_action' || undefined,
+    error: describePaymentIntent(intent),
+  };
+}
+
+/**
+ * The PaymentIntent of a declined confirmation
+ * Stripe answers a declined card with a 402 card_error carrying the PaymentIntent;
+ * that is a failed charge, not an error. Anything else is rethrown.
+ */
+function declinedCard(error: unknown): StripePaymentIntent {
+  if (
+    error instanceof StripeApiError &&
+    error.error.type === 'card_error' &&
+    error.error.payment_intent
+  ) {
+    return error.error.payment_intent;
+  }
+  throw error;
+}
+
+/**
+ * Why a PaymentIntent did not reach the status a call expected
+ */
+function describePaymentIntent(intent: StripePaymentIntent): string {
+  if (intent.last_payment_error?.message) {
+    return intent.last_payment_error.message;
+  }
+  if (intent.status === 'requires_action') {
+    return 'Payment requires customer authentication (3D Secure)';
+  }
+  return `Stripe PaymentIntent ${intent.id} is ${intent.status}`;
+}
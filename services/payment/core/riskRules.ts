@@ -0,0 +1,144 @@
+import { IRiskRule, RiskContext, RiskDecision } from './types';
+import { addMoney, compareMoney, moneyFromMajor } from './money';
+
+/**
+ * Built-in Risk Rules
+ * Used by PaymentService when fraudDetection is enabled
+ */
+
+const ALLOW: RiskDecision = { outcome: 'allow', reasonCode: 'OK' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Allow/deny list
+ * Deny-listed payers are blocked; allow-listed payers skip every later rule
+ */
+export class AllowDenyListRule implements IRiskRule {
+  readonly name = 'allow-deny-list';
+
+  constructor(private lists: { allowList?: string[]; denyList?: string[] }) {}
+
+  async evaluate({ request }: RiskContext): Promise<RiskDecision> {
+    if (this.lists.denyList?.includes(request.payerId)) {
+      return {
+        outcome: 'block',
+        reasonCode: 'DENY_LISTED',
+        message: 'Payer is on the deny list',
+        final: true,
+      };
+    }
+
+    if (this.lists.allowList?.includes(request.payerId)) {
+      return {
+        outcome: 'allow',
+        reasonCode: 'ALLOW_LISTED',
+        message: 'Payer is on the allow list',
+        final: true,
+      };
+    }
+
+    return ALLOW;
+  }
+}
+
+/**
+ * Velocity
+ * Limits how many payments a payer can make within a rolling window
+ */
+export class VelocityRule implements IRiskRule {
+  readonly name: string;
+
+  constructor(
+    private options: {
+      maxCount: number;
+      windowMinutes: number;
+      outcome?: 'review' | 'block';
+    }
+  ) {
+    this.name = `velocity-${options.windowMinutes}m`;
+  }
+
+  async evaluate({ request, now, data }: RiskContext): Promise<RiskDecision> {
+    const since = new Date(now.getTime() - this.options.windowMinutes * 60 * 1000);
+    const activity = await data.getPayerActivity(request.payerId, request.amount.currency, since);
+
+    if (activity.count + 1 > this.options.maxCount) {
+      return {
+        outcome: this.options.outcome || 'block',
+        reasonCode: 'VELOCITY_EXCEEDED',
+        message: `More than ${this.options.maxCount} payments in ${this.options.windowMinutes} minutes`,
+      };
+    }
+
+    return ALLOW;
+  }
+}
+
+/**
+ * Daily amount cap
+ * Limits a payer's rolling 24-hour spend per currency
+ */
+export class DailyAmountRule implements IRiskRule {
+  readonly name = 'daily-amount';
+
+  /**
+   * @param maxDailyAmount Cap in major units, applied in the payment's currency
+   */
+  constructor(private maxDailyAmount: number) {}
+
+  async evaluate({ request, now, data }: RiskContext): Promise<RiskDecision> {
+    const since = new Date(now.getTime() - DAY_MS);
+    const activity = await data.getPayerActivity(request.payerId, request.amount.currency, since);
+
+    const cap = moneyFromMajor(this.maxDailyAmount, request.amount.currency);
+    if (compareMoney(addMoney(activity.total, request.amount), cap) > 0) {
+      return {
+        outcome: 'block',
+        reasonCode: 'DAILY_AMOUNT_EXCEEDED',
+        message: `Daily limit of ${this.maxDailyAmount} ${request.amount.currency} exceeded`,
+      };
+    }
+
+    return ALLOW;
+  }
+}
+
+/**
+ * New account limit
+ * Flags large payments from payers whose first account is recent
+ */
+export class NewAccountRule implements IRiskRule {
+  readonly name = 'new-account';
+
+  /**
+   * @param options.maxAmount Per-payment limit in major units while the account is new
+   */
+  constructor(
+    private options: {
+      maxAgeDays: number;
+      maxAmount: number;
+      outcome?: 'review' | 'block';
+    }
+  ) {}
+
+  async evaluate({ request, now, data }: RiskContext): Promise<RiskDecision> {
+    const openedAt = await data.getAccountOpenedAt(request.payerId);
+    const ageMs = openedAt ? now.getTime() - openedAt.getTime() : 0;
+
+    if (ageMs >= this.options.maxAgeDays * DAY_MS) {
+      return ALLOW;
+    }
+
+    const limit = moneyFromMajor(this.options.maxAmount, request.amount.currency);
+    if (compareMoney(request.amount, limit) > 0) {
+      return {
+        outcome: this.options.outcome || 'review',
+        reasonCode: 'NEW_ACCOUNT_LIMIT',
+        message: `Accounts younger than ${this.options.maxAgeDays} days are limited to ${this.options.maxAmount} per payment`,
+      };
+    }
+
+    return ALLOW;
+  }
+}
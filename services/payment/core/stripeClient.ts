@@ -0,0 +1,345 @@
+import { Money } from './types';
+import { PaymentError } from './errors';
+
+/**
+ * Stripe Client
+ * Minimal REST client for the Stripe endpoints the payment processor uses
+ */
+
+/** Stripe's production API */
+export const STRIPE_API_BASE_URL = 'https://api.stripe.com';
+
+/**
+ * PaymentIntent statuses
+ */
+export type StripePaymentIntentStatus =
+  | 'requires_payment_method'
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'processing'
+  | 'requires_capture'
+  | 'canceled'
+  | 'succeeded';
+
+/**
+ * The PaymentIntent fields the processor reads
+ */
+export interface StripePaymentIntent {
+  id: string;
+  object: 'payment_intent';
+  /** Amount in minor units */
+  amount: number;
+  amount_received: number;
+  currency: string;
+  status: StripePaymentIntentStatus;
+  capture_method: 'automatic' | 'manual';
+  payment_method?: string | null;
+  metadata: Record<string, string>;
+  last_payment_error?: StripeErrorBody | null;
+}
+
+/**
+ * The Refund fields the processor reads
+ */
+export interface StripeRefund {
+  id: string;
+  object: 'refund';
+  amount: number;
+  currency: string;
+  payment_intent: string;
+  status: 'pending' | 'requires_action' | 'succeeded' | 'failed' | 'canceled';
+  failure_reason?: string | null;
+  reason?: string | null;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * The Payout fields the processor reads
+ */
+export interface StripePayout {
+  id: string;
+  object: 'payout';
+  amount: number;
+  currency: string;
+  destination: string;
+  status: 'pending' | 'in_transit' | 'paid' | 'failed' | 'canceled';
+}
+
+/**
+ * The Dispute fields the processor reads
+ */
+export interface StripeDispute {
+  id: string;
+  object: 'dispute';
+  status: string;
+}
+
+/**
+ * A webhook event; data.object is the PaymentIntent, Refund, etc. it is about
+ */
+export interface StripeEvent {
+  id: string;
+  object: 'event';
+  type: string;
+  /** Unix seconds */
+  created: number;
+  data: { object: Record<string, any> };
+}
+
+/**
+ * Error object in Stripe's error responses
+ */
+export interface StripeErrorBody {
+  type: string;
+  code?: string;
+  decline_code?: string;
+  message?: string;
+  param?: string;
+  /** On a declined confirmation, the PaymentIntent as the decline left it */
+  payment_intent?: StripePaymentIntent;
+}
+
+/**
+ * Client options
+ */
+export interface StripeClientOptions {
+  /** Secret key (sk_live_... or sk_test_...) */
+  secretKey: string;
+  /** API base URL; defaults to Stripe's, or a local stub's in tests */
+  apiBaseUrl?: string;
+  /** Give up on a request after this many milliseconds (default 30000) */
+  timeoutMs?: number;
+}
+
+/**
+ * An error response from Stripe, or a request that never got one
+ */
+export class StripeApiError extends PaymentError {
+  constructor(
+    readonly statusCode: number,
+    readonly error: StripeErrorBody
+  ) {
+    super(
+      'PROCESSOR_ERROR',
+      error.message || `Stripe request failed (${error.code || error.type})`,
+      { statusCode, ...error }
+    );
+    this.name = 'StripeApiError';
+  }
+}
+
+/**
+ * Stripe REST client
+ * Sends form-encoded requests with the secret key and maps error responses to StripeApiError
+ */
+export class StripeClient {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(private options: StripeClientOptions) {
+    this.baseUrl = (options.apiBaseUrl || STRIPE_API_BASE_URL).replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? 30000;
+  }
+
+  /**
+   * Create (and, with a payment method, confirm) a PaymentIntent
+   */
+  async createPaymentIntent(
+    params: {
+      amount: Money;
+      paymentMethod?: string;
+      captureMethod?: 'automatic' | 'manual';
+      metadata?: Record<string, unknown>;
+    },
+    idempotencyKey?: string
+  ): Promise<StripePaymentIntent> {
+    return this.request<StripePaymentIntent>(
+      'POST',
+      '/v1/payment_intents',
+      {
+        amount: params.amount.minorUnits,
+        currency: params.amount.currency.toLowerCase(),
+        payment_method: params.paymentMethod,
+        confirm: params.paymentMethod ? true : undefined,
+        capture_method: params.captureMethod,
+        // Saved cards are charged server-side, so redirect-based methods are ruled out
+        automatic_payment_methods: { enabled: true, allow_redirects: 'never' },
+        metadata: params.metadata,
+      },
+      idempotencyKey
+    );
+  }
+
+  /**
+   * Retrieve a PaymentIntent
+   */
+  async retrievePaymentIntent(id: string): Promise<StripePaymentIntent> {
+    return this.request<StripePaymentIntent>(
+      'GET',
+      `/v1/payment_intents/${encodeURIComponent(id)}`
+    );
+  }
+
+  /**
+   * Capture all or part of an uncaptured PaymentIntent
+   */
+  async capturePaymentIntent(
+    id: string,
+    amount: Money,
+    idempotencyKey?: string
+  ): Promise<StripePaymentIntent> {
+    return this.request<StripePaymentIntent>(
+      'POST',
+      `/v1/payment_intents/${encodeURIComponent(id)}/capture`,
+      { amount_to_capture: amount.minorUnits },
+      idempotencyKey
+    );
+  }
+
+  /**
+   * Cancel a PaymentIntent that has not succeeded
+   */
+  async cancelPaymentIntent(id: string): Promise<StripePaymentIntent> {
+    return this.request<StripePaymentIntent>(
+      'POST',
+      `/v1/payment_intents/${encodeURIComponent(id)}/cancel`
+    );
+  }
+
+  /**
+   * Refund all or part of a PaymentIntent
+   */
+  async createRefund(
+    params: { paymentIntent: string; amount: Money; metadata?: Record<string, unknown> },
+    idempotencyKey?: string
+  ): Promise<StripeRefund> {
+    return this.request<StripeRefund>(
+      'POST',
+      '/v1/refunds',
+      {
+        payment_intent: params.paymentIntent,
+        amount: params.amount.minorUnits,
+        metadata: params.metadata,
+      },
+      idempotencyKey
+    );
+  }
+
+  /**
+   * Pay out to a bank account
+   */
+  async createPayout(
+    params: { amount: Money; destination: string; metadata?: Record<string, unknown> },
+    idempotencyKey?: string
+  ): Promise<StripePayout> {
+    return this.request<StripePayout>(
+      'POST',
+      '/v1/payouts',
+      {
+        amount: params.amount.minorUnits,
+        currency: params.amount.currency.toLowerCase(),
+        destination: params.destination,
+        metadata: params.metadata,
+      },
+      idempotencyKey
+    );
+  }
+
+  /**
+   * Attach evidence to a dispute and submit it
+   */
+  async submitDisputeEvidence(
+    id: string,
+    evidence: Record<string, string | undefined>
+  ): Promise<StripeDispute> {
+    return this.request<StripeDispute>('POST', `/v1/disputes/${encodeURIComponent(id)}`, {
+      evidence,
+      submit: true,
+    });
+  }
+
+  /**
+   * Send a request and parse the JSON response
+   */
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    params?: Record<string, unknown>,
+    idempotencyKey?: string
+  ): Promise<T> {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.options.secretKey}`,
+    };
+    if (params) {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+    }
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers,
+        body: params ? encodeForm(params) : undefined,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw new StripeApiError(0, {
+        type: 'api_connection_error',
+        message: controller.signal.aborted
+          ? `Stripe did not respond within ${this.timeoutMs} ms`
+          : `Could not reach Stripe: ${error instanceof Error ? error.message : error}`,
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw new StripeApiError(
+        response.status,
+        body?.error || { type: 'api_error', message: `Stripe returned HTTP ${response.status}` }
+      );
+    }
+
+    return body as T;
+  }
+}
+
+/**
+ * Form-encode parameters the way Stripe expects nested ones: metadata[key]=value
+ * Undefined values are left out.
+ */
+export function encodeForm(params: Record<string, unknown>): string {
+  const pairs: string[] = [];
+
+  const add = (key: string, value: unknown) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => add(`${key}[${index}]`, item));
+    } else if (typeof value === 'object' && !(value instanceof Date)) {
+      for (const [name, nested] of Object.entries(value as Record<string, unknown>)) {
+        add(`${key}[${name}]`, nested);
+      }
+    } else {
+      // Stripe takes timestamps as Unix seconds
+      const text =
+        value instanceof Date ? String(Math.floor(value.getTime() / 1000)) : String(value);
+      pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(text)}`);
+    }
+  };
+
+  for (const [key, value] of Object.entries(params)) {
+    add(key, value);
+  }
+
+  return pairs.join('&');
+}
@@ -0,0 +1,73 @@
+import { ITaxCalculator, Money, TaxRequest, TaxRule, TaxSnapshot } from './types';
+import { multiplyMoney, percentOfMoney, subtractMoney } from './money';
+
+/**
+ * Tax Calculators
+ * Rule table tax calculator and tax arithmetic on Money
+ */
+
+/**
+ * Rule table calculator
+ * Looks up the payment's jurisdiction in a fixed table of rates. A region
+ * without its own rule ('US-TX') falls back to its country's ('US').
+ */
+export class RuleTableTaxCalculator implements ITaxCalculator {
+  readonly name = 'rule-table';
+
+  private readonly rules = new Map<string, TaxRule>();
+
+  constructor(rules: TaxRule[], private readonly defaultJurisdiction?: string) {
+    for (const rule of rules) {
+      if (!(rule.rate >= 0 && rule.rate < 100)) {
+        throw new Error(`Tax rate for ${rule.jurisdiction} must be at least 0 and below 100`);
+      }
+      this.rules.set(rule.jurisdiction.toUpperCase(), rule);
+    }
+  }
+
+  async calculate(request: TaxRequest): Promise<TaxSnapshot | null> {
+    const jurisdiction = request.jurisdiction || this.defaultJurisdiction;
+    const rule = jurisdiction ? this.findRule(jurisdiction) : undefined;
+
+    if (!rule || !rule.rate) {
+      return null;
+    }
+
+    if (request.category && rule.exemptCategories?.includes(request.category)) {
+      return null;
+    }
+
+    const inclusive = rule.inclusive ?? false;
+
+    return {
+      jurisdiction: rule.jurisdiction,
+      name: rule.name,
+      rate: rule.rate,
+      inclusive,
+      amount: inclusive ? taxIncludedIn(request.amount, rule.rate) : taxOn(request.amount, rule.rate),
+    };
+  }
+
+  /**
+   * Rule for a jurisdiction, or for its country
+   */
+  private findRule(jurisdiction: string): TaxRule | undefined {
+    const code = jurisdiction.toUpperCase();
+    return this.rules.get(code) || this.rules.get(code.split('-')[0]);
+  }
+}
+
+/**
+ * Tax added on top of a tax-exclusive price
+ */
+export function taxOn(price: Money, rate: number): Money {
+  return percentOfMoney(price, rate);
+}
+
+/**
+ * Tax contained in a tax-inclusive price
+ * Rounds the net price, so net plus tax is always exactly the price
+ */
+export function taxIncludedIn(price: Money, rate: number): Money {
+  return subtractMoney(price, multiplyMoney(price, 100 / (100 + rate)));
+}
@@ -7,12 +7,25 @@ export type Currency = 'USD' | 'EUR' | 'GBP' | 'CAD' | 'AUD';
 export type TransactionStatus =
   | 'pending'
   | 'processing'
+  | 'authorized' // Amount held on the payment method, awaiting capture
   | 'completed'
   | 'failed'
   | 'refunded'
-  | 'cancelled';
+  | 'partially_refunded' // Some, but not all, of the amount refunded
+  | 'cancelled'
+  | 'held' // Funds moved into escrow, awaiting release
+  | 'released'; // Escrowed funds paid out to the payee
 
-export type AccountType = 'user' | 'platform' | 'escrow' | 'merchant';
+export type AccountType =
+  | 'user'
+  | 'platform'
+  | 'escrow'
+  | 'merchant'
+  | 'clearing'
+  | 'fx'
+  | 'tax'
+  | 'payout'
+  | 'dispute';
 
 export type PaymentMethod =
   | 'credit_card'
@@ -21,13 +34,58 @@ export type PaymentMethod =
   | 'paypal'
   | 'stripe'
   | 'apple_pay'
-  | 'google_pay';
+  | 'google_pay'
+  | 'wallet'; // Paid from the payer's balance, without the processor
 
 /**
  * Special entity identifier for platform/company account
  */
 export const SELF_ENTITY = '__SELF__';
 
+/**
+ * Special entity identifier for the escrow account holding funds in transit
+ */
+export const ESCROW_ENTITY = '__ESCROW__';
+
+/**
+ * Special entity identifier for the clearing account that funds card payments
+ * Payments charged through the processor are debited here instead of the payer's wallet
+ */
+export const PROCESSOR_ENTITY = '__PROCESSOR__';
+
+/**
+ * Special entity identifier for the FX account that takes one currency and pays out another
+ * Holds the platform's currency positions, including the spread earned on conversions
+ */
+export const FX_ENTITY = '__FX__';
+
+/**
+ * Special entity identifier for the tax account that collects sales tax and VAT
+ * Holds tax owed to the authorities until it is remitted
+ */
+export const TAX_ENTITY = '__TAX__';
+
+/**
+ * Special entity identifier for the payout account holding withdrawals on their way to a bank
+ * Credited when a payout is requested and emptied when the processor pays it or it fails
+ */
+export const PAYOUT_ENTITY = '__PAYOUT__';
+
+/**
+ * Special entity identifier for the dispute account holding payees' funds while a dispute is open
+ * Credited when a dispute opens and emptied when it is won or lost
+ */
+export const DISPUTE_ENTITY = '__DISPUTE__';
+
+/**
+ * Monetary amount in integer minor units (e.g. cents)
+ * Use the helpers in money.ts for arithmetic and conversion
+ */
+export interface Money {
+  minorUnits: number;
+  currency: Currency;
+}
+
 /**
  * Transaction metadata for additional context
  */
@@ -38,6 +96,55 @@ export interface TransactionMetadata {
   category?: string;
   tags?: string[];
   customFields?: Record<string, unknown>;
+  /** Reason codes when risk rules flagged the payment for review */
+  riskReview?: string[];
+  /** Processor token for the payer's saved card, e.g. a Stripe PaymentMethod ID (pm_...) */
+  paymentMethodToken?: string;
+  /** Why the transaction was cancelled */
+  cancellationReason?: string;
+  /** Why a refund was issued */
+  reason?: string;
+  /** On an authorization, the currency the payee is paid in once captured */
+  payeeCurrency?: Currency;
+  /** On subscription charges, the subscription billed */
+  subscriptionId?: string;
+  /** On checkouts for a plan, the plan bought */
+  planId?: string;
+  /** On a payout's debit and reversal, the payout */
+  payoutId?: string;
+  /** On a disputed payment and its chargeback, the latest dispute */
+  disputeId?: string;
+  /** On a disputed payment, where its latest dispute stands */
+  disputeStatus?: DisputeStatus;
+  /** On an escrow hold, so a charge settled later by webhook is held rather than paid out */
+  escrow?: boolean;
+  /** Set when the processor accepted the charge without settling it; its webhook settles it */
+  asyncCharge?: boolean;
+  /** A processor step claimed on the transaction that the ledger has not settled yet */
+  pendingSettlement?: PendingSettlement;
+}
+
+/**
+ * A processor step a transaction is claimed for: capturing or voiding an authorization,
+ * voiding a charge still processing, a refund, or refunding a cancelled escrow hold
+ * The claim is taken under the row lock before the processor is called, so nothing
+ * else can settle the transaction meanwhile, and is cleared when the ledger settles it.
+ * If the ledger fails after the processor succeeded, the claim stays with
+ * processorSucceeded set until PaymentService.retrySettlement settles it.
+ */
+export interface PendingSettlement {
+  operation: 'capture' | 'void' | 'refund' | 'escrow_cancel';
+  /** On a capture, what is captured */
+  capture?: { amount: Money; fee?: Money; tax?: TaxSnapshot; fx?: FxSnapshot };
+  /** Who asked for it, and why, for the status history */
+  actor?: string;
+  reason?: string;
+  /** The processor has done its part (or had none); only the ledger is left */
+  processorSucceeded?: boolean;
+  /** Why the last attempt to settle it failed */
+  error?: string;
+  /** ISO timestamp of the claim */
+  claimedAt: string;
 }
 
 /**
@@ -47,17 +154,57 @@ export interface Transaction {
   id: string;
   payerId: string;
   payeeId: string;
-  amount: number;
-  currency: Currency;
+  amount: Money;
+  /** Platform fee kept by SELF_ENTITY; on a refund, the share of the fee reversed */
+  fee?: Money;
   status: TransactionStatus;
   paymentMethod?: PaymentMethod;
   processorReference?: string;
+  /** Total refunded so far by completed refunds */
+  refundedAmount?: Money;
+  /** On a refund, the transaction it refunds */
+  originalTransactionId?: string;
+  /** Refunds issued against this transaction (populated by getTransaction) */
+  refunds?: Transaction[];
+  /** Conversion of the payee's share into the payee's currency */
+  fx?: FxSnapshot;
+  /** Tax included in amount, credited to TAX_ENTITY; on a refund, the share of the tax reversed */
+  tax?: TaxSnapshot;
+  /** Coupon discount taken off the price before tax; amount is what was charged */
+  discount?: DiscountSnapshot;
+  /** On an authorization, the amount held; `amount` becomes the captured amount */
+  authorizedAmount?: Money;
+  /** When an uncaptured authorization is voided */
+  authorizationExpiresAt?: Date;
   metadata?: TransactionMetadata;
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date;
 }
 
+/**
+ * Who changed a transaction's status, and why
+ */
+export interface TransitionContext {
+  /** User ID, or 'system' for automatic changes */
+  actor?: string;
+  reason?: string;
+}
+
+/**
+ * One recorded status change of a transaction
+ */
+export interface TransactionStatusChange {
+  id: string;
+  transactionId: string;
+  /** Null for the status the transaction was created with */
+  fromStatus: TransactionStatus | null;
+  toStatus: TransactionStatus;
+  actor: string;
+  reason?: string;
+  createdAt: Date;
+}
+
 /**
  * Account/Ledger entry
  */
@@ -65,22 +212,222 @@ export interface Account {
   id: string;
   ownerId: string;
   type: AccountType;
-  balance: number;
+  balance: Money;
   currency: Currency;
   status: 'active' | 'suspended' | 'closed';
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Side of a double-entry posting
+ * Credits increase an account balance, debits decrease it
+ */
+export type EntryDirection = 'debit' | 'credit';
+
+/**
+ * Journal leg before it is posted to the ledger
+ */
+export interface JournalLeg {
+  ownerId: string;
+  direction: EntryDirection;
+  amount: Money;
+  /** On a debit of money the processor has already taken, post it even below the overdraft limit */
+  overdraw?: boolean;
+}
+
+/**
+ * Immutable ledger entry
+ * One line of a journal; the entries of a journal sum to zero per currency
+ */
+export interface LedgerEntry {
+  id: string;
+  journalId: string;
+  transactionId: string;
+  accountId: string;
+  ownerId: string;
+  direction: EntryDirection;
+  amount: Money;
+  createdAt: Date;
+}
+
+/**
+ * Exchange rate quoted by a provider
+ */
+export interface ExchangeRate {
+  from: Currency;
+  to: Currency;
+  /** Units of `to` per unit of `from`, as an exact decimal string */
+  rate: string;
+  /** Name of the provider that quoted the rate */
+  provider: string;
+  asOf: Date;
+}
+
+/**
+ * Pluggable source of exchange rates
+ */
+export interface IExchangeRateProvider {
+  readonly name: string;
+  /** Rate from one currency to another, or null if the pair is not quoted */
+  getRate(from: Currency, to: Currency): Promise<ExchangeRate | null>;
+}
+
+/**
+ * Rates recorded on a converted transaction so the conversion can be audited
+ */
+export interface FxSnapshot {
+  from: Currency;
+  to: Currency;
+  /** Provider's rate before the spread */
+  midRate: string;
+  spreadPercent: number;
+  /** Rate actually applied: midRate less the spread */
+  appliedRate: string;
+  provider: string;
+  /** ISO timestamp of the provider's quote */
+  asOf: string;
+  /** Payee's share in the payer's currency (amount less platform fee and tax) */
+  sourceAmount: Money;
+  /** Payee's share after conversion, credited to the payee */
+  convertedAmount: Money;
+}
+
+/**
+ * A tax jurisdiction's rate in a RuleTableTaxCalculator
+ */
+export interface TaxRule {
+  /** ISO country code, optionally with a region: 'GB', 'US-CA' */
+  jurisdiction: string;
+  /** Percentage, e.g. 20 for 20% */
+  rate: number;
+  /** Prices already include the tax (VAT-style) rather than having it added on top */
+  inclusive?: boolean;
+  /** Label on receipts, e.g. 'VAT' or 'Sales tax' */
+  name?: string;
+  /** Transaction categories (metadata.category) not taxed in this jurisdiction */
+  exemptCategories?: string[];
+}
+
+/**
+ * What a tax calculator is asked to tax
+ */
+export interface TaxRequest {
+  payerId: string;
+  payeeId: string;
+  /** Price as given by the caller: with the tax for inclusive pricing, without it otherwise */
+  amount: Money;
+  jurisdiction?: string;
+  category?: string;
+}
+
+/**
+ * Pluggable tax calculation
+ */
+export interface ITaxCalculator {
+  readonly name: string;
+  /** Tax on a payment, or null if it is not taxed */
+  calculate(request: TaxRequest): Promise<TaxSnapshot | null>;
+}
+
+/**
+ * Tax recorded on a transaction
+ */
+export interface TaxSnapshot {
+  jurisdiction?: string;
+  name?: string;
+  /** Percentage applied */
+  rate: number;
+  /** Whether the price included the tax; otherwise it was added on top */
+  inclusive: boolean;
+  /** Tax part of the transaction amount */
+  amount: Money;
+}
+
+/**
+ * Coupon discount applied to a transaction, as it was when redeemed
+ */
+export interface DiscountSnapshot {
+  couponId: string;
+  code: string;
+  /** Percentage taken off, for percent coupons */
+  percentOff?: number;
+  /** Price before the discount */
+  originalAmount: Money;
+  /** Amount taken off the price */
+  amount: Money;
+}
+
+/**
+ * Per-account-type overdraft limits, in major units
+ */
+export type OverdraftLimits = Partial<Record<AccountType, number>>;
+
+/**
+ * Result of checking an account balance against its ledger entries
+ */
+export interface AccountReconciliation {
+  accountId: string;
+  ownerId: string;
+  currency: Currency;
+  storedBalance: Money;
+  ledgerBalance: Money;
+  balanced: boolean;
+}
+
 /**
  * Payment processor configuration
  */
 export interface PaymentProcessorConfig {
-  provider: 'stripe' | 'paypal' | 'square' | 'mock';
+  /** A built-in processor ('stripe', 'paypal', 'square', 'mock') or one added with registerProcessor */
+  provider: string;
   apiKey: string;
   secretKey?: string;
+  /** Secret the provider signs webhooks with; webhooks are refused without it */
   webhookSecret?: string;
+  /** Public URL of the webhook endpoint, for providers that sign it with the body (Square) */
+  webhookUrl?: string;
   testMode?: boolean;
+  /** Base URL of the provider's API, e.g. a local stub server in tests; defaults to the provider's */
+  apiBaseUrl?: string;
+  /** How the mock processor (provider 'mock') behaves */
+  mock?: MockProcessorOptions;
+}
+
+/**
+ * What the mock processor does with a charge or authorization
+ */
+export type MockOutcome =
+  | 'succeeded'
+  | 'declined'
+  | 'insufficient_funds'
+  | 'timeout'
+  | 'requires_action'; // Needs 3D Secure
+
+/**
+ * Mock processor rule: charges matching every field given get its outcome
+ */
+export interface MockOutcomeRule {
+  /** Amount in minor units */
+  amount?: number;
+  currency?: Currency;
+  /** The charge's metadata.paymentMethodToken */
+  token?: string;
+  outcome: MockOutcome;
+}
+
+/**
+ * Mock processor options
+ */
+export interface MockProcessorOptions {
+  /** Seed for the random failures; unseeded (Math.random) when unset */
+  seed?: number;
+  /** Milliseconds each call takes (default 0) */
+  latencyMs?: number;
+  /** Share of charges, authorizations and payouts that fail at random, 0 to 1 (default 0) */
+  failureRate?: number;
+  /** Outcomes for matching charges, checked in order before the built-in test tokens and amounts */
+  rules?: MockOutcomeRule[];
 }
 
 /**
@@ -93,26 +440,81 @@ export interface PaymentServiceConfig {
   /** Default currency */
   defaultCurrency: Currency;
 
-  /** Platform fee percentage (0-100) */
+  /** Platform fee percentage (0-100), taken from user-to-user and marketplace payments */
   platformFeePercent?: number;
 
-  /** Minimum transaction amount */
+  /** Minimum transaction amount, in major units */
   minTransactionAmount?: number;
 
-  /** Maximum transaction amount */
+  /** Maximum transaction amount, in major units */
   maxTransactionAmount?: number;
 
   /** Enable refunds */
   refundsEnabled?: boolean;
 
-  /** Enable escrow */
+  /** Enable escrow holds (holdInEscrow / releaseEscrow / cancelEscrow) */
   escrowEnabled?: boolean;
 
+  /**
+   * How far below zero each account type may go, in major units
+   * Unlisted types may not go below zero, except platform, clearing, fx and tax accounts, which are unlimited
+   */
+  overdraftLimits?: OverdraftLimits;
+
+  /** Currency conversion when the payee is paid in another currency */
+  fx?: {
+    enabled: boolean;
+    /** Margin taken off the provider's rate, as a percentage (e.g. 1.5) */
+    spreadPercent?: number;
+  };
+
+  /** Sales tax / VAT on payments */
+  tax?: {
+    enabled: boolean;
+    /** Rates per jurisdiction for the built-in rule table calculator */
+    rules?: TaxRule[];
+    /** Jurisdiction used when a payment has no taxJurisdiction */
+    defaultJurisdiction?: string;
+  };
+
+  /** Withdrawals from wallets to payout destinations */
+  payouts?: {
+    enabled: boolean;
+    /** Minimum payout amount, in major units */
+    minAmount?: number;
+    /** Minutes between batches that send requested payouts; 0 turns batching off (default 60) */
+    batchIntervalMinutes?: number;
+  };
+
+  /** Authorize-then-capture settings */
+  authorization?: {
+    /** Hours an authorization can be captured for (default 168, i.e. 7 days) */
+    expiryHours?: number;
+    /** Minutes between sweeps that void expired authorizations; 0 turns the sweep off (default 15) */
+    sweepIntervalMinutes?: number;
+  };
+
   /** Fraud detection settings */
   fraudDetection?: {
     enabled: boolean;
+    /** Cap on a payer's rolling 24h spend per currency, in major units */
     maxDailyAmount?: number;
+    /** Cap on a payer's transactions in a rolling 24h window */
     maxTransactionCount?: number;
+    /** Short-window velocity check; exceeding it flags for review */
+    velocity?: {
+      maxCount: number;
+      windowMinutes: number;
+    };
+    /** Limits for payers whose first account is recent; exceeding them flags for review */
+    newAccount?: {
+      maxAgeDays: number;
+      maxAmount: number;
+    };
+    /** Payer IDs that skip all other rules */
+    allowList?: string[];
+    /** Payer IDs that are always blocked */
+    denyList?: string[];
   };
 }
 
@@ -122,9 +524,19 @@ export interface PaymentServiceConfig {
 export interface ProcessTransactionRequest {
   payerId: string;
   payeeId: string;
-  amount: number;
-  currency?: Currency;
+  amount: Money;
+  /** Currency the payee is paid in; converted from the amount's currency when different */
+  payeeCurrency?: Currency;
   paymentMethod?: PaymentMethod;
+  /**
+   * Where the sale is taxed, e.g. 'US-CA'; defaults to tax.defaultJurisdiction
+   * Set by the server from what it knows of the payer, never from client input.
+   */
+  taxJurisdiction?: string;
+  /** Tax already worked out by the caller (e.g. an invoice's tax lines); skips the tax calculator */
+  tax?: TaxSnapshot;
+  /** Coupon discount already taken off amount by the caller (CouponService); recorded as is */
+  discount?: DiscountSnapshot;
   metadata?: TransactionMetadata;
   idempotencyKey?: string;
 }
@@ -147,8 +559,22 @@ export interface TransactionResult {
  */
 export interface RefundRequest {
   transactionId: string;
-  amount?: number; // Partial refund if specified
+  amount?: Money; // Partial refund if specified, up to the remaining refundable amount
   reason?: string;
+  /** Who requested the refund, for the status history */
+  actor?: string;
+}
+
+/**
+ * Wallet top-up request
+ */
+export interface TopUpRequest {
+  /** User whose wallet is credited */
+  userId: string;
+  amount: Money;
+  /** Payment method charged through the processor; not 'wallet' */
+  paymentMethod: PaymentMethod;
+  idempotencyKey?: string;
 }
 
 /**
@@ -157,31 +583,981 @@ export interface RefundRequest {
 export interface BalanceInfo {
   accountId: string;
   ownerId: string;
-  balance: number;
+  balance: Money;
   currency: Currency;
-  availableBalance: number; // Excluding pending transactions
-  pendingBalance: number;
+  availableBalance: Money; // Excluding pending transactions
+  pendingBalance: Money;
+}
+
+/**
+ * Risk rule outcome, from least to most severe
+ */
+export type RiskOutcome = 'allow' | 'review' | 'block';
+
+/**
+ * Decision returned by a single risk rule
+ */
+export interface RiskDecision {
+  outcome: RiskOutcome;
+  reasonCode: string;
+  message?: string;
+  /** Name of the rule that made the decision */
+  rule?: string;
+  /** Stop evaluating later rules and use this outcome */
+  final?: boolean;
+}
+
+/**
+ * Combined result of all risk rules for a payment
+ */
+export interface RiskAssessment {
+  outcome: RiskOutcome;
+  decisions: RiskDecision[];
+}
+
+/**
+ * Activity lookups available to risk rules
+ */
+export interface RiskDataSource {
+  /** Count of the payer's transactions since a time, and their total in one currency */
+  getPayerActivity(
+    payerId: string,
+    currency: Currency,
+    since: Date
+  ): Promise<{ count: number; total: Money }>;
+
+  /** When the owner's first account was opened, or null if they have none */
+  getAccountOpenedAt(ownerId: string): Promise<Date | null>;
+}
+
+/**
+ * Input to a risk rule
+ */
+export interface RiskContext {
+  request: ProcessTransactionRequest;
+  now: Date;
+  data: RiskDataSource;
+}
+
+/**
+ * Pluggable risk rule
+ */
+export interface IRiskRule {
+  readonly name: string;
+  evaluate(context: RiskContext): Promise<RiskDecision>;
+}
+
+/**
+ * Outcome of a charge or authorization at the processor
+ */
+export interface ProcessorChargeResult {
+  success: boolean;
+  /** The processor accepted a charge but reports the outcome later, by webhook */
+  pending?: boolean;
+  /** Declined until the customer authenticates the payment, e.g. with 3D Secure */
+  requiresAction?: boolean;
+  reference?: string;
+  error?: string;
 }
 
 /**
  * Payment processor interface
  */
 export interface IPaymentProcessor {
-  /** Process a payment */
+  /** What the configured provider supports */
+  readonly capabilities: ProcessorCapabilities;
+
+  /**
+   * Process a payment
+   * pending means the processor accepted it but reports the outcome later, by webhook
+   */
   processPayment(
-    amount: number,
-    currency: Currency,
+    amount: Money,
     paymentMethod: PaymentMethod,
     metadata?: Record<string, unknown>
-  ): Promise<{ success: boolean; reference?: string; error?: string }>;
+  ): Promise<ProcessorChargeResult>;
 
-  /** Process a refund */
+  /** Process a refund; metadata.transactionId is the refund transaction */
   processRefund(
     reference: string,
-    amount: number,
-    currency: Currency
+    amount: Money,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }>;
+
+  /** Place a hold on the payment method without charging it */
+  authorize(
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    metadata?: Record<string, unknown>
+  ): Promise<ProcessorChargeResult>;
+
+  /** Charge all or part of an authorized amount */
+  capture(
+    reference: string,
+    amount: Money
   ): Promise<{ success: boolean; error?: string }>;
 
-  /** Verify a payment */
+  /** Release an authorization without charging it */
+  voidAuthorization(reference: string): Promise<{ success: boolean; error?: string }>;
+
+  /** Void a payment that has not settled yet; only when capabilities.voids */
+  voidPayment(reference: string): Promise<{ success: boolean; error?: string }>;
+
+  /** Verify a payment; a failed lookup is unverified, with status 'error' */
+  verifyPayment(
+    reference: string
+  ): Promise<{ verified: boolean; status: string; error?: string }>;
+
+  /** Send money to a payout destination, identified by the processor's token for it */
+  sendPayout(
+    amount: Money,
+    destinationReference: string,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }>;
+
+  /** Send the payee's evidence for a dispute, identified by the processor's reference for it */
+  submitDisputeEvidence(
+    disputeReference: string,
+    evidence: DisputeEvidence
+  ): Promise<{ success: boolean; error?: string }>;
+
+  /** Check a webhook's signature against the webhook secret; only when capabilities.webhooks */
+  verifyWebhook(
+    payload: string,
+    headers: WebhookHeaders
+  ): Promise<{ success: boolean; error?: string }>;
+
+  /** Parse a verified webhook body into a processor event */
+  parseWebhookEvent(
+    payload: string
+  ): Promise<{ success: boolean; event?: ProcessorEvent; error?: string }>;
+}
+
+/**
+ * What a payment processor supports
+ * PaymentService refuses operations the configured processor does not
+ */
+export interface ProcessorCapabilities {
+  /** Refund settled payments */
+  refunds: boolean;
+  /** Refund less than the whole payment */
+  partialRefunds: boolean;
+  /** Authorize now and capture later */
+  authorizeCapture: boolean;
+  /** Capture less than the authorized amount */
+  partialCapture: boolean;
+  /** Void payments that have not settled yet */
+  voids: boolean;
+  /** Send payouts to bank accounts */
+  payouts: boolean;
+  /** Submit evidence for disputes */
+  disputes: boolean;
+  /** Send signed webhooks for payment and refund updates */
+  webhooks: boolean;
+}
+
+/**
+ * One payment provider, plugged into PaymentProcessor through registerProcessor
+ * Only processPayment and verifyPayment are required; each other method is
+ * needed by the capability that uses it. Failures may be returned or thrown.
+ */
+export interface ProcessorAdapter {
+  /** Provider name, as in PaymentProcessorConfig.provider */
+  readonly name: string;
+  readonly capabilities: ProcessorCapabilities;
+
+  processPayment(
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    metadata?: Record<string, unknown>
+  ): Promise<ProcessorChargeResult>;
+
   verifyPayment(reference: string): Promise<{ verified: boolean; status: string }>;
+
+  /** Needed for capabilities.refunds */
+  processRefund?(
+    reference: string,
+    amount: Money,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }>;
+
+  /** Needed for capabilities.authorizeCapture, with capture and voidAuthorization */
+  authorize?(
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    metadata?: Record<string, unknown>
+  ): Promise<ProcessorChargeResult>;
+
+  capture?(reference: string, amount: Money): Promise<{ success: boolean; error?: string }>;
+
+  voidAuthorization?(reference: string): Promise<{ success: boolean; error?: string }>;
+
+  /** Needed for capabilities.voids */
+  voidPayment?(reference: string): Promise<{ success: boolean; error?: string }>;
+
+  /** Needed for capabilities.payouts */
+  sendPayout?(
+    amount: Money,
+    destinationReference: string,
+    metadata?: Record<string, unknown>
+  ): Promise<{ success: boolean; reference?: string; error?: string }>;
+
+  /** Needed for capabilities.disputes */
+  submitDisputeEvidence?(
+    disputeReference: string,
+    evidence: DisputeEvidence
+  ): Promise<{ success: boolean; error?: string }>;
+
+  /** Needed for capabilities.webhooks, with parseWebhookEvent */
+  verifyWebhook?(payload: string, headers: WebhookHeaders, secret: string): Promise<boolean>;
+
+  parseWebhookEvent?(payload: string): ProcessorEvent;
+}
+
+/**
+ * Creates a processor adapter from the service's processor configuration
+ */
+export type ProcessorAdapterFactory = (config: PaymentProcessorConfig) => ProcessorAdapter;
+
+/**
+ * HTTP headers of a webhook request, names in lower case
+ */
+export type WebhookHeaders = Record<string, string | undefined>;
+
+/**
+ * What a processor event means for the transaction it is about
+ */
+export type ProcessorEventType =
+  | 'payment.succeeded'
+  | 'payment.failed'
+  | 'payment.cancelled'
+  | 'refund.succeeded'
+  | 'payout.paid'
+  | 'payout.failed';
+
+/**
+ * A provider's webhook event, in the terms PaymentService applies to the ledger
+ */
+export interface ProcessorEvent {
+  /** The provider's event ID; a redelivered event has the same one */
+  id: string;
+  /** The provider's own event type, e.g. 'payment_intent.succeeded' */
+  providerType: string;
+  /** Unset for events that do not change a transaction */
+  type?: ProcessorEventType;
+  /** Processor reference of the payment (or, on payout events, the payout) the event is about */
+  reference?: string;
+  /** On refunds, the processor's ID for the refund */
+  refundReference?: string;
+  /** On refunds, the amount refunded */
+  amount?: Money;
+  /** On refunds issued through this service, the refund transaction */
+  transactionId?: string;
+  /** Why a payment failed, was cancelled or refunded, or a payout failed */
+  reason?: string;
+  createdAt: Date;
+}
+
+/**
+ * Webhook event lifecycle: received, then processing while it is applied, then
+ * processed, ignored (nothing to change) or failed (retried on redelivery or replay)
+ */
+export type WebhookEventStatus = 'received' | 'processing' | 'processed' | 'ignored' | 'failed';
+
+/**
+ * A webhook received from the payment processor, stored for deduplication and replay
+ */
+export interface WebhookEvent {
+  id: string;
+  provider: string;
+  /** The provider's event ID; unique per provider */
+  eventId: string;
+  /** The provider's event type */
+  eventType: string;
+  processorReference?: string;
+  /** Raw request body, parsed again on replay */
+  payload: string;
+  status: WebhookEventStatus;
+  /** Why the event was ignored or failed */
+  detail?: string;
+  /** Transaction the event changed */
+  transactionId?: string;
+  /** Times the event was applied, counting replays */
+  attempts: number;
+  receivedAt: Date;
+  processedAt?: Date;
+}
+
+/**
+ * Webhook operation result
+ */
+export interface WebhookResult {
+  success: boolean;
+  event?: WebhookEvent;
+  /** Set when the event had already been handled */
+  duplicate?: boolean;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+/**
+ * Payout lifecycle: requested until a batch sends it, in_transit until the
+ * processor reports it paid or failed
+ */
+export type PayoutStatus = 'requested' | 'in_transit' | 'paid' | 'failed';
+
+/**
+ * Bank account a user's payouts are sent to
+ */
+export interface PayoutDestination {
+  id: string;
+  ownerId: string;
+  type: 'bank_account';
+  bankName?: string;
+  /** Last four digits of the account number, for display */
+  last4: string;
+  currency: Currency;
+  accountHolderName: string;
+  /** The processor's token for the account; account numbers are never stored */
+  externalReference: string;
+  isDefault: boolean;
+  /** Set once removed; kept for the payouts already sent to it */
+  removedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Withdrawal from a user's wallet to one of their payout destinations
+ */
+export interface Payout {
+  id: string;
+  ownerId: string;
+  destinationId: string;
+  amount: Money;
+  status: PayoutStatus;
+  /** Batch that sent the payout */
+  batchId?: string;
+  processorReference?: string;
+  failureReason?: string;
+  /** Transaction that moved the amount from the wallet to the payout account */
+  debitTransactionId: string;
+  /** Transaction that returned the amount to the wallet after a failure */
+  reversalTransactionId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  sentAt?: Date;
+  paidAt?: Date;
+}
+
+/**
+ * Payout destination request
+ */
+export interface AddPayoutDestinationRequest {
+  ownerId: string;
+  bankName?: string;
+  last4: string;
+  currency: Currency;
+  accountHolderName: string;
+  externalReference: string;
+  /** Make this the owner's default destination; their first destination always is */
+  isDefault?: boolean;
+}
+
+/**
+ * Payout request
+ */
+export interface RequestPayoutRequest {
+  ownerId: string;
+  amount: Money;
+  /** Destination to pay; defaults to the owner's default destination */
+  destinationId?: string;
+  idempotencyKey?: string;
+}
+
+/**
+ * Payout result
+ */
+export interface PayoutResult {
+  success: boolean;
+  payout?: Payout;
+  destination?: PayoutDestination;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+/**
+ * Dispute lifecycle: needs_response until the payee submits evidence, under_review
+ * until the card issuer decides, then won (funds back to the payee) or lost (charged back)
+ */
+export type DisputeStatus = 'needs_response' | 'under_review' | 'won' | 'lost';
+
+/**
+ * The payee's case against a dispute
+ */
+export interface DisputeEvidence {
+  explanation: string;
+  /** Receipts, delivery confirmations, correspondence, etc. */
+  documentUrls?: string[];
+  submittedAt: Date;
+}
+
+/**
+ * Card dispute raised by a payer's issuer against a payment
+ */
+export interface Dispute {
+  id: string;
+  /** The disputed payment */
+  transactionId: string;
+  payerId: string;
+  payeeId: string;
+  /** Disputed amount, in the payment's currency */
+  amount: Money;
+  /** The payee's share of the amount, held in the DISPUTE account while the dispute is open */
+  holdAmount: Money;
+  reason: string;
+  status: DisputeStatus;
+  processorReference?: string;
+  evidence?: DisputeEvidence;
+  /** Evidence submitted after this is not considered by the issuer */
+  evidenceDueBy?: Date;
+  /** On a lost dispute, the refund transaction that charged it back */
+  reversalTransactionId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  resolvedAt?: Date;
+}
+
+/**
+ * Dispute opening request, usually from a processor notification
+ */
+export interface OpenDisputeRequest {
+  transactionId: string;
+  /** Disputed amount; defaults to the payment's remaining refundable amount */
+  amount?: Money;
+  reason: string;
+  /** The processor's dispute ID; a dispute is only opened once per reference */
+  processorReference?: string;
+  evidenceDueBy?: Date;
+}
+
+/**
+ * Dispute evidence request
+ */
+export interface SubmitDisputeEvidenceRequest {
+  explanation: string;
+  documentUrls?: string[];
+}
+
+/**
+ * Dispute result
+ */
+export interface DisputeResult {
+  success: boolean;
+  dispute?: Dispute;
+  /** On a lost dispute, the chargeback */
+  transaction?: Transaction;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+/**
+ * Length unit of a subscription billing cycle
+ */
+export type BillingInterval = 'day' | 'week' | 'month' | 'year';
+
+export type SubscriptionStatus =
+  | 'trialing' // In a free trial; first charge at trial end
+  | 'active'
+  | 'past_due' // A renewal failed; dunning retries are scheduled
+  | 'unpaid' // Dunning gave up; no further charges are attempted
+  | 'cancelled';
+
+/**
+ * Subscription plan
+ */
+export interface Plan {
+  id: string;
+  name: string;
+  /** Price per billing cycle */
+  price: Money;
+  interval: BillingInterval;
+  /** Intervals per billing cycle, e.g. 3 with 'month' for quarterly */
+  intervalCount: number;
+  /** Free days before the first charge */
+  trialDays: number;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A subscriber's subscription to a plan
+ */
+export interface Subscription {
+  id: string;
+  subscriberId: string;
+  planId: string;
+  status: SubscriptionStatus;
+  paymentMethod?: PaymentMethod;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  trialEnd?: Date;
+  /** Stop at the end of the current period instead of renewing */
+  cancelAtPeriodEnd: boolean;
+  cancelledAt?: Date;
+  /** When the scheduler next bills: the period end, or the next dunning retry */
+  nextBillingAt?: Date;
+  /** Failed charges since the last successful one */
+  failedAttempts: number;
+  /** Unused value from plan downgrades, taken off the next renewals */
+  credit: Money;
+  /** Most recent charge for this subscription */
+  lastTransactionId?: string;
+  /** A charge the processor accepted but has not settled yet */
+  pendingCharge?: PendingSubscriptionCharge;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A subscription charge the processor settles later, e.g. a bank debit
+ * Resolved when the Payment Service reports the transaction completed, failed or
+ * cancelled; until then the subscription cannot change plan.
+ */
+export interface PendingSubscriptionCharge {
+  transactionId: string;
+  /** What the charge pays for */
+  purpose: 'subscribe' | 'renewal' | 'plan_change';
+  /** On a plan change, what the subscription moves to once the charge completes */
+  planChange?: { planId: string; periodStart: string; periodEnd: string; credit: Money };
+}
+
+/**
+ * Subscription Service configuration
+ */
+export interface SubscriptionServiceConfig {
+  /** Who subscription charges are paid to (default SELF_ENTITY) */
+  payeeId?: string;
+
+  /** Plans created on initialize if they do not exist yet */
+  plans?: CreatePlanRequest[];
+
+  /**
+   * Hours to wait before each dunning retry of a failed renewal (default [24, 72, 168])
+   * The subscription becomes unpaid when a renewal still fails after the last retry
+   */
+  dunningRetryHours?: number[];
+
+  /** Minutes between scheduler runs that bill due subscriptions; 0 turns it off (default 60) */
+  schedulerIntervalMinutes?: number;
+}
+
+/**
+ * Plan creation parameters
+ */
+export interface CreatePlanRequest {
+  /** Stable ID, e.g. 'premium-monthly'; generated when omitted */
+  id?: string;
+  name: string;
+  price: Money;
+  interval: BillingInterval;
+  intervalCount?: number;
+  trialDays?: number;
+}
+
+/**
+ * Subscribe request parameters
+ */
+export interface SubscribeRequest {
+  subscriberId: string;
+  planId: string;
+  paymentMethod?: PaymentMethod;
+  /** Skip the plan's trial and charge now */
+  skipTrial?: boolean;
+  /** Client request key; a retried request replays the first charge instead of charging again */
+  idempotencyKey?: string;
+}
+
+/**
+ * Subscription operation result
+ */
+export interface SubscriptionResult {
+  success: boolean;
+  subscription?: Subscription;
+  /** Charge made by the operation, if any */
+  transaction?: Transaction;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+export type InvoiceStatus = 'open' | 'paid';
+
+/**
+ * Invoice line item
+ */
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: Money;
+  /** unitPrice × quantity, rounded to the minor unit */
+  amount: Money;
+}
+
+/**
+ * Tax charged on an invoice's subtotal
+ */
+export interface InvoiceTaxLine {
+  name: string;
+  /** Percentage, e.g. 8.25 for 8.25% */
+  rate: number;
+  amount: Money;
+}
+
+/**
+ * Invoice from an issuer (the payee) to a customer (the payer)
+ */
+export interface Invoice {
+  id: string;
+  /** Human-readable number, sequential per issuer (e.g. INV-000042) */
+  number: string;
+  issuerId: string;
+  customerId: string;
+  status: InvoiceStatus;
+  lineItems: InvoiceLineItem[];
+  taxLines: InvoiceTaxLine[];
+  subtotal: Money;
+  taxTotal: Money;
+  total: Money;
+  dueDate: Date;
+  orderId?: string;
+  memo?: string;
+  /** Failed payment attempts, part of each attempt's idempotency key */
+  paymentAttempts: number;
+  /** Transaction that paid the invoice */
+  transactionId?: string;
+  /** Payment the processor accepted but has not settled yet; no other is taken meanwhile */
+  pendingTransactionId?: string;
+  paidAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Invoice Service configuration
+ */
+export interface InvoiceServiceConfig {
+  /** Days until an invoice is due when the request has no dueDate (default 30) */
+  defaultDueDays?: number;
+
+  /** Prefix of invoice numbers (default 'INV') */
+  numberPrefix?: string;
+}
+
+/**
+ * Invoice creation parameters
+ */
+export interface CreateInvoiceRequest {
+  /** Who is paid: the invoice's payee */
+  issuerId: string;
+  /** Who pays: the invoice's payer */
+  customerId: string;
+  lineItems: Array<{
+    description: string;
+    /** Defaults to 1 */
+    quantity?: number;
+    unitPrice: Money;
+  }>;
+  /** Taxes applied to the subtotal */
+  taxes?: Array<{
+    name: string;
+    rate: number;
+  }>;
+  dueDate?: Date;
+  orderId?: string;
+  memo?: string;
+}
+
+/**
+ * Invoice operation result
+ */
+export interface InvoiceResult {
+  success: boolean;
+  invoice?: Invoice;
+  /** Payment made by the operation, if any */
+  transaction?: Transaction;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+/**
+ * How a coupon takes money off: a percentage of the price or a fixed amount
+ */
+export type CouponDiscountType = 'percent' | 'fixed';
+
+/**
+ * Promo code redeemable at checkout
+ */
+export interface Coupon {
+  id: string;
+  /** Code customers enter; stored upper-case and matched case-insensitively */
+  code: string;
+  discountType: CouponDiscountType;
+  /** Percentage taken off, for percent coupons */
+  percentOff?: number;
+  /** Amount taken off, for fixed coupons; only applies to prices in its currency */
+  amountOff?: Money;
+  /** Redemptions allowed across all users; unlimited when unset */
+  maxRedemptions?: number;
+  /** Redemptions allowed per user; unlimited when unset */
+  maxRedemptionsPerUser?: number;
+  timesRedeemed: number;
+  expiresAt?: Date;
+  /** Plans the coupon applies to; any purchase when unset */
+  planIds?: string[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * One use of a coupon by a user
+ */
+export interface CouponRedemption {
+  id: string;
+  couponId: string;
+  userId: string;
+  /** The discounted payment */
+  transactionId?: string;
+  discount: Money;
+  /** The payment's idempotency key, so a retried checkout redeems once */
+  idempotencyKey?: string;
+  createdAt: Date;
+}
+
+/**
+ * Coupon Service configuration
+ */
+export interface CouponServiceConfig {
+  /** Coupons created on initialize if their code does not exist yet */
+  coupons?: CreateCouponRequest[];
+}
+
+/**
+ * Coupon creation parameters
+ * Give either percentOff or amountOff
+ */
+export interface CreateCouponRequest {
+  code: string;
+  percentOff?: number;
+  amountOff?: Money;
+  maxRedemptions?: number;
+  maxRedemptionsPerUser?: number;
+  expiresAt?: Date;
+  planIds?: string[];
+}
+
+/**
+ * Request to price a purchase with a coupon
+ */
+export interface ApplyCouponRequest {
+  code: string;
+  userId: string;
+  /** Price before the discount */
+  amount: Money;
+  /** Plan being bought, for coupons restricted to plans */
+  planId?: string;
+}
+
+/**
+ * Checkout request: a payment with an optional promo code
+ */
+export interface CheckoutRequest extends ProcessTransactionRequest {
+  couponCode?: string;
+  /** Plan being bought, for coupons restricted to plans */
+  planId?: string;
+}
+
+/**
+ * Coupon result
+ * Pricing a purchase also returns the discount and the discounted total
+ */
+export interface CouponResult {
+  success: boolean;
+  coupon?: Coupon;
+  discount?: Money;
+  total?: Money;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+/**
+ * Payment events a webhook endpoint can be sent
+ */
+export type MerchantWebhookEventType =
+  | 'transaction:processing'
+  | 'transaction:completed'
+  | 'transaction:failed'
+  | 'transaction:cancelled'
+  | 'refund:completed'
+  | 'authorization:created'
+  | 'authorization:captured'
+  | 'authorization:voided'
+  | 'authorization:expired'
+  | 'escrow:held'
+  | 'escrow:released'
+  | 'escrow:cancelled'
+  | 'wallet:topped_up'
+  | 'payout:requested'
+  | 'payout:in_transit'
+  | 'payout:paid'
+  | 'payout:failed'
+  | 'dispute:opened'
+  | 'dispute:evidence_submitted'
+  | 'dispute:won'
+  | 'dispute:lost';
+
+/**
+ * Body of a request sent to a webhook endpoint
+ */
+export interface MerchantWebhookEvent {
+  /** Same for every endpoint the event is sent to, and on every retry */
+  id: string;
+  type: MerchantWebhookEventType;
+  /** ISO 8601 */
+  createdAt: string;
+  /** The transaction, payout or dispute the event is about */
+  data: Record<string, any>;
+}
+
+/**
+ * URL a merchant registered to be sent payment events
+ */
+export interface WebhookEndpoint {
+  id: string;
+  /** Sent events about payments, payouts and disputes of this user; every event for SELF_ENTITY */
+  ownerId: string;
+  url: string;
+  description?: string;
+  events: MerchantWebhookEventType[];
+  /** Key request bodies are signed with (whsec_...) */
+  secret: string;
+  createdAt: Date;
+  updatedAt: Date;
+  removedAt?: Date;
+}
+
+/**
+ * Delivery lifecycle: pending until an attempt succeeds, failed once out of attempts
+ */
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * One event queued for one endpoint
+ */
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: MerchantWebhookEventType;
+  /** JSON of the MerchantWebhookEvent, sent as-is on every attempt */
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** When a pending delivery is next sent */
+  nextAttemptAt?: Date;
+  lastResponseStatus?: number;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  deliveredAt?: Date;
+}
+
+/**
+ * One request made for a delivery
+ */
+export interface WebhookDeliveryAttempt {
+  id: string;
+  deliveryId: string;
+  /** Attempt number, from 1 */
+  attempt: number;
+  /** The endpoint answered with a 2xx status */
+  succeeded: boolean;
+  responseStatus?: number;
+  /** The first 1000 characters of the response body; only the platform is shown it over the API */
+  responseBody?: string;
+  error?: string;
+  durationMs: number;
+  attemptedAt: Date;
+}
+
+/**
+ * Webhook Delivery Service configuration
+ */
+export interface WebhookDeliveryServiceConfig {
+  /** Attempts before a delivery fails, counting the first (default 8) */
+  maxAttempts?: number;
+
+  /** Seconds before the first retry, doubled for each retry after it (default 60) */
+  retryBaseSeconds?: number;
+
+  /** Longest wait between retries, in seconds (default 21600, i.e. 6 hours) */
+  maxRetrySeconds?: number;
+
+  /** Give up on a request after this many milliseconds (default 10000) */
+  timeoutMs?: number;
+
+  /** Minutes between scheduler runs that send due retries; 0 turns it off (default 1) */
+  schedulerIntervalMinutes?: number;
+
+  /** Accept http:// endpoint URLs, e.g. for local development (default false) */
+  allowInsecureUrls?: boolean;
+
+  /**
+   * Accept endpoints on loopback, private and link-local addresses, e.g. for local
+   * development (default false)
+   */
+  allowPrivateAddresses?: boolean;
+}
+
+/**
+ * Webhook endpoint registration parameters
+ */
+export interface CreateWebhookEndpointRequest {
+  ownerId: string;
+  url: string;
+  events: MerchantWebhookEventType[];
+  description?: string;
+}
+
+/**
+ * Webhook endpoint or delivery operation result
+ */
+export interface WebhookDeliveryResult {
+  success: boolean;
+  endpoint?: WebhookEndpoint;
+  delivery?: WebhookDelivery;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
 }
@@ -0,0 +1,160 @@
+/**
+ * Webhook Addresses
+ * Keeps merchant webhook endpoints off the platform's own network: loopback,
+ * private, link-local (cloud metadata) and other non-public addresses
+ */
+
+import type { LookupAddress } from 'node:dns';
+import type { LookupFunction } from 'node:net';
+
+/**
+ * IPv4 ranges that are not publicly routable, as [first octets, prefix length]
+ */
+const INTERNAL_IPV4_RANGES: Array<[number[], number]> = [
+  [[0], 8], // "This" network
+  [[10], 8], // Private
+  [[100, 64], 10], // Carrier-grade NAT
+  [[127], 8], // Loopback
+  [[169, 254], 16], // Link-local, including cloud metadata services
+  [[172, 16], 12], // Private
+  [[192, 0, 0], 24], // IETF protocol assignments
+  [[192, 168], 16], // Private
+  [[198, 18], 15], // Benchmarking
+  [[224], 3], // Multicast, reserved and broadcast
+];
+
+/**
+ * The addresses a URL's host stands for: itself when it is an IP address, else
+ * every address DNS resolves it to
+ */
+export async function resolveHostAddresses(url: string): Promise<string[]> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+
+  const { isIP } = await import('node:net');
+  if (isIP(host)) {
+    return [host];
+  }
+
+  const { lookup } = await import('node:dns/promises');
+  return (await lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+}
+
+/**
+ * A DNS lookup for http(s).request that answers only with addresses already
+ * checked, so the connection goes to one of them whatever DNS says by then.
+ * The request keeps the URL's hostname for its Host header and TLS server name.
+ */
+export function pinnedLookup(addresses: string[]): LookupFunction {
+  return (hostname, options, callback) => {
+    const entries = addresses
+      .map(address => ({ address, family: parseIpv4(address) ? 4 : 6 }))
+      .filter(entry => !options.family || entry.family === options.family);
+
+    if (entries.length === 0) {
+      const error: NodeJS.ErrnoException = new Error(`No checked address for ${hostname}`);
+      error.code = 'ENOTFOUND';
+      callback(error, '', 0);
+    } else if (options.all) {
+      (callback as (error: null, addresses: LookupAddress[]) => void)(null, entries);
+    } else {
+      callback(null, entries[0].address, entries[0].family);
+    }
+  };
+}
+
+/**
+ * Whether an IP address is internal: anything other than a public unicast address
+ */
+export function isInternalAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4) {
+    return isInternalIpv4(ipv4);
+  }
+
+  const ipv6 = parseIpv6(address);
+  if (!ipv6) {
+    return true;
+  }
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach the embedded IPv4 address
+  const mapped = ipv6.slice(0, 5).every(part => part === 0) && ipv6[5] === 0xffff;
+  const nat64 = ipv6[0] === 0x64 && ipv6[1] === 0xff9b && ipv6.slice(2, 6).every(part => part === 0);
+  if (mapped || nat64) {
+    return isInternalIpv4([ipv6[6] >> 8, ipv6[6] & 0xff, ipv6[7] >> 8, ipv6[7] & 0xff]);
+  }
+
+  const unspecifiedOrLoopback = ipv6.slice(0, 7).every(part => part === 0) && ipv6[7] <= 1;
+  return (
+    unspecifiedOrLoopback ||
+    (ipv6[0] & 0xfe00) === 0xfc00 || // Unique local
+    (ipv6[0] & 0xffc0) === 0xfe80 || // Link-local
+    (ipv6[0] & 0xff00) === 0xff00 // Multicast
+  );
+}
+
+/**
+ * Whether an IPv4 address falls in one of the internal ranges
+ */
+function isInternalIpv4(octets: number[]): boolean {
+  const value = ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0;
+
+  return INTERNAL_IPV4_RANGES.some(([prefix, length]) => {
+    const start = prefix.reduce((total, octet, i) => total | (octet << (24 - 8 * i)), 0) >>> 0;
+    const mask = (0xffffffff << (32 - length)) >>> 0;
+    return ((value & mask) >>> 0) === ((start & mask) >>> 0);
+  });
+}
+
+/**
+ * Octets of a dotted-quad IPv4 address, or null when it is not one
+ */
+function parseIpv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part))) {
+    return null;
+  }
+
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, or null when it is not one
+ * Zone IDs (fe80::1%eth0) are dropped and a trailing dotted IPv4 part is expanded.
+ */
+function parseIpv6(address: string): number[] | null {
+  let text = address.split('%')[0].toLowerCase();
+
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const octets = parseIpv4(dotted[2]);
+    if (!octets) {
+      return null;
+    }
+    text = `${dotted[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${(
+      (octets[2] << 8) |
+      octets[3]
+    ).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const groups = (half: string) => (half ? half.split(':') : []);
+  const head = groups(halves[0]);
+  const tail = halves.length === 2 ? groups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+
+  if ((halves.length === 2 && missing < 1) || (halves.length === 1 && missing !== 0)) {
+    return null;
+  }
+
+  const parts = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (parts.some(part => !/^[0-9a-f]{1,4}$/.test(part))) {
+    return null;
+  }
+
+  return parts.map(part => parseInt(part, 16));
+}
@@ -0,0 +1,111 @@
+/**
+ * Webhook Signatures
+ * HMAC-SHA256 through Web Crypto, so signing works in Node and the browser alike
+ */
+
+const encoder = new TextEncoder();
+
+/**
+ * Web Crypto: the global where there is one, else node:crypto's, which Node 18
+ * has without the global
+ */
+async function webCrypto(): Promise<Crypto> {
+  if (globalThis.crypto?.subtle) {
+    return globalThis.crypto;
+  }
+
+  const { webcrypto } = await import('node:crypto');
+  return webcrypto as Crypto;
+}
+
+/**
+ * Cryptographically random bytes, e.g. for signing secrets
+ */
+export async function randomBytes(length: number): Promise<Uint8Array> {
+  return (await webCrypto()).getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * HMAC-SHA256 of a message
+ */
+export async function hmacSha256(secret: string, message: string): Promise<Uint8Array> {
+  const crypto = await webCrypto();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+}
+
+/**
+ * Lower-case hex encoding
+ */
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Standard base64 encoding
+ */
+export function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Compare two signatures in time that does not depend on where they differ
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return difference === 0;
+}
+
+/**
+ * Signature header for a webhook body sent to a merchant endpoint:
+ * t=<Unix seconds>,v1=<hex HMAC of "t.body">, the same scheme as Stripe's
+ */
+export async function signWebhookPayload(
+  secret: string,
+  payload: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  return `t=${timestamp},v1=${toHex(await hmacSha256(secret, `${timestamp}.${payload}`))}`;
+}
+
+/**
+ * Check a signature header made by signWebhookPayload, on the receiving end
+ * Signatures more than toleranceSeconds old are rejected, since an old one may
+ * be a captured request played back.
+ */
+export async function verifyWebhookPayload(
+  payload: string,
+  header: string,
+  secret: string,
+  toleranceSeconds = 300
+): Promise<boolean> {
+  const parts = header.split(',').map(part => part.split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    return false;
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = toHex(await hmacSha256(secret, `${timestamp}.${payload}`));
+  return signatures.some(signature => timingSafeEqual(signature, expected));
+}
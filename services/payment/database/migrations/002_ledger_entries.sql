@@ -0,0 +1,90 @@
+-- Migration: 002_ledger_entries
+-- Description: Add immutable double-entry journal behind account balances
+-- Date: 2025-02-03
+
+BEGIN;
+
+-- Platform accounts fund payouts and refunds, so they may go negative
+ALTER TABLE accounts DROP CONSTRAINT positive_balance;
+ALTER TABLE accounts ADD CONSTRAINT positive_balance CHECK (balance >= 0 OR type = 'platform');
+
+-- Ledger entries table
+CREATE TABLE ledger_entries (
+  id VARCHAR(255) PRIMARY KEY,
+  journal_id VARCHAR(255) NOT NULL,
+  transaction_id VARCHAR(255) NOT NULL REFERENCES transactions(id),
+  account_id VARCHAR(255) NOT NULL REFERENCES accounts(id),
+  owner_id VARCHAR(255) NOT NULL,
+  direction VARCHAR(6) NOT NULL CHECK (direction IN ('debit', 'credit')),
+  amount DECIMAL(19, 4) NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT positive_entry_amount CHECK (amount > 0)
+);
+
+-- Indexes
+CREATE INDEX idx_ledger_entries_journal_id ON ledger_entries(journal_id);
+CREATE INDEX idx_ledger_entries_transaction_id ON ledger_entries(transaction_id);
+CREATE INDEX idx_ledger_entries_account_id ON ledger_entries(account_id);
+CREATE INDEX idx_ledger_entries_owner_id ON ledger_entries(owner_id);
+
+-- Append-only guard
+CREATE OR REPLACE FUNCTION prevent_ledger_entry_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'ledger_entries are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER ledger_entries_immutable
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_ledger_entry_change();
+
+-- Reconciliation view
+CREATE OR REPLACE VIEW account_reconciliation AS
+SELECT
+  a.id AS account_id,
+  a.owner_id,
+  a.currency,
+  a.balance AS stored_balance,
+  COALESCE(SUM(CASE WHEN e.direction = 'credit' THEN e.amount ELSE -e.amount END), 0) AS ledger_balance
+FROM accounts a
+LEFT JOIN ledger_entries e ON e.account_id = a.id
+GROUP BY a.id, a.owner_id, a.currency, a.balance;
+
+-- Opening balances: one journal per existing account against the platform account,
+-- so that stored balances reconcile with the ledger from day one
+INSERT INTO transactions (id, payer_id, payee_id, amount, currency, status, metadata, completed_at)
+SELECT
+  'opening-' || a.id, '__SELF__', a.owner_id, a.balance, a.currency, 'completed',
+  '{"description": "Opening ledger balance"}'::jsonb, NOW()
+FROM accounts a
+WHERE a.owner_id <> '__SELF__' AND a.balance > 0;
+
+INSERT INTO accounts (id, owner_id, type, balance, currency, status)
+SELECT DISTINCT 'platform-account-' || LOWER(a.currency), '__SELF__', 'platform', 0, a.currency, 'active'
+FROM accounts a
+WHERE a.owner_id <> '__SELF__' AND a.balance > 0
+ON CONFLICT (owner_id, currency) DO NOTHING;
+
+INSERT INTO ledger_entries (id, journal_id, transaction_id, account_id, owner_id, direction, amount, currency)
+SELECT 'opening-credit-' || a.id, 'opening-' || a.id, 'opening-' || a.id, a.id, a.owner_id, 'credit', a.balance, a.currency
+FROM accounts a
+WHERE a.owner_id <> '__SELF__' AND a.balance > 0;
+
+INSERT INTO ledger_entries (id, journal_id, transaction_id, account_id, owner_id, direction, amount, currency)
+SELECT 'opening-debit-' || a.id, 'opening-' || a.id, 'opening-' || a.id, p.id, '__SELF__', 'debit', a.balance, a.currency
+FROM accounts a
+JOIN accounts p ON p.owner_id = '__SELF__' AND p.currency = a.currency
+WHERE a.owner_id <> '__SELF__' AND a.balance > 0;
+
+UPDATE accounts p SET balance = p.balance - opening.total
+FROM (
+  SELECT currency, SUM(balance) AS total FROM accounts
+  WHERE owner_id <> '__SELF__' AND balance > 0
+  GROUP BY currency
+) opening
+WHERE p.owner_id = '__SELF__' AND p.currency = opening.currency;
+
+COMMIT;
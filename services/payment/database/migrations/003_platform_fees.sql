@@ -0,0 +1,14 @@
+-- Migration: 003_platform_fees
+-- Description: Record the platform fee taken from each transaction
+-- Date: 2025-02-10
+
+BEGIN;
+
+ALTER TABLE transactions ADD COLUMN fee_amount DECIMAL(19, 4);
+
+ALTER TABLE transactions ADD CONSTRAINT valid_fee_amount
+  CHECK (fee_amount IS NULL OR (fee_amount >= 0 AND fee_amount <= amount));
+
+COMMENT ON COLUMN transactions.fee_amount IS 'Platform fee credited to __SELF__; on refunds, the fee share reversed';
+
+COMMIT;
@@ -0,0 +1,24 @@
+-- Migration: 004_risk_audit_log
+-- Description: Audit log for payments blocked or flagged by risk rules
+-- Date: 2025-02-17
+
+BEGIN;
+
+CREATE TABLE risk_audit_log (
+  id VARCHAR(255) PRIMARY KEY,
+  payer_id VARCHAR(255) NOT NULL,
+  payee_id VARCHAR(255) NOT NULL,
+  amount DECIMAL(19, 4) NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+  outcome VARCHAR(10) NOT NULL CHECK (outcome IN ('allow', 'review', 'block')),
+  reason_codes JSONB NOT NULL DEFAULT '[]',
+  decisions JSONB NOT NULL DEFAULT '[]',
+  idempotency_key VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_risk_audit_log_payer_id ON risk_audit_log(payer_id);
+CREATE INDEX idx_risk_audit_log_outcome ON risk_audit_log(outcome);
+CREATE INDEX idx_risk_audit_log_created_at ON risk_audit_log(created_at DESC);
+
+COMMIT;
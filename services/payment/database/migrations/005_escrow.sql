@@ -0,0 +1,17 @@
+-- Migration: 005_escrow
+-- Description: Escrow holds: held/released transaction statuses and escrow account
+-- Date: 2025-02-24
+
+BEGIN;
+
+ALTER TABLE transactions DROP CONSTRAINT transactions_status_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'refunded', 'cancelled', 'held', 'released'));
+
+INSERT INTO accounts (id, owner_id, type, balance, currency, status)
+VALUES ('escrow-account', '__ESCROW__', 'escrow', 0, 'USD', 'active')
+ON CONFLICT (owner_id, currency) DO NOTHING;
+
+COMMENT ON COLUMN accounts.owner_id IS 'User ID, __SELF__ for platform account or __ESCROW__ for escrow account';
+
+COMMIT;
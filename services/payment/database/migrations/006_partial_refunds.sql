@@ -0,0 +1,43 @@
+-- Migration: 006_partial_refunds
+-- Description: Track refunded amounts, partially_refunded status and refund parents
+-- Date: 2025-03-03
+
+BEGIN;
+
+ALTER TABLE transactions ADD COLUMN refunded_amount DECIMAL(19, 4) NOT NULL DEFAULT 0;
+ALTER TABLE transactions ADD COLUMN original_transaction_id VARCHAR(255) REFERENCES transactions(id);
+
+-- Link existing refunds to their originals
+UPDATE transactions
+SET original_transaction_id = metadata->>'originalTransactionId'
+WHERE metadata->>'originalTransactionId' IS NOT NULL;
+
+-- Backfill refunded amounts from completed refunds
+UPDATE transactions t
+SET refunded_amount = r.total
+FROM (
+  SELECT original_transaction_id, SUM(amount) AS total
+  FROM transactions
+  WHERE original_transaction_id IS NOT NULL AND status = 'completed'
+  GROUP BY original_transaction_id
+) r
+WHERE t.id = r.original_transaction_id;
+
+ALTER TABLE transactions DROP CONSTRAINT transactions_status_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'refunded', 'partially_refunded', 'cancelled', 'held', 'released'));
+
+-- Originals that were only partly refunded were previously marked refunded
+UPDATE transactions
+SET status = 'partially_refunded'
+WHERE status = 'refunded' AND refunded_amount < amount;
+
+ALTER TABLE transactions ADD CONSTRAINT valid_refunded_amount
+  CHECK (refunded_amount >= 0 AND refunded_amount <= amount);
+
+CREATE INDEX idx_transactions_original_transaction_id ON transactions(original_transaction_id);
+
+COMMENT ON COLUMN transactions.refunded_amount IS 'Total refunded so far by completed refunds';
+COMMENT ON COLUMN transactions.original_transaction_id IS 'On refunds, the transaction being refunded';
+
+COMMIT;
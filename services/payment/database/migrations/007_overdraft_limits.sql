@@ -0,0 +1,21 @@
+-- Migration: 007_overdraft_limits
+-- Description: Card clearing account; overdraft limits move from a CHECK to LedgerManager
+-- Date: 2025-03-10
+
+BEGIN;
+
+ALTER TABLE accounts DROP CONSTRAINT accounts_type_check;
+ALTER TABLE accounts ADD CONSTRAINT accounts_type_check
+  CHECK (type IN ('user', 'platform', 'escrow', 'merchant', 'clearing'));
+
+-- Per-account-type overdraft limits are configurable, so a fixed CHECK can no
+-- longer express them. LedgerManager checks them under a row lock instead.
+ALTER TABLE accounts DROP CONSTRAINT positive_balance;
+
+INSERT INTO accounts (id, owner_id, type, balance, currency, status)
+VALUES ('processor-account', '__PROCESSOR__', 'clearing', 0, 'USD', 'active')
+ON CONFLICT (owner_id, currency) DO NOTHING;
+
+COMMENT ON COLUMN accounts.owner_id IS 'User ID, __SELF__ for platform, __ESCROW__ for escrow or __PROCESSOR__ for card clearing account';
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Migration: 008_fx
+-- Description: Currency conversion: FX account and per-transaction rate snapshots
+-- Date: 2025-03-17
+
+BEGIN;
+
+ALTER TABLE accounts DROP CONSTRAINT accounts_type_check;
+ALTER TABLE accounts ADD CONSTRAINT accounts_type_check
+  CHECK (type IN ('user', 'platform', 'escrow', 'merchant', 'clearing', 'fx'));
+
+ALTER TABLE transactions ADD COLUMN fx_snapshot JSONB;
+
+INSERT INTO accounts (id, owner_id, type, balance, currency, status)
+VALUES ('fx-account', '__FX__', 'fx', 0, 'USD', 'active')
+ON CONFLICT (owner_id, currency) DO NOTHING;
+
+COMMENT ON COLUMN accounts.owner_id IS 'User ID, or __SELF__ (platform), __ESCROW__ (escrow), __PROCESSOR__ (card clearing), __FX__ (currency conversion)';
+COMMENT ON COLUMN transactions.fx_snapshot IS 'Rate, spread and amounts of the conversion into the payee currency';
+
+COMMIT;
@@ -0,0 +1,28 @@
+-- Migration: 009_transaction_status_history
+-- Description: Record every transaction status transition with actor and reason
+-- Date: 2025-03-24
+
+BEGIN;
+
+CREATE TABLE transaction_status_history (
+  id VARCHAR(255) PRIMARY KEY,
+  transaction_id VARCHAR(255) NOT NULL REFERENCES transactions(id),
+  from_status VARCHAR(50),
+  to_status VARCHAR(50) NOT NULL,
+  actor VARCHAR(255) NOT NULL DEFAULT 'system',
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_transaction_status_history_transaction_id
+  ON transaction_status_history(transaction_id, created_at);
+
+-- Existing transactions start their history at their current status
+INSERT INTO transaction_status_history (id, transaction_id, from_status, to_status, actor, reason, created_at)
+SELECT 'migrated-' || id, id, NULL, status, 'system', 'Status before history was recorded', updated_at
+FROM transactions;
+
+COMMENT ON TABLE transaction_status_history IS 'Status transitions of each transaction, with actor and reason';
+COMMENT ON COLUMN transaction_status_history.actor IS 'User ID that caused the change, or system';
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Migration: 010_authorizations
+-- Description: Authorize-then-capture payments: authorized status, authorized amount and expiry
+-- Date: 2025-03-31
+
+BEGIN;
+
+ALTER TABLE transactions DROP CONSTRAINT transactions_status_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'refunded', 'partially_refunded', 'cancelled', 'held', 'released', 'authorized'));
+
+ALTER TABLE transactions ADD COLUMN authorized_amount DECIMAL(19, 4);
+ALTER TABLE transactions ADD COLUMN authorization_expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_transactions_authorization_expires_at ON transactions(authorization_expires_at)
+  WHERE status = 'authorized';
+
+COMMENT ON COLUMN transactions.authorized_amount IS 'Amount held on the payment method by an authorization; amount is what was captured';
+COMMENT ON COLUMN transactions.authorization_expires_at IS 'When an uncaptured authorization is voided';
+
+COMMIT;
@@ -0,0 +1,68 @@
+-- Migration: 011_subscriptions
+-- Description: Subscription plans and subscriptions for recurring billing
+-- Date: 2025-04-07
+
+BEGIN;
+
+CREATE TABLE subscription_plans (
+  id VARCHAR(255) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  price DECIMAL(19, 4) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  interval VARCHAR(10) NOT NULL CHECK (interval IN ('day', 'week', 'month', 'year')),
+  interval_count INTEGER NOT NULL DEFAULT 1,
+  trial_days INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT positive_price CHECK (price > 0),
+  CONSTRAINT positive_interval_count CHECK (interval_count > 0),
+  CONSTRAINT valid_trial_days CHECK (trial_days >= 0)
+);
+
+CREATE TABLE subscriptions (
+  id VARCHAR(255) PRIMARY KEY,
+  subscriber_id VARCHAR(255) NOT NULL,
+  plan_id VARCHAR(255) NOT NULL REFERENCES subscription_plans(id),
+  status VARCHAR(50) NOT NULL CHECK (status IN ('trialing', 'active', 'past_due', 'unpaid', 'cancelled')),
+  payment_method VARCHAR(50),
+  current_period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  current_period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  trial_end TIMESTAMP WITH TIME ZONE,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT FALSE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  next_billing_at TIMESTAMP WITH TIME ZONE,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  credit DECIMAL(19, 4) NOT NULL DEFAULT 0,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  last_transaction_id VARCHAR(255) REFERENCES transactions(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT valid_period CHECK (current_period_end > current_period_start),
+  CONSTRAINT non_negative_credit CHECK (credit >= 0)
+);
+
+CREATE INDEX idx_subscriptions_subscriber_id ON subscriptions(subscriber_id);
+CREATE INDEX idx_subscriptions_next_billing_at ON subscriptions(next_billing_at)
+  WHERE status IN ('trialing', 'active', 'past_due');
+
+CREATE TRIGGER update_subscription_plans_updated_at
+  BEFORE UPDATE ON subscription_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_subscriptions_updated_at
+  BEFORE UPDATE ON subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE subscription_plans IS 'Recurring plans subscribers can be billed for';
+COMMENT ON TABLE subscriptions IS 'Subscribers billed for a plan each period';
+COMMENT ON COLUMN subscriptions.next_billing_at IS 'When the scheduler next charges: the period end, or the next dunning retry';
+COMMENT ON COLUMN subscriptions.credit IS 'Unused value from plan downgrades, taken off the next renewals';
+
+COMMIT;
@@ -0,0 +1,46 @@
+-- Migration: 012_invoices
+-- Description: Invoices with line items and tax lines, linked to the paying transaction
+-- Date: 2025-04-14
+
+BEGIN;
+
+CREATE TABLE invoices (
+  id VARCHAR(255) PRIMARY KEY,
+  number VARCHAR(50) NOT NULL,
+  issuer_id VARCHAR(255) NOT NULL,
+  customer_id VARCHAR(255) NOT NULL,
+  status VARCHAR(10) NOT NULL CHECK (status IN ('open', 'paid')),
+  line_items JSONB NOT NULL DEFAULT '[]',
+  tax_lines JSONB NOT NULL DEFAULT '[]',
+  subtotal DECIMAL(19, 4) NOT NULL,
+  tax_total DECIMAL(19, 4) NOT NULL DEFAULT 0,
+  total DECIMAL(19, 4) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  due_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  order_id VARCHAR(255),
+  memo TEXT,
+  payment_attempts INTEGER NOT NULL DEFAULT 0,
+  transaction_id VARCHAR(255) REFERENCES transactions(id),
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT unique_invoice_number UNIQUE (issuer_id, number),
+  CONSTRAINT positive_total CHECK (total > 0),
+  CONSTRAINT paid_has_transaction CHECK (status <> 'paid' OR transaction_id IS NOT NULL)
+);
+
+CREATE INDEX idx_invoices_customer_id ON invoices(customer_id, created_at DESC);
+CREATE INDEX idx_invoices_issuer_id ON invoices(issuer_id, created_at DESC);
+
+CREATE TRIGGER update_invoices_updated_at
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE invoices IS 'Invoices from an issuer (payee) to a customer (payer), paid by a transaction';
+COMMENT ON COLUMN invoices.line_items IS 'Line items: description, quantity, unitPrice and amount in minor units';
+COMMENT ON COLUMN invoices.payment_attempts IS 'Failed payment attempts, part of each attempt''s idempotency key';
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Migration: 013_tax
+-- Description: Sales tax / VAT: tax account and per-transaction tax snapshots
+-- Date: 2025-04-21
+
+BEGIN;
+
+ALTER TABLE accounts DROP CONSTRAINT accounts_type_check;
+ALTER TABLE accounts ADD CONSTRAINT accounts_type_check
+  CHECK (type IN ('user', 'platform', 'escrow', 'merchant', 'clearing', 'fx', 'tax'));
+
+ALTER TABLE transactions ADD COLUMN tax_snapshot JSONB;
+
+INSERT INTO accounts (id, owner_id, type, balance, currency, status)
+VALUES ('tax-account', '__TAX__', 'tax', 0, 'USD', 'active')
+ON CONFLICT (owner_id, currency) DO NOTHING;
+
+COMMENT ON COLUMN accounts.owner_id IS 'User ID, or __SELF__ (platform), __ESCROW__ (escrow), __PROCESSOR__ (card clearing), __FX__ (currency conversion), __TAX__ (tax collected)';
+COMMENT ON COLUMN transactions.tax_snapshot IS 'Jurisdiction, rate and amount of the tax included in amount and credited to __TAX__; on refunds, the tax reversed';
+
+COMMIT;
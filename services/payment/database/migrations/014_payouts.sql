@@ -0,0 +1,76 @@
+-- Migration: 014_payouts
+-- Description: Payouts from wallets to bank accounts, with the payout account
+-- Date: 2025-04-28
+
+BEGIN;
+
+ALTER TABLE accounts DROP CONSTRAINT accounts_type_check;
+ALTER TABLE accounts ADD CONSTRAINT accounts_type_check
+  CHECK (type IN ('user', 'platform', 'escrow', 'merchant', 'clearing', 'fx', 'tax', 'payout'));
+
+CREATE TABLE payout_destinations (
+  id VARCHAR(255) PRIMARY KEY,
+  owner_id VARCHAR(255) NOT NULL,
+  type VARCHAR(50) NOT NULL DEFAULT 'bank_account' CHECK (type IN ('bank_account')),
+  bank_name VARCHAR(255),
+  last4 VARCHAR(4) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  account_holder_name VARCHAR(255) NOT NULL,
+  external_reference VARCHAR(255) NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  removed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE payouts (
+  id VARCHAR(255) PRIMARY KEY,
+  owner_id VARCHAR(255) NOT NULL,
+  destination_id VARCHAR(255) NOT NULL REFERENCES payout_destinations(id),
+  amount DECIMAL(19, 4) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  status VARCHAR(50) NOT NULL CHECK (status IN ('requested', 'in_transit', 'paid', 'failed')),
+  batch_id VARCHAR(255),
+  processor_reference VARCHAR(255),
+  failure_reason TEXT,
+  debit_transaction_id VARCHAR(255) NOT NULL REFERENCES transactions(id),
+  reversal_transaction_id VARCHAR(255) REFERENCES transactions(id),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT positive_payout_amount CHECK (amount > 0),
+  CONSTRAINT failed_has_reversal CHECK (status <> 'failed' OR reversal_transaction_id IS NOT NULL)
+);
+
+CREATE INDEX idx_payout_destinations_owner_id ON payout_destinations(owner_id)
+  WHERE removed_at IS NULL;
+
+CREATE INDEX idx_payouts_owner_id ON payouts(owner_id, created_at DESC);
+CREATE INDEX idx_payouts_requested ON payouts(created_at)
+  WHERE status = 'requested' AND batch_id IS NULL;
+
+CREATE TRIGGER update_payout_destinations_updated_at
+  BEFORE UPDATE ON payout_destinations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_payouts_updated_at
+  BEFORE UPDATE ON payouts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO accounts (id, owner_id, type, balance, currency, status)
+VALUES ('payout-account', '__PAYOUT__', 'payout', 0, 'USD', 'active')
+ON CONFLICT (owner_id, currency) DO NOTHING;
+
+COMMENT ON COLUMN accounts.owner_id IS 'User ID, or __SELF__ (platform), __ESCROW__ (escrow), __PROCESSOR__ (card clearing), __FX__ (currency conversion), __TAX__ (tax collected), __PAYOUT__ (payouts in flight)';
+COMMENT ON TABLE payout_destinations IS 'Bank accounts users are paid out to, stored as processor tokens';
+COMMENT ON COLUMN payout_destinations.external_reference IS 'Processor token for the bank account; account numbers are never stored';
+COMMENT ON TABLE payouts IS 'Withdrawals from user wallets to payout destinations';
+COMMENT ON COLUMN payouts.batch_id IS 'Batch that sent the payout to the processor';
+COMMENT ON COLUMN payouts.reversal_transaction_id IS 'On failed payouts, the transaction returning the amount to the wallet';
+
+COMMIT;
@@ -0,0 +1,55 @@
+-- Migration: 015_disputes
+-- Description: Card disputes and chargebacks, with the dispute account
+-- Date: 2025-05-05
+
+BEGIN;
+
+ALTER TABLE accounts DROP CONSTRAINT accounts_type_check;
+ALTER TABLE accounts ADD CONSTRAINT accounts_type_check
+  CHECK (type IN ('user', 'platform', 'escrow', 'merchant', 'clearing', 'fx', 'tax', 'payout', 'dispute'));
+
+CREATE TABLE disputes (
+  id VARCHAR(255) PRIMARY KEY,
+  transaction_id VARCHAR(255) NOT NULL REFERENCES transactions(id),
+  payer_id VARCHAR(255) NOT NULL,
+  payee_id VARCHAR(255) NOT NULL,
+  amount DECIMAL(19, 4) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  hold_amount DECIMAL(19, 4) NOT NULL,
+  hold_currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  reason TEXT NOT NULL,
+  status VARCHAR(50) NOT NULL CHECK (status IN ('needs_response', 'under_review', 'won', 'lost')),
+  processor_reference VARCHAR(255) UNIQUE,
+  evidence JSONB,
+  evidence_due_by TIMESTAMP WITH TIME ZONE,
+  reversal_transaction_id VARCHAR(255) REFERENCES transactions(id),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT positive_dispute_amount CHECK (amount > 0),
+  CONSTRAINT lost_has_reversal CHECK (status <> 'lost' OR reversal_transaction_id IS NOT NULL)
+);
+
+CREATE INDEX idx_disputes_transaction_id ON disputes(transaction_id);
+CREATE UNIQUE INDEX idx_disputes_open_transaction_id ON disputes(transaction_id)
+  WHERE status IN ('needs_response', 'under_review');
+CREATE INDEX idx_disputes_payer_id ON disputes(payer_id, created_at DESC);
+CREATE INDEX idx_disputes_payee_id ON disputes(payee_id, created_at DESC);
+
+CREATE TRIGGER update_disputes_updated_at
+  BEFORE UPDATE ON disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO accounts (id, owner_id, type, balance, currency, status)
+VALUES ('dispute-account', '__DISPUTE__', 'dispute', 0, 'USD', 'active')
+ON CONFLICT (owner_id, currency) DO NOTHING;
+
+COMMENT ON COLUMN accounts.owner_id IS 'User ID, or __SELF__ (platform), __ESCROW__ (escrow), __PROCESSOR__ (card clearing), __FX__ (currency conversion), __TAX__ (tax collected), __PAYOUT__ (payouts in flight), __DISPUTE__ (funds held for disputes)';
+COMMENT ON TABLE disputes IS 'Card disputes against payments, with the payee funds held for them';
+COMMENT ON COLUMN disputes.hold_amount IS 'Payee share of the disputed amount, held in __DISPUTE__ while open';
+COMMENT ON COLUMN disputes.reversal_transaction_id IS 'On lost disputes, the refund transaction charging the amount back';
+
+COMMIT;
@@ -0,0 +1,63 @@
+-- Migration: 016_coupons
+-- Description: Coupons with redemption limits, and per-transaction discount snapshots
+-- Date: 2025-05-12
+
+BEGIN;
+
+ALTER TABLE transactions ADD COLUMN discount_snapshot JSONB;
+
+CREATE TABLE coupons (
+  id VARCHAR(255) PRIMARY KEY,
+  code VARCHAR(32) NOT NULL UNIQUE,
+  discount_type VARCHAR(50) NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  percent_off DECIMAL(5, 2),
+  amount_off DECIMAL(19, 4),
+  currency VARCHAR(3),
+  max_redemptions INTEGER,
+  max_redemptions_per_user INTEGER,
+  times_redeemed INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  plan_ids JSONB,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT valid_coupon_discount CHECK (
+    (discount_type = 'percent' AND percent_off > 0 AND percent_off < 100 AND amount_off IS NULL) OR
+    (discount_type = 'fixed' AND amount_off > 0 AND currency IS NOT NULL AND percent_off IS NULL)
+  ),
+  CONSTRAINT valid_times_redeemed CHECK (
+    times_redeemed >= 0 AND (max_redemptions IS NULL OR times_redeemed <= max_redemptions)
+  )
+);
+
+CREATE TABLE coupon_redemptions (
+  id VARCHAR(255) PRIMARY KEY,
+  coupon_id VARCHAR(255) NOT NULL REFERENCES coupons(id),
+  user_id VARCHAR(255) NOT NULL,
+  transaction_id VARCHAR(255) REFERENCES transactions(id),
+  discount DECIMAL(19, 4) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  idempotency_key VARCHAR(255) UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT positive_discount CHECK (discount > 0)
+);
+
+CREATE INDEX idx_coupon_redemptions_coupon_user ON coupon_redemptions(coupon_id, user_id);
+CREATE INDEX idx_coupon_redemptions_transaction_id ON coupon_redemptions(transaction_id);
+
+CREATE TRIGGER update_coupons_updated_at
+  BEFORE UPDATE ON coupons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN transactions.discount_snapshot IS 'Coupon, original amount and discount taken off before amount was charged';
+COMMENT ON TABLE coupons IS 'Promo codes with percent or fixed discounts, redeemed at checkout';
+COMMENT ON COLUMN coupons.plan_ids IS 'Plans the coupon applies to; NULL for any purchase';
+COMMENT ON COLUMN coupons.times_redeemed IS 'Redemptions so far, counted against max_redemptions';
+COMMENT ON TABLE coupon_redemptions IS 'Coupons redeemed by users, counted against per-user limits';
+
+COMMIT;
@@ -0,0 +1,34 @@
+-- Migration: 017_webhook_events
+-- Description: Webhook events received from the payment processor, kept for deduplication and replay
+-- Date: 2025-05-19
+
+BEGIN;
+
+CREATE TABLE webhook_events (
+  id VARCHAR(255) PRIMARY KEY,
+  provider VARCHAR(50) NOT NULL,
+  event_id VARCHAR(255) NOT NULL,
+  event_type VARCHAR(255) NOT NULL,
+  processor_reference VARCHAR(255),
+  payload TEXT NOT NULL,
+  status VARCHAR(50) NOT NULL DEFAULT 'received' CHECK (
+    status IN ('received', 'processing', 'processed', 'ignored', 'failed')
+  ),
+  detail TEXT,
+  transaction_id VARCHAR(255) REFERENCES transactions(id),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+
+  -- Constraints
+  CONSTRAINT unique_provider_event UNIQUE (provider, event_id)
+);
+
+CREATE INDEX idx_webhook_events_status ON webhook_events(status, received_at DESC);
+CREATE INDEX idx_webhook_events_processor_reference ON webhook_events(processor_reference);
+
+COMMENT ON TABLE webhook_events IS 'Webhooks from the payment processor, stored once per provider event ID';
+COMMENT ON COLUMN webhook_events.payload IS 'Raw request body, parsed again when the event is replayed';
+COMMENT ON COLUMN webhook_events.detail IS 'Why the event was ignored or failed';
+
+COMMIT;
@@ -0,0 +1,79 @@
+-- Migration: 018_webhook_endpoints
+-- Description: Outbound webhooks: merchant endpoints, the delivery queue and a log of delivery attempts
+-- Date: 2025-05-26
+
+BEGIN;
+
+CREATE TABLE webhook_endpoints (
+  id VARCHAR(255) PRIMARY KEY,
+  owner_id VARCHAR(255) NOT NULL,
+  url TEXT NOT NULL,
+  description TEXT,
+  events JSONB NOT NULL,
+  secret VARCHAR(255) NOT NULL,
+  removed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE webhook_deliveries (
+  id VARCHAR(255) PRIMARY KEY,
+  endpoint_id VARCHAR(255) NOT NULL REFERENCES webhook_endpoints(id),
+  event_id VARCHAR(255) NOT NULL,
+  event_type VARCHAR(255) NOT NULL,
+  payload TEXT NOT NULL,
+  status VARCHAR(50) NOT NULL DEFAULT 'pending' CHECK (
+    status IN ('pending', 'delivered', 'failed')
+  ),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  last_response_status INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT unique_endpoint_event UNIQUE (endpoint_id, event_id)
+);
+
+CREATE TABLE webhook_delivery_attempts (
+  id VARCHAR(255) PRIMARY KEY,
+  delivery_id VARCHAR(255) NOT NULL REFERENCES webhook_deliveries(id),
+  attempt INTEGER NOT NULL,
+  succeeded BOOLEAN NOT NULL,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  duration_ms INTEGER NOT NULL,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_endpoints_owner_id ON webhook_endpoints(owner_id)
+  WHERE removed_at IS NULL;
+
+CREATE INDEX idx_webhook_deliveries_endpoint_id ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_webhook_delivery_attempts_delivery_id ON webhook_delivery_attempts(delivery_id, attempt);
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+  BEFORE UPDATE ON webhook_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE webhook_endpoints IS 'URLs merchants registered to be sent payment events';
+COMMENT ON COLUMN webhook_endpoints.events IS 'Event types the endpoint is sent, e.g. ["transaction:completed"]';
+COMMENT ON COLUMN webhook_endpoints.secret IS 'Key the request bodies sent to the endpoint are signed with';
+COMMENT ON TABLE webhook_deliveries IS 'Payment events queued for an endpoint, retried with backoff until delivered';
+COMMENT ON COLUMN webhook_deliveries.payload IS 'JSON body sent on every attempt';
+COMMENT ON COLUMN webhook_deliveries.next_attempt_at IS 'When a pending delivery is next sent';
+COMMENT ON TABLE webhook_delivery_attempts IS 'Every request made for a delivery, with the response';
+
+COMMIT;
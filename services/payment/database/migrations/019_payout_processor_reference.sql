@@ -0,0 +1,9 @@
+-- Migration: 019_payout_processor_reference
+-- Description: Find payouts by the processor's payout ID, for its payout webhooks
+-- Date: 2025-06-02
+
+BEGIN;
+
+CREATE INDEX IF NOT EXISTS idx_payouts_processor_reference ON payouts(processor_reference);
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- Migration: 020_live_subscription_per_subscriber
+-- Description: At most one live subscription per subscriber, so concurrent subscribes cannot both charge
+-- Date: 2025-06-09
+
+BEGIN;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscriptions_live_subscriber_id ON subscriptions(subscriber_id)
+  WHERE status IN ('trialing', 'active', 'past_due');
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Migration: 021_subscription_pending_charges
+-- Description: Subscription charges the processor accepted but settles later
+-- Date: 2025-06-16
+
+BEGIN;
+
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS pending_charge JSONB;
+
+COMMENT ON COLUMN subscriptions.pending_charge IS 'Charge accepted by the processor but not settled yet, and what it pays for';
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Migration: 022_invoice_pending_payments
+-- Description: Invoice payments the processor accepted but settles later
+-- Date: 2025-06-23
+
+BEGIN;
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS pending_transaction_id VARCHAR(255) REFERENCES transactions(id);
+
+COMMENT ON COLUMN invoices.pending_transaction_id IS 'Payment accepted by the processor but not settled yet; no other is taken meanwhile';
+
+COMMIT;
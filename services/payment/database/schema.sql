@@ -9,7 +9,7 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE TABLE IF NOT EXISTS accounts (
   id VARCHAR(255) PRIMARY KEY,
   owner_id VARCHAR(255) NOT NULL,
-  type VARCHAR(50) NOT NULL CHECK (type IN ('user', 'platform', 'escrow', 'merchant')),
+  type VARCHAR(50) NOT NULL CHECK (type IN ('user', 'platform', 'escrow', 'merchant', 'clearing', 'fx', 'tax', 'payout', 'dispute')),
   balance DECIMAL(19, 4) NOT NULL DEFAULT 0,
   currency VARCHAR(3) NOT NULL DEFAULT 'USD',
   status VARCHAR(50) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'suspended', 'closed')),
@@ -17,7 +17,7 @@ CREATE TABLE IF NOT EXISTS accounts (
   updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
 
   -- Constraints
-  CONSTRAINT positive_balance CHECK (balance >= 0),
+  -- Overdraft limits are per account type and enforced by LedgerManager under a row lock
   CONSTRAINT unique_owner_currency UNIQUE (owner_id, currency)
 );
 
@@ -28,10 +28,18 @@ CREATE TABLE IF NOT EXISTS transactions (
   payer_id VARCHAR(255) NOT NULL,
   payee_id VARCHAR(255) NOT NULL,
   amount DECIMAL(19, 4) NOT NULL,
+  fee_amount DECIMAL(19, 4),
+  refunded_amount DECIMAL(19, 4) NOT NULL DEFAULT 0,
   currency VARCHAR(3) NOT NULL DEFAULT 'USD',
-  status VARCHAR(50) NOT NULL CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'refunded', 'cancelled')),
+  status VARCHAR(50) NOT NULL CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'refunded', 'partially_refunded', 'cancelled', 'held', 'released', 'authorized')),
   payment_method VARCHAR(50),
   processor_reference VARCHAR(255),
+  original_transaction_id VARCHAR(255) REFERENCES transactions(id),
+  tax_snapshot JSONB,
+  fx_snapshot JSONB,
+  discount_snapshot JSONB,
+  authorized_amount DECIMAL(19, 4),
+  authorization_expires_at TIMESTAMP WITH TIME ZONE,
   metadata JSONB,
   created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
@@ -39,9 +47,316 @@ CREATE TABLE IF NOT EXISTS transactions (
 
   -- Constraints
   CONSTRAINT positive_amount CHECK (amount > 0),
+  CONSTRAINT valid_fee_amount CHECK (fee_amount IS NULL OR (fee_amount >= 0 AND fee_amount <= amount)),
+  CONSTRAINT valid_refunded_amount CHECK (refunded_amount >= 0 AND refunded_amount <= amount),
   CONSTRAINT different_parties CHECK (payer_id != payee_id)
 );
 
+-- Ledger entries table
+-- Immutable double-entry journal; each journal sums to zero per currency
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id VARCHAR(255) PRIMARY KEY,
+  journal_id VARCHAR(255) NOT NULL,
+  transaction_id VARCHAR(255) NOT NULL REFERENCES transactions(id),
+  account_id VARCHAR(255) NOT NULL REFERENCES accounts(id),
+  owner_id VARCHAR(255) NOT NULL,
+  direction VARCHAR(6) NOT NULL CHECK (direction IN ('debit', 'credit')),
+  amount DECIMAL(19, 4) NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT positive_entry_amount CHECK (amount > 0)
+);
+
+-- Transaction status history
+-- Every status a transaction has been in; from_status is NULL for its initial status
+CREATE TABLE IF NOT EXISTS transaction_status_history (
+  id VARCHAR(255) PRIMARY KEY,
+  transaction_id VARCHAR(255) NOT NULL REFERENCES transactions(id),
+  from_status VARCHAR(50),
+  to_status VARCHAR(50) NOT NULL,
+  actor VARCHAR(255) NOT NULL DEFAULT 'system',
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Subscription plans
+-- Recurring prices billed every interval_count intervals
+CREATE TABLE IF NOT EXISTS subscription_plans (
+  id VARCHAR(255) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  price DECIMAL(19, 4) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  interval VARCHAR(10) NOT NULL CHECK (interval IN ('day', 'week', 'month', 'year')),
+  interval_count INTEGER NOT NULL DEFAULT 1,
+  trial_days INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT positive_price CHECK (price > 0),
+  CONSTRAINT positive_interval_count CHECK (interval_count > 0),
+  CONSTRAINT valid_trial_days CHECK (trial_days >= 0)
+);
+
+-- Subscriptions
+-- next_billing_at is when the scheduler next charges: period end or dunning retry
+CREATE TABLE IF NOT EXISTS subscriptions (
+  id VARCHAR(255) PRIMARY KEY,
+  subscriber_id VARCHAR(255) NOT NULL,
+  plan_id VARCHAR(255) NOT NULL REFERENCES subscription_plans(id),
+  status VARCHAR(50) NOT NULL CHECK (status IN ('trialing', 'active', 'past_due', 'unpaid', 'cancelled')),
+  payment_method VARCHAR(50),
+  current_period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  current_period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  trial_end TIMESTAMP WITH TIME ZONE,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT FALSE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  next_billing_at TIMESTAMP WITH TIME ZONE,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  credit DECIMAL(19, 4) NOT NULL DEFAULT 0,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  last_transaction_id VARCHAR(255) REFERENCES transactions(id),
+  pending_charge JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT valid_period CHECK (current_period_end > current_period_start),
+  CONSTRAINT non_negative_credit CHECK (credit >= 0)
+);
+
+-- Invoices
+-- Paying an invoice creates a transaction with metadata.invoiceId set
+CREATE TABLE IF NOT EXISTS invoices (
+  id VARCHAR(255) PRIMARY KEY,
+  number VARCHAR(50) NOT NULL,
+  issuer_id VARCHAR(255) NOT NULL,
+  customer_id VARCHAR(255) NOT NULL,
+  status VARCHAR(10) NOT NULL CHECK (status IN ('open', 'paid')),
+  line_items JSONB NOT NULL DEFAULT '[]',
+  tax_lines JSONB NOT NULL DEFAULT '[]',
+  subtotal DECIMAL(19, 4) NOT NULL,
+  tax_total DECIMAL(19, 4) NOT NULL DEFAULT 0,
+  total DECIMAL(19, 4) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  due_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  order_id VARCHAR(255),
+  memo TEXT,
+  payment_attempts INTEGER NOT NULL DEFAULT 0,
+  transaction_id VARCHAR(255) REFERENCES transactions(id),
+  pending_transaction_id VARCHAR(255) REFERENCES transactions(id),
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT unique_invoice_number UNIQUE (issuer_id, number),
+  CONSTRAINT positive_total CHECK (total > 0),
+  CONSTRAINT paid_has_transaction CHECK (status <> 'paid' OR transaction_id IS NOT NULL)
+);
+
+-- Payout destinations
+-- Bank accounts tokenized by the processor; removed ones are kept for their payouts
+CREATE TABLE IF NOT EXISTS payout_destinations (
+  id VARCHAR(255) PRIMARY KEY,
+  owner_id VARCHAR(255) NOT NULL,
+  type VARCHAR(50) NOT NULL DEFAULT 'bank_account' CHECK (type IN ('bank_account')),
+  bank_name VARCHAR(255),
+  last4 VARCHAR(4) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  account_holder_name VARCHAR(255) NOT NULL,
+  external_reference VARCHAR(255) NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  removed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Payouts
+-- Withdrawals from a wallet; debit_transaction_id moves the amount to __PAYOUT__
+CREATE TABLE IF NOT EXISTS payouts (
+  id VARCHAR(255) PRIMARY KEY,
+  owner_id VARCHAR(255) NOT NULL,
+  destination_id VARCHAR(255) NOT NULL REFERENCES payout_destinations(id),
+  amount DECIMAL(19, 4) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  status VARCHAR(50) NOT NULL CHECK (status IN ('requested', 'in_transit', 'paid', 'failed')),
+  batch_id VARCHAR(255),
+  processor_reference VARCHAR(255),
+  failure_reason TEXT,
+  debit_transaction_id VARCHAR(255) NOT NULL REFERENCES transactions(id),
+  reversal_transaction_id VARCHAR(255) REFERENCES transactions(id),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT positive_payout_amount CHECK (amount > 0),
+  CONSTRAINT failed_has_reversal CHECK (status <> 'failed' OR reversal_transaction_id IS NOT NULL)
+);
+
+-- Disputes
+-- Card disputes raised against payments; the payee's share is held in __DISPUTE__ until resolved
+CREATE TABLE IF NOT EXISTS disputes (
+  id VARCHAR(255) PRIMARY KEY,
+  transaction_id VARCHAR(255) NOT NULL REFERENCES transactions(id),
+  payer_id VARCHAR(255) NOT NULL,
+  payee_id VARCHAR(255) NOT NULL,
+  amount DECIMAL(19, 4) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  hold_amount DECIMAL(19, 4) NOT NULL,
+  hold_currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  reason TEXT NOT NULL,
+  status VARCHAR(50) NOT NULL CHECK (status IN ('needs_response', 'under_review', 'won', 'lost')),
+  processor_reference VARCHAR(255) UNIQUE,
+  evidence JSONB,
+  evidence_due_by TIMESTAMP WITH TIME ZONE,
+  reversal_transaction_id VARCHAR(255) REFERENCES transactions(id),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT positive_dispute_amount CHECK (amount > 0),
+  CONSTRAINT lost_has_reversal CHECK (status <> 'lost' OR reversal_transaction_id IS NOT NULL)
+);
+
+-- Coupons
+-- Promo codes redeemed at checkout, with global and per-user redemption limits
+CREATE TABLE IF NOT EXISTS coupons (
+  id VARCHAR(255) PRIMARY KEY,
+  code VARCHAR(32) NOT NULL UNIQUE,
+  discount_type VARCHAR(50) NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  percent_off DECIMAL(5, 2),
+  amount_off DECIMAL(19, 4),
+  currency VARCHAR(3),
+  max_redemptions INTEGER,
+  max_redemptions_per_user INTEGER,
+  times_redeemed INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  plan_ids JSONB,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT valid_coupon_discount CHECK (
+    (discount_type = 'percent' AND percent_off > 0 AND percent_off < 100 AND amount_off IS NULL) OR
+    (discount_type = 'fixed' AND amount_off > 0 AND currency IS NOT NULL AND percent_off IS NULL)
+  ),
+  CONSTRAINT valid_times_redeemed CHECK (
+    times_redeemed >= 0 AND (max_redemptions IS NULL OR times_redeemed <= max_redemptions)
+  )
+);
+
+-- Coupon redemptions
+-- One row per redemption; the payment it discounted is linked once it succeeds
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+  id VARCHAR(255) PRIMARY KEY,
+  coupon_id VARCHAR(255) NOT NULL REFERENCES coupons(id),
+  user_id VARCHAR(255) NOT NULL,
+  transaction_id VARCHAR(255) REFERENCES transactions(id),
+  discount DECIMAL(19, 4) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  idempotency_key VARCHAR(255) UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT positive_discount CHECK (discount > 0)
+);
+
+-- Webhook events
+-- Webhooks from the payment processor, once per provider event ID
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id VARCHAR(255) PRIMARY KEY,
+  provider VARCHAR(50) NOT NULL,
+  event_id VARCHAR(255) NOT NULL,
+  event_type VARCHAR(255) NOT NULL,
+  processor_reference VARCHAR(255),
+  payload TEXT NOT NULL,
+  status VARCHAR(50) NOT NULL DEFAULT 'received' CHECK (
+    status IN ('received', 'processing', 'processed', 'ignored', 'failed')
+  ),
+  detail TEXT,
+  transaction_id VARCHAR(255) REFERENCES transactions(id),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+
+  -- Constraints
+  CONSTRAINT unique_provider_event UNIQUE (provider, event_id)
+);
+
+-- Webhook endpoints
+-- URLs merchants registered to be sent payment events
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id VARCHAR(255) PRIMARY KEY,
+  owner_id VARCHAR(255) NOT NULL,
+  url TEXT NOT NULL,
+  description TEXT,
+  events JSONB NOT NULL,
+  secret VARCHAR(255) NOT NULL,
+  removed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Webhook deliveries
+-- One payment event queued for one endpoint, retried until delivered
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id VARCHAR(255) PRIMARY KEY,
+  endpoint_id VARCHAR(255) NOT NULL REFERENCES webhook_endpoints(id),
+  event_id VARCHAR(255) NOT NULL,
+  event_type VARCHAR(255) NOT NULL,
+  payload TEXT NOT NULL,
+  status VARCHAR(50) NOT NULL DEFAULT 'pending' CHECK (
+    status IN ('pending', 'delivered', 'failed')
+  ),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  last_response_status INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT unique_endpoint_event UNIQUE (endpoint_id, event_id)
+);
+
+-- Webhook delivery attempts
+-- Log of every request made for a delivery
+CREATE TABLE IF NOT EXISTS webhook_delivery_attempts (
+  id VARCHAR(255) PRIMARY KEY,
+  delivery_id VARCHAR(255) NOT NULL REFERENCES webhook_deliveries(id),
+  attempt INTEGER NOT NULL,
+  succeeded BOOLEAN NOT NULL,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  duration_ms INTEGER NOT NULL,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Risk audit log
+-- Payments that risk rules blocked or flagged for review
+CREATE TABLE IF NOT EXISTS risk_audit_log (
+  id VARCHAR(255) PRIMARY KEY,
+  payer_id VARCHAR(255) NOT NULL,
+  payee_id VARCHAR(255) NOT NULL,
+  amount DECIMAL(19, 4) NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+  outcome VARCHAR(10) NOT NULL CHECK (outcome IN ('allow', 'review', 'block')),
+  reason_codes JSONB NOT NULL DEFAULT '[]',
+  decisions JSONB NOT NULL DEFAULT '[]',
+  idempotency_key VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_accounts_owner_id ON accounts(owner_id);
 CREATE INDEX IF NOT EXISTS idx_accounts_type ON accounts(type);
@@ -53,6 +368,57 @@ CREATE INDEX IF NOT EXISTS idx_transactions_status ON transactions(status);
 CREATE INDEX IF NOT EXISTS idx_transactions_created_at ON transactions(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_transactions_processor_reference ON transactions(processor_reference);
 CREATE INDEX IF NOT EXISTS idx_transactions_metadata_idempotency ON transactions((metadata->>'idempotencyKey'));
+CREATE INDEX IF NOT EXISTS idx_transactions_original_transaction_id ON transactions(original_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_authorization_expires_at ON transactions(authorization_expires_at) WHERE status = 'authorized';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_journal_id ON ledger_entries(journal_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction_id ON ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_account_id ON ledger_entries(account_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_owner_id ON ledger_entries(owner_id);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_status_history_transaction_id ON transaction_status_history(transaction_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_subscriber_id ON subscriptions(subscriber_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscriptions_live_subscriber_id ON subscriptions(subscriber_id)
+  WHERE status IN ('trialing', 'active', 'past_due');
+CREATE INDEX IF NOT EXISTS idx_subscriptions_next_billing_at ON subscriptions(next_billing_at)
+  WHERE status IN ('trialing', 'active', 'past_due');
+
+CREATE INDEX IF NOT EXISTS idx_invoices_customer_id ON invoices(customer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invoices_issuer_id ON invoices(issuer_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_payout_destinations_owner_id ON payout_destinations(owner_id)
+  WHERE removed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payouts_owner_id ON payouts(owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payouts_requested ON payouts(created_at)
+  WHERE status = 'requested' AND batch_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_payouts_processor_reference ON payouts(processor_reference);
+
+CREATE INDEX IF NOT EXISTS idx_disputes_transaction_id ON disputes(transaction_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_disputes_open_transaction_id ON disputes(transaction_id)
+  WHERE status IN ('needs_response', 'under_review');
+CREATE INDEX IF NOT EXISTS idx_disputes_payer_id ON disputes(payer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_disputes_payee_id ON disputes(payee_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_user ON coupon_redemptions(coupon_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_transaction_id ON coupon_redemptions(transaction_id);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_processor_reference ON webhook_events(processor_reference);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_owner_id ON webhook_endpoints(owner_id)
+  WHERE removed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_id ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_delivery_attempts_delivery_id ON webhook_delivery_attempts(delivery_id, attempt);
+
+CREATE INDEX IF NOT EXISTS idx_risk_audit_log_payer_id ON risk_audit_log(payer_id);
+CREATE INDEX IF NOT EXISTS idx_risk_audit_log_outcome ON risk_audit_log(outcome);
+CREATE INDEX IF NOT EXISTS idx_risk_audit_log_created_at ON risk_audit_log(created_at DESC);
 
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -74,14 +440,159 @@ CREATE TRIGGER update_transactions_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_subscription_plans_updated_at
+  BEFORE UPDATE ON subscription_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_subscriptions_updated_at
+  BEFORE UPDATE ON subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_invoices_updated_at
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_payout_destinations_updated_at
+  BEFORE UPDATE ON payout_destinations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_payouts_updated_at
+  BEFORE UPDATE ON payouts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_disputes_updated_at
+  BEFORE UPDATE ON disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_coupons_updated_at
+  BEFORE UPDATE ON coupons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+  BEFORE UPDATE ON webhook_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Ledger entries are append-only
+CREATE OR REPLACE FUNCTION prevent_ledger_entry_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'ledger_entries are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER ledger_entries_immutable
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_ledger_entry_change();
+
+-- Audit view comparing stored balances with the ledger
+CREATE OR REPLACE VIEW account_reconciliation AS
+SELECT
+  a.id AS account_id,
+  a.owner_id,
+  a.currency,
+  a.balance AS stored_balance,
+  COALESCE(SUM(CASE WHEN e.direction = 'credit' THEN e.amount ELSE -e.amount END), 0) AS ledger_balance
+FROM accounts a
+LEFT JOIN ledger_entries e ON e.account_id = a.id
+GROUP BY a.id, a.owner_id, a.currency, a.balance;
+
 -- Create platform account (SELF entity)
 INSERT INTO accounts (id, owner_id, type, balance, currency, status)
 VALUES ('platform-account', '__SELF__', 'platform', 0, 'USD', 'active')
 ON CONFLICT (owner_id, currency) DO NOTHING;
 
+-- Create escrow account (ESCROW entity)
+INSERT INTO accounts (id, owner_id, type, balance, currency, status)
+VALUES ('escrow-account', '__ESCROW__', 'escrow', 0, 'USD', 'active')
+ON CONFLICT (owner_id, currency) DO NOTHING;
+
+-- Create processor clearing account (PROCESSOR entity)
+INSERT INTO accounts (id, owner_id, type, balance, currency, status)
+VALUES ('processor-account', '__PROCESSOR__', 'clearing', 0, 'USD', 'active')
+ON CONFLICT (owner_id, currency) DO NOTHING;
+
+-- Create FX account (FX entity)
+INSERT INTO accounts (id, owner_id, type, balance, currency, status)
+VALUES ('fx-account', '__FX__', 'fx', 0, 'USD', 'active')
+ON CONFLICT (owner_id, currency) DO NOTHING;
+
+-- Create tax account (TAX entity)
+INSERT INTO accounts (id, owner_id, type, balance, currency, status)
+VALUES ('tax-account', '__TAX__', 'tax', 0, 'USD', 'active')
+ON CONFLICT (owner_id, currency) DO NOTHING;
+
+-- Create payout account (PAYOUT entity)
+INSERT INTO accounts (id, owner_id, type, balance, currency, status)
+VALUES ('payout-account', '__PAYOUT__', 'payout', 0, 'USD', 'active')
+ON CONFLICT (owner_id, currency) DO NOTHING;
+
+-- Create dispute account (DISPUTE entity)
+INSERT INTO accounts (id, owner_id, type, balance, currency, status)
+VALUES ('dispute-account', '__DISPUTE__', 'dispute', 0, 'USD', 'active')
+ON CONFLICT (owner_id, currency) DO NOTHING;
+
 -- Comments for documentation
 COMMENT ON TABLE accounts IS 'User and platform account balances';
 COMMENT ON TABLE transactions IS 'All payment transactions with full audit trail';
-COMMENT ON COLUMN accounts.owner_id IS 'User ID or __SELF__ for platform account';
+COMMENT ON COLUMN accounts.owner_id IS 'User ID, or __SELF__ (platform), __ESCROW__ (escrow), __PROCESSOR__ (card clearing), __FX__ (currency conversion), __TAX__ (tax collected), __PAYOUT__ (payouts in flight), __DISPUTE__ (funds held for disputes)';
 COMMENT ON COLUMN transactions.metadata IS 'Additional transaction data in JSON format';
+COMMENT ON COLUMN transactions.fee_amount IS 'Platform fee credited to __SELF__; on refunds, the fee share reversed';
+COMMENT ON COLUMN transactions.refunded_amount IS 'Total refunded so far by completed refunds';
+COMMENT ON COLUMN transactions.original_transaction_id IS 'On refunds, the transaction being refunded';
+COMMENT ON COLUMN transactions.tax_snapshot IS 'Jurisdiction, rate and amount of the tax included in amount and credited to __TAX__; on refunds, the tax reversed';
+COMMENT ON COLUMN transactions.fx_snapshot IS 'Rate, spread and amounts of the conversion into the payee currency';
+COMMENT ON COLUMN transactions.discount_snapshot IS 'Coupon, original amount and discount taken off before amount was charged';
+COMMENT ON COLUMN transactions.authorized_amount IS 'Amount held on the payment method by an authorization; amount is what was captured';
+COMMENT ON COLUMN transactions.authorization_expires_at IS 'When an uncaptured authorization is voided';
+COMMENT ON TABLE ledger_entries IS 'Immutable double-entry journal behind account balances';
+COMMENT ON COLUMN ledger_entries.journal_id IS 'Groups the entries posted together; sums to zero per currency';
+COMMENT ON TABLE transaction_status_history IS 'Status transitions of each transaction, with actor and reason';
+COMMENT ON COLUMN transaction_status_history.actor IS 'User ID that caused the change, or system';
+COMMENT ON TABLE subscription_plans IS 'Recurring plans subscribers can be billed for';
+COMMENT ON TABLE subscriptions IS 'Subscribers billed for a plan each period';
+COMMENT ON COLUMN subscriptions.next_billing_at IS 'When the scheduler next charges: the period end, or the next dunning retry';
+COMMENT ON COLUMN subscriptions.credit IS 'Unused value from plan downgrades, taken off the next renewals';
+COMMENT ON COLUMN subscriptions.pending_charge IS 'Charge accepted by the processor but not settled yet, and what it pays for';
+COMMENT ON TABLE invoices IS 'Invoices from an issuer (payee) to a customer (payer), paid by a transaction';
+COMMENT ON COLUMN invoices.line_items IS 'Line items: description, quantity, unitPrice and amount in minor units';
+COMMENT ON COLUMN invoices.payment_attempts IS 'Failed payment attempts, part of each attempt''s idempotency key';
+COMMENT ON COLUMN invoices.pending_transaction_id IS 'Payment accepted by the processor but not settled yet; no other is taken meanwhile';
+COMMENT ON TABLE payout_destinations IS 'Bank accounts users are paid out to, stored as processor tokens';
+COMMENT ON COLUMN payout_destinations.external_reference IS 'Processor token for the bank account; account numbers are never stored';
+COMMENT ON TABLE payouts IS 'Withdrawals from user wallets to payout destinations';
+COMMENT ON COLUMN payouts.batch_id IS 'Batch that sent the payout to the processor';
+COMMENT ON COLUMN payouts.reversal_transaction_id IS 'On failed payouts, the transaction returning the amount to the wallet';
+COMMENT ON TABLE disputes IS 'Card disputes against payments, with the payee funds held for them';
+COMMENT ON COLUMN disputes.hold_amount IS 'Payee share of the disputed amount, held in __DISPUTE__ while open';
+COMMENT ON COLUMN disputes.reversal_transaction_id IS 'On lost disputes, the refund transaction charging the amount back';
+COMMENT ON TABLE coupons IS 'Promo codes with percent or fixed discounts, redeemed at checkout';
+COMMENT ON COLUMN coupons.plan_ids IS 'Plans the coupon applies to; NULL for any purchase';
+COMMENT ON COLUMN coupons.times_redeemed IS 'Redemptions so far, counted against max_redemptions';
+COMMENT ON TABLE coupon_redemptions IS 'Coupons redeemed by users, counted against per-user limits';
+COMMENT ON TABLE webhook_events IS 'Webhooks from the payment processor, stored once per provider event ID';
+COMMENT ON COLUMN webhook_events.payload IS 'Raw request body, parsed again when the event is replayed';
+COMMENT ON COLUMN webhook_events.detail IS 'Why the event was ignored or failed';
+COMMENT ON TABLE webhook_endpoints IS 'URLs merchants registered to be sent payment events';
+COMMENT ON COLUMN webhook_endpoints.events IS 'Event types the endpoint is sent, e.g. ["transaction:completed"]';
+COMMENT ON COLUMN webhook_endpoints.secret IS 'Key the request bodies sent to the endpoint are signed with';
+COMMENT ON TABLE webhook_deliveries IS 'Payment events queued for an endpoint, retried with backoff until delivered';
+COMMENT ON COLUMN webhook_deliveries.payload IS 'JSON body sent on every attempt';
+COMMENT ON COLUMN webhook_deliveries.next_attempt_at IS 'When a pending delivery is next sent';
+COMMENT ON TABLE webhook_delivery_attempts IS 'Every request made for a delivery, with the response';
+COMMENT ON TABLE risk_audit_log IS 'Payments blocked or flagged for review by risk rules';
+COMMENT ON COLUMN risk_audit_log.decisions IS 'Every rule decision, including allows, in evaluation order';
 COMMENT ON COLUMN transactions.processor_reference IS 'Reference ID from payment processor (Stripe, PayPal, etc.)';
@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import type { DatabaseConnection } from '@shared/types';
+import { LedgerManager } from '../core/LedgerManager';
+import { convertedRefundShare } from '../core/CurrencyConverter';
+import { InsufficientFundsError } from '../core/errors';
+import { addMoney, createMoney, moneyFromDecimal, moneyToDecimal, zeroMoney } from '../core/money';
+import { FxSnapshot, JournalLeg, SELF_ENTITY } from '../core/types';
+
+const usd = (minorUnits: number) => createMoney(minorUnits, 'USD');
+const eur = (minorUnits: number) => createMoney(minorUnits, 'EUR');
+
+interface AccountRow {
+  id: string;
+  owner_id: string;
+  type: string;
+  balance: string;
+  currency: string;
+}
+
+/**
+ * Just enough of the accounts and ledger_entries tables for postJournal
+ */
+function ledgerDatabase() {
+  const accounts: AccountRow[] = [];
+  const entries: any[] = [];
+  const statements: string[] = [];
+
+  const database: DatabaseConnection = {
+    host: 'localhost',
+    database: 'payments_test',
+    connect: async () => {},
+    disconnect: async () => {},
+    query: async <T>(sql: string, params: any[] = []) => {
+      statements.push(sql);
+
+      if (sql.startsWith('SELECT id FROM accounts')) {
+        return accounts.filter(row => row.owner_id === params[0] && row.currency === params[1]) as T;
+      }
+      if (sql.startsWith('INSERT INTO accounts')) {
+        const [id, owner_id, type, balance, currency] = params;
+        if (!accounts.some(row => row.owner_id === owner_id && row.currency === currency)) {
+          accounts.push({ id, owner_id, type, balance: String(balance), currency });
+        }
+        return [] as T;
+      }
+      if (sql.startsWith('SELECT type, balance FROM accounts')) {
+        return accounts.filter(row => row.id === params[0]) as T;
+      }
+      if (sql.trim().startsWith('INSERT INTO ledger_entries')) {
+        entries.push(params);
+        return [] as T;
+      }
+      if (sql.startsWith('UPDATE accounts SET balance')) {
+        const account = accounts.find(row => row.id === params[2])!;
+        const currency = account.currency as 'USD';
+        account.balance = moneyToDecimal(
+          addMoney(moneyFromDecimal(account.balance, currency), moneyFromDecimal(params[0], currency))
+        );
+        return [] as T;
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+    transaction: fn => fn(database),
+  };
+
+  /** An owner's USD balance in minor units, or undefined without an account */
+  const balanceOf = (ownerId: string) => {
+    const account = accounts.find(row => row.owner_id === ownerId && row.currency === 'USD');
+    return account && moneyFromDecimal(account.balance, 'USD').minorUnits;
+  };
+
+  return { database, accounts, entries, statements, balanceOf };
+}
+
+describe('LedgerManager', () => {
+  describe('postJournal', () => {
+    it('rejects a journal whose debits and credits differ, before writing anything', async () => {
+      const { database, statements } = ledgerDatabase();
+      const ledger = new LedgerManager(database);
+
+      await expect(
+        ledger.postJournal('tx_1', [
+          { ownerId: 'user_1', direction: 'debit', amount: usd(1000) },
+          { ownerId: 'merchant_1', direction: 'credit', amount: usd(999) },
+        ])
+      ).rejects.toThrow('Unbalanced journal: USD entries do not sum to zero');
+      expect(statements).toEqual([]);
+    });
+
+    it('balances each currency on its own', async () => {
+      const { database } = ledgerDatabase();
+      const ledger = new LedgerManager(database);
+
+      // 1000 units in total each way, but USD and EUR are each out of balance
+      await expect(
+        ledger.postJournal('tx_1', [
+          { ownerId: SELF_ENTITY, direction: 'debit', amount: usd(1000) },
+          { ownerId: 'merchant_1', direction: 'credit', amount: usd(900) },
+          { ownerId: 'merchant_1', direction: 'credit', amount: eur(100) },
+        ])
+      ).rejects.toThrow('Unbalanced journal');
+    });
+
+    it('rejects single entries and negative amounts', async () => {
+      const { database } = ledgerDatabase();
+      const ledger = new LedgerManager(database);
+
+      await expect(
+        ledger.postJournal('tx_1', [{ ownerId: SELF_ENTITY, direction: 'debit', amount: usd(100) }])
+      ).rejects.toThrow('Journal requires at least two entries');
+
+      await expect(
+        ledger.postJournal('tx_1', [
+          { ownerId: SELF_ENTITY, direction: 'debit', amount: usd(-100) },
+          { ownerId: 'merchant_1', direction: 'credit', amount: usd(-100) },
+        ])
+      ).rejects.toThrow('Journal entry amounts must be positive');
+    });
+
+    it('posts a balanced journal, dropping zero legs, and moves balances by the same amounts', async () => {
+      const { database, entries, balanceOf } = ledgerDatabase();
+      const ledger = new LedgerManager(database);
+
+      const legs: JournalLeg[] = [
+        { ownerId: SELF_ENTITY, direction: 'debit', amount: usd(1000) },
+        { ownerId: 'merchant_1', direction: 'credit', amount: usd(971) },
+        { ownerId: SELF_ENTITY, direction: 'credit', amount: usd(29) },
+        { ownerId: 'merchant_1', direction: 'credit', amount: usd(0) },
+      ];
+      const posted = await ledger.postJournal('tx_1', legs);
+
+      expect(posted).toHaveLength(3);
+      expect(entries).toHaveLength(3);
+      expect(new Set(posted.map(entry => entry.journalId)).size).toBe(1);
+      expect(balanceOf(SELF_ENTITY)).toBe(-971);
+      expect(balanceOf('merchant_1')).toBe(971);
+    });
+
+    it('refuses to overdraw a user account', async () => {
+      const { database } = ledgerDatabase();
+      const ledger = new LedgerManager(database);
+
+      await expect(
+        ledger.postJournal('tx_1', [
+          { ownerId: 'user_1', direction: 'debit', amount: usd(500) },
+          { ownerId: 'merchant_1', direction: 'credit', amount: usd(500) },
+        ])
+      ).rejects.toBeInstanceOf(InsufficientFundsError);
+    });
+  });
+
+  describe('refund allocation', () => {
+    const fx: FxSnapshot = {
+      from: 'USD',
+      to: 'EUR',
+      midRate: '0.95',
+      spreadPercent: 1.5,
+      appliedRate: '0.93575',
+      provider: 'test',
+      asOf: '2026-01-01T00:00:00.000Z',
+      sourceAmount: usd(971),
+      convertedAmount: eur(909),
+    };
+
+    /** A converted payment, refunded in the given pieces */
+    const refundShares = (pieces: number[]) => {
+      let refundedAmount = zeroMoney('USD');
+      return pieces.map(piece => {
+        const original = { amount: usd(1000), refundedAmount, fx };
+        refundedAmount = addMoney(refundedAmount, usd(piece));
+        return convertedRefundShare(original, usd(piece)).minorUnits;
+      });
+    };
+
+    it('takes back the whole converted amount on a full refund', () => {
+      expect(refundShares([1000])).toEqual([909]);
+    });
+
+    it('takes back exactly the converted amount over several partial refunds', () => {
+      for (const pieces of [
+        [333, 333, 334],
+        [1, 998, 1],
+        [250, 250, 250, 250],
+        [7, 13, 480, 500],
+      ]) {
+        const shares = refundShares(pieces);
+        expect(shares.reduce((total, share) => total + share, 0)).toBe(909);
+      }
+    });
+  });
+});
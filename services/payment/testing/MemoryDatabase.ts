@@ -0,0 +1,312 @@
+import type { DatabaseConnection } from '@shared/types';
+
+type Row = Record<string, any>;
+
+/**
+ * INSERT INTO table (columns) VALUES (...) [ON CONFLICT (columns) [WHERE ...] DO NOTHING]
+ */
+const INSERT_PATTERN =
+  /^INSERT INTO (\w+) \(([^)]*)\) VALUES \(([^)]*)\)(?: ON CONFLICT \(([^)]*)\)(?: WHERE (.*?))? DO NOTHING)?$/i;
+
+/**
+ * SELECT columns FROM table [WHERE ...] [ORDER BY column [ASC|DESC]] [LIMIT $n] [FOR UPDATE]
+ */
+const SELECT_PATTERN =
+  /^SELECT (.*?) FROM (\w+)(?: WHERE (.*?))?(?: ORDER BY (\w+)(?: (ASC|DESC))?)?(?: LIMIT \$(\d+))?(?: FOR UPDATE)?$/i;
+
+/**
+ * A WHERE clause condition, tested against a row with the query's parameters
+ */
+type Condition = (row: Row, params: any[]) => boolean;
+
+/**
+ * In-memory stand-in for the payment service's database, for tests
+ * Understands the SQL the service's stores issue: single-table INSERT (with
+ * ON CONFLICT ... DO NOTHING), UPDATE, DELETE and SELECT with simple WHERE
+ * conditions, ORDER BY, LIMIT and COUNT(*). Anything else throws, naming the
+ * query. Row locks are not modelled; a unit of work that throws has its own
+ * writes undone.
+ */
+export class MemoryDatabase implements DatabaseConnection {
+  readonly host = 'memory';
+  readonly database = 'payments_test';
+
+  /** Every query run, in order, for assertions */
+  readonly statements: string[] = [];
+
+  private readonly tables = new Map<string, Row[]>();
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  async query<T = any>(sql: string, params: any[] = []): Promise<T> {
+    return this.execute(sql, params) as T;
+  }
+
+  async transaction<T>(fn: (tx: DatabaseConnection) => Promise<T>): Promise<T> {
+    const undo: Array<() => void> = [];
+    const tx: DatabaseConnection = {
+      host: this.host,
+      database: this.database,
+      connect: () => this.connect(),
+      disconnect: () => this.disconnect(),
+      query: async (sql, params = []) => this.execute(sql, params, undo),
+      transaction: inner => inner(tx),
+    };
+
+    try {
+      return await fn(tx);
+    } catch (error) {
+      undo.reverse().forEach(step => step());
+      throw error;
+    }
+  }
+
+  /**
+   * Copies of a table's rows, optionally only those matching a filter
+   */
+  rows(table: string, filter: Row = {}): Row[] {
+    return this.table(table)
+      .filter(row => Object.entries(filter).every(([column, value]) => row[column] === value))
+      .map(row => ({ ...row }));
+  }
+
+  /**
+   * Insert rows directly, e.g. to seed balances
+   */
+  seed(table: string, ...rows: Row[]): void {
+    this.table(table).push(...rows.map(row => ({ ...row })));
+  }
+
+  private execute(sql: string, params: any[], undo?: Array<() => void>): any {
+    const text = sql.replace(/\s+/g, ' ').trim();
+    this.statements.push(text);
+
+    const insert = INSERT_PATTERN.exec(text);
+    if (insert) {
+      return this.insert(insert, params, undo);
+    }
+
+    const update = /^UPDATE (\w+) SET (.*) WHERE (.*)$/i.exec(text);
+    if (update) {
+      return this.update(update[1], update[2], this.parseWhere(update[3]), params, undo);
+    }
+
+    const remove = /^DELETE FROM (\w+) WHERE (.*)$/i.exec(text);
+    if (remove) {
+      const table = this.table(remove[1]);
+      const where = this.parseWhere(remove[2]);
+      const removed = table.filter(row => where(row, params));
+      this.tables.set(remove[1], table.filter(row => !removed.includes(row)));
+      undo?.push(() => this.table(remove[1]).push(...removed));
+      return [];
+    }
+
+    const select = SELECT_PATTERN.exec(text);
+    if (select) {
+      return this.select(select, params);
+    }
+
+    throw new Error(`MemoryDatabase does not understand: ${text}`);
+  }
+
+  private insert(match: RegExpExecArray, params: any[], undo?: Array<() => void>): any {
+    const [, name, columnList, valueList, conflictList, conflictWhere] = match;
+    const table = this.table(name);
+    const columns = columnList.split(',').map(column => column.trim());
+    const values = valueList.split(',').map(value => this.value(value.trim(), params));
+
+    const row: Row = {};
+    columns.forEach((column, i) => {
+      row[column] = values[i];
+    });
+
+    if (conflictList) {
+      const keys = conflictList.split(',').map(column => column.trim());
+      const where = conflictWhere ? this.parseWhere(conflictWhere) : () => true;
+      const conflicts = table.some(
+        existing =>
+          keys.every(key => existing[key] === row[key]) &&
+          where(existing, params) &&
+          where(row, params)
+      );
+      if (conflicts) {
+        return [];
+      }
+    }
+
+    table.push(row);
+    undo?.push(() => this.tables.set(name, this.table(name).filter(other => other !== row)));
+    return [];
+  }
+
+  private update(
+    name: string,
+    assignments: string,
+    where: Condition,
+    params: any[],
+    undo?: Array<() => void>
+  ): any {
+    for (const row of this.table(name).filter(candidate => where(candidate, params))) {
+      const previous = { ...row };
+      const next: Row = {};
+
+      for (const assignment of assignments.split(',')) {
+        const [column, expression] = assignment.split('=').map(part => part.trim());
+        const arithmetic = /^(\w+) ([+-]) (.+)$/.exec(expression);
+        if (arithmetic) {
+          const operand = Number(this.value(arithmetic[3], params));
+          const current = Number(row[arithmetic[1]] ?? 0);
+          next[column] = round(arithmetic[2] === '+' ? current + operand : current - operand);
+        } else {
+          next[column] = this.value(expression, params);
+        }
+      }
+
+      Object.assign(row, next);
+      undo?.push(() => {
+        Object.keys(row).forEach(key => delete row[key]);
+        Object.assign(row, previous);
+      });
+    }
+    return [];
+  }
+
+  private select(match: RegExpExecArray, params: any[]): any {
+    const [, columns, name, whereText, orderBy, direction, limit] = match;
+    const where = whereText ? this.parseWhere(whereText) : () => true;
+    let rows = this.table(name).filter(row => where(row, params));
+
+    const count = /^COUNT\(\*\) AS (\w+)$/i.exec(columns);
+    if (count) {
+      return [{ [count[1]]: String(rows.length) }];
+    }
+
+    if (orderBy) {
+      const sign = direction?.toUpperCase() === 'DESC' ? -1 : 1;
+      rows = [...rows].sort((a, b) => sign * compare(a[orderBy], b[orderBy]));
+    }
+    if (limit) {
+      rows = rows.slice(0, Number(params[Number(limit) - 1]));
+    }
+
+    if (columns.trim() === '*') {
+      return rows.map(row => ({ ...row }));
+    }
+
+    const picked = columns.split(',').map(column => column.trim());
+    return rows.map(row => Object.fromEntries(picked.map(column => [column, row[column]])));
+  }
+
+  /**
+   * A WHERE clause of conditions joined by AND or OR (AND binds tighter)
+   */
+  private parseWhere(text: string): Condition {
+    const alternatives = text.split(/ OR /i).map(part =>
+      part.split(/ AND /i).map(condition => this.parseCondition(condition.trim()))
+    );
+    return (row, params) =>
+      alternatives.some(conditions => conditions.every(condition => condition(row, params)));
+  }
+
+  private parseCondition(text: string): Condition {
+    const nullCheck = /^(\w+) IS (NOT )?NULL$/i.exec(text);
+    if (nullCheck) {
+      const [, column, not] = nullCheck;
+      return row => (row[column] == null) === !not;
+    }
+
+    const list = /^(\w+) (NOT )?IN \(([^)]*)\)$/i.exec(text);
+    if (list) {
+      const [, column, not, items] = list;
+      const values = items.split(',').map(item => this.value(item.trim(), []));
+      return row => values.includes(row[column]) === !not;
+    }
+
+    const json = /^(\w+)->>'(\w+)' = (.+)$/.exec(text);
+    if (json) {
+      const [, column, key, operand] = json;
+      return (row, params) => {
+        const document = typeof row[column] === 'string' ? JSON.parse(row[column]) : row[column];
+        return document?.[key] === this.value(operand, params);
+      };
+    }
+
+    const comparison = /^(\w+) (=|<=|>=|<|>) (.+)$/.exec(text);
+    if (comparison) {
+      const [, column, operator, operand] = comparison;
+      return (row, params) => {
+        const order = compare(row[column], this.value(operand, params));
+        switch (operator) {
+          case '=':
+            return row[column] != null && order === 0;
+          case '<=':
+            return row[column] != null && order <= 0;
+          case '>=':
+            return row[column] != null && order >= 0;
+          case '<':
+            return row[column] != null && order < 0;
+          default:
+            return row[column] != null && order > 0;
+        }
+      };
+    }
+
+    throw new Error(`MemoryDatabase does not understand the condition: ${text}`);
+  }
+
+  /**
+   * A parameter ($n) or literal
+   */
+  private value(token: string, params: any[]): any {
+    const param = /^\$(\d+)$/.exec(token);
+    if (param) {
+      const value = params[Number(param[1]) - 1];
+      return value === undefined ? null : value;
+    }
+    if (/^'.*'$/.test(token)) {
+      return token.slice(1, -1);
+    }
+    if (/^(TRUE|FALSE)$/i.test(token)) {
+      return token.toUpperCase() === 'TRUE';
+    }
+    if (/^NULL$/i.test(token)) {
+      return null;
+    }
+    if (/^-?\d+(\.\d+)?$/.test(token)) {
+      return Number(token);
+    }
+    throw new Error(`MemoryDatabase does not understand the value: ${token}`);
+  }
+
+  private table(name: string): Row[] {
+    if (!this.tables.has(name)) {
+      this.tables.set(name, []);
+    }
+    return this.tables.get(name)!;
+  }
+}
+
+/**
+ * Order two column values: dates by time, numeric strings as numbers
+ */
+function compare(a: any, b: any): number {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+
+  if (typeof left === 'number' || typeof right === 'number') {
+    return Number(left) - Number(right);
+  }
+  if (left === right) {
+    return 0;
+  }
+  return String(left) < String(right) ? -1 : 1;
+}
+
+/**
+ * Round away the floating point noise of adding decimal amounts
+ */
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
@@ -0,0 +1,35 @@
+import type { EventBus } from '@shared/types';
+
+/**
+ * In-process event bus, for tests of services that listen to the Payment Service
+ * Handlers run synchronously, in the order they subscribed.
+ */
+export class MemoryEventBus implements EventBus {
+  /** Every event emitted, in order, for assertions */
+  readonly emitted: Array<{ event: string; data: any }> = [];
+
+  private readonly handlers = new Map<string, Array<(data: any) => void>>();
+
+  emit(event: string, data: any): void {
+    this.emitted.push({ event, data });
+    [...(this.handlers.get(event) || [])].forEach(handler => handler(data));
+  }
+
+  on(event: string, handler: (data: any) => void): () => void {
+    this.handlers.set(event, [...(this.handlers.get(event) || []), handler]);
+    return () => {
+      this.handlers.set(
+        event,
+        (this.handlers.get(event) || []).filter(other => other !== handler)
+      );
+    };
+  }
+
+  once(event: string, handler: (data: any) => void): () => void {
+    const off = this.on(event, data => {
+      off();
+      handler(data);
+    });
+    return off;
+  }
+}
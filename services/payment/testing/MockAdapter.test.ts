@@ -0,0 +1,299 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { DatabaseConnection, Logger } from '@shared/types';
+import { MockAdapter } from '../core/processors/MockAdapter';
+import { LedgerManager } from '../core/LedgerManager';
+import { PaymentService } from '../core/PaymentService';
+import { createMoney } from '../core/money';
+import { Currency, MockProcessorOptions, Transaction } from '../core/types';
+
+const usd = (minorUnits: number) => createMoney(minorUnits, 'USD');
+
+function mockAdapter(mock: MockProcessorOptions = {}): MockAdapter {
+  return new MockAdapter({ provider: 'mock', apiKey: 'mock', mock });
+}
+
+/** Whether each of a run of charges went through */
+async function chargeOutcomes(adapter: MockAdapter, count: number): Promise<boolean[]> {
+  const outcomes: boolean[] = [];
+  for (let i = 0; i < count; i++) {
+    outcomes.push((await adapter.processPayment(usd(1000), 'credit_card')).success);
+  }
+  return outcomes;
+}
+
+describe('MockAdapter', () => {
+  describe('seeded failures', () => {
+    it('fails the same charges for the same seed', async () => {
+      const first = await chargeOutcomes(mockAdapter({ seed: 42, failureRate: 0.5 }), 20);
+      const second = await chargeOutcomes(mockAdapter({ seed: 42, failureRate: 0.5 }), 20);
+
+      expect(second).toEqual(first);
+      expect(first).toContain(true);
+      expect(first).toContain(false);
+    });
+
+    it('fails different charges for another seed', async () => {
+      const first = await chargeOutcomes(mockAdapter({ seed: 42, failureRate: 0.5 }), 20);
+      const other = await chargeOutcomes(mockAdapter({ seed: 7, failureRate: 0.5 }), 20);
+
+      expect(other).not.toEqual(first);
+    });
+
+    it('fails payouts from the same sequence', async () => {
+      const payouts = async (adapter: MockAdapter) => {
+        const outcomes: boolean[] = [];
+        for (let i = 0; i < 20; i++) {
+          outcomes.push((await adapter.sendPayout(usd(1000), 'bank_1')).success);
+        }
+        return outcomes;
+      };
+
+      const charges = await chargeOutcomes(mockAdapter({ seed: 3, failureRate: 0.5 }), 20);
+      expect(await payouts(mockAdapter({ seed: 3, failureRate: 0.5 }))).toEqual(charges);
+    });
+
+    it('never fails at random by default, and always at a failure rate of 1', async () => {
+      expect(await chargeOutcomes(mockAdapter({ seed: 1 }), 10)).not.toContain(false);
+
+      const result = await mockAdapter({ seed: 1, failureRate: 1 }).processPayment(
+        usd(1000),
+        'credit_card'
+      );
+      expect(result).toEqual({
+        success: false,
+        error: 'Mock payment failed (random failure)',
+      });
+    });
+  });
+
+  describe('test amounts', () => {
+    it.each([
+      [400005, { success: false, error: 'Your card was declined.' }],
+      [400051, { success: false, error: 'Your card has insufficient funds.' }],
+      [
+        400065,
+        {
+          success: false,
+          requiresAction: true,
+          error: 'Payment requires customer authentication (3D Secure)',
+        },
+      ],
+    ])('fails a charge of %i the same way every time', async (minorUnits, expected) => {
+      const adapter = mockAdapter();
+
+      for (const currency of ['USD', 'EUR', 'JPY'] as Currency[]) {
+        const amount = createMoney(minorUnits, currency);
+        expect(await adapter.processPayment(amount, 'credit_card')).toEqual(expected);
+        expect(await adapter.authorize(amount, 'credit_card')).toEqual(expected);
+      }
+      expect(adapter.charges.size).toBe(0);
+    });
+
+    it('times out a charge of 400068 by throwing', async () => {
+      const adapter = mockAdapter();
+
+      await expect(adapter.processPayment(usd(400068), 'credit_card')).rejects.toThrow(
+        'Mock processor did not respond in time'
+      );
+      await expect(adapter.authorize(usd(400068), 'credit_card')).rejects.toThrow(
+        'Mock processor did not respond in time'
+      );
+    });
+
+    it('takes precedence over the random failure rate', async () => {
+      const adapter = mockAdapter({ seed: 1, failureRate: 1 });
+
+      const result = await adapter.processPayment(usd(400051), 'credit_card');
+      expect(result.error).toBe('Your card has insufficient funds.');
+    });
+  });
+
+  describe('rules and test tokens', () => {
+    it('applies a test token before a test amount', async () => {
+      const adapter = mockAdapter();
+
+      const succeeded = await adapter.processPayment(usd(400005), 'credit_card', {
+        paymentMethodToken: 'mock_card_success',
+      });
+      expect(succeeded.success).toBe(true);
+
+      const declined = await adapter.processPayment(usd(1000), 'credit_card', {
+        paymentMethodToken: 'mock_card_declined',
+      });
+      expect(declined).toEqual({ success: false, error: 'Your card was declined.' });
+    });
+
+    it('applies a rule before test tokens and amounts', async () => {
+      const adapter = mockAdapter({
+        rules: [
+          { token: 'mock_card_declined', outcome: 'succeeded' },
+          { amount: 400065, outcome: 'insufficient_funds' },
+        ],
+      });
+
+      const byToken = await adapter.processPayment(usd(1000), 'credit_card', {
+        paymentMethodToken: 'mock_card_declined',
+      });
+      expect(byToken.success).toBe(true);
+
+      const byAmount = await adapter.processPayment(usd(400065), 'credit_card');
+      expect(byAmount).toEqual({ success: false, error: 'Your card has insufficient funds.' });
+    });
+
+    it('applies the first rule that matches every field it sets', async () => {
+      const adapter = mockAdapter({
+        rules: [
+          { amount: 2500, currency: 'EUR', outcome: 'requires_action' },
+          { amount: 2500, outcome: 'declined' },
+          { amount: 2500, outcome: 'insufficient_funds' },
+        ],
+      });
+
+      const eur = await adapter.processPayment(createMoney(2500, 'EUR'), 'credit_card');
+      expect(eur.requiresAction).toBe(true);
+
+      const usdResult = await adapter.processPayment(usd(2500), 'credit_card');
+      expect(usdResult.error).toBe('Your card was declined.');
+
+      expect((await adapter.processPayment(usd(2501), 'credit_card')).success).toBe(true);
+    });
+  });
+
+  describe('charges', () => {
+    it('refunds no more than was charged', async () => {
+      const adapter = mockAdapter();
+      const { reference } = await adapter.processPayment(usd(3000), 'credit_card');
+
+      expect((await adapter.processRefund(reference!, usd(1000))).success).toBe(true);
+      expect(await adapter.verifyPayment(reference!)).toEqual({
+        verified: true,
+        status: 'partially_refunded',
+      });
+
+      expect(await adapter.processRefund(reference!, usd(2001))).toEqual({
+        success: false,
+        error: 'Refund exceeds the unrefunded amount of the charge',
+      });
+      expect((await adapter.processRefund(reference!, usd(2000))).success).toBe(true);
+      expect((await adapter.verifyPayment(reference!)).status).toBe('refunded');
+    });
+
+    it('captures part of an authorization once', async () => {
+      const adapter = mockAdapter();
+      const { reference } = await adapter.authorize(usd(8000), 'credit_card');
+
+      expect(await adapter.capture(reference!, usd(5000))).toEqual({ success: true });
+      expect(adapter.charges.get(reference!)).toMatchObject({
+        amount: usd(5000),
+        status: 'completed',
+      });
+      expect((await adapter.capture(reference!, usd(5000))).success).toBe(false);
+    });
+
+    it('does not know charges it did not make', async () => {
+      expect(await mockAdapter().verifyPayment('mock_unknown')).toEqual({
+        verified: false,
+        status: 'not_found',
+      });
+    });
+  });
+});
+
+describe('PaymentService with the mock processor', () => {
+  const database: DatabaseConnection = {
+    host: 'localhost',
+    database: 'payments_test',
+    connect: async () => {},
+    disconnect: async () => {},
+    query: async <T>() => [] as T,
+    transaction: fn => fn(database),
+  };
+  const logger: Logger = { debug() {}, info() {}, warn() {}, error() {} };
+
+  let statuses: string[];
+
+  async function paymentService(): Promise<PaymentService> {
+    statuses = [];
+    vi.spyOn(LedgerManager.prototype, 'createTransaction').mockImplementation(
+      async data =>
+        ({
+          ...data,
+          id: 'tx_mock',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }) as Transaction
+    );
+    vi.spyOn(LedgerManager.prototype, 'updateTransactionStatus').mockImplementation(
+      async (id, status) => {
+        statuses.push(status);
+        return { id, status } as Transaction;
+      }
+    );
+
+    const service = new PaymentService();
+    await service.initialize(
+      {
+        processor: { provider: 'mock', apiKey: 'mock', mock: { seed: 1 } },
+        defaultCurrency: 'USD',
+        authorization: { sweepIntervalMinutes: 0 },
+      },
+      { environment: 'development', platform: 'web', database, logger }
+    );
+    return service;
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const payment = (minorUnits: number) => ({
+    payerId: 'user_1',
+    payeeId: 'merchant_1',
+    amount: usd(minorUnits),
+    paymentMethod: 'credit_card' as const,
+  });
+
+  it('reports a payment that needs 3D Secure as AUTHENTICATION_REQUIRED', async () => {
+    const service = await paymentService();
+
+    const result = await service.processTransaction(payment(400065));
+
+    expect(result).toEqual({
+      success: false,
+      error: {
+        code: 'AUTHENTICATION_REQUIRED',
+        message: 'Payment requires customer authentication (3D Secure)',
+      },
+    });
+    expect(statuses).toEqual(['processing', 'failed']);
+  });
+
+  it('reports an authorization that needs 3D Secure as AUTHENTICATION_REQUIRED', async () => {
+    const service = await paymentService();
+
+    const result = await service.authorizePayment(payment(400065));
+
+    expect(result.error?.code).toBe('AUTHENTICATION_REQUIRED');
+    expect(statuses).toEqual(['processing', 'failed']);
+  });
+
+  it.each([
+    [400005, 'Your card was declined.'],
+    [400051, 'Your card has insufficient funds.'],
+  ])('reports a charge of %i as PAYMENT_FAILED', async (minorUnits, message) => {
+    const service = await paymentService();
+
+    const result = await service.processTransaction(payment(minorUnits));
+
+    expect(result).toEqual({ success: false, error: { code: 'PAYMENT_FAILED', message } });
+  });
+
+  it('reports the same outcome for the same test amount every time', async () => {
+    const service = await paymentService();
+
+    const first = await service.processTransaction(payment(400065));
+    const second = await service.processTransaction(payment(400065));
+
+    expect(second).toEqual(first);
+  });
+});
@@ -0,0 +1,404 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Logger } from '@shared/types';
+import { MemoryDatabase } from './MemoryDatabase';
+import { MockAdapter } from '../core/processors/MockAdapter';
+import { PaymentService } from '../core/PaymentService';
+import { createMoney } from '../core/money';
+import { hmacSha256, toHex } from '../core/webhookSignatures';
+import {
+  DisputeResult,
+  PaymentServiceConfig,
+  WebhookResult,
+  DISPUTE_ENTITY,
+  ESCROW_ENTITY,
+  PAYOUT_ENTITY,
+  PROCESSOR_ENTITY,
+  SELF_ENTITY,
+} from '../core/types';
+
+const usd = (minorUnits: number) => createMoney(minorUnits, 'USD');
+const logger: Logger = { debug() {}, info() {}, warn() {}, error() {} };
+const WEBHOOK_SECRET = 'whsec_test';
+
+async function paymentService(
+  database: MemoryDatabase,
+  config: Partial<PaymentServiceConfig> = {}
+): Promise<PaymentService> {
+  const service = new PaymentService();
+  await service.initialize(
+    {
+      processor: { provider: 'mock', apiKey: 'mock', webhookSecret: WEBHOOK_SECRET },
+      defaultCurrency: 'USD',
+      authorization: { sweepIntervalMinutes: 0 },
+      ...config,
+    },
+    { environment: 'development', platform: 'web', database, logger }
+  );
+  return service;
+}
+
+/** Deliver a signed mock processor webhook */
+async function deliverWebhook(
+  service: PaymentService,
+  type: string,
+  data: Record<string, unknown>
+): Promise<WebhookResult> {
+  const payload = JSON.stringify({
+    id: `evt_${Math.random().toString(36).substr(2, 9)}`,
+    type,
+    created: new Date().toISOString(),
+    data,
+  });
+  const signature = toHex(await hmacSha256(WEBHOOK_SECRET, payload));
+  return service.receiveWebhook('mock', payload, { 'x-mock-signature': signature });
+}
+
+/** An owner's USD balance in minor units, zero without an account */
+function balanceOf(database: MemoryDatabase, ownerId: string): number {
+  const [account] = database.rows('accounts', { owner_id: ownerId, currency: 'USD' });
+  return account ? Math.round(Number(account.balance) * 100) : 0;
+}
+
+/** A completed 50.00 card payment from user_1 to merchant_1 */
+async function cardPayment(service: PaymentService): Promise<string> {
+  const result = await service.processTransaction({
+    payerId: 'user_1',
+    payeeId: 'merchant_1',
+    amount: usd(5000),
+    paymentMethod: 'credit_card',
+  });
+  expect(result.transaction?.status).toBe('completed');
+
+  return result.transaction!.id;
+}
+
+/** merchant_1's bank account, to pay out to */
+async function payoutDestination(service: PaymentService): Promise<string> {
+  const { destination } = await service.addPayoutDestination({
+    ownerId: 'merchant_1',
+    last4: '6789',
+    currency: 'USD',
+    accountHolderName: 'Merchant One',
+    externalReference: 'ba_merchant_1',
+  });
+
+  return destination!.id;
+}
+
+describe('PaymentService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('cancelling a charge the processor settles later', () => {
+    async function pendingCharge(database: MemoryDatabase) {
+      vi.spyOn(MockAdapter.prototype, 'processPayment').mockResolvedValue({
+        success: true,
+        pending: true,
+        reference: 'mock_ch_pending',
+      });
+
+      const service = await paymentService(database);
+      const result = await service.processTransaction({
+        payerId: 'user_1',
+        payeeId: 'merchant_1',
+        amount: usd(5000),
+        paymentMethod: 'credit_card',
+      });
+      expect(result.transaction?.status).toBe('processing');
+
+      return { service, transactionId: result.transaction!.id };
+    }
+
+    it('refuses a success webhook that arrives while the void is at the processor', async () => {
+      const database = new MemoryDatabase();
+      const { service, transactionId } = await pendingCharge(database);
+
+      let raced: WebhookResult | undefined;
+      vi.spyOn(MockAdapter.prototype, 'voidPayment').mockImplementation(async () => {
+        raced = await deliverWebhook(service, 'payment.succeeded', { reference: 'mock_ch_pending' });
+        return { success: true };
+      });
+
+      const cancelled = await service.cancelTransaction(transactionId, 'Customer changed their mind');
+
+      expect(raced?.success).toBe(false);
+      expect(raced?.error?.code).toBe('SETTLEMENT_PENDING');
+      expect(cancelled.success).toBe(true);
+      expect(cancelled.transaction?.status).toBe('cancelled');
+      expect(cancelled.transaction?.metadata?.pendingSettlement).toBeUndefined();
+      expect(database.rows('ledger_entries')).toEqual([]);
+      expect(balanceOf(database, 'merchant_1')).toBe(0);
+
+      // The provider's retry finds the charge cancelled
+      const retried = await deliverWebhook(service, 'payment.succeeded', {
+        reference: 'mock_ch_pending',
+      });
+      expect(retried.success).toBe(true);
+      expect(retried.event?.status).toBe('ignored');
+    });
+
+    it('leaves the charge to settle when the processor refuses the void', async () => {
+      const database = new MemoryDatabase();
+      const { service, transactionId } = await pendingCharge(database);
+
+      vi.spyOn(MockAdapter.prototype, 'voidPayment').mockResolvedValue({
+        success: false,
+        error: 'Charge already succeeded',
+      });
+
+      const cancelled = await service.cancelTransaction(transactionId);
+      expect(cancelled.error?.code).toBe('VOID_FAILED');
+
+      const settled = await deliverWebhook(service, 'payment.succeeded', {
+        reference: 'mock_ch_pending',
+      });
+      expect(settled.success).toBe(true);
+      expect((await service.getTransaction(transactionId))?.status).toBe('completed');
+      expect(balanceOf(database, 'merchant_1')).toBe(5000);
+    });
+
+    it('does not void a charge a webhook settled first', async () => {
+      const database = new MemoryDatabase();
+      const { service, transactionId } = await pendingCharge(database);
+      const voidPayment = vi.spyOn(MockAdapter.prototype, 'voidPayment');
+
+      await deliverWebhook(service, 'payment.succeeded', { reference: 'mock_ch_pending' });
+      const cancelled = await service.cancelTransaction(transactionId);
+
+      expect(cancelled.success).toBe(false);
+      expect(voidPayment).not.toHaveBeenCalled();
+      expect(balanceOf(database, 'merchant_1')).toBe(5000);
+    });
+  });
+
+  describe('escrow', () => {
+    const escrowService = (database: MemoryDatabase) =>
+      paymentService(database, { escrowEnabled: true, platformFeePercent: 3 });
+
+    async function hold(service: PaymentService): Promise<string> {
+      const held = await service.holdInEscrow({
+        payerId: 'user_1',
+        payeeId: 'merchant_1',
+        amount: usd(5000),
+        paymentMethod: 'credit_card',
+      });
+      expect(held.transaction?.status).toBe('held');
+
+      return held.transaction!.id;
+    }
+
+    it('keeps a card payment from the payee until it is released', async () => {
+      const database = new MemoryDatabase();
+      const service = await escrowService(database);
+      const transactionId = await hold(service);
+
+      expect(balanceOf(database, ESCROW_ENTITY)).toBe(5000);
+      expect(balanceOf(database, 'merchant_1')).toBe(0);
+
+      const released = await service.releaseEscrow(transactionId, 'user_1');
+      expect(released.transaction?.status).toBe('released');
+      expect(balanceOf(database, ESCROW_ENTITY)).toBe(0);
+      expect(balanceOf(database, 'merchant_1')).toBe(4850);
+      expect(balanceOf(database, SELF_ENTITY)).toBe(150);
+
+      // Released funds are the payee's; the hold cannot be cancelled any more
+      const cancelled = await service.cancelEscrow(transactionId);
+      expect(cancelled.success).toBe(false);
+      expect(balanceOf(database, 'merchant_1')).toBe(4850);
+    });
+
+    it('refunds a cancelled hold to the card without paying the payee', async () => {
+      const database = new MemoryDatabase();
+      const service = await escrowService(database);
+      const transactionId = await hold(service);
+      const processRefund = vi.spyOn(MockAdapter.prototype, 'processRefund');
+
+      const cancelled = await service.cancelEscrow(transactionId, 'Item never shipped');
+
+      expect(cancelled.transaction?.status).toBe('cancelled');
+      expect(processRefund).toHaveBeenCalledTimes(1);
+      expect(balanceOf(database, ESCROW_ENTITY)).toBe(0);
+      expect(balanceOf(database, PROCESSOR_ENTITY)).toBe(0);
+      expect(balanceOf(database, 'merchant_1')).toBe(0);
+
+      const released = await service.releaseEscrow(transactionId);
+      expect(released.success).toBe(false);
+    });
+  });
+
+  describe('payouts', () => {
+    const payoutService = (database: MemoryDatabase) =>
+      paymentService(database, { payouts: { enabled: true } });
+
+    it('returns a payout the processor rejects to the wallet', async () => {
+      const database = new MemoryDatabase();
+      const service = await payoutService(database);
+      await cardPayment(service);
+      const destinationId = await payoutDestination(service);
+
+      const requested = await service.requestPayout({
+        ownerId: 'merchant_1',
+        amount: usd(3000),
+        destinationId,
+      });
+      expect(requested.payout?.status).toBe('requested');
+      expect(balanceOf(database, 'merchant_1')).toBe(2000);
+      expect(balanceOf(database, PAYOUT_ENTITY)).toBe(3000);
+
+      vi.spyOn(MockAdapter.prototype, 'sendPayout').mockResolvedValue({
+        success: false,
+        error: 'Account closed',
+      });
+      const [failed] = await service.processPayoutBatch();
+
+      expect(failed.status).toBe('failed');
+      expect(failed.failureReason).toBe('Account closed');
+      expect(failed.reversalTransactionId).toBeDefined();
+      expect(balanceOf(database, 'merchant_1')).toBe(5000);
+      expect(balanceOf(database, PAYOUT_ENTITY)).toBe(0);
+
+      // Neither sent again nor reversed twice
+      expect(await service.processPayoutBatch()).toEqual([]);
+      expect((await service.failPayout(failed.id, 'Account closed')).success).toBe(false);
+      expect(balanceOf(database, 'merchant_1')).toBe(5000);
+    });
+
+    it('reverses a payout returned after it was sent, and not one already paid', async () => {
+      const database = new MemoryDatabase();
+      const service = await payoutService(database);
+      await cardPayment(service);
+      const destinationId = await payoutDestination(service);
+
+      const first = await service.requestPayout({
+        ownerId: 'merchant_1',
+        amount: usd(1000),
+        destinationId,
+      });
+      const second = await service.requestPayout({
+        ownerId: 'merchant_1',
+        amount: usd(2000),
+        destinationId,
+      });
+      const sent = await service.processPayoutBatch();
+      expect(sent.map(payout => payout.status)).toEqual(['in_transit', 'in_transit']);
+
+      expect((await service.completePayout(first.payout!.id)).payout?.status).toBe('paid');
+      expect((await service.failPayout(first.payout!.id, 'Returned')).success).toBe(false);
+
+      const returned = await service.failPayout(second.payout!.id, 'Returned by the bank');
+      expect(returned.payout?.status).toBe('failed');
+      expect(balanceOf(database, 'merchant_1')).toBe(4000);
+      expect(balanceOf(database, PAYOUT_ENTITY)).toBe(0);
+    });
+  });
+
+  describe('disputes', () => {
+    const disputeService = (
+      database: MemoryDatabase,
+      config: Partial<PaymentServiceConfig> = {}
+    ) => paymentService(database, { refundsEnabled: true, platformFeePercent: 3, ...config });
+
+    it('holds the payee share of a disputed payment and charges it back when lost', async () => {
+      const database = new MemoryDatabase();
+      const service = await disputeService(database);
+      const transactionId = await cardPayment(service);
+      expect(balanceOf(database, 'merchant_1')).toBe(4850);
+
+      const opened = await service.openDispute({
+        transactionId,
+        reason: 'product_not_received',
+        processorReference: 'dp_1',
+      });
+      expect(opened.dispute?.status).toBe('needs_response');
+      expect(opened.dispute?.holdAmount).toEqual(usd(4850));
+      expect(balanceOf(database, 'merchant_1')).toBe(0);
+      expect(balanceOf(database, DISPUTE_ENTITY)).toBe(4850);
+
+      // Opening it again from the processor's redelivered notification changes nothing
+      const reopened = await service.openDispute({
+        transactionId,
+        reason: 'product_not_received',
+        processorReference: 'dp_1',
+      });
+      expect(reopened.dispute?.id).toBe(opened.dispute!.id);
+      expect(balanceOf(database, DISPUTE_ENTITY)).toBe(4850);
+
+      // A disputed payment is refunded by losing the dispute
+      expect((await service.processRefund({ transactionId })).error?.code).toBe('DISPUTE_OPEN');
+
+      const lost = await service.resolveDispute(opened.dispute!.id, 'lost');
+      expect(lost.dispute?.status).toBe('lost');
+      expect(lost.transaction?.amount).toEqual(usd(5000));
+      expect(lost.transaction?.fee).toEqual(usd(150));
+      expect(lost.dispute?.reversalTransactionId).toBe(lost.transaction?.id);
+
+      const original = await service.getTransaction(transactionId);
+      expect(original?.status).toBe('refunded');
+      expect(original?.refundedAmount).toEqual(usd(5000));
+
+      // Everything the payment moved is back where it came from
+      expect(balanceOf(database, 'merchant_1')).toBe(0);
+      expect(balanceOf(database, SELF_ENTITY)).toBe(0);
+      expect(balanceOf(database, DISPUTE_ENTITY)).toBe(0);
+      expect(balanceOf(database, PROCESSOR_ENTITY)).toBe(0);
+
+      expect((await service.resolveDispute(opened.dispute!.id, 'won')).success).toBe(false);
+    });
+
+    it('holds and charges back a payment the payee has already paid out', async () => {
+      const database = new MemoryDatabase();
+      const service = await disputeService(database, { payouts: { enabled: true } });
+      const transactionId = await cardPayment(service);
+
+      const paidOut = await service.requestPayout({
+        ownerId: 'merchant_1',
+        amount: usd(balanceOf(database, 'merchant_1')),
+        destinationId: await payoutDestination(service),
+      });
+      expect(paidOut.success).toBe(true);
+      expect(balanceOf(database, 'merchant_1')).toBe(0);
+
+      const opened = await service.openDispute({ transactionId, reason: 'fraudulent' });
+      expect(opened.success).toBe(true);
+      expect(balanceOf(database, 'merchant_1')).toBe(-4850);
+      expect(balanceOf(database, DISPUTE_ENTITY)).toBe(4850);
+
+      const lost = await service.resolveDispute(opened.dispute!.id, 'lost');
+      expect(lost.success).toBe(true);
+      expect(lost.dispute?.status).toBe('lost');
+      expect(lost.transaction?.status).toBe('completed');
+      expect((await service.getTransaction(transactionId))?.status).toBe('refunded');
+      expect(balanceOf(database, DISPUTE_ENTITY)).toBe(0);
+      expect(balanceOf(database, 'merchant_1')).toBe(-4850);
+    });
+
+    it('counts a refund still at the processor against the disputed amount', async () => {
+      const database = new MemoryDatabase();
+      const service = await disputeService(database);
+      const transactionId = await cardPayment(service);
+
+      let raced: DisputeResult | undefined;
+      const processRefund = MockAdapter.prototype.processRefund;
+      vi.spyOn(MockAdapter.prototype, 'processRefund').mockImplementation(async function (
+        this: MockAdapter,
+        ...args
+      ) {
+        raced = await service.openDispute({
+          transactionId,
+          amount: usd(5000),
+          reason: 'fraudulent',
+        });
+        return processRefund.apply(this, args);
+      });
+
+      const refunded = await service.processRefund({ transactionId, amount: usd(2000) });
+      expect(refunded.success).toBe(true);
+
+      expect(raced?.success).toBe(false);
+      expect(raced?.error?.code).toBe('INVALID_DISPUTE_AMOUNT');
+      expect(raced?.error?.details?.remainingRefundable).toEqual(usd(3000));
+      expect(database.rows('disputes')).toEqual([]);
+    });
+  });
+});
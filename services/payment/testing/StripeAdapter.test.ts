@@ -0,0 +1,276 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { StripeAdapter } from '../core/processors/StripeAdapter';
+import { StripeApiError } from '../core/stripeClient';
+import { createMoney } from '../core/money';
+import { StripeStubServer } from './StripeStubServer';
+
+describe('StripeAdapter against the Stripe stub server', () => {
+  let stub: StripeStubServer;
+  let adapter: StripeAdapter;
+
+  beforeAll(async () => {
+    stub = new StripeStubServer();
+    await stub.start();
+  });
+
+  afterAll(async () => {
+    await stub.stop();
+  });
+
+  beforeEach(() => {
+    adapter = new StripeAdapter({
+      provider: 'stripe',
+      apiKey: 'sk_test_adapter',
+      apiBaseUrl: stub.url,
+    });
+  });
+
+  const usd = (minorUnits: number) => createMoney(minorUnits, 'USD');
+
+  /** Charge a card and return the PaymentIntent ID */
+  async function charge(minorUnits: number, transactionId: string): Promise<string> {
+    const result = await adapter.processPayment(usd(minorUnits), 'credit_card', {
+      transactionId,
+      paymentMethodToken: 'pm_card_visa',
+    });
+    expect(result.success).toBe(true);
+    return result.reference!;
+  }
+
+  describe('processPayment', () => {
+    it('charges a card in minor units, keyed by transaction', async () => {
+      const result = await adapter.processPayment(usd(2599), 'credit_card', {
+        transactionId: 'tx_charge',
+        paymentMethodToken: 'pm_card_visa',
+      });
+
+      expect(result).toEqual({ success: true, reference: expect.stringMatching(/^pi_/) });
+      expect(stub.paymentIntents.get(result.reference!)).toMatchObject({
+        amount: 2599,
+        amount_received: 2599,
+        currency: 'usd',
+        status: 'succeeded',
+        metadata: { transactionId: 'tx_charge' },
+      });
+      expect(stub.requests.at(-1)).toMatchObject({
+        path: '/v1/payment_intents',
+        idempotencyKey: 'charge_tx_charge',
+      });
+    });
+
+    it('charges once when a transaction is retried', async () => {
+      const metadata = { transactionId: 'tx_retry', paymentMethodToken: 'pm_card_visa' };
+      const first = await adapter.processPayment(usd(1000), 'credit_card', metadata);
+      const second = await adapter.processPayment(usd(1000), 'credit_card', metadata);
+
+      expect(second.reference).toBe(first.reference);
+      const intents = [...stub.paymentIntents.values()].filter(
+        intent => intent.metadata.transactionId === 'tx_retry'
+      );
+      expect(intents).toHaveLength(1);
+    });
+
+    it('returns a declined card as a failed charge', async () => {
+      const result = await adapter.processPayment(usd(1000), 'credit_card', {
+        transactionId: 'tx_declined',
+        paymentMethodToken: 'pm_card_chargeDeclinedInsufficientFunds',
+      });
+
+      expect(result).toEqual({
+        success: false,
+        reference: expect.stringMatching(/^pi_/),
+        error: 'Your card has insufficient funds.',
+      });
+      expect(stub.paymentIntents.get(result.reference!)?.status).toBe('requires_payment_method');
+    });
+
+    it('flags a card that needs 3D Secure as requiring action', async () => {
+      const result = await adapter.processPayment(usd(1000), 'credit_card', {
+        transactionId: 'tx_3ds',
+        paymentMethodToken: 'pm_card_authenticationRequired',
+      });
+
+      expect(result).toEqual({
+        success: false,
+        requiresAction: true,
+        reference: expect.stringMatching(/^pi_/),
+        error: 'Payment requires customer authentication (3D Secure)',
+      });
+    });
+
+    it('leaves a bank debit pending until it settles', async () => {
+      const result = await adapter.processPayment(usd(5000), 'bank_transfer', {
+        transactionId: 'tx_debit',
+        paymentMethodToken: 'pm_usBankAccount_success',
+      });
+      expect(result).toEqual({ success: true, pending: true, reference: result.reference });
+
+      stub.settlePaymentIntent(result.reference!);
+      expect(await adapter.verifyPayment(result.reference!)).toEqual({
+        verified: true,
+        status: 'completed',
+      });
+    });
+
+    it('needs a payment method token', async () => {
+      const result = await adapter.processPayment(usd(1000), 'credit_card', {
+        transactionId: 'tx_no_token',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/paymentMethodToken/);
+    });
+
+    it('rejects a secret key Stripe does not accept', async () => {
+      const unauthorized = new StripeAdapter({
+        provider: 'stripe',
+        apiKey: 'sk_live_wrong',
+        apiBaseUrl: stub.url,
+      });
+
+      await expect(
+        unauthorized.processPayment(usd(1000), 'credit_card', {
+          paymentMethodToken: 'pm_card_visa',
+        })
+      ).rejects.toMatchObject({ statusCode: 401, code: 'PROCESSOR_ERROR' });
+    });
+  });
+
+  describe('processRefund', () => {
+    it('refunds part of a charge, then the rest', async () => {
+      const reference = await charge(3000, 'tx_refunded');
+
+      const partial = await adapter.processRefund(reference, usd(1200), {
+        transactionId: 'tx_refund_1',
+      });
+      expect(partial).toEqual({ success: true, reference: expect.stringMatching(/^re_/) });
+      expect(stub.refunds.get(partial.reference!)).toMatchObject({
+        amount: 1200,
+        payment_intent: reference,
+        metadata: { transactionId: 'tx_refund_1' },
+      });
+      expect(stub.requests.at(-1)?.idempotencyKey).toBe('refund_tx_refund_1');
+
+      const rest = await adapter.processRefund(reference, usd(1800), {
+        transactionId: 'tx_refund_2',
+      });
+      expect(rest.success).toBe(true);
+    });
+
+    it('refunds once when a refund is retried', async () => {
+      const reference = await charge(3000, 'tx_refund_retry');
+
+      const first = await adapter.processRefund(reference, usd(1000), {
+        transactionId: 'tx_refund_retried',
+      });
+      const second = await adapter.processRefund(reference, usd(1000), {
+        transactionId: 'tx_refund_retried',
+      });
+
+      expect(second.reference).toBe(first.reference);
+      const refunds = [...stub.refunds.values()].filter(
+        refund => refund.payment_intent === reference
+      );
+      expect(refunds).toHaveLength(1);
+    });
+
+    it('refuses to refund more than is left of the charge', async () => {
+      const reference = await charge(3000, 'tx_over_refunded');
+      await adapter.processRefund(reference, usd(2000), { transactionId: 'tx_refund_3' });
+
+      const error = await adapter
+        .processRefund(reference, usd(1001), { transactionId: 'tx_refund_4' })
+        .catch(caught => caught);
+
+      expect(error).toBeInstanceOf(StripeApiError);
+      expect(error).toMatchObject({
+        statusCode: 400,
+        error: { code: 'amount_too_large' },
+      });
+    });
+  });
+
+  describe('authorize and capture', () => {
+    it('holds an authorization until it is captured', async () => {
+      const result = await adapter.authorize(usd(8000), 'credit_card', {
+        transactionId: 'tx_authorized',
+        paymentMethodToken: 'pm_card_mastercard',
+      });
+
+      expect(result).toEqual({ success: true, reference: expect.stringMatching(/^pi_/) });
+      expect(stub.paymentIntents.get(result.reference!)).toMatchObject({
+        capture_method: 'manual',
+        status: 'requires_capture',
+      });
+      expect(stub.requests.at(-1)?.idempotencyKey).toBe('authorize_tx_authorized');
+      expect(await adapter.verifyPayment(result.reference!)).toEqual({
+        verified: true,
+        status: 'authorized',
+      });
+    });
+
+    it('captures part of an authorization, once', async () => {
+      const { reference } = await adapter.authorize(usd(8000), 'credit_card', {
+        transactionId: 'tx_partly_captured',
+        paymentMethodToken: 'pm_card_visa',
+      });
+
+      expect(await adapter.capture(reference!, usd(5000))).toEqual({ success: true });
+      expect(stub.paymentIntents.get(reference!)).toMatchObject({
+        status: 'succeeded',
+        amount_received: 5000,
+      });
+      expect(stub.requests.at(-1)?.idempotencyKey).toBe(`capture_${reference}`);
+
+      // A retried capture is answered from the first
+      expect(await adapter.capture(reference!, usd(5000))).toEqual({ success: true });
+    });
+
+    it('refuses to capture more than was authorized', async () => {
+      const { reference } = await adapter.authorize(usd(8000), 'credit_card', {
+        transactionId: 'tx_over_captured',
+        paymentMethodToken: 'pm_card_visa',
+      });
+
+      await expect(adapter.capture(reference!, usd(8001))).rejects.toMatchObject({
+        statusCode: 400,
+        error: { param: 'amount_to_capture' },
+      });
+      expect(stub.paymentIntents.get(reference!)?.status).toBe('requires_capture');
+    });
+
+    it('returns a declined authorization as a failed one', async () => {
+      const result = await adapter.authorize(usd(8000), 'credit_card', {
+        transactionId: 'tx_authorization_declined',
+        paymentMethodToken: 'pm_card_chargeDeclinedExpiredCard',
+      });
+
+      expect(result).toMatchObject({ success: false, error: 'Your card has expired.' });
+    });
+
+    it('voids an authorization', async () => {
+      const { reference } = await adapter.authorize(usd(8000), 'credit_card', {
+        transactionId: 'tx_voided',
+        paymentMethodToken: 'pm_card_visa',
+      });
+
+      expect(await adapter.voidAuthorization(reference!)).toEqual({ success: true });
+      expect(stub.paymentIntents.get(reference!)?.status).toBe('canceled');
+    });
+  });
+
+  describe('sendPayout', () => {
+    it('pays out to a bank account, keyed by payout', async () => {
+      const result = await adapter.sendPayout(usd(15000), 'ba_stub', { payoutId: 'payout_1' });
+
+      expect(result).toEqual({ success: true, reference: expect.stringMatching(/^po_/) });
+      expect(stub.payouts.get(result.reference!)).toMatchObject({
+        amount: 15000,
+        currency: 'usd',
+        destination: 'ba_stub',
+        status: 'pending',
+      });
+      expect(stub.requests.at(-1)?.idempotencyKey).toBe('payout_payout_1');
+    });
+  });
+});
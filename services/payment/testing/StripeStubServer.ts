@@ -0,0 +1,550 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import {
+  StripeDispute,
+  StripeErrorBody,
+  StripeEvent,
+  StripePaymentIntent,
+  StripePayout,
+  StripeRefund,
+} from '../core/stripeClient';
+import { hmacSha256, toHex } from '../core/webhookSignatures';
+
+/**
+ * Stripe Stub Server
+ * Local HTTP server answering the Stripe endpoints StripeClient calls, so the
+ * Stripe processor can be exercised without network access
+ */
+
+/**
+ * Outcome of confirming a PaymentIntent with one of Stripe's test PaymentMethods
+ */
+type TestCardOutcome =
+  | { result: 'succeeded' }
+  | { result: 'processing' }
+  | { result: 'requires_action' }
+  | { result: 'declined'; declineCode: string; message: string };
+
+/**
+ * The stub's test PaymentMethods, named after Stripe's
+ */
+export const STRIPE_TEST_PAYMENT_METHODS: Record<string, TestCardOutcome> = {
+  pm_card_visa: { result: 'succeeded' },
+  pm_card_mastercard: { result: 'succeeded' },
+  pm_card_chargeDeclined: {
+    result: 'declined',
+    declineCode: 'generic_decline',
+    message: 'Your card was declined.',
+  },
+  pm_card_chargeDeclinedInsufficientFunds: {
+    result: 'declined',
+    declineCode: 'insufficient_funds',
+    message: 'Your card has insufficient funds.',
+  },
+  pm_card_chargeDeclinedExpiredCard: {
+    result: 'declined',
+    declineCode: 'expired_card',
+    message: 'Your card has expired.',
+  },
+  pm_card_authenticationRequired: { result: 'requires_action' },
+  /** A bank debit: processing until settlePaymentIntent */
+  pm_usBankAccount_success: { result: 'processing' },
+};
+
+/**
+ * A request the stub received, for assertions
+ */
+export interface StubRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  idempotencyKey?: string;
+}
+
+/**
+ * Stub server options
+ */
+export interface StripeStubServerOptions {
+  /** Only this secret key is accepted; by default any sk_test_ key is */
+  secretKey?: string;
+}
+
+/**
+ * Stripe stub server
+ * Keeps PaymentIntents, refunds, payouts and disputes in memory and replays
+ * responses for repeated idempotency keys, like Stripe does
+ */
+export class StripeStubServer {
+  readonly paymentIntents = new Map<string, StripePaymentIntent>();
+  readonly refunds = new Map<string, StripeRefund>();
+  readonly payouts = new Map<string, StripePayout>();
+  readonly disputes = new Map<string, StripeDispute & { evidence: Record<string, string> }>();
+  /** Every request received, oldest first */
+  readonly requests: StubRequest[] = [];
+
+  private server?: Server;
+  private idempotentResponses = new Map<string, { status: number; body: unknown }>();
+  private nextId = 1;
+
+  constructor(private options: StripeStubServerOptions = {}) {}
+
+  /**
+   * Start listening on localhost; returns the base URL to use as apiBaseUrl
+   */
+  async start(port = 0): Promise<string> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        const message = error instanceof Error ? error.message : 'Stub error';
+        this.send(res, 500, { error: { type: 'api_error', message } });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+
+    this.server = server;
+    return this.url;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) =>
+      server.close(error => (error ? reject(error) : resolve()))
+    );
+  }
+
+  /**
+   * Base URL of the running server
+   */
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Stripe stub server is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Open a dispute against a succeeded PaymentIntent, as an issuer would
+   */
+  createDispute(paymentIntentId: string): StripeDispute {
+    if (this.paymentIntents.get(paymentIntentId)?.status !== 'succeeded') {
+      throw new Error(`PaymentIntent ${paymentIntentId} has not succeeded`);
+    }
+
+    const dispute = {
+      id: this.generateId('dp'),
+      object: 'dispute' as const,
+      status: 'needs_response',
+      evidence: {},
+    };
+    this.disputes.set(dispute.id, dispute);
+    return dispute;
+  }
+
+  /**
+   * Finish a processing PaymentIntent, as a bank debit clearing or bouncing would
+   */
+  settlePaymentIntent(paymentIntentId: string, succeeded = true): StripePaymentIntent {
+    const intent = this.paymentIntents.get(paymentIntentId);
+    if (intent?.status !== 'processing') {
+      throw new Error(`PaymentIntent ${paymentIntentId} is not processing`);
+    }
+
+    if (succeeded) {
+      Object.assign(intent, { status: 'succeeded', amount_received: intent.amount });
+    } else {
+      Object.assign(intent, {
+        status: 'requires_payment_method',
+        last_payment_error: {
+          type: 'card_error',
+          code: 'payment_method_provider_decline',
+          message: 'The bank declined the debit.',
+        },
+      });
+    }
+
+    return intent;
+  }
+
+  /**
+   * A webhook request for an event about an object, signed with the endpoint's
+   * secret the way Stripe signs them
+   */
+  async webhook(
+    type: string,
+    object: Record<string, any>,
+    webhookSecret: string
+  ): Promise<{ payload: string; headers: Record<string, string> }> {
+    const event: StripeEvent = {
+      id: this.generateId('evt'),
+      object: 'event',
+      type,
+      created: Math.floor(Date.now() / 1000),
+      data: { object: { ...object } },
+    };
+    const payload = JSON.stringify(event);
+    const signature = toHex(await hmacSha256(webhookSecret, `${event.created}.${payload}`));
+
+    return {
+      payload,
+      headers: {
+        'content-type': 'application/json',
+        'stripe-signature': `t=${event.created},v1=${signature}`,
+      },
+    };
+  }
+
+  /**
+   * Route a request
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url || '/').split('?')[0];
+    const params = Object.fromEntries(new URLSearchParams(await readBody(req)));
+    const idempotencyKey = header(req, 'idempotency-key');
+
+    this.requests.push({ method: req.method || 'GET', path, params, idempotencyKey });
+
+    const authorization = header(req, 'authorization') || '';
+    const secretKey = authorization.replace(/^Bearer /, '');
+    const validKey = this.options.secretKey
+      ? secretKey === this.options.secretKey
+      : secretKey.startsWith('sk_test_');
+    if (!validKey) {
+      return this.send(res, 401, {
+        error: { type: 'invalid_request_error', message: 'Invalid API Key provided' },
+      });
+    }
+
+    const replayKey = idempotencyKey && `${req.method} ${path} ${idempotencyKey}`;
+    const replay = replayKey && this.idempotentResponses.get(replayKey);
+    if (replay) {
+      return this.send(res, replay.status, replay.body);
+    }
+
+    const [status, body] = this.route(req.method || 'GET', path, params);
+    if (replayKey) {
+      this.idempotentResponses.set(replayKey, { status, body });
+    }
+    this.send(res, status, body);
+  }
+
+  private route(
+    method: string,
+    path: string,
+    params: Record<string, string>
+  ): [number, unknown] {
+    const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (segments[0] !== 'v1') {
+      return notFound(`Unrecognized request URL (${method}: ${path})`);
+    }
+
+    const [, resource, id, action] = segments;
+
+    if (resource === 'payment_intents') {
+      if (method === 'POST' && !id) {
+        return this.createPaymentIntent(params);
+      }
+      if (method === 'GET' && id && !action) {
+        const intent = this.paymentIntents.get(id);
+        return intent ? [200, intent] : notFound(`No such payment_intent: '${id}'`);
+      }
+      if (method === 'POST' && id && action === 'capture') {
+        return this.capturePaymentIntent(id, params);
+      }
+      if (method === 'POST' && id && action === 'cancel') {
+        return this.cancelPaymentIntent(id);
+      }
+    }
+
+    if (resource === 'refunds' && method === 'POST' && !id) {
+      return this.createRefund(params);
+    }
+
+    if (resource === 'payouts' && method === 'POST' && !id) {
+      return this.createPayout(params);
+    }
+
+    if (resource === 'disputes' && method === 'POST' && id && !action) {
+      return this.updateDispute(id, params);
+    }
+
+    return notFound(`Unrecognized request URL (${method}: ${path})`);
+  }
+
+  private createPaymentIntent(params: Record<string, string>): [number, unknown] {
+    const amount = Number(params.amount);
+    if (!Number.isSafeInteger(amount) || amount < 1) {
+      return invalidRequest('amount', 'Amount must be a positive integer in minor units.');
+    }
+    if (!/^[a-z]{3}$/.test(params.currency || '')) {
+      return invalidRequest('currency', 'Missing required param: currency.');
+    }
+
+    const paymentMethod = params.payment_method;
+    const outcome = paymentMethod ? STRIPE_TEST_PAYMENT_METHODS[paymentMethod] : undefined;
+    if (paymentMethod && !outcome) {
+      return [
+        400,
+        {
+          error: {
+            type: 'invalid_request_error',
+            code: 'resource_missing',
+            param: 'payment_method',
+            message: `No such PaymentMethod: '${paymentMethod}'`,
+          },
+        },
+      ];
+    }
+
+    const intent: StripePaymentIntent = {
+      id: this.generateId('pi'),
+      object: 'payment_intent',
+      amount,
+      amount_received: 0,
+      currency: params.currency,
+      status: paymentMethod ? 'requires_confirmation' : 'requires_payment_method',
+      capture_method: params.capture_method === 'manual' ? 'manual' : 'automatic',
+      payment_method: paymentMethod || null,
+      metadata: nestedParams(params, 'metadata'),
+      last_payment_error: null,
+    };
+    this.paymentIntents.set(intent.id, intent);
+
+    if (params.confirm !== 'true' || !outcome) {
+      return [200, intent];
+    }
+
+    if (outcome.result === 'declined') {
+      const error: StripeErrorBody = {
+        type: 'card_error',
+        code: 'card_declined',
+        decline_code: outcome.declineCode,
+        message: outcome.message,
+      };
+      Object.assign(intent, { status: 'requires_payment_method', last_payment_error: error });
+      return [402, { error: { ...error, payment_intent: intent } }];
+    }
+
+    if (outcome.result === 'requires_action') {
+      intent.status = 'requires_action';
+    } else if (outcome.result === 'processing') {
+      intent.status = 'processing';
+    } else if (intent.capture_method === 'manual') {
+      intent.status = 'requires_capture';
+    } else {
+      Object.assign(intent, { status: 'succeeded', amount_received: amount });
+    }
+
+    return [200, intent];
+  }
+
+  private capturePaymentIntent(id: string, params: Record<string, string>): [number, unknown] {
+    const intent = this.paymentIntents.get(id);
+    if (!intent) {
+      return notFound(`No such payment_intent: '${id}'`);
+    }
+    if (intent.status !== 'requires_capture') {
+      return unexpectedState(intent, 'capture');
+    }
+
+    const amount = params.amount_to_capture ? Number(params.amount_to_capture) : intent.amount;
+    if (!Number.isSafeInteger(amount) || amount < 1 || amount > intent.amount) {
+      return invalidRequest(
+        'amount_to_capture',
+        'Amount to capture must be a positive integer no greater than the amount authorized.'
+      );
+    }
+
+    Object.assign(intent, { status: 'succeeded', amount_received: amount });
+    return [200, intent];
+  }
+
+  private cancelPaymentIntent(id: string): [number, unknown] {
+    const intent = this.paymentIntents.get(id);
+    if (!intent) {
+      return notFound(`No such payment_intent: '${id}'`);
+    }
+    if (intent.status === 'succeeded' || intent.status === 'canceled') {
+      return unexpectedState(intent, 'cancel');
+    }
+
+    intent.status = 'canceled';
+    return [200, intent];
+  }
+
+  private createRefund(params: Record<string, string>): [number, unknown] {
+    const intent = this.paymentIntents.get(params.payment_intent);
+    if (!intent) {
+      return notFound(`No such payment_intent: '${params.payment_intent}'`);
+    }
+    if (intent.status !== 'succeeded') {
+      return unexpectedState(intent, 'refund');
+    }
+
+    const refunded = [...this.refunds.values()]
+      .filter(refund => refund.payment_intent === intent.id && refund.status === 'succeeded')
+      .reduce((sum, refund) => sum + refund.amount, 0);
+    const remaining = intent.amount_received - refunded;
+    const amount = params.amount ? Number(params.amount) : remaining;
+
+    if (remaining === 0) {
+      return [
+        400,
+        {
+          error: {
+            type: 'invalid_request_error',
+            code: 'charge_already_refunded',
+            message: `Charge for ${intent.id} has already been refunded.`,
+          },
+        },
+      ];
+    }
+    if (!Number.isSafeInteger(amount) || amount < 1 || amount > remaining) {
+      return [
+        400,
+        {
+          error: {
+            type: 'invalid_request_error',
+            code: 'amount_too_large',
+            param: 'amount',
+            message: `Refund amount is greater than the unrefunded amount (${remaining}).`,
+          },
+        },
+      ];
+    }
+
+    const refund: StripeRefund = {
+      id: this.generateId('re'),
+      object: 'refund',
+      amount,
+      currency: intent.currency,
+      payment_intent: intent.id,
+      status: 'succeeded',
+      failure_reason: null,
+      metadata: nestedParams(params, 'metadata'),
+    };
+    this.refunds.set(refund.id, refund);
+    return [200, refund];
+  }
+
+  private createPayout(params: Record<string, string>): [number, unknown] {
+    const amount = Number(params.amount);
+    if (!Number.isSafeInteger(amount) || amount < 1) {
+      return invalidRequest('amount', 'Amount must be a positive integer in minor units.');
+    }
+    if (!params.destination) {
+      return invalidRequest('destination', 'Missing required param: destination.');
+    }
+
+    const payout: StripePayout = {
+      id: this.generateId('po'),
+      object: 'payout',
+      amount,
+      currency: params.currency,
+      destination: params.destination,
+      status: 'pending',
+    };
+    this.payouts.set(payout.id, payout);
+    return [200, payout];
+  }
+
+  private updateDispute(id: string, params: Record<string, string>): [number, unknown] {
+    const dispute = this.disputes.get(id);
+    if (!dispute) {
+      return notFound(`No such dispute: '${id}'`);
+    }
+    if (dispute.status !== 'needs_response') {
+      return invalidRequest('evidence', 'This dispute is already closed or under review.');
+    }
+
+    Object.assign(dispute.evidence, nestedParams(params, 'evidence'));
+    if (params.submit === 'true') {
+      dispute.status = 'under_review';
+    }
+
+    const { evidence, ...body } = dispute;
+    return [200, body];
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}_stub${String(this.nextId++).padStart(6, '0')}`;
+  }
+}
+
+/**
+ * Read a request body as text
+ */
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Single request header value
+ */
+function header(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Collect form params like metadata[key]=value into { key: value }
+ */
+function nestedParams(params: Record<string, string>, name: string): Record<string, string> {
+  const prefix = `${name}[`;
+  const nested: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (key.startsWith(prefix) && key.endsWith(']')) {
+      nested[key.slice(prefix.length, -1)] = value;
+    }
+  }
+
+  return nested;
+}
+
+function notFound(message: string): [number, unknown] {
+  return [404, { error: { type: 'invalid_request_error', code: 'resource_missing', message } }];
+}
+
+function invalidRequest(param: string, message: string): [number, unknown] {
+  return [
+    400,
+    { error: { type: 'invalid_request_error', code: 'parameter_invalid', param, message } },
+  ];
+}
+
+function unexpectedState(intent: StripePaymentIntent, action: string): [number, unknown] {
+  return [
+    400,
+    {
+      error: {
+        type: 'invalid_request_error',
+        code: 'payment_intent_unexpected_state',
+        message: `You cannot ${action} this PaymentIntent, its status is ${intent.status}.`,
+      },
+    },
+  ];
+}
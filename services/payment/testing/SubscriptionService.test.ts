@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Logger } from '@shared/types';
+import { MemoryDatabase } from './MemoryDatabase';
+import { MemoryEventBus } from './MemoryEventBus';
+import { MockAdapter } from '../core/processors/MockAdapter';
+import { PaymentService } from '../core/PaymentService';
+import { SubscriptionService } from '../core/SubscriptionService';
+import { createMoney } from '../core/money';
+import { hmacSha256, toHex } from '../core/webhookSignatures';
+import { SubscriptionServiceConfig } from '../core/types';
+
+const usd = (minorUnits: number) => createMoney(minorUnits, 'USD');
+const logger: Logger = { debug() {}, info() {}, warn() {}, error() {} };
+const WEBHOOK_SECRET = 'whsec_test';
+
+const BASIC = { id: 'basic', name: 'Basic', price: usd(1000), interval: 'month' as const };
+const PRO = { id: 'pro', name: 'Pro', price: usd(3000), interval: 'month' as const };
+
+/** Payment and Subscription services on one in-memory database, with Basic and Pro plans */
+async function subscriptionService(config: Partial<SubscriptionServiceConfig> = {}) {
+  const database = new MemoryDatabase();
+  const context = {
+    environment: 'development' as const,
+    platform: 'web' as const,
+    database,
+    logger,
+    eventBus: new MemoryEventBus(),
+  };
+
+  const payments = new PaymentService();
+  await payments.initialize(
+    {
+      processor: { provider: 'mock', apiKey: 'mock', webhookSecret: WEBHOOK_SECRET },
+      defaultCurrency: 'USD',
+      authorization: { sweepIntervalMinutes: 0 },
+    },
+    context
+  );
+
+  const subscriptions = new SubscriptionService(payments);
+  await subscriptions.initialize(
+    { plans: [BASIC, PRO], schedulerIntervalMinutes: 0, ...config },
+    context
+  );
+
+  return { database, payments, subscriptions };
+}
+
+/** Minor units of each subscription charge, oldest first */
+function charges(database: MemoryDatabase): number[] {
+  return database
+    .rows('transactions')
+    .sort((a, b) => a.created_at - b.created_at)
+    .map(row => Math.round(Number(row.amount) * 100));
+}
+
+describe('SubscriptionService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-04-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('changePlan', () => {
+    it('charges the prorated difference for an upgrade halfway through the period', async () => {
+      const { database, subscriptions } = await subscriptionService();
+      const { subscription } = await subscriptions.subscribe({
+        subscriberId: 'user_1',
+        planId: 'basic',
+        paymentMethod: 'credit_card',
+      });
+
+      vi.setSystemTime(new Date('2026-04-16T00:00:00Z'));
+      const changed = await subscriptions.changePlan(subscription!.id, 'pro');
+
+      // Half of Pro for the rest of the period, less the unused half of Basic
+      expect(changed.success).toBe(true);
+      expect(changed.transaction?.amount).toEqual(usd(1000));
+      expect(changed.subscription?.planId).toBe('pro');
+      expect(changed.subscription?.currentPeriodEnd).toEqual(new Date('2026-05-01T00:00:00Z'));
+      expect(changed.subscription?.credit).toEqual(usd(0));
+      expect(charges(database)).toEqual([1000, 1000]);
+    });
+
+    it('credits a downgrade halfway through the period against the next renewal', async () => {
+      const { database, subscriptions } = await subscriptionService();
+      const { subscription } = await subscriptions.subscribe({
+        subscriberId: 'user_1',
+        planId: 'pro',
+        paymentMethod: 'credit_card',
+      });
+
+      vi.setSystemTime(new Date('2026-04-16T00:00:00Z'));
+      const changed = await subscriptions.changePlan(subscription!.id, 'basic');
+
+      // The unused half of Pro, less half of Basic
+      expect(changed.success).toBe(true);
+      expect(changed.transaction).toBeUndefined();
+      expect(changed.subscription?.credit).toEqual(usd(1000));
+
+      vi.setSystemTime(new Date('2026-05-01T00:00:00Z'));
+      const [renewed] = await subscriptions.processDueSubscriptions();
+
+      expect(renewed.success).toBe(true);
+      expect(renewed.subscription?.currentPeriodEnd).toEqual(new Date('2026-06-01T00:00:00Z'));
+      expect(renewed.subscription?.credit).toEqual(usd(0));
+      expect(charges(database)).toEqual([3000]);
+    });
+  });
+
+  describe('renewals', () => {
+    it('retries a declined renewal on the dunning schedule, then marks it unpaid', async () => {
+      const { subscriptions } = await subscriptionService({ dunningRetryHours: [24, 72] });
+      const { subscription } = await subscriptions.subscribe({
+        subscriberId: 'user_1',
+        planId: 'basic',
+        paymentMethod: 'credit_card',
+      });
+
+      const processPayment = vi
+        .spyOn(MockAdapter.prototype, 'processPayment')
+        .mockResolvedValue({ success: false, error: 'Card declined' });
+
+      vi.setSystemTime(new Date('2026-05-01T00:00:00Z'));
+      let [result] = await subscriptions.processDueSubscriptions();
+      expect(result.error?.code).toBe('PAYMENT_FAILED');
+      expect(result.subscription?.status).toBe('past_due');
+      expect(result.subscription?.nextBillingAt).toEqual(new Date('2026-05-02T00:00:00Z'));
+
+      // Not due again until the retry
+      expect(await subscriptions.processDueSubscriptions()).toEqual([]);
+
+      vi.setSystemTime(new Date('2026-05-02T00:00:00Z'));
+      [result] = await subscriptions.processDueSubscriptions();
+      expect(result.subscription?.status).toBe('past_due');
+      expect(result.subscription?.nextBillingAt).toEqual(new Date('2026-05-05T00:00:00Z'));
+
+      vi.setSystemTime(new Date('2026-05-05T00:00:00Z'));
+      [result] = await subscriptions.processDueSubscriptions();
+      expect(result.subscription?.status).toBe('unpaid');
+      expect(result.subscription?.failedAttempts).toBe(3);
+      expect(result.subscription?.nextBillingAt).toBeUndefined();
+
+      // Each attempt is a new charge, and an unpaid subscription is not billed again
+      expect(processPayment).toHaveBeenCalledTimes(3);
+      vi.setSystemTime(new Date('2026-06-01T00:00:00Z'));
+      expect(await subscriptions.processDueSubscriptions()).toEqual([]);
+      expect((await subscriptions.getSubscription(subscription!.id))?.status).toBe('unpaid');
+    });
+
+    it('finishes a renewal once the processor settles its charge', async () => {
+      const { payments, subscriptions } = await subscriptionService();
+      const { subscription } = await subscriptions.subscribe({
+        subscriberId: 'user_1',
+        planId: 'basic',
+        paymentMethod: 'credit_card',
+      });
+
+      vi.spyOn(MockAdapter.prototype, 'processPayment').mockResolvedValue({
+        success: true,
+        pending: true,
+        reference: 'mock_ch_renewal',
+      });
+
+      vi.setSystemTime(new Date('2026-05-01T00:00:00Z'));
+      const [pending] = await subscriptions.processDueSubscriptions();
+      expect(pending.subscription?.pendingCharge?.purpose).toBe('renewal');
+      expect(pending.subscription?.currentPeriodEnd).toEqual(new Date('2026-05-01T00:00:00Z'));
+
+      const payload = JSON.stringify({
+        id: 'evt_renewal',
+        type: 'payment.succeeded',
+        created: new Date().toISOString(),
+        data: { reference: 'mock_ch_renewal' },
+      });
+      const signature = toHex(await hmacSha256(WEBHOOK_SECRET, payload));
+      const settled = await payments.receiveWebhook('mock', payload, {
+        'x-mock-signature': signature,
+      });
+      expect(settled.success).toBe(true);
+
+      await vi.waitFor(async () => {
+        const renewed = await subscriptions.getSubscription(subscription!.id);
+        expect(renewed?.pendingCharge).toBeUndefined();
+        expect(renewed?.currentPeriodEnd).toEqual(new Date('2026-06-01T00:00:00Z'));
+      });
+    });
+  });
+});
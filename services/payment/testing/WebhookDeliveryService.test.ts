@@ -0,0 +1,233 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createServer, IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Logger } from '@shared/types';
+import { MemoryDatabase } from './MemoryDatabase';
+import { MemoryEventBus } from './MemoryEventBus';
+import { PaymentService } from '../core/PaymentService';
+import {
+  WebhookDeliveryService,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+} from '../core/WebhookDeliveryService';
+import { createMoney } from '../core/money';
+import { verifyWebhookPayload } from '../core/webhookSignatures';
+import { WebhookDelivery, WebhookDeliveryServiceConfig } from '../core/types';
+
+const usd = (minorUnits: number) => createMoney(minorUnits, 'USD');
+const logger: Logger = { debug() {}, info() {}, warn() {}, error() {} };
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * A local merchant endpoint answering with the given statuses in turn, then 200
+ */
+async function merchantEndpoint(statuses: number[]) {
+  const received: ReceivedRequest[] = [];
+  const server: Server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      received.push({ headers: request.headers, body });
+      response.statusCode = statuses.shift() ?? 200;
+      response.end(response.statusCode < 300 ? 'ok' : 'try again later');
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/webhooks`,
+    received,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+/** Payment and Webhook Delivery services sharing an in-memory database and event bus */
+async function webhookService(config: Partial<WebhookDeliveryServiceConfig> = {}) {
+  const context = {
+    environment: 'development' as const,
+    platform: 'web' as const,
+    database: new MemoryDatabase(),
+    logger,
+    eventBus: new MemoryEventBus(),
+  };
+
+  const payments = new PaymentService();
+  await payments.initialize(
+    {
+      processor: { provider: 'mock', apiKey: 'mock', webhookSecret: 'whsec_test' },
+      defaultCurrency: 'USD',
+      authorization: { sweepIntervalMinutes: 0 },
+    },
+    context
+  );
+
+  const webhooks = new WebhookDeliveryService(payments);
+  await webhooks.initialize(
+    {
+      allowInsecureUrls: true,
+      allowPrivateAddresses: true,
+      schedulerIntervalMinutes: 0,
+      timeoutMs: 2000,
+      ...config,
+    },
+    context
+  );
+
+  return { payments, webhooks };
+}
+
+/** Charge user_1 for merchant_1, which sends transaction:completed */
+async function completeTransaction(payments: PaymentService): Promise<void> {
+  const result = await payments.processTransaction({
+    payerId: 'user_1',
+    payeeId: 'merchant_1',
+    amount: usd(5000),
+    paymentMethod: 'credit_card',
+  });
+  expect(result.success).toBe(true);
+}
+
+/** The delivery of an endpoint's one event, once its first attempt has finished */
+async function firstDelivery(
+  webhooks: WebhookDeliveryService,
+  endpointId: string
+): Promise<WebhookDelivery> {
+  return vi.waitFor(async () => {
+    const [delivery] = await webhooks.getDeliveries(endpointId);
+    expect(delivery?.attempts).toBe(1);
+    // Claimed deliveries stay pending while the request is in flight
+    expect(delivery.status !== 'pending' || delivery.lastError !== undefined).toBe(true);
+    return delivery;
+  });
+}
+
+describe('WebhookDeliveryService', () => {
+  const closers: Array<() => Promise<void>> = [];
+
+  afterEach(async () => {
+    await Promise.all(closers.splice(0).map(close => close()));
+    vi.restoreAllMocks();
+  });
+
+  it('sends a signed event to the endpoints of its parties', async () => {
+    const endpoint = await merchantEndpoint([]);
+    closers.push(endpoint.close);
+    const { payments, webhooks } = await webhookService();
+
+    const created = await webhooks.createEndpoint({
+      ownerId: 'merchant_1',
+      url: endpoint.url,
+      events: ['transaction:completed'],
+    });
+    const other = await webhooks.createEndpoint({
+      ownerId: 'merchant_2',
+      url: endpoint.url,
+      events: ['transaction:completed'],
+    });
+
+    await completeTransaction(payments);
+    const delivery = await firstDelivery(webhooks, created.endpoint!.id);
+
+    expect(delivery.status).toBe('delivered');
+    expect(await webhooks.getDeliveries(other.endpoint!.id)).toEqual([]);
+
+    const [request] = endpoint.received;
+    expect(JSON.parse(request.body)).toMatchObject({
+      type: 'transaction:completed',
+      data: { payeeId: 'merchant_1' },
+    });
+    expect(request.headers[WEBHOOK_ID_HEADER.toLowerCase()]).toBe(delivery.eventId);
+    expect(
+      await verifyWebhookPayload(
+        request.body,
+        String(request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]),
+        created.endpoint!.secret
+      )
+    ).toBe(true);
+  });
+
+  it('backs off exponentially between retries, up to the maximum, then gives up', async () => {
+    const endpoint = await merchantEndpoint([500, 500, 500, 500, 500]);
+    closers.push(endpoint.close);
+    const { payments, webhooks } = await webhookService({
+      maxAttempts: 5,
+      retryBaseSeconds: 60,
+      maxRetrySeconds: 300,
+    });
+
+    const created = await webhooks.createEndpoint({
+      ownerId: 'merchant_1',
+      url: endpoint.url,
+      events: ['transaction:completed'],
+    });
+    await completeTransaction(payments);
+
+    let delivery = await firstDelivery(webhooks, created.endpoint!.id);
+    let attemptedAt = (await webhooks.getDeliveryAttempts(delivery.id))[0].attemptedAt;
+    const waits: number[] = [];
+
+    // Each retry is sent as soon as it is due, and its wait counted from then
+    while (delivery.status === 'pending') {
+      const dueAt = delivery.nextAttemptAt!;
+      waits.push(Math.round((dueAt.getTime() - attemptedAt.getTime()) / 1000));
+
+      expect(await webhooks.processDueDeliveries(new Date(dueAt.getTime() - 1000))).toEqual([]);
+      [delivery] = await webhooks.processDueDeliveries(dueAt);
+      attemptedAt = dueAt;
+    }
+
+    expect(waits).toEqual([60, 120, 240, 300]);
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts).toBe(5);
+    expect(delivery.lastResponseStatus).toBe(500);
+    expect(endpoint.received).toHaveLength(5);
+
+    const attempts = await webhooks.getDeliveryAttempts(delivery.id);
+    expect(attempts.map(attempt => attempt.attempt)).toEqual([1, 2, 3, 4, 5]);
+    expect(attempts.every(attempt => attempt.responseBody === 'try again later')).toBe(true);
+
+    // Every attempt is the same event
+    expect(new Set(endpoint.received.map(request => request.body)).size).toBe(1);
+  });
+
+  it('stops retrying once the endpoint accepts the event', async () => {
+    const endpoint = await merchantEndpoint([503]);
+    closers.push(endpoint.close);
+    const { payments, webhooks } = await webhookService();
+
+    const created = await webhooks.createEndpoint({
+      ownerId: 'merchant_1',
+      url: endpoint.url,
+      events: ['transaction:completed'],
+    });
+    await completeTransaction(payments);
+
+    const pending = await firstDelivery(webhooks, created.endpoint!.id);
+    expect(pending.status).toBe('pending');
+    expect(pending.lastError).toBe('Endpoint returned HTTP 503');
+
+    const [delivered] = await webhooks.processDueDeliveries(pending.nextAttemptAt!);
+    expect(delivered.status).toBe('delivered');
+    expect(delivered.attempts).toBe(2);
+    expect(await webhooks.processDueDeliveries(new Date(Date.now() + 86400000))).toEqual([]);
+  });
+
+  it('refuses endpoints on private addresses unless they are allowed', async () => {
+    const { webhooks } = await webhookService({ allowPrivateAddresses: false });
+
+    for (const url of ['http://127.0.0.1:8080/hook', 'http://169.254.169.254/latest']) {
+      const result = await webhooks.createEndpoint({
+        ownerId: 'merchant_1',
+        url,
+        events: ['transaction:completed'],
+      });
+      expect(result.error?.code).toBe('INVALID_WEBHOOK_URL');
+    }
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * Payment Service Testing
+ * Local stand-ins for payment processors, the database and the event bus, for
+ * tests and CI without network access
+ */
+
+export { MemoryDatabase } from './MemoryDatabase';
+export { MemoryEventBus } from './MemoryEventBus';
+
+export { StripeStubServer, STRIPE_TEST_PAYMENT_METHODS } from './StripeStubServer';
+export type { StubRequest, StripeStubServerOptions } from './StripeStubServer';
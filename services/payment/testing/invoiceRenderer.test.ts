@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { renderInvoice, renderInvoiceHtml, renderInvoiceText } from '../core/invoiceRenderer';
+import { createMoney } from '../core/money';
+import { Invoice } from '../core/types';
+
+const usd = (minorUnits: number) => createMoney(minorUnits, 'USD');
+
+/** An open invoice for two line items with one tax */
+function invoice(overrides: Partial<Invoice> = {}): Invoice {
+  return {
+    id: 'inv_1',
+    number: 'INV-000042',
+    issuerId: 'merchant_1',
+    customerId: 'user_1',
+    status: 'open',
+    lineItems: [
+      { description: 'Design work', quantity: 2, unitPrice: usd(5000), amount: usd(10000) },
+      { description: 'Hosting', quantity: 1, unitPrice: usd(2500), amount: usd(2500) },
+    ],
+    taxLines: [{ name: 'VAT', rate: 20, amount: usd(2500) }],
+    subtotal: usd(12500),
+    taxTotal: usd(2500),
+    total: usd(15000),
+    dueDate: new Date('2026-03-31T00:00:00Z'),
+    paymentAttempts: 0,
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('invoiceRenderer', () => {
+  describe('renderInvoiceHtml', () => {
+    it('renders the line items, totals and due date of an open invoice', () => {
+      const html = renderInvoiceHtml(invoice());
+
+      expect(html).toContain('<title>Invoice INV-000042</title>');
+      expect(html).toContain('<td>Design work</td>');
+      expect(html).toContain('<td colspan="3">VAT (20%)</td>');
+      expect(html).toContain('<td colspan="3">Total due</td>');
+      expect(html).toContain('<dt>Due</dt><dd>Mar 31, 2026</dd>');
+    });
+
+    it('escapes text the issuer wrote', () => {
+      const html = renderInvoiceHtml(
+        invoice({
+          lineItems: [
+            {
+              description: '<script>alert("x")</script>',
+              quantity: 1,
+              unitPrice: usd(12500),
+              amount: usd(12500),
+            },
+          ],
+          taxLines: [{ name: 'Tax & <b>duty</b>', rate: 20, amount: usd(2500) }],
+          orderId: `order'"><img src=x>`,
+          memo: 'Thanks <3 & see you',
+        })
+      );
+
+      expect(html).not.toContain('<script>');
+      expect(html).not.toContain('<img');
+      expect(html).toContain('<td>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</td>');
+      expect(html).toContain('Tax &amp; &lt;b&gt;duty&lt;/b&gt; (20%)');
+      expect(html).toContain('<dd>order&#39;&quot;&gt;&lt;img src=x&gt;</dd>');
+      expect(html).toContain('<p>Thanks &lt;3 &amp; see you</p>');
+    });
+
+    it('renders a paid invoice as a receipt', () => {
+      const html = renderInvoiceHtml(
+        invoice({
+          status: 'paid',
+          paidAt: new Date('2026-03-05T00:00:00Z'),
+          transactionId: 'tx_1',
+        })
+      );
+
+      expect(html).toContain('<title>Receipt INV-000042</title>');
+      expect(html).toContain('<dt>Paid</dt><dd>Mar 5, 2026</dd>');
+      expect(html).toContain('<dt>Transaction</dt><dd>tx_1</dd>');
+      expect(html).toContain('<td colspan="3">Total paid</td>');
+      expect(html).not.toContain('<dt>Due</dt>');
+    });
+  });
+
+  describe('renderInvoiceText', () => {
+    it('lines up amounts and leaves text as written', () => {
+      const text = renderInvoiceText(invoice({ orderId: 'A&B <1>', memo: 'Net 30' }));
+      const lines = text.split('\n');
+
+      expect(lines[0]).toBe('INVOICE INV-000042');
+      expect(lines).toContain('Order: A&B <1>');
+      expect(lines).toContain(`Design work x 2${' '.repeat(26)}$100.00`);
+      expect(lines).toContain(`Total due${' '.repeat(32)}$150.00`);
+      expect(lines.every(line => line.length <= 48)).toBe(true);
+      expect(text.endsWith('\nNet 30\n')).toBe(true);
+    });
+  });
+
+  describe('renderInvoice', () => {
+    it('renders the requested format', () => {
+      expect(renderInvoice(invoice(), 'html')).toBe(renderInvoiceHtml(invoice()));
+      expect(renderInvoice(invoice(), 'text')).toBe(renderInvoiceText(invoice()));
+    });
+  });
+});
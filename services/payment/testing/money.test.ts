@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addMoney,
+  allocateMoney,
+  convertMoney,
+  createMoney,
+  moneyFromDecimal,
+  moneyFromMajor,
+  multiplyMoney,
+  percentOfMoney,
+  shareOfMoney,
+  subtractMoney,
+  zeroMoney,
+} from '../core/money';
+import { Money } from '../core/types';
+
+const usd = (minorUnits: number) => createMoney(minorUnits, 'USD');
+const eur = (minorUnits: number) => createMoney(minorUnits, 'EUR');
+
+/** Minor units of each part, for comparing allocations */
+const units = (parts: Money[]) => parts.map(part => part.minorUnits);
+
+describe('money', () => {
+  describe('moneyFromDecimal', () => {
+    it('parses decimal strings into minor units', () => {
+      expect(moneyFromDecimal('49.99', 'USD')).toEqual(usd(4999));
+      expect(moneyFromDecimal('12', 'USD')).toEqual(usd(1200));
+      expect(moneyFromDecimal('.5', 'USD')).toEqual(usd(50));
+      expect(moneyFromDecimal('-3.10', 'USD')).toEqual(usd(-310));
+    });
+
+    it('rounds half a minor unit away from zero', () => {
+      expect(moneyFromDecimal('0.005', 'USD')).toEqual(usd(1));
+      expect(moneyFromDecimal('0.004999', 'USD')).toEqual(usd(0));
+      expect(moneyFromDecimal('-0.005', 'USD')).toEqual(usd(-1));
+      expect(moneyFromDecimal('2.345', 'USD')).toEqual(usd(235));
+    });
+
+    it('does not produce negative zero', () => {
+      expect(Object.is(moneyFromDecimal('-0.004', 'USD').minorUnits, 0)).toBe(true);
+    });
+
+    it('reads exponent notation', () => {
+      expect(moneyFromDecimal('1.5e2', 'USD')).toEqual(usd(15000));
+      expect(moneyFromDecimal('5e-3', 'USD')).toEqual(usd(1));
+      expect(moneyFromDecimal('1e-3', 'USD')).toEqual(usd(0));
+      expect(moneyFromDecimal(1e-7, 'USD')).toEqual(usd(0));
+    });
+
+    it('rounds major-unit numbers on the decimal they print as', () => {
+      // 1.005 * 100 is 100.49999999999999 in floating point
+      expect(moneyFromMajor(1.005, 'USD')).toEqual(usd(101));
+      expect(moneyFromMajor(-1.005, 'USD')).toEqual(usd(-101));
+    });
+
+    it('rejects text that is not a decimal', () => {
+      for (const value of ['', '.', 'abc', '1.2.3', '$5']) {
+        expect(() => moneyFromDecimal(value, 'USD')).toThrow(RangeError);
+      }
+    });
+  });
+
+  describe('multiplyMoney', () => {
+    it('rounds half a minor unit away from zero', () => {
+      expect(multiplyMoney(usd(500), 0.029)).toEqual(usd(15));
+      expect(multiplyMoney(usd(499), 0.029)).toEqual(usd(14));
+      expect(multiplyMoney(usd(-500), 0.029)).toEqual(usd(-15));
+    });
+
+    it('takes exponent-notation factors exactly', () => {
+      expect(multiplyMoney(usd(1_000_000_000), 1e-7)).toEqual(usd(100));
+      expect(multiplyMoney(usd(1_000_000), 5e-7)).toEqual(usd(1));
+      expect(multiplyMoney(usd(1_000_000), 4.9e-7)).toEqual(usd(0));
+    });
+
+    it('rejects results beyond safe integers and factors that are not finite', () => {
+      expect(() => multiplyMoney(usd(1), 1e21)).toThrow(RangeError);
+      expect(() => multiplyMoney(usd(1), Infinity)).toThrow(RangeError);
+      expect(() => multiplyMoney(usd(1), NaN)).toThrow(RangeError);
+    });
+  });
+
+  describe('percentOfMoney', () => {
+    it('rounds half a minor unit away from zero', () => {
+      expect(percentOfMoney(usd(50), 1)).toEqual(usd(1));
+      expect(percentOfMoney(usd(49), 1)).toEqual(usd(0));
+      expect(percentOfMoney(usd(150), 1)).toEqual(usd(2));
+      expect(percentOfMoney(usd(-50), 1)).toEqual(usd(-1));
+      expect(percentOfMoney(usd(1005), 50)).toEqual(usd(503));
+    });
+
+    it('takes fractional and exponent-notation percentages exactly', () => {
+      expect(percentOfMoney(usd(1000), 2.9)).toEqual(usd(29));
+      expect(percentOfMoney(usd(999), 7.25)).toEqual(usd(72));
+      expect(percentOfMoney(usd(200_000_000), 2.5e-7)).toEqual(usd(1));
+      expect(percentOfMoney(usd(200_000_000), 2.4e-7)).toEqual(usd(0));
+    });
+  });
+
+  describe('allocateMoney', () => {
+    it('gives leftover units to the largest remainders, then the earliest parts', () => {
+      expect(units(allocateMoney(usd(100), [1, 1, 1]))).toEqual([34, 33, 33]);
+      expect(units(allocateMoney(usd(5), [0.1, 0.2, 0.7]))).toEqual([1, 1, 3]);
+      expect(units(allocateMoney(usd(-100), [1, 1, 1]))).toEqual([-34, -33, -33]);
+    });
+
+    it('gives nothing to a zero ratio', () => {
+      expect(units(allocateMoney(usd(10), [0, 1]))).toEqual([0, 10]);
+    });
+
+    it('conserves minor units', () => {
+      const ratioSets = [
+        [1, 2, 3],
+        [0.3333, 0.6667],
+        [1e-7, 1],
+        [7, 0, 13, 0.5],
+        [2.9, 7.25, 89.85],
+      ];
+
+      for (const ratios of ratioSets) {
+        for (let amount = -250; amount <= 250; amount++) {
+          const parts = allocateMoney(usd(amount), ratios);
+          expect(addMoney(zeroMoney('USD'), ...parts)).toEqual(usd(amount));
+        }
+      }
+    });
+
+    it('rejects ratios that cannot split an amount', () => {
+      expect(() => allocateMoney(usd(10), [])).toThrow(RangeError);
+      expect(() => allocateMoney(usd(10), [0, 0])).toThrow(RangeError);
+      expect(() => allocateMoney(usd(10), [-1, 2])).toThrow(RangeError);
+      expect(() => allocateMoney(usd(10), [NaN, 1])).toThrow(RangeError);
+    });
+  });
+
+  describe('shareOfMoney', () => {
+    it('reverses exactly the whole fee over several partial refunds', () => {
+      const fee = usd(29);
+      const payment = usd(1000);
+
+      // Each refund reverses the share of the cumulative refunded amount, less what earlier ones did
+      let refunded = zeroMoney('USD');
+      let reversed = zeroMoney('USD');
+      for (const refund of [usd(333), usd(333), usd(334)]) {
+        const before = shareOfMoney(fee, refunded, payment);
+        refunded = addMoney(refunded, refund);
+        reversed = addMoney(reversed, subtractMoney(shareOfMoney(fee, refunded, payment), before));
+      }
+
+      expect(reversed).toEqual(fee);
+    });
+
+    it('rejects parts outside the whole', () => {
+      expect(() => shareOfMoney(usd(29), usd(1001), usd(1000))).toThrow(RangeError);
+      expect(() => shareOfMoney(usd(29), usd(-1), usd(1000))).toThrow(RangeError);
+      expect(() => shareOfMoney(usd(29), usd(0), usd(0))).toThrow(RangeError);
+    });
+  });
+
+  describe('convertMoney', () => {
+    it('rounds once, half a minor unit away from zero', () => {
+      expect(convertMoney(usd(1000), 'EUR', '0.9234')).toEqual(eur(923));
+      expect(convertMoney(usd(1), 'EUR', '0.5')).toEqual(eur(1));
+      expect(convertMoney(usd(1), 'EUR', '0.4999')).toEqual(eur(0));
+      expect(convertMoney(usd(-1), 'EUR', '0.5')).toEqual(eur(-1));
+    });
+
+    it('takes long rates exactly', () => {
+      expect(convertMoney(usd(100_000_000), 'EUR', '0.923456789')).toEqual(eur(92_345_679));
+    });
+
+    it('rejects rates that are not plain positive decimals', () => {
+      for (const rate of ['-1', '1e3', 'abc', '']) {
+        expect(() => convertMoney(usd(100), 'EUR', rate)).toThrow(RangeError);
+      }
+    });
+  });
+});
@@ -1,18 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { BalanceInfo } from '../core/types';
+import { BalanceInfo, Currency } from '../core/types';
+import { formatMoney, moneyFromMajor } from '../core/money';
 
 export interface BalanceDisplayProps {
   /** User ID to show balance for */
   userId: string;
 
+  /** Currency to show first; defaults to the first account */
+  currency?: Currency;
+
   /** Show detailed balance breakdown */
   showDetails?: boolean;
 
   /** Refresh interval in milliseconds */
   refreshInterval?: number;
 
-  /** Callback when balance is loaded */
-  onBalanceLoaded?: (balance: BalanceInfo) => void;
+  /** Callback when balances are loaded, one per currency */
+  onBalanceLoaded?: (balances: BalanceInfo[]) => void;
 
   /** Custom styling */
   className?: string;
@@ -20,16 +24,19 @@ export interface BalanceDisplayProps {
 
 /**
  * Balance Display Component
- * Shows account balance with optional details
+ * Shows a multi-currency wallet: the selected currency's balance with
+ * optional details, and the other currencies' available balances
  */
 export const BalanceDisplay: React.FC<BalanceDisplayProps> = ({
   userId,
+  currency,
   showDetails = false,
   refreshInterval,
   onBalanceLoaded,
   className = '',
 }) => {
-  const [balance, setBalance] = useState<BalanceInfo | null>(null);
+  const [balances, setBalances] = useState<BalanceInfo[]>([]);
+  const [selectedCurrency, setSelectedCurrency] = useState<Currency | undefined>(currency);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -42,14 +49,18 @@ export const BalanceDisplay: React.FC<BalanceDisplayProps> = ({
     }
   }, [userId, refreshInterval]);
 
+  useEffect(() => {
+    setSelectedCurrency(currency);
+  }, [currency]);
+
   const loadBalance = async () => {
     setLoading(true);
     setError(null);
 
     try {
       // In production, call Payment Service API
-      const data = await mockGetBalance(userId);
-      setBalance(data);
+      const data = await mockGetBalances(userId);
+      setBalances(data);
       onBalanceLoaded?.(data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load balance');
@@ -58,14 +69,11 @@ export const BalanceDisplay: React.FC<BalanceDisplayProps> = ({
     }
   };
 
-  const formatCurrency = (amount: number, currency: string): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency,
-    }).format(amount);
-  };
+  const balance =
+    balances.find((info) => info.currency === selectedCurrency) || balances[0];
+  const otherBalances = balances.filter((info) => info !== balance);
 
-  if (loading && !balance) {
+  if (loading && balances.length === 0) {
     return (
       <div className={`balance-display ${className}`}>
         <div className="balance-loading">Loading balance...</div>
@@ -88,9 +96,9 @@ export const BalanceDisplay: React.FC<BalanceDisplayProps> = ({
   return (
     <div className={`balance-display ${className}`}>
       <div className="balance-main">
-        <div className="balance-label">Available Balance</div>
+        <div className="balance-label">Available Balance ({balance.currency})</div>
         <div className="balance-amount">
-          {formatCurrency(balance.availableBalance, balance.currency)}
+          {formatMoney(balance.availableBalance)}
         </div>
       </div>
 
@@ -99,13 +107,13 @@ export const BalanceDisplay: React.FC<BalanceDisplayProps> = ({
           <div className="balance-detail-item">
             <span className="balance-detail-label">Total Balance:</span>
             <span className="balance-detail-value">
-              {formatCurrency(balance.balance, balance.currency)}
+              {formatMoney(balance.balance)}
             </span>
           </div>
           <div className="balance-detail-item">
             <span className="balance-detail-label">Pending:</span>
             <span className="balance-detail-value">
-              {formatCurrency(balance.pendingBalance, balance.currency)}
+              {formatMoney(balance.pendingBalance)}
             </span>
           </div>
           <div className="balance-detail-item">
@@ -117,6 +125,24 @@ export const BalanceDisplay: React.FC<BalanceDisplayProps> = ({
         </div>
       )}
 
+      {otherBalances.length > 0 && (
+        <div className="balance-currencies">
+          {otherBalances.map((info) => (
+            <button
+              key={info.currency}
+              onClick={() => setSelectedCurrency(info.currency)}
+              className="balance-currency-item"
+              aria-label={`Show ${info.currency} balance`}
+            >
+              <span className="balance-currency-code">{info.currency}</span>
+              <span className="balance-currency-amount">
+                {formatMoney(info.availableBalance)}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
       <button
         onClick={loadBalance}
         disabled={loading}
@@ -132,16 +158,26 @@ export const BalanceDisplay: React.FC<BalanceDisplayProps> = ({
 /**
  * Mock balance data for development
  */
-async function mockGetBalance(userId: string): Promise<BalanceInfo> {
+async function mockGetBalances(userId: string): Promise<BalanceInfo[]> {
   // Simulate network delay
   await new Promise((resolve) => setTimeout(resolve, 500));
 
-  return {
-    accountId: `acc_${userId}`,
-    ownerId: userId,
-    balance: 523.45,
-    currency: 'USD',
-    availableBalance: 498.45,
-    pendingBalance: 25.00,
-  };
+  return [
+    {
+      accountId: `acc_${userId}_eur`,
+      ownerId: userId,
+      balance: moneyFromMajor(120.0, 'EUR'),
+      currency: 'EUR',
+      availableBalance: moneyFromMajor(120.0, 'EUR'),
+      pendingBalance: moneyFromMajor(0, 'EUR'),
+    },
+    {
+      accountId: `acc_${userId}_usd`,
+      ownerId: userId,
+      balance: moneyFromMajor(523.45, 'USD'),
+      currency: 'USD',
+      availableBalance: moneyFromMajor(498.45, 'USD'),
+      pendingBalance: moneyFromMajor(25.00, 'USD'),
+    },
+  ];
 }
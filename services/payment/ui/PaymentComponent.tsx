@@ -1,5 +1,21 @@
-import React, { useState, useEffect } from 'react';
-import { ProcessTransactionRequest, TransactionResult, PaymentMethod, Currency } from '../core/types';
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  CheckoutRequest,
+  CouponResult,
+  Transaction,
+  TransactionResult,
+  PaymentMethod,
+  Currency,
+  BalanceInfo,
+  Money,
+} from '../core/types';
+import {
+  compareMoney,
+  formatMoney,
+  moneyFromMajor,
+  percentOfMoney,
+  subtractMoney,
+} from '../core/money';
 
 export interface PaymentComponentProps {
   /** User ID making the payment */
@@ -8,7 +24,7 @@ export interface PaymentComponentProps {
   /** Recipient user ID or __SELF__ for platform */
   payeeId: string;
 
-  /** Amount to charge */
+  /** Amount to charge, in major units (e.g. 49.99) */
   amount?: number;
 
   /** Currency */
@@ -20,8 +36,11 @@ export interface PaymentComponentProps {
   /** Callback when payment fails */
   onError?: (error: any) => void;
 
-  /** Callback when payment is cancelled */
-  onCancel?: () => void;
+  /**
+   * Callback when payment is cancelled
+   * Receives the void result when a transaction this component started was voided
+   */
+  onCancel?: (result?: TransactionResult) => void;
 
   /** Custom styling */
   className?: string;
@@ -31,6 +50,18 @@ export interface PaymentComponentProps {
 
   /** Payment methods to show */
   availablePaymentMethods?: PaymentMethod[];
+
+  /**
+   * Payer's wallet balances, e.g. from BalanceDisplay's onBalanceLoaded
+   * "Pay with balance" is offered when the available balance covers the amount
+   */
+  balances?: BalanceInfo[];
+
+  /** Show a promo code field; the code is checked and redeemed at checkout */
+  allowPromoCode?: boolean;
+
+  /** Plan being bought (e.g. 'premium-yearly'), for promo codes restricted to plans */
+  planId?: string;
 }
 
 /**
@@ -48,11 +79,24 @@ export const PaymentComponent: React.FC<PaymentComponentProps> = ({
   className = '',
   allowAmountInput = false,
   availablePaymentMethods = ['credit_card', 'debit_card', 'paypal'],
+  balances,
+  allowPromoCode = false,
+  planId,
 }) => {
   const [amount, setAmount] = useState<number>(initialAmount || 0);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(availablePaymentMethods[0]);
   const [processing, setProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [promoCode, setPromoCode] = useState('');
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  /** Promo code priced for the current amount and plan */
+  const [appliedCoupon, setAppliedCoupon] = useState<CouponResult | null>(null);
+  /** Transaction started by this component that has not settled yet */
+  const [openTransaction, setOpenTransaction] = useState<Transaction | null>(null);
+  /** Set when Cancel is pressed while a payment request is in flight */
+  const cancelRequested = useRef(false);
 
   useEffect(() => {
     if (initialAmount) {
@@ -60,19 +104,70 @@ export const PaymentComponent: React.FC<PaymentComponentProps> = ({
     }
   }, [initialAmount]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // A promo code is priced for one amount and plan
+  useEffect(() => {
+    setAppliedCoupon(null);
+    setPromoError(null);
+  }, [amount, currency, planId]);
+
+  const total = appliedCoupon?.total ?? moneyFromMajor(amount, currency);
+
+  const walletBalance = balances?.find((info) => info.currency === currency);
+  const canPayWithBalance =
+    !!walletBalance && amount > 0 && compareMoney(walletBalance.availableBalance, total) >= 0;
+
+  const handleApplyPromo = async () => {
+    if (!promoCode.trim()) {
+      return;
+    }
+
+    setPromoError(null);
+    setApplyingPromo(true);
+
+    try {
+      // Mock API call - replace with POST /api/payment/coupons/apply
+      const result = await mockApplyCoupon({
+        code: promoCode,
+        amount: moneyFromMajor(amount, currency),
+        planId,
+      });
+
+      if (result.success) {
+        setAppliedCoupon(result);
+      } else {
+        setAppliedCoupon(null);
+        setPromoError(result.error?.message || 'This promo code is not valid');
+      }
+    } finally {
+      setApplyingPromo(false);
+    }
+  };
+
+  const handleRemovePromo = () => {
+    setAppliedCoupon(null);
+    setPromoCode('');
+    setPromoError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    submitPayment(paymentMethod);
+  };
+
+  const submitPayment = async (method: PaymentMethod) => {
     setError(null);
     setProcessing(true);
+    cancelRequested.current = false;
 
     try {
-      // In production, this would call the Payment Service API
-      const request: ProcessTransactionRequest = {
+      // In production, this would call POST /api/payment/checkout
+      const request: CheckoutRequest = {
         payerId,
         payeeId,
-        amount,
-        currency,
-        paymentMethod,
+        amount: moneyFromMajor(amount, currency),
+        paymentMethod: method,
+        couponCode: appliedCoupon?.coupon?.code,
+        planId,
         metadata: {
           description: `Payment from ${payerId} to ${payeeId}`,
           timestamp: new Date().toISOString(),
@@ -81,8 +176,13 @@ export const PaymentComponent: React.FC<PaymentComponentProps> = ({
 
       // Mock API call - replace with actual service call
       const result = await mockProcessPayment(request);
+      const unsettled = isUnsettled(result.transaction);
 
-      if (result.success) {
+      if (cancelRequested.current && result.success && unsettled) {
+        await voidTransaction(result.transaction!);
+      } else if (result.success && unsettled) {
+        setOpenTransaction(result.transaction!);
+      } else if (result.success) {
         onSuccess?.(result);
       } else {
         setError(result.error?.message || 'Payment failed');
@@ -93,15 +193,50 @@ export const PaymentComponent: React.FC<PaymentComponentProps> = ({
       setError(errorMessage);
       onError?.(err);
     } finally {
+      // A settled payment can no longer be voided, so a late Cancel is dropped
+      cancelRequested.current = false;
+      setCancelling(false);
       setProcessing(false);
     }
   };
 
+  const voidTransaction = async (transaction: Transaction) => {
+    setCancelling(true);
+
+    try {
+      // Mock API call - replace with POST /api/payment/transactions/:id/cancel
+      const result = await mockCancelTransaction(transaction, 'Cancelled by payer');
+
+      if (result.success) {
+        setOpenTransaction(null);
+        onCancel?.(result);
+      } else {
+        setError(result.error?.message || 'Cancellation failed');
+        onError?.(result.error);
+      }
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (processing) {
+      // Void the transaction once the in-flight request returns it
+      cancelRequested.current = true;
+      setCancelling(true);
+      return;
+    }
+
+    if (openTransaction) {
+      await voidTransaction(openTransaction);
+      return;
+    }
+
+    onCancel?.();
+  };
+
   const formatCurrency = (value: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency,
-    }).format(value);
+    return formatMoney(moneyFromMajor(value, currency));
   };
 
   const getPaymentMethodLabel = (method: PaymentMethod): string => {
@@ -113,6 +248,7 @@ export const PaymentComponent: React.FC<PaymentComponentProps> = ({
       stripe: 'Stripe',
       apple_pay: 'Apple Pay',
       google_pay: 'Google Pay',
+      wallet: 'Wallet Balance',
     };
     return labels[method] || method;
   };
@@ -150,8 +286,76 @@ export const PaymentComponent: React.FC<PaymentComponentProps> = ({
               {formatCurrency(amount)}
             </div>
           )}
+          {appliedCoupon && (
+            <div className="payment-discount">
+              <div className="payment-discount-row">
+                <span>Promo {appliedCoupon.coupon!.code}</span>
+                <span>-{formatMoney(appliedCoupon.discount!)}</span>
+              </div>
+              <div className="payment-discount-row payment-discount-total">
+                <span>Total</span>
+                <span>{formatMoney(total)}</span>
+              </div>
+            </div>
+          )}
         </div>
 
+        {/* Promo Code Section */}
+        {allowPromoCode && (
+          <div className="payment-section">
+            <label htmlFor="promo-code" className="payment-label">
+              Promo Code
+            </label>
+            <div className="payment-promo">
+              <input
+                id="promo-code"
+                type="text"
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                disabled={processing || applyingPromo || !!appliedCoupon}
+                className="payment-input"
+              />
+              {appliedCoupon ? (
+                <button
+                  type="button"
+                  onClick={handleRemovePromo}
+                  disabled={processing}
+                  className="payment-button payment-button-secondary"
+                >
+                  Remove
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleApplyPromo}
+                  disabled={processing || applyingPromo || !promoCode.trim() || amount <= 0}
+                  className="payment-button payment-button-secondary"
+                >
+                  {applyingPromo ? 'Applying...' : 'Apply'}
+                </button>
+              )}
+            </div>
+            {promoError && <div className="payment-promo-error">{promoError}</div>}
+          </div>
+        )}
+
+        {/* Wallet Balance Section */}
+        {canPayWithBalance && (
+          <div className="payment-section payment-wallet">
+            <button
+              type="button"
+              onClick={() => submitPayment('wallet')}
+              disabled={processing}
+              className="payment-button payment-button-primary"
+            >
+              Pay with balance
+            </button>
+            <div className="payment-wallet-available">
+              {formatMoney(walletBalance!.availableBalance)} available
+            </div>
+          </div>
+        )}
+
         {/* Payment Method Section */}
         <div className="payment-section">
           <label htmlFor="payment-method" className="payment-label">
@@ -224,18 +428,18 @@ export const PaymentComponent: React.FC<PaymentComponentProps> = ({
         <div className="payment-actions">
           <button
             type="button"
-            onClick={onCancel}
-            disabled={processing}
+            onClick={handleCancel}
+            disabled={cancelling}
             className="payment-button payment-button-secondary"
           >
-            Cancel
+            {cancelling ? 'Cancelling...' : 'Cancel'}
           </button>
           <button
             type="submit"
             disabled={processing || amount <= 0}
             className="payment-button payment-button-primary"
           >
-            {processing ? 'Processing...' : `Pay ${formatCurrency(amount)}`}
+            {processing ? 'Processing...' : `Pay ${formatMoney(total)}`}
           </button>
         </div>
       </form>
@@ -243,31 +447,125 @@ export const PaymentComponent: React.FC<PaymentComponentProps> = ({
   );
 };
 
+/**
+ * Whether a transaction has not settled yet and can still be voided
+ */
+function isUnsettled(transaction?: Transaction): boolean {
+  return transaction?.status === 'pending' || transaction?.status === 'processing';
+}
+
+/**
+ * Mock promo code pricing for development
+ * Replace with actual API call in production
+ */
+async function mockApplyCoupon(request: {
+  code: string;
+  amount: Money;
+  planId?: string;
+}): Promise<CouponResult> {
+  await new Promise((resolve) => setTimeout(resolve, 500));
+
+  // LIFTYEAR takes 20% off yearly plans
+  const code = request.code.trim().toUpperCase();
+  if (code !== 'LIFTYEAR') {
+    return {
+      success: false,
+      error: { code: 'COUPON_NOT_FOUND', message: 'This promo code is not valid' },
+    };
+  }
+
+  if (request.planId && request.planId !== 'premium-yearly') {
+    return {
+      success: false,
+      error: {
+        code: 'COUPON_NOT_APPLICABLE',
+        message: 'This promo code does not apply to this plan',
+      },
+    };
+  }
+
+  const now = new Date();
+  const discount = percentOfMoney(request.amount, 20);
+
+  return {
+    success: true,
+    coupon: {
+      id: 'cpn_liftyear',
+      code,
+      discountType: 'percent',
+      percentOff: 20,
+      timesRedeemed: 0,
+      planIds: ['premium-yearly'],
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    },
+    discount,
+    total: subtractMoney(request.amount, discount),
+  };
+}
+
 /**
  * Mock payment processing for development
  * Replace with actual API call in production
  */
-async function mockProcessPayment(
-  request: ProcessTransactionRequest
-): Promise<TransactionResult> {
+async function mockProcessPayment(request: CheckoutRequest): Promise<TransactionResult> {
+  const { couponCode, planId, ...payment } = request;
+  const quote = couponCode
+    ? await mockApplyCoupon({ code: couponCode, amount: payment.amount, planId })
+    : null;
+
   // Simulate network delay
   await new Promise((resolve) => setTimeout(resolve, 1500));
 
+  if (quote && !quote.success) {
+    return { success: false, error: quote.error };
+  }
+
   // Simulate success
   return {
     success: true,
     transaction: {
       id: `tx_${Date.now()}`,
-      payerId: request.payerId,
-      payeeId: request.payeeId,
-      amount: request.amount,
-      currency: request.currency || 'USD',
+      payerId: payment.payerId,
+      payeeId: payment.payeeId,
+      amount: quote?.total ?? payment.amount,
+      discount: quote
+        ? {
+            couponId: quote.coupon!.id,
+            code: quote.coupon!.code,
+            percentOff: quote.coupon!.percentOff,
+            originalAmount: payment.amount,
+            amount: quote.discount!,
+          }
+        : undefined,
       status: 'completed',
-      paymentMethod: request.paymentMethod,
-      metadata: request.metadata,
+      paymentMethod: payment.paymentMethod,
+      metadata: planId ? { ...payment.metadata, planId } : payment.metadata,
       createdAt: new Date(),
       updatedAt: new Date(),
       completedAt: new Date(),
     },
   };
 }
+
+/**
+ * Mock transaction cancellation for development
+ * Replace with actual API call in production
+ */
+async function mockCancelTransaction(
+  transaction: Transaction,
+  reason: string
+): Promise<TransactionResult> {
+  await new Promise((resolve) => setTimeout(resolve, 500));
+
+  return {
+    success: true,
+    transaction: {
+      ...transaction,
+      status: 'cancelled',
+      metadata: { ...transaction.metadata, cancellationReason: reason },
+      updatedAt: new Date(),
+    },
+  };
+}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { Transaction, TransactionStatus } from '../core/types';
+import { DisputeStatus, Transaction, TransactionStatus } from '../core/types';
+import { formatMoney, moneyFromMajor } from '../core/money';
 
 export interface PaymentHistoryProps {
   /** User ID to show history for */
@@ -52,13 +53,6 @@ export const PaymentHistory: React.FC<PaymentHistoryProps> = ({
     }
   };
 
-  const formatCurrency = (amount: number, currency: string): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency,
-    }).format(amount);
-  };
-
   const formatDate = (date: Date): string => {
     return new Intl.DateTimeFormat('en-US', {
       month: 'short',
@@ -73,14 +67,25 @@ export const PaymentHistory: React.FC<PaymentHistoryProps> = ({
     const statusClasses: Record<TransactionStatus, string> = {
       pending: 'status-pending',
       processing: 'status-processing',
+      authorized: 'status-authorized',
       completed: 'status-completed',
       failed: 'status-failed',
       refunded: 'status-refunded',
+      partially_refunded: 'status-partially-refunded',
       cancelled: 'status-cancelled',
+      held: 'status-held',
+      released: 'status-released',
     };
     return statusClasses[status] || '';
   };
 
+  const disputeLabels: Record<DisputeStatus, string> = {
+    needs_response: 'Disputed',
+    under_review: 'Disputed',
+    won: 'Dispute won',
+    lost: 'Charged back',
+  };
+
   const getTransactionType = (tx: Transaction): 'sent' | 'received' => {
     return tx.payerId === userId ? 'sent' : 'received';
   };
@@ -134,11 +139,23 @@ export const PaymentHistory: React.FC<PaymentHistoryProps> = ({
                 <div className="transaction-details">
                   <div className={`transaction-amount transaction-amount-${type}`}>
                     {type === 'sent' ? '-' : '+'}
-                    {formatCurrency(transaction.amount, transaction.currency)}
+                    {formatMoney(transaction.amount)}
                   </div>
+                  {transaction.tax && (
+                    <div className="transaction-tax">
+                      incl. {formatMoney(transaction.tax.amount)} {transaction.tax.name || 'tax'}
+                    </div>
+                  )}
                   <span className={`transaction-status ${getStatusBadgeClass(transaction.status)}`}>
-                    {transaction.status}
+                    {transaction.status.replace('_', ' ')}
                   </span>
+                  {transaction.metadata?.disputeStatus && (
+                    <span
+                      className={`transaction-dispute dispute-${transaction.metadata.disputeStatus.replace('_', '-')}`}
+                    >
+                      {disputeLabels[transaction.metadata.disputeStatus]}
+                    </span>
+                  )}
                 </div>
               </div>
               {transaction.metadata?.description && (
@@ -171,8 +188,14 @@ async function mockGetTransactions(
       id: 'tx_001',
       payerId: userId,
       payeeId: '__SELF__',
-      amount: 49.99,
-      currency: 'USD',
+      amount: moneyFromMajor(49.99, 'USD'),
+      tax: {
+        jurisdiction: 'US-CA',
+        name: 'Sales tax',
+        rate: 7.25,
+        inclusive: false,
+        amount: moneyFromMajor(3.38, 'USD'),
+      },
       status: 'completed',
       paymentMethod: 'credit_card',
       metadata: { description: 'Subscription payment' },
@@ -184,11 +207,15 @@ async function mockGetTransactions(
       id: 'tx_002',
       payerId: 'user_456',
       payeeId: userId,
-      amount: 25.00,
-      currency: 'USD',
+      amount: moneyFromMajor(25.00, 'USD'),
       status: 'completed',
       paymentMethod: 'paypal',
-      metadata: { description: 'Payment for services' },
+      processorReference: 'mock_ref_002',
+      metadata: {
+        description: 'Payment for services',
+        disputeId: 'dp_001',
+        disputeStatus: 'needs_response',
+      },
       createdAt: new Date(Date.now() - 86400000 * 5),
       updatedAt: new Date(Date.now() - 86400000 * 5),
       completedAt: new Date(Date.now() - 86400000 * 5),
@@ -197,8 +224,7 @@ async function mockGetTransactions(
       id: 'tx_003',
       payerId: userId,
       payeeId: 'user_789',
-      amount: 100.00,
-      currency: 'USD',
+      amount: moneyFromMajor(100.00, 'USD'),
       status: 'pending',
       paymentMethod: 'bank_transfer',
       metadata: { description: 'Transfer to friend' },
@@ -0,0 +1,350 @@
+import React, { useState, useEffect } from 'react';
+import { Plan, Subscription, SubscriptionResult, PaymentMethod } from '../core/types';
+import { formatMoney, moneyFromMajor, zeroMoney } from '../core/money';
+
+export interface SubscriptionManagerProps {
+  /** User ID whose subscription is managed */
+  subscriberId: string;
+
+  /** Payment method charged for new subscriptions */
+  paymentMethod?: PaymentMethod;
+
+  /** Callback when a subscription is started */
+  onSubscribed?: (result: SubscriptionResult) => void;
+
+  /** Callback when the plan is changed */
+  onPlanChanged?: (result: SubscriptionResult) => void;
+
+  /** Callback when the subscription is cancelled */
+  onCancelled?: (result: SubscriptionResult) => void;
+
+  /** Callback when an action fails */
+  onError?: (error: any) => void;
+
+  /** Custom styling */
+  className?: string;
+}
+
+/**
+ * Subscription Manager Component
+ * Shows the subscriber's current plan and lets them subscribe, switch plans,
+ * cancel at period end or undo the cancellation
+ */
+export const SubscriptionManager: React.FC<SubscriptionManagerProps> = ({
+  subscriberId,
+  paymentMethod = 'credit_card',
+  onSubscribed,
+  onPlanChanged,
+  onCancelled,
+  onError,
+  className = '',
+}) => {
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSubscription();
+  }, [subscriberId]);
+
+  const loadSubscription = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      // In production, call GET /api/payment/plans and GET /api/payment/subscriptions
+      const [planData, subscriptionData] = await Promise.all([
+        mockGetPlans(),
+        mockGetSubscription(subscriberId),
+      ]);
+      setPlans(planData);
+      setSubscription(subscriptionData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load subscription');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (
+    action: () => Promise<SubscriptionResult>,
+    onDone?: (result: SubscriptionResult) => void
+  ) => {
+    setWorking(true);
+    setError(null);
+
+    try {
+      const result = await action();
+
+      if (result.success) {
+        setSubscription(result.subscription || null);
+        onDone?.(result);
+      } else {
+        setError(result.error?.message || 'Subscription update failed');
+        onError?.(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      onError?.(err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSelectPlan = (plan: Plan) => {
+    if (subscription && isLive(subscription)) {
+      runAction(() => mockChangePlan(subscription, plan), onPlanChanged);
+    } else {
+      runAction(() => mockSubscribe(subscriberId, plan, paymentMethod), onSubscribed);
+    }
+  };
+
+  const formatDate = (date: Date): string => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    }).format(new Date(date));
+  };
+
+  const formatInterval = (plan: Plan): string => {
+    return plan.intervalCount === 1 ? plan.interval : `${plan.intervalCount} ${plan.interval}s`;
+  };
+
+  if (loading) {
+    return (
+      <div className={`subscription-manager ${className}`}>
+        <div className="subscription-loading">Loading subscription...</div>
+      </div>
+    );
+  }
+
+  const currentPlan = subscription && plans.find((plan) => plan.id === subscription.planId);
+
+  return (
+    <div className={`subscription-manager ${className}`}>
+      {error && (
+        <div className="subscription-error" role="alert">
+          {error}
+        </div>
+      )}
+
+      {subscription && currentPlan && (
+        <div className="subscription-current">
+          <div className="subscription-current-header">
+            <span className="subscription-plan-name">{currentPlan.name}</span>
+            <span className={`subscription-status subscription-status-${subscription.status.replace('_', '-')}`}>
+              {subscription.status.replace('_', ' ')}
+            </span>
+          </div>
+
+          {subscription.status === 'trialing' && subscription.trialEnd && (
+            <div className="subscription-detail">Trial ends {formatDate(subscription.trialEnd)}</div>
+          )}
+
+          {isLive(subscription) && (
+            <div className="subscription-detail">
+              {subscription.cancelAtPeriodEnd ? 'Ends' : 'Renews'} {formatDate(subscription.currentPeriodEnd)}
+            </div>
+          )}
+
+          {subscription.status === 'past_due' && (
+            <div className="subscription-detail subscription-warning">
+              Last payment failed. We'll retry
+              {subscription.nextBillingAt ? ` on ${formatDate(subscription.nextBillingAt)}` : ''}.
+            </div>
+          )}
+
+          {subscription.credit.minorUnits > 0 && (
+            <div className="subscription-detail">
+              Credit: {formatMoney(subscription.credit)}
+            </div>
+          )}
+
+          {isLive(subscription) && (
+            <div className="subscription-actions">
+              {subscription.cancelAtPeriodEnd ? (
+                <button
+                  onClick={() => runAction(() => mockResume(subscription))}
+                  disabled={working}
+                  className="payment-button payment-button-secondary"
+                >
+                  Keep Subscription
+                </button>
+              ) : (
+                <button
+                  onClick={() => runAction(() => mockCancel(subscription), onCancelled)}
+                  disabled={working}
+                  className="payment-button payment-button-secondary"
+                >
+                  Cancel Subscription
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="subscription-plans">
+        {plans.map((plan) => {
+          const isCurrent = !!subscription && isLive(subscription) && subscription.planId === plan.id;
+
+          return (
+            <div key={plan.id} className={`subscription-plan ${isCurrent ? 'current' : ''}`}>
+              <div className="subscription-plan-name">{plan.name}</div>
+              <div className="subscription-plan-price">
+                {formatMoney(plan.price)} / {formatInterval(plan)}
+              </div>
+              {plan.trialDays > 0 && !subscription && (
+                <div className="subscription-plan-trial">{plan.trialDays}-day free trial</div>
+              )}
+              <button
+                onClick={() => handleSelectPlan(plan)}
+                disabled={working || isCurrent}
+                className="payment-button payment-button-primary"
+              >
+                {isCurrent
+                  ? 'Current Plan'
+                  : subscription && isLive(subscription)
+                    ? 'Switch Plan'
+                    : 'Subscribe'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Whether a subscription can still be billed
+ */
+function isLive(subscription: Subscription): boolean {
+  return ['trialing', 'active', 'past_due'].includes(subscription.status);
+}
+
+/**
+ * Mock subscriptions for development, by subscriber ID
+ */
+const mockSubscriptions = new Map<string, Subscription>();
+
+/**
+ * Mock plans for development
+ */
+async function mockGetPlans(): Promise<Plan[]> {
+  await new Promise((resolve) => setTimeout(resolve, 300));
+
+  const now = new Date();
+  return [
+    {
+      id: 'premium-monthly',
+      name: 'Monthly Premium',
+      price: moneyFromMajor(9.99, 'USD'),
+      interval: 'month',
+      intervalCount: 1,
+      trialDays: 7,
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    },
+    {
+      id: 'premium-yearly',
+      name: 'Yearly Premium',
+      price: moneyFromMajor(99.99, 'USD'),
+      interval: 'year',
+      intervalCount: 1,
+      trialDays: 0,
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    },
+  ];
+}
+
+/**
+ * Mock subscription lookup for development
+ * Replace with actual API call in production
+ */
+async function mockGetSubscription(subscriberId: string): Promise<Subscription | null> {
+  await new Promise((resolve) => setTimeout(resolve, 300));
+  return mockSubscriptions.get(subscriberId) || null;
+}
+
+/**
+ * Mock subscribe for development
+ */
+async function mockSubscribe(
+  subscriberId: string,
+  plan: Plan,
+  paymentMethod: PaymentMethod
+): Promise<SubscriptionResult> {
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+
+  const now = new Date();
+  const periodEnd = new Date(now);
+  if (plan.trialDays > 0) {
+    periodEnd.setDate(periodEnd.getDate() + plan.trialDays);
+  } else if (plan.interval === 'year') {
+    periodEnd.setFullYear(periodEnd.getFullYear() + plan.intervalCount);
+  } else {
+    periodEnd.setMonth(periodEnd.getMonth() + plan.intervalCount);
+  }
+
+  const subscription: Subscription = {
+    id: `sub_${Date.now()}`,
+    subscriberId,
+    planId: plan.id,
+    status: plan.trialDays > 0 ? 'trialing' : 'active',
+    paymentMethod,
+    currentPeriodStart: now,
+    currentPeriodEnd: periodEnd,
+    trialEnd: plan.trialDays > 0 ? periodEnd : undefined,
+    cancelAtPeriodEnd: false,
+    nextBillingAt: periodEnd,
+    failedAttempts: 0,
+    credit: zeroMoney(plan.price.currency),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  mockSubscriptions.set(subscriberId, subscription);
+  return { success: true, subscription };
+}
+
+/**
+ * Mock plan change for development (no proration)
+ */
+async function mockChangePlan(subscription: Subscription, plan: Plan): Promise<SubscriptionResult> {
+  return mockUpdate(subscription, { planId: plan.id });
+}
+
+/**
+ * Mock cancellation at period end for development
+ */
+async function mockCancel(subscription: Subscription): Promise<SubscriptionResult> {
+  return mockUpdate(subscription, { cancelAtPeriodEnd: true });
+}
+
+/**
+ * Mock resume for development
+ */
+async function mockResume(subscription: Subscription): Promise<SubscriptionResult> {
+  return mockUpdate(subscription, { cancelAtPeriodEnd: false });
+}
+
+/**
+ * Apply a mock subscription update after a simulated network delay
+ */
+async function mockUpdate(
+  subscription: Subscription,
+  updates: Partial<Subscription>
+): Promise<SubscriptionResult> {
+  await new Promise((resolve) => setTimeout(resolve, 500));
+
+  const updated = { ...subscription, ...updates, updatedAt: new Date() };
+  mockSubscriptions.set(subscription.subscriberId, updated);
+  return { success: true, subscription: updated };
+}
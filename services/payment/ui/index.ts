@@ -11,3 +11,6 @@ export type { PaymentHistoryProps } from './PaymentHistory';
 
 export { BalanceDisplay } from './BalanceDisplay';
 export type { BalanceDisplayProps } from './BalanceDisplay';
+
+export { SubscriptionManager } from './SubscriptionManager';
+export type { SubscriptionManagerProps } from './SubscriptionManager';
@@ -77,6 +77,12 @@ export interface DatabaseConnection {
   connect(): Promise<void>;
   disconnect(): Promise<void>;
   query<T = any>(sql: string, params?: any[]): Promise<T>;
+
+  /**
+   * Run a unit of work in a single database transaction
+   * Queries issued through `tx` commit together when `fn` resolves and roll back if it throws
+   */
+  transaction<T>(fn: (tx: DatabaseConnection) => Promise<T>): Promise<T>;
 }
 
 export interface Logger {